@@ -0,0 +1,127 @@
+// Regenerates one denied-party list in src/data/denied-parties from a CSV export of the list
+// (columns: name and optionally aliases,type,countries,programmes,reference), for example the OFAC SDN files from
+// https://sanctionslist.ofac.treas.gov, the EU Financial Sanctions Files, the UK Sanctions List or the Entity
+// List rows of the trade.gov Consolidated Screening List, reduced to those columns.
+// Aliases, countries and programmes are separated by semicolons; countries are ISO 3166-1 alpha-2 codes.
+// Rows of the same name are merged, so a list exported with one row per alias imports as one party.
+//
+// Usage: node scripts/import-denied-parties.mjs <ofac-sdn|eu-consolidated|uk-sanctions|us-entity-list> path/to/list.csv "Source and date"
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const outputDir = join(dirname(fileURLToPath(import.meta.url)), '..', 'src', 'data', 'denied-parties');
+
+const LISTS = {
+  'ofac-sdn': { constant: 'OFAC_SDN', download: 'the OFAC SDN CSV files' },
+  'eu-consolidated': { constant: 'EU_CONSOLIDATED', download: 'the EU Financial Sanctions Files' },
+  'uk-sanctions': { constant: 'UK_SANCTIONS', download: 'the UK Sanctions List CSV' },
+  'us-entity-list': { constant: 'US_ENTITY_LIST', download: 'the Consolidated Screening List CSV' },
+};
+
+const PARTY_TYPES = ['entity', 'individual', 'vessel'];
+
+function parseCsv(text) {
+  const rows = [];
+  let row = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+const escape = text => text.trim().replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+const quoteAll = values => `[${values.map(value => `'${escape(value)}'`).join(', ')}]`;
+
+const [listId, csvPath, source] = process.argv.slice(2);
+const list = LISTS[listId];
+if (!list || !csvPath || !source) {
+  console.error('Usage: node scripts/import-denied-parties.mjs <ofac-sdn|eu-consolidated|uk-sanctions|us-entity-list> path/to/list.csv "Source and date"');
+  process.exit(1);
+}
+
+const [headerRow, ...rows] = parseCsv(readFileSync(csvPath, 'utf8'));
+const optionalColumn = name => headerRow.findIndex(cell => cell.trim().toLowerCase() === name);
+const nameIndex = optionalColumn('name');
+if (nameIndex === -1) throw new Error(`Missing column "name" in ${csvPath}`);
+const aliasesIndex = optionalColumn('aliases');
+const typeIndex = optionalColumn('type');
+const countriesIndex = optionalColumn('countries');
+const programmesIndex = optionalColumn('programmes');
+const referenceIndex = optionalColumn('reference');
+
+const splitList = text => (text || '').split(';').map(value => value.trim()).filter(Boolean);
+
+const parties = new Map();
+for (const row of rows) {
+  const name = row[nameIndex].trim();
+  if (!name) continue;
+
+  const party = parties.get(name) || { name, aliases: new Set(), countries: new Set(), programmes: new Set() };
+  splitList(row[aliasesIndex]).filter(alias => alias !== name).forEach(alias => party.aliases.add(alias));
+  splitList(row[countriesIndex]).map(code => code.toUpperCase()).filter(code => /^[A-Z]{2}$/.test(code)).forEach(code => party.countries.add(code));
+  splitList(row[programmesIndex]).forEach(programme => party.programmes.add(programme));
+
+  const type = row[typeIndex]?.trim().toLowerCase();
+  party.type = party.type || (PARTY_TYPES.includes(type) ? type : 'entity');
+  party.reference = party.reference || row[referenceIndex]?.trim() || undefined;
+  parties.set(name, party);
+}
+
+const sorted = [...parties.values()].sort((a, b) => a.name.localeCompare(b.name));
+
+const lines = [
+  `import { DeniedPartyList } from './types';`,
+  '',
+  `// Regenerate or extend with scripts/import-denied-parties.mjs from ${list.download}.`,
+  `export const ${list.constant}: DeniedPartyList = {`,
+  `  source: '${escape(source)}',`,
+  '  parties: [',
+];
+sorted.forEach((party, index) => {
+  lines.push('    {');
+  if (party.reference) lines.push(`      reference: '${escape(party.reference)}',`);
+  lines.push(
+    `      name: '${escape(party.name)}',`,
+    `      aliases: ${quoteAll([...party.aliases])},`,
+    `      type: '${party.type}',`,
+    `      countries: ${quoteAll([...party.countries])},`,
+    `      programmes: ${quoteAll([...party.programmes])}`,
+    index === sorted.length - 1 ? '    }' : '    },'
+  );
+});
+lines.push('  ]', '};', '');
+
+writeFileSync(join(outputDir, `${listId}.ts`), lines.join('\n'));
+console.log(`Imported ${sorted.length} parties into ${listId}.ts`);
@@ -0,0 +1,104 @@
+// Regenerates src/data/hs2022/headings.ts and subheadings.ts from the WCO HS 2022 nomenclature
+// published as CSV (columns: section,hscode,description,parent,level), for example
+// https://github.com/datasets/harmonized-system/blob/main/data/harmonized-system.csv
+//
+// Usage: node scripts/import-hs-nomenclature.mjs path/to/harmonized-system.csv [chapter ...]
+// Without chapters every chapter in the file is imported.
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const outputDir = join(dirname(fileURLToPath(import.meta.url)), '..', 'src', 'data', 'hs2022');
+
+function parseCsv(text) {
+  const rows = [];
+  let row = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+function renderTable(name, header, entries) {
+  const lines = [`import { HSDescriptionTable } from './types';`, '', ...header, `export const ${name}: HSDescriptionTable = {`];
+  let group = '';
+  for (const [code, description] of entries) {
+    const chapter = code.slice(0, 2);
+    if (chapter !== group) {
+      if (group) lines.push('');
+      lines.push(`  // Chapter ${chapter}`);
+      group = chapter;
+    }
+    lines.push(`  '${code}': '${description.trim().replace(/\\/g, '\\\\').replace(/'/g, "\\'")}',`);
+  }
+  lines.push('};', '');
+  return lines.join('\n');
+}
+
+const [csvPath, ...chapters] = process.argv.slice(2);
+if (!csvPath) {
+  console.error('Usage: node scripts/import-hs-nomenclature.mjs path/to/harmonized-system.csv [chapter ...]');
+  process.exit(1);
+}
+
+const [headerRow, ...rows] = parseCsv(readFileSync(csvPath, 'utf8'));
+const column = name => {
+  const index = headerRow.indexOf(name);
+  if (index === -1) throw new Error(`Missing column "${name}" in ${csvPath}`);
+  return index;
+};
+const codeIndex = column('hscode');
+const descriptionIndex = column('description');
+
+const wanted = new Set(chapters.map(chapter => chapter.padStart(2, '0')));
+const selected = rows
+  .map(row => [row[codeIndex].trim(), row[descriptionIndex]])
+  .filter(([code]) => /^\d+$/.test(code) && (wanted.size === 0 || wanted.has(code.slice(0, 2))))
+  .sort(([a], [b]) => a.localeCompare(b));
+
+const headings = selected.filter(([code]) => code.length === 4);
+const subheadings = selected.filter(([code]) => code.length === 6);
+
+writeFileSync(join(outputDir, 'headings.ts'), renderTable('HS_HEADINGS', [
+  '// Chapters listed here are complete: every HS 2022 heading of the chapter is present.',
+  '// Chapters without any heading here are only validated at chapter level.',
+  '// Regenerate or extend with scripts/import-hs-nomenclature.mjs.',
+], headings));
+
+writeFileSync(join(outputDir, 'subheadings.ts'), renderTable('HS_SUBHEADINGS', [
+  '// Headings listed here are complete: every HS 2022 subheading of the heading is present.',
+  '// Headings without any subheading here are only validated at heading level.',
+], subheadings));
+
+console.log(`Imported ${headings.length} headings and ${subheadings.length} subheadings`);
@@ -0,0 +1,130 @@
+// Regenerates one national tariff schedule in src/data/tariffs from a CSV export of the
+// schedule (columns: code,description and optionally mfn,preferential), for example the HTSUS CSV from https://hts.usitc.gov,
+// the CN/TARIC nomenclature from the EU Customs and Tax portal or the DGFT ITC(HS) schedule.
+// Rows whose code is not the schedule's full national line length (headings, indents) are skipped.
+// Rates are copied as printed ('Free', '2.6%', '3.9¢/kg'); preferential rates are written as
+// "programme=rate" pairs separated by semicolons, e.g. "KORUS=Free; USMCA=Free".
+//
+// Usage: node scripts/import-tariff-schedule.mjs <us-hts|eu-cn|eu-taric|in-itc-hs> path/to/schedule.csv "Source and edition" [chapter ...]
+// Without chapters every chapter in the file is imported.
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const outputDir = join(dirname(fileURLToPath(import.meta.url)), '..', 'src', 'data', 'tariffs');
+
+const SCHEDULES = {
+  'us-hts': { constant: 'US_HTS', digits: 10, noun: '10-digit HTSUS line' },
+  'eu-cn': { constant: 'EU_CN', digits: 8, noun: '8-digit CN subheading' },
+  'eu-taric': { constant: 'EU_TARIC', digits: 10, noun: '10-digit TARIC code' },
+  'in-itc-hs': { constant: 'IN_ITC_HS', digits: 8, noun: '8-digit ITC-HS line' },
+};
+
+function parseCsv(text) {
+  const rows = [];
+  let row = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+const escape = text => text.trim().replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+
+const [scheduleId, csvPath, source, ...chapters] = process.argv.slice(2);
+const schedule = SCHEDULES[scheduleId];
+if (!schedule || !csvPath || !source) {
+  console.error('Usage: node scripts/import-tariff-schedule.mjs <us-hts|eu-cn|eu-taric|in-itc-hs> path/to/schedule.csv "Source and edition" [chapter ...]');
+  process.exit(1);
+}
+
+const [headerRow, ...rows] = parseCsv(readFileSync(csvPath, 'utf8'));
+const column = name => {
+  const index = headerRow.findIndex(cell => cell.trim().toLowerCase() === name);
+  if (index === -1) throw new Error(`Missing column "${name}" in ${csvPath}`);
+  return index;
+};
+const optionalColumn = name => headerRow.findIndex(cell => cell.trim().toLowerCase() === name);
+const codeIndex = column('code');
+const descriptionIndex = column('description');
+const mfnIndex = optionalColumn('mfn');
+const preferentialIndex = optionalColumn('preferential');
+
+function parsePreferential(text) {
+  return (text || '')
+    .split(';')
+    .map(pair => pair.split('=').map(part => part.trim()))
+    .filter(([programme, rate]) => programme && rate);
+}
+
+const wanted = new Set(chapters.map(chapter => chapter.padStart(2, '0')));
+const selected = rows
+  .map(row => [row[codeIndex].replace(/\D/g, ''), row[descriptionIndex], row[mfnIndex]?.trim(), parsePreferential(row[preferentialIndex])])
+  .filter(([code]) => code.length === schedule.digits && (wanted.size === 0 || wanted.has(code.slice(0, 2))))
+  .sort(([a], [b]) => a.localeCompare(b));
+
+const lines = [
+  `import { TariffSchedule } from './types';`,
+  '',
+  `// HS subheadings listed here are complete: every ${schedule.noun} under them is present.`,
+  '// Subheadings without any line here are only validated at HS level.',
+  '// Regenerate or extend with scripts/import-tariff-schedule.mjs.',
+  `export const ${schedule.constant}: TariffSchedule = {`,
+  `  source: '${escape(source)}',`,
+  '  lines: {',
+];
+function pushGrouped(entries, render) {
+  let group = '';
+  for (const entry of entries) {
+    const chapter = entry[0].slice(0, 2);
+    if (chapter !== group) {
+      if (group) lines.push('');
+      lines.push(`    // Chapter ${chapter}`);
+      group = chapter;
+    }
+    lines.push(render(entry));
+  }
+}
+
+pushGrouped(selected, ([code, description]) => `    '${code}': '${escape(description)}',`);
+lines.push('  },', '  rates: {');
+pushGrouped(selected.filter(([, , mfn]) => mfn), ([code, , mfn, preferential]) => {
+  const special = preferential.map(([programme, rate]) => `'${escape(programme)}': '${escape(rate)}'`).join(', ');
+  return `    '${code}': { mfn: '${escape(mfn)}'${special ? `, preferential: { ${special} }` : ''} },`;
+});
+lines.push('  },', '};', '');
+
+writeFileSync(join(outputDir, `${scheduleId}.ts`), lines.join('\n'));
+const rated = selected.filter(([, , mfn]) => mfn).length;
+console.log(`Imported ${selected.length} ${schedule.noun}s (${rated} with rates) into ${scheduleId}.ts`);
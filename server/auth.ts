@@ -0,0 +1,84 @@
+import type { IncomingMessage } from 'node:http';
+import { config, Endpoint, supabaseAdmin } from './config';
+import { HttpError } from './http';
+
+export interface ApiUser {
+  id: string;
+  email?: string;
+}
+
+export interface QuotaStatus {
+  limit: number;
+  used: number;
+  // The api_usage row recording this call
+  usageId: number;
+}
+
+// Verifies the Supabase access token the browser sends as a bearer token
+export async function authenticate(req: IncomingMessage): Promise<ApiUser> {
+  const token = req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (!token) {
+    throw new HttpError(401, 'Sign in to use the classification API');
+  }
+
+  const { data, error } = await supabaseAdmin.auth.getUser(token);
+  if (error || !data.user) {
+    throw new HttpError(401, 'Session expired or invalid; sign in again');
+  }
+
+  return { id: data.user.id, email: data.user.email };
+}
+
+// Sign-up is open, so a valid session alone does not entitle anyone to the server's LLM keys
+async function requireClassifierRole(user: ApiUser): Promise<void> {
+  const { data, error } = await supabaseAdmin
+    .from('organization_members')
+    .select('role')
+    .eq('user_id', user.id)
+    .maybeSingle<{ role: string }>();
+
+  if (error) {
+    console.error('Membership error:', error);
+    throw new HttpError(503, 'Unable to check organization membership');
+  }
+
+  if (!data || !['classifier', 'admin'].includes(data.role)) {
+    throw new HttpError(403, 'Only classifiers and admins of an organization can use the classification API');
+  }
+}
+
+// Counts the call against the user's rolling 24-hour quota, rejecting it once the limit is reached;
+// units is what the call costs, e.g. the number of texts in an embed request
+export async function consumeQuota(user: ApiUser, endpoint: Endpoint, units = 1): Promise<QuotaStatus> {
+  await requireClassifierRole(user);
+
+  const limit = config.quotas[endpoint];
+  const { data, error } = await supabaseAdmin
+    .rpc('consume_api_quota', { p_user_id: user.id, p_endpoint: endpoint, p_limit: limit, p_units: units })
+    .single<{ allowed: boolean; used: number; usage_id: number | null }>();
+
+  if (error || !data) {
+    console.error('Quota error:', error);
+    throw new HttpError(503, 'Unable to check usage quota');
+  }
+
+  if (!data.allowed || data.usage_id === null) {
+    throw new HttpError(429, `Daily ${endpoint} quota of ${limit} reached; try again later`);
+  }
+
+  return { limit, used: data.used, usageId: data.usage_id };
+}
+
+// Runs the provider call a quota was consumed for and gives the units back if it fails, so an
+// outage does not use up anyone's quota. A failed refund is only logged; the call's error is rethrown.
+export async function refundOnFailure<T>(quota: QuotaStatus, call: () => Promise<T>): Promise<T> {
+  try {
+    return await call();
+  } catch (error) {
+    const { error: refundError } = await supabaseAdmin.from('api_usage').delete().eq('id', quota.usageId);
+    if (refundError) {
+      console.error('Quota refund error:', refundError);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,63 @@
+// Embeds the product names of classifications that have no embedding from the configured model:
+// rows saved before embeddings were enabled, rows whose embedding failed on save, and every row
+// after switching EMBEDDING_MODEL. Safe to re-run; each pass only picks up what is missing.
+//
+// Usage: npm run backfill:embeddings
+// Uses the API server's environment (SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, EMBEDDING_*).
+
+import { embeddings, supabaseAdmin } from './config';
+
+const BATCH_SIZE = 100;
+
+async function backfill(): Promise<number> {
+  if (!embeddings.isEmbeddingConfigured()) {
+    throw new Error('Embeddings are not configured; set EMBEDDING_PROVIDER and its credentials');
+  }
+
+  const provider = embeddings.getEmbeddingProvider();
+  let total = 0;
+
+  for (;;) {
+    const { data, error } = await supabaseAdmin.rpc('classifications_missing_embeddings', {
+      embedding_model: provider.model,
+      batch_size: BATCH_SIZE,
+    });
+
+    if (error) {
+      throw new Error(`Failed to list classifications: ${error.message}`);
+    }
+
+    const rows: Array<{ id: string; org_id: string; product_name: string }> = data || [];
+    if (rows.length === 0) {
+      return total;
+    }
+
+    const vectors = await provider.embed(rows.map(row => row.product_name));
+    // Replaces any embedding from a previous model
+    const { error: saveError } = await supabaseAdmin
+      .from('classification_embeddings')
+      .upsert(rows.map((row, index) => ({
+        classification_id: row.id,
+        org_id: row.org_id,
+        model: provider.model,
+        embedding: vectors[index],
+        created_at: new Date().toISOString(),
+      })), { onConflict: 'classification_id' });
+
+    if (saveError) {
+      throw new Error(`Failed to save embeddings: ${saveError.message}`);
+    }
+
+    total += rows.length;
+    console.log(`Embedded ${total} classifications with ${provider.model}`);
+  }
+}
+
+backfill()
+  .then(total => {
+    console.log(total === 0 ? 'Every classification already has an embedding' : `Done: ${total} classifications embedded`);
+  })
+  .catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -0,0 +1,43 @@
+import { createClient } from '@supabase/supabase-js';
+import { createEmbeddingRegistry, createProviderRegistry } from '../src/services/llm';
+import { createFileFixtureStore } from './fixtureStore';
+
+export type Endpoint = 'classify' | 'analyze-company' | 'embed';
+
+function required(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`Missing ${name}. The API server needs it in its environment.`);
+  }
+  return value;
+}
+
+function positiveInteger(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+export const config = {
+  port: positiveInteger('PORT', 8787),
+  // Comma-separated list of browser origins allowed to call the API
+  allowedOrigins: (process.env.ALLOWED_ORIGINS || 'http://localhost:5173').split(',').map(origin => origin.trim()),
+  quotas: {
+    classify: positiveInteger('QUOTA_CLASSIFY_PER_DAY', 500),
+    'analyze-company': positiveInteger('QUOTA_ANALYZE_COMPANY_PER_DAY', 50),
+    // Counted per text; every saved classification and every similarity lookup embeds one
+    embed: positiveInteger('QUOTA_EMBED_PER_DAY', 2000),
+  } satisfies Record<Endpoint, number>,
+};
+
+// LLM credentials use the same names as the browser variables without the VITE_ prefix;
+// LLM_FIXTURES is a directory here, so the replay provider can also record
+export const providers = createProviderRegistry(process.env, '', createFileFixtureStore);
+export const embeddings = createEmbeddingRegistry(process.env);
+
+// The service role verifies access tokens and records quota usage; it never leaves this process
+export const supabaseAdmin = createClient(required('SUPABASE_URL'), required('SUPABASE_SERVICE_ROLE_KEY'), {
+  auth: {
+    persistSession: false,
+    autoRefreshToken: false,
+  },
+});
@@ -0,0 +1,186 @@
+// Runs classifyProduct over a labelled golden dataset and reports accuracy at 2/4/6/8 digits,
+// dual-use precision and recall, and confidence calibration. Save a report with --out and pass it
+// to a later run with --compare to see what a model, prompt or temperature change did.
+//
+// Usage: npm run evaluate -- path/to/golden.jsonl [--provider local] [--temperature 0.1]
+//          [--limit 50] [--out report.json] [--compare previous.json]
+//
+// Each dataset line is a JSON object:
+//   {"id": "laptop-1", "productName": "...", "hsCode": "8471.30", "isDualUse": false, "jurisdiction": "US_HTS"}
+// id, isDualUse, jurisdiction, customerName and clarifications are optional. Provider credentials
+// use the API server's variable names (LLM_PROVIDER, OPENAI_API_KEY, LOCAL_LLM_BASE_URL, ...).
+//
+// To run offline, record once and replay afterwards; the fixtures directory can be committed:
+//   LLM_FIXTURES=server/fixtures/llm LLM_REPLAY_MODE=record npm run evaluate -- golden.jsonl --provider replay
+//   LLM_FIXTURES=server/fixtures/llm npm run evaluate -- golden.jsonl --provider replay
+// or answer from a script with LLM_FAKE_SCRIPT=default and --provider fake.
+
+import { execFileSync } from 'node:child_process';
+import { readFileSync, writeFileSync } from 'node:fs';
+import { classifyProduct } from '../src/services/openai';
+import { createProviderRegistry, isProviderId, LLMProvider, PROVIDER_LABELS } from '../src/services/llm';
+import {
+  CaseResult,
+  computeMetrics,
+  countMatchingDigits,
+  EvaluationCase,
+  EvaluationReport,
+  formatReport,
+  hashDataset,
+  parseDataset
+} from './evaluation';
+import { createFileFixtureStore } from './fixtureStore';
+
+interface Options {
+  datasetPath: string;
+  provider?: string;
+  temperature: number;
+  limit?: number;
+  out?: string;
+  compare?: string;
+}
+
+function parseArgs(args: string[]): Options {
+  const options: Partial<Options> = { temperature: 0.1 };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = () => {
+      const next = args[++i];
+      if (next === undefined) throw new Error(`${arg} needs a value`);
+      return next;
+    };
+
+    switch (arg) {
+      case '--provider':
+        options.provider = value();
+        break;
+      case '--temperature':
+        options.temperature = Number(value());
+        break;
+      case '--limit':
+        options.limit = Number(value());
+        break;
+      case '--out':
+        options.out = value();
+        break;
+      case '--compare':
+        options.compare = value();
+        break;
+      default:
+        if (arg.startsWith('--') || options.datasetPath) {
+          throw new Error(`Unexpected argument ${arg}`);
+        }
+        options.datasetPath = arg;
+    }
+  }
+
+  if (!options.datasetPath) {
+    throw new Error('Usage: npm run evaluate -- path/to/golden.jsonl [--provider id] [--temperature n] [--limit n] [--out file] [--compare file]');
+  }
+  if (!Number.isFinite(options.temperature) || options.temperature! < 0 || options.temperature! > 2) {
+    throw new Error('--temperature must be a number from 0 to 2');
+  }
+  if (options.limit !== undefined && (!Number.isInteger(options.limit) || options.limit < 1)) {
+    throw new Error('--limit must be a positive whole number');
+  }
+  return options as Options;
+}
+
+// The commit the prompt came from, marked when the working tree has uncommitted changes
+function getRevision(): string | undefined {
+  try {
+    const commit = execFileSync('git', ['rev-parse', '--short', 'HEAD'], { encoding: 'utf8' }).trim();
+    const dirty = execFileSync('git', ['status', '--porcelain'], { encoding: 'utf8' }).trim();
+    return dirty ? `${commit}-dirty` : commit;
+  } catch {
+    return undefined;
+  }
+}
+
+async function evaluate(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  const contents = readFileSync(options.datasetPath, 'utf8');
+  const cases = parseDataset(contents).slice(0, options.limit);
+
+  const registry = createProviderRegistry(process.env, '', createFileFixtureStore);
+  if (options.provider !== undefined && !isProviderId(options.provider)) {
+    throw new Error(`Unknown provider ${options.provider}`);
+  }
+  const providerId = options.provider ?? registry.getDefaultProviderId();
+  if (!registry.isProviderConfigured(providerId)) {
+    throw new Error(`${PROVIDER_LABELS[providerId]} is not configured; set its variables in the environment`);
+  }
+  const llm = registry.getProvider(providerId);
+
+  const startedAt = new Date();
+  const results: CaseResult[] = [];
+
+  // One case at a time: rate limits and local models both prefer it, and the order stays stable
+  for (const [index, testCase] of cases.entries()) {
+    const result = await runCase(testCase, options.temperature, llm);
+    results.push(result);
+    const outcome = result.error ? `failed: ${result.error}` : `${result.predictedCode} (expected ${result.expectedCode})`;
+    console.log(`[${index + 1}/${cases.length}] ${testCase.id}: ${outcome}`);
+  }
+
+  const report: EvaluationReport = {
+    dataset: { path: options.datasetPath, sha256: hashDataset(contents), cases: cases.length },
+    settings: { provider: providerId, model: llm.model, temperature: options.temperature, revision: getRevision() },
+    startedAt: startedAt.toISOString(),
+    durationMs: Date.now() - startedAt.getTime(),
+    metrics: computeMetrics(results),
+    results
+  };
+
+  const previous = options.compare
+    ? JSON.parse(readFileSync(options.compare, 'utf8')) as EvaluationReport
+    : undefined;
+
+  console.log('');
+  console.log(formatReport(report, previous));
+
+  if (options.out) {
+    writeFileSync(options.out, `${JSON.stringify(report, null, 2)}\n`);
+    console.log(`\nReport written to ${options.out}`);
+  }
+}
+
+async function runCase(
+  testCase: EvaluationCase,
+  temperature: number,
+  llm: LLMProvider
+): Promise<CaseResult> {
+  const started = Date.now();
+  const base = { id: testCase.id, expectedCode: testCase.hsCode, expectedDualUse: testCase.isDualUse };
+
+  try {
+    // No precedents, so results depend on the model and prompt alone
+    const classification = await classifyProduct(testCase.productName, testCase.customerName, {
+      llm,
+      temperature,
+      jurisdiction: testCase.jurisdiction,
+      clarifications: testCase.clarifications,
+      precedents: []
+    });
+    return {
+      ...base,
+      predictedCode: classification.hsCode,
+      confidence: classification.confidence,
+      predictedDualUse: classification.isDualUse,
+      matchingDigits: countMatchingDigits(testCase.hsCode, classification.hsCode),
+      durationMs: Date.now() - started
+    };
+  } catch (error) {
+    return {
+      ...base,
+      matchingDigits: 0,
+      error: error instanceof Error ? error.message : String(error),
+      durationMs: Date.now() - started
+    };
+  }
+}
+
+evaluate().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
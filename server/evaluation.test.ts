@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { CaseResult, computeMetrics, countMatchingDigits, parseDataset } from './evaluation';
+
+function result(expectedCode: string, predictedCode: string, fields: Partial<CaseResult> = {}): CaseResult {
+  return {
+    id: `${expectedCode}-${predictedCode}`,
+    expectedCode,
+    predictedCode,
+    matchingDigits: countMatchingDigits(expectedCode, predictedCode),
+    durationMs: 0,
+    ...fields
+  };
+}
+
+describe('parseDataset', () => {
+  it('skips blank and comment lines and numbers unnamed cases by line', () => {
+    const cases = parseDataset('# golden set\n\n{"productName":" Laptop ","hsCode":"8471.30"}\n{"id":"x","productName":"Drone","hsCode":"88"}\n');
+
+    expect(cases).toEqual([
+      expect.objectContaining({ id: 'line-3', productName: 'Laptop', hsCode: '8471.30' }),
+      expect.objectContaining({ id: 'x', productName: 'Drone', hsCode: '88' })
+    ]);
+  });
+
+  it('names the line of an invalid case', () => {
+    expect(() => parseDataset('{"productName":"Laptop"')).toThrow('line 1: not valid JSON');
+    expect(() => parseDataset('\n{"productName":"Laptop","hsCode":"8"}')).toThrow('line 2: hsCode needs at least the 2-digit chapter');
+    expect(() => parseDataset('{"productName":"A","hsCode":"84","jurisdiction":"CA"}')).toThrow(/^line 1: jurisdiction must be one of/);
+    expect(() => parseDataset('{"id":"a","productName":"A","hsCode":"84"}\n{"id":"a","productName":"B","hsCode":"85"}'))
+      .toThrow('line 2: duplicate id a');
+  });
+});
+
+describe('countMatchingDigits', () => {
+  it('compares digits and ignores the dots', () => {
+    expect(countMatchingDigits('8471.30.01', '847130.99')).toBe(6);
+    expect(countMatchingDigits('8471', '8415.10')).toBe(2);
+  });
+});
+
+describe('computeMetrics', () => {
+  it('reports accuracy per level over the cases that have that many digits', () => {
+    const metrics = computeMetrics([
+      result('8471.30.01', '8471.30.01.00'),
+      result('8471.30', '8471.41.01'),
+      result('85', '8517.62'),
+      result('8471.30.01', '', { error: 'Rate limit reached' })
+    ]);
+
+    expect(metrics.failed).toBe(1);
+    expect(metrics.accuracy.map(level => [level.level, level.evaluated, level.correct])).toEqual([
+      [2, 4, 3],
+      [4, 3, 2],
+      [6, 3, 1],
+      [8, 2, 1]
+    ]);
+  });
+
+  it('scores dual-use flags and calibration on the cases that were classified', () => {
+    const metrics = computeMetrics([
+      result('8471.30', '8471.30', { confidence: 95, expectedDualUse: true, predictedDualUse: true }),
+      result('8471.30', '8471.41', { confidence: 95, expectedDualUse: false, predictedDualUse: true }),
+      result('8471.30', '8471.30', { confidence: 100, expectedDualUse: true, predictedDualUse: false }),
+      result('8471.30', '', { confidence: 90, expectedDualUse: true, error: 'Timed out' })
+    ]);
+
+    expect(metrics.dualUse).toMatchObject({ truePositives: 1, falsePositives: 1, falseNegatives: 1, precision: 0.5, recall: 0.5 });
+    expect(metrics.calibration.bins[9]).toMatchObject({ from: 90, to: 100, count: 3 });
+    expect(metrics.calibration.expectedCalibrationError).toBeCloseTo(0.3);
+    expect(metrics.calibration.brierScore).toBeCloseTo((0.05 ** 2 + 0.95 ** 2) / 3);
+  });
+
+  it('has no ratios without cases', () => {
+    const metrics = computeMetrics([]);
+
+    expect(metrics.accuracy.every(level => level.accuracy === null)).toBe(true);
+    expect(metrics.calibration).toMatchObject({ expectedCalibrationError: null, brierScore: null });
+  });
+});
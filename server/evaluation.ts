@@ -0,0 +1,304 @@
+import { createHash } from 'node:crypto';
+import type { ClarificationAnswer } from '../src/services/openai';
+import { isJurisdiction, Jurisdiction, JURISDICTIONS } from '../src/services/tariffs';
+
+// Code lengths accuracy is reported at: chapter, heading, subheading and the first national split
+export const DIGIT_LEVELS = [2, 4, 6, 8] as const;
+export type DigitLevel = typeof DIGIT_LEVELS[number];
+
+// A prediction is counted as correct for calibration when it matches the expected subheading
+const CALIBRATION_LEVEL: DigitLevel = 6;
+const CALIBRATION_BINS = 10;
+
+// One labelled product of the golden dataset (a line of the JSONL file)
+export interface EvaluationCase {
+  id: string;
+  productName: string;
+  customerName?: string;
+  jurisdiction?: Jurisdiction;
+  clarifications?: ClarificationAnswer[];
+  // The known code; as many digits as the labeller was sure of
+  hsCode: string;
+  // Unset when the labeller did not decide
+  isDualUse?: boolean;
+}
+
+export interface CaseResult {
+  id: string;
+  expectedCode: string;
+  predictedCode?: string;
+  confidence?: number;
+  expectedDualUse?: boolean;
+  predictedDualUse?: boolean;
+  // Leading digits the prediction shares with the expected code
+  matchingDigits: number;
+  error?: string;
+  durationMs: number;
+}
+
+export interface LevelAccuracy {
+  level: DigitLevel;
+  // Cases whose expected code has at least this many digits
+  evaluated: number;
+  correct: number;
+  accuracy: number | null;
+}
+
+export interface CalibrationBin {
+  // Confidence range, inclusive lower and exclusive upper bound (100 is in the last bin)
+  from: number;
+  to: number;
+  count: number;
+  meanConfidence: number | null;
+  accuracy: number | null;
+}
+
+export interface EvaluationMetrics {
+  cases: number;
+  failed: number;
+  accuracy: LevelAccuracy[];
+  dualUse: {
+    truePositives: number;
+    falsePositives: number;
+    falseNegatives: number;
+    trueNegatives: number;
+    precision: number | null;
+    recall: number | null;
+  };
+  calibration: {
+    bins: CalibrationBin[];
+    // Expected calibration error: mean gap between stated confidence and accuracy, weighted by bin size
+    expectedCalibrationError: number | null;
+    brierScore: number | null;
+  };
+}
+
+// Written as JSON; two reports are comparable when their dataset hashes match
+export interface EvaluationReport {
+  dataset: { path: string; sha256: string; cases: number };
+  settings: { provider: string; model: string; temperature: number; revision?: string };
+  startedAt: string;
+  durationMs: number;
+  metrics: EvaluationMetrics;
+  results: CaseResult[];
+}
+
+function digitsOf(hsCode: string): string {
+  return hsCode.replace(/\D/g, '');
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+export function hashDataset(contents: string): string {
+  return createHash('sha256').update(contents).digest('hex');
+}
+
+// Blank lines and lines starting with # are skipped; errors name the line so the file can be fixed
+export function parseDataset(contents: string): EvaluationCase[] {
+  const cases: EvaluationCase[] = [];
+  const ids = new Set<string>();
+
+  contents.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) return;
+
+    const where = `line ${index + 1}`;
+    let row: Record<string, unknown>;
+    try {
+      row = JSON.parse(trimmed);
+    } catch {
+      throw new Error(`${where}: not valid JSON`);
+    }
+
+    if (typeof row.productName !== 'string' || !row.productName.trim()) {
+      throw new Error(`${where}: productName is required`);
+    }
+    if (typeof row.hsCode !== 'string' || digitsOf(row.hsCode).length < 2) {
+      throw new Error(`${where}: hsCode needs at least the 2-digit chapter`);
+    }
+    if (row.jurisdiction !== undefined && !isJurisdiction(row.jurisdiction)) {
+      throw new Error(`${where}: jurisdiction must be one of ${JURISDICTIONS.join(', ')}`);
+    }
+    if (row.isDualUse !== undefined && typeof row.isDualUse !== 'boolean') {
+      throw new Error(`${where}: isDualUse must be true or false`);
+    }
+
+    // Ids keep results comparable when cases are added or reordered
+    const id = typeof row.id === 'string' && row.id.trim() ? row.id.trim() : `line-${index + 1}`;
+    if (ids.has(id)) {
+      throw new Error(`${where}: duplicate id ${id}`);
+    }
+    ids.add(id);
+
+    cases.push({
+      id,
+      productName: row.productName.trim(),
+      customerName: typeof row.customerName === 'string' ? row.customerName.trim() || undefined : undefined,
+      jurisdiction: row.jurisdiction as Jurisdiction | undefined,
+      clarifications: Array.isArray(row.clarifications) ? row.clarifications as ClarificationAnswer[] : undefined,
+      hsCode: row.hsCode,
+      isDualUse: row.isDualUse as boolean | undefined
+    });
+  });
+
+  return cases;
+}
+
+export function countMatchingDigits(expectedCode: string, predictedCode: string): number {
+  const expected = digitsOf(expectedCode);
+  const predicted = digitsOf(predictedCode);
+  let count = 0;
+  while (count < expected.length && count < predicted.length && expected[count] === predicted[count]) {
+    count++;
+  }
+  return count;
+}
+
+export function computeMetrics(results: CaseResult[]): EvaluationMetrics {
+  // Failed classifications count against accuracy but say nothing about dual-use or calibration
+  const accuracy = DIGIT_LEVELS.map((level): LevelAccuracy => {
+    const evaluated = results.filter(result => digitsOf(result.expectedCode).length >= level);
+    const correct = evaluated.filter(result => !result.error && result.matchingDigits >= level).length;
+    return { level, evaluated: evaluated.length, correct, accuracy: ratio(correct, evaluated.length) };
+  });
+
+  const labelled = results.filter(result => !result.error && result.expectedDualUse !== undefined);
+  const count = (expected: boolean, predicted: boolean) =>
+    labelled.filter(result => result.expectedDualUse === expected && result.predictedDualUse === predicted).length;
+  const truePositives = count(true, true);
+  const falsePositives = count(false, true);
+  const falseNegatives = count(true, false);
+
+  const scored = results.filter(result => !result.error && result.confidence !== undefined
+    && digitsOf(result.expectedCode).length >= CALIBRATION_LEVEL);
+  const isCorrect = (result: CaseResult) => (result.matchingDigits >= CALIBRATION_LEVEL ? 1 : 0);
+  const binWidth = 100 / CALIBRATION_BINS;
+  const bins = Array.from({ length: CALIBRATION_BINS }, (_, index): CalibrationBin => {
+    const from = index * binWidth;
+    const to = from + binWidth;
+    const members = scored.filter(result => {
+      const bin = Math.min(CALIBRATION_BINS - 1, Math.floor(result.confidence! / binWidth));
+      return bin === index;
+    });
+    return {
+      from,
+      to,
+      count: members.length,
+      meanConfidence: ratio(members.reduce((sum, result) => sum + result.confidence!, 0), members.length),
+      accuracy: ratio(members.reduce((sum, result) => sum + isCorrect(result), 0), members.length)
+    };
+  });
+
+  const expectedCalibrationError = scored.length > 0
+    ? bins.reduce((sum, bin) => bin.count > 0
+      ? sum + (bin.count / scored.length) * Math.abs(bin.accuracy! - bin.meanConfidence! / 100)
+      : sum, 0)
+    : null;
+  const brierScore = ratio(
+    scored.reduce((sum, result) => sum + (result.confidence! / 100 - isCorrect(result)) ** 2, 0),
+    scored.length
+  );
+
+  return {
+    cases: results.length,
+    failed: results.filter(result => result.error).length,
+    accuracy,
+    dualUse: {
+      truePositives,
+      falsePositives,
+      falseNegatives,
+      trueNegatives: count(false, false),
+      precision: ratio(truePositives, truePositives + falsePositives),
+      recall: ratio(truePositives, truePositives + falseNegatives)
+    },
+    calibration: { bins, expectedCalibrationError, brierScore }
+  };
+}
+
+function percent(value: number | null): string {
+  return value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`;
+}
+
+function decimal(value: number | null): string {
+  return value === null ? 'n/a' : value.toFixed(3);
+}
+
+// Signed change, or nothing when either side has no value
+function delta(current: number | null, previous: number | null, asPercent: boolean): string {
+  if (current === null || previous === null) return '';
+  const change = current - previous;
+  const text = asPercent ? `${(change * 100).toFixed(1)} pts` : change.toFixed(3);
+  return ` (${change >= 0 ? '+' : ''}${text})`;
+}
+
+export function formatReport(report: EvaluationReport, previous?: EvaluationReport): string {
+  const { metrics } = report;
+  const before = previous?.metrics;
+  const lines = [
+    `Dataset:  ${report.dataset.path} (${report.dataset.cases} cases, sha256 ${report.dataset.sha256.slice(0, 12)})`,
+    `Model:    ${report.settings.provider} ${report.settings.model}, temperature ${report.settings.temperature}`
+      + (report.settings.revision ? `, revision ${report.settings.revision}` : ''),
+    `Failed:   ${metrics.failed} of ${metrics.cases}`,
+    '',
+    'Exact-match accuracy'
+  ];
+
+  for (const level of metrics.accuracy) {
+    const earlier = before?.accuracy.find(entry => entry.level === level.level);
+    lines.push(`  ${level.level} digits  ${percent(level.accuracy).padStart(6)}  ${level.correct}/${level.evaluated}`
+      + delta(level.accuracy, earlier?.accuracy ?? null, true));
+  }
+
+  const { dualUse, calibration } = metrics;
+  lines.push(
+    '',
+    'Dual-use',
+    `  precision  ${percent(dualUse.precision).padStart(6)}${delta(dualUse.precision, before?.dualUse.precision ?? null, true)}`,
+    `  recall     ${percent(dualUse.recall).padStart(6)}${delta(dualUse.recall, before?.dualUse.recall ?? null, true)}`,
+    `  TP ${dualUse.truePositives}  FP ${dualUse.falsePositives}  FN ${dualUse.falseNegatives}  TN ${dualUse.trueNegatives}`,
+    '',
+    `Calibration (correct = ${CALIBRATION_LEVEL}-digit match)`,
+    `  ECE    ${decimal(calibration.expectedCalibrationError)}`
+      + delta(calibration.expectedCalibrationError, before?.calibration.expectedCalibrationError ?? null, false),
+    `  Brier  ${decimal(calibration.brierScore)}`
+      + delta(calibration.brierScore, before?.calibration.brierScore ?? null, false)
+  );
+  for (const bin of calibration.bins.filter(entry => entry.count > 0)) {
+    lines.push(`  ${`${bin.from}-${bin.to}%`.padEnd(8)} n=${String(bin.count).padEnd(4)} `
+      + `confidence ${percent(bin.meanConfidence! / 100)}  accuracy ${percent(bin.accuracy)}`);
+  }
+
+  if (previous) {
+    lines.push('', ...formatChangedCases(report, previous));
+  }
+  return lines.join('\n');
+}
+
+// Cases that became right or wrong at the subheading since the previous run
+function formatChangedCases(report: EvaluationReport, previous: EvaluationReport): string[] {
+  const notes = previous.dataset.sha256 === report.dataset.sha256
+    ? []
+    : ['The previous report used a different dataset; only cases with the same id are compared.'];
+  const earlier = new Map(previous.results.map(result => [result.id, result]));
+  const isRight = (result: CaseResult) => !result.error && result.matchingDigits >= CALIBRATION_LEVEL;
+  const fixed: string[] = [];
+  const broken: string[] = [];
+
+  for (const result of report.results) {
+    const before = earlier.get(result.id);
+    if (!before || isRight(before) === isRight(result)) continue;
+    (isRight(result) ? fixed : broken).push(
+      `  ${result.id}: ${before.predictedCode ?? 'failed'} → ${result.predictedCode ?? 'failed'} (expected ${result.expectedCode})`
+    );
+  }
+
+  return [
+    ...notes,
+    `Now correct at ${CALIBRATION_LEVEL} digits: ${fixed.length}`,
+    ...fixed,
+    `Now wrong at ${CALIBRATION_LEVEL} digits: ${broken.length}`,
+    ...broken
+  ];
+}
@@ -0,0 +1,23 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { FixtureStore, RecordedExchange } from '../src/services/llm';
+
+// One pretty-printed <hash>.json per prompt so recordings can be reviewed and committed like code.
+// The browser store reads the same files when the directory is served, e.g. copied to public/.
+export function createFileFixtureStore(directory: string): FixtureStore {
+  return {
+    location: directory,
+    async read(promptHash) {
+      try {
+        return JSON.parse(await readFile(join(directory, `${promptHash}.json`), 'utf8')) as RecordedExchange;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+    async write(exchange) {
+      await mkdir(directory, { recursive: true });
+      await writeFile(join(directory, `${exchange.promptHash}.json`), `${JSON.stringify(exchange, null, 2)}\n`);
+    },
+  };
+}
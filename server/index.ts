@@ -0,0 +1,111 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { analyzeCompanyProducts, classifyProduct } from '../src/services/openai';
+import { PROVIDER_IDS, PROVIDER_LABELS, ProviderId } from '../src/services/llm';
+import { authenticate, consumeQuota, QuotaStatus, refundOnFailure } from './auth';
+import { config, embeddings, providers } from './config';
+import { applyCors, HttpError, readJsonBody, sendJson } from './http';
+import { parseAnalyzeCompanyRequest, parseClassifyRequest, parseEmbedRequest } from './validation';
+
+function resolveProvider(id?: ProviderId) {
+  const providerId = id ?? providers.getDefaultProviderId();
+  if (!providers.isProviderConfigured(providerId)) {
+    throw new HttpError(400, `${PROVIDER_LABELS[providerId]} is not configured on the server`);
+  }
+  return providers.getProvider(providerId);
+}
+
+function quotaHeaders(quota: QuotaStatus): Record<string, string> {
+  return {
+    'X-Quota-Limit': String(quota.limit),
+    'X-Quota-Remaining': String(Math.max(0, quota.limit - quota.used)),
+  };
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const path = new URL(req.url || '/', 'http://localhost').pathname;
+
+  if (req.method === 'GET' && path === '/health') {
+    return sendJson(res, 200, { ok: true });
+  }
+
+  if (req.method === 'GET' && path === '/status') {
+    await authenticate(req);
+    return sendJson(res, 200, {
+      defaultProvider: providers.getDefaultProviderId(),
+      providers: PROVIDER_IDS.map(id => ({
+        id,
+        label: PROVIDER_LABELS[id],
+        model: providers.getProviderModel(id),
+        configured: providers.isProviderConfigured(id),
+      })),
+      embeddings: {
+        model: embeddings.getEmbeddingModel(),
+        configured: embeddings.isEmbeddingConfigured(),
+      },
+      quotas: config.quotas,
+    });
+  }
+
+  if (req.method === 'POST' && path === '/classify') {
+    const user = await authenticate(req);
+    const request = parseClassifyRequest(await readJsonBody(req));
+    const llm = resolveProvider(request.provider);
+    const quota = await consumeQuota(user, 'classify');
+    const classification = await refundOnFailure(quota, () => classifyProduct(request.productName, request.customerName, {
+      llm,
+      clarifications: request.clarifications,
+      jurisdiction: request.jurisdiction,
+      destinationCountry: request.destinationCountry,
+      precedents: request.precedents,
+    }));
+    return sendJson(res, 200, classification, quotaHeaders(quota));
+  }
+
+  if (req.method === 'POST' && path === '/analyze-company') {
+    const user = await authenticate(req);
+    const request = parseAnalyzeCompanyRequest(await readJsonBody(req));
+    const llm = resolveProvider(request.provider);
+    const quota = await consumeQuota(user, 'analyze-company');
+    const analysis = await refundOnFailure(quota, () => analyzeCompanyProducts(request.companyName, { llm }));
+    return sendJson(res, 200, analysis, quotaHeaders(quota));
+  }
+
+  if (req.method === 'POST' && path === '/embed') {
+    const user = await authenticate(req);
+    const request = parseEmbedRequest(await readJsonBody(req));
+    if (!embeddings.isEmbeddingConfigured()) {
+      throw new HttpError(400, 'Embeddings are not configured on the server');
+    }
+    const quota = await consumeQuota(user, 'embed', request.texts.length);
+    const provider = embeddings.getEmbeddingProvider();
+    const vectors = await refundOnFailure(quota, () => provider.embed(request.texts));
+    return sendJson(res, 200, { model: provider.model, embeddings: vectors }, quotaHeaders(quota));
+  }
+
+  throw new HttpError(404, `No route for ${req.method} ${path}`);
+}
+
+const server = createServer((req, res) => {
+  applyCors(req, res, config.allowedOrigins);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  handle(req, res).catch(error => {
+    if (error instanceof HttpError) {
+      sendJson(res, error.status, { error: error.message });
+      return;
+    }
+    // LLM and parsing failures surface as 502 with the message classifyProduct already wrapped
+    console.error('API error:', error);
+    sendJson(res, 502, { error: error instanceof Error ? error.message : 'Upstream request failed' });
+  });
+});
+
+server.listen(config.port, () => {
+  console.log(`HS classification API listening on http://localhost:${config.port}`);
+  console.log(`Configured providers: ${providers.getConfiguredProviderIds().join(', ') || 'none'}`);
+});
@@ -0,0 +1,144 @@
+import type { ClarificationAnswer } from '../src/services/openai';
+import { isProviderId, PROVIDER_IDS, ProviderId } from '../src/services/llm';
+import { isJurisdiction, Jurisdiction, JURISDICTIONS } from '../src/services/tariffs';
+import { isCountryCode } from '../src/services/sanctions';
+import { MAX_PRECEDENTS, Precedent } from '../src/services/precedents';
+import { HttpError } from './http';
+
+export interface ClassifyRequest {
+  productName: string;
+  customerName?: string;
+  provider?: ProviderId;
+  clarifications: ClarificationAnswer[];
+  jurisdiction?: Jurisdiction;
+  destinationCountry?: string;
+  precedents: Precedent[];
+}
+
+export interface EmbedRequest {
+  texts: string[];
+}
+
+export interface AnalyzeCompanyRequest {
+  companyName: string;
+  provider?: ProviderId;
+}
+
+const MAX_CLARIFICATIONS = 10;
+const MAX_EMBED_TEXTS = 100;
+
+function asObject(body: unknown): Record<string, unknown> {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new HttpError(400, 'Request body must be a JSON object');
+  }
+  return body as Record<string, unknown>;
+}
+
+function text(value: unknown, field: string, maxLength: number, isRequired: boolean): string | undefined {
+  if (value === undefined || value === null || value === '') {
+    if (isRequired) throw new HttpError(400, `${field} is required`);
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new HttpError(400, `${field} must be a string`);
+  }
+  const trimmed = value.trim();
+  if (isRequired && !trimmed) {
+    throw new HttpError(400, `${field} is required`);
+  }
+  if (trimmed.length > maxLength) {
+    throw new HttpError(400, `${field} must be at most ${maxLength} characters`);
+  }
+  return trimmed || undefined;
+}
+
+function provider(value: unknown): ProviderId | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!isProviderId(value)) {
+    throw new HttpError(400, `provider must be one of ${PROVIDER_IDS.join(', ')}`);
+  }
+  return value;
+}
+
+function jurisdiction(value: unknown): Jurisdiction | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!isJurisdiction(value)) {
+    throw new HttpError(400, `jurisdiction must be one of ${JURISDICTIONS.join(', ')}`);
+  }
+  return value;
+}
+
+function countryCode(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (!isCountryCode(value)) {
+    throw new HttpError(400, 'destinationCountry must be an ISO 3166-1 alpha-2 country code');
+  }
+  return value;
+}
+
+function similarity(value: unknown, field: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 1) {
+    throw new HttpError(400, `${field} must be a number from 0 to 1`);
+  }
+  return value;
+}
+
+export function parseClassifyRequest(body: unknown): ClassifyRequest {
+  const input = asObject(body);
+
+  const clarifications = input.clarifications ?? [];
+  if (!Array.isArray(clarifications) || clarifications.length > MAX_CLARIFICATIONS) {
+    throw new HttpError(400, `clarifications must be an array of at most ${MAX_CLARIFICATIONS} answers`);
+  }
+
+  // Retrieved by the client from the caller's own history; they only inform the prompt
+  const precedents = input.precedents ?? [];
+  if (!Array.isArray(precedents) || precedents.length > MAX_PRECEDENTS) {
+    throw new HttpError(400, `precedents must be an array of at most ${MAX_PRECEDENTS} entries`);
+  }
+
+  return {
+    productName: text(input.productName, 'productName', 2000, true)!,
+    customerName: text(input.customerName, 'customerName', 200, false),
+    provider: provider(input.provider),
+    jurisdiction: jurisdiction(input.jurisdiction),
+    destinationCountry: countryCode(input.destinationCountry),
+    clarifications: clarifications.map((item, index) => {
+      const answer = asObject(item);
+      return {
+        question: text(answer.question, `clarifications[${index}].question`, 500, true)!,
+        answer: text(answer.answer, `clarifications[${index}].answer`, 500, true)!
+      };
+    }),
+    precedents: precedents.map((item, index) => {
+      const precedent = asObject(item);
+      return {
+        classificationId: text(precedent.classificationId, `precedents[${index}].classificationId`, 100, true)!,
+        productName: text(precedent.productName, `precedents[${index}].productName`, 2000, true)!,
+        hsCode: text(precedent.hsCode, `precedents[${index}].hsCode`, 20, true)!,
+        description: text(precedent.description, `precedents[${index}].description`, 1000, false) || '',
+        similarity: similarity(precedent.similarity, `precedents[${index}].similarity`),
+        reviewedBy: text(precedent.reviewedBy, `precedents[${index}].reviewedBy`, 200, false),
+        reviewedAt: text(precedent.reviewedAt, `precedents[${index}].reviewedAt`, 50, false)
+      };
+    })
+  };
+}
+
+export function parseAnalyzeCompanyRequest(body: unknown): AnalyzeCompanyRequest {
+  const input = asObject(body);
+  return {
+    companyName: text(input.companyName, 'companyName', 200, true)!,
+    provider: provider(input.provider)
+  };
+}
+
+export function parseEmbedRequest(body: unknown): EmbedRequest {
+  const input = asObject(body);
+  if (!Array.isArray(input.texts) || input.texts.length === 0 || input.texts.length > MAX_EMBED_TEXTS) {
+    throw new HttpError(400, `texts must be an array of 1 to ${MAX_EMBED_TEXTS} strings`);
+  }
+  return {
+    texts: input.texts.map((value, index) => text(value, `texts[${index}]`, 2000, true)!)
+  };
+}
@@ -1,12 +1,38 @@
-import React, { useState } from 'react';
+import { useState } from 'react';
 import { useEffect } from 'react';
-import { Search, Building2, AlertTriangle, ExternalLink, TrendingUp, Database, Globe, Shield, Settings } from 'lucide-react';
+import { Search, Building2, ExternalLink, Database, Globe, Shield, Settings, Layers, ClipboardCheck, LogOut, Loader2 } from 'lucide-react';
+import type { Session } from '@supabase/supabase-js';
 import ClassificationForm from './components/ClassificationForm';
 import ResultsDisplay from './components/ResultsDisplay';
 import SearchHistory from './components/SearchHistory';
 import CompanyAnalysis from './components/CompanyAnalysis';
-import { classifyProduct, generateWTOLink } from './services/openai';
-import { DatabaseService, ClassificationInsert } from './services/database';
+import BatchClassification from './components/BatchClassification';
+import ReviewQueue from './components/ReviewQueue';
+import ConsistencyReport from './components/ConsistencyReport';
+import SignIn from './components/SignIn';
+import TeamSettings from './components/TeamSettings';
+import ScreeningSettings from './components/ScreeningSettings';
+import RiskSettings from './components/RiskSettings';
+import { generateWTOLink, ClarificationAnswer, ClarifyingQuestion, ClassificationOptions, GRITraceStep, HSCodeCandidate, HSCodeClassification, WTOLinks } from './services/openai';
+import { DatabaseService, ClassificationInsert, ClassificationStatus, PartyScreeningRecord } from './services/database';
+import { AuthService, hasPermission, Membership, Permission, ROLE_LABELS } from './services/auth';
+import { PROVIDER_IDS, PROVIDER_LABELS, ProviderId } from './services/llm';
+import {
+  classifyProduct,
+  getDefaultProviderId,
+  getProviderModel,
+  indexClassifications,
+  isApiProxyEnabled,
+  isProviderConfigured,
+  loadProviderStatus,
+} from './services/classifier';
+import { Jurisdiction } from './services/tariffs';
+import { ControlMatch, findControlEntries, hasDualUseEvidence } from './services/controls';
+import { assessDestination, SanctionsRule, SanctionsVerdict } from './services/sanctions';
+import { screenParty } from './services/screening';
+import { Precedent } from './services/precedents';
+
+type Tab = 'classify' | 'batch' | 'review' | 'history' | 'company' | 'settings';
 
 interface ClassificationResult {
   id: string;
@@ -17,26 +43,141 @@ interface ClassificationResult {
   confidence: number;
   wtoLink: string;
   isDualUse: boolean;
+  controlEntries?: ControlMatch[];
+  destinationCountry?: string;
+  sanctionsVerdict?: SanctionsVerdict;
+  sanctionsRules?: SanctionsRule[];
   timestamp: Date;
   customerName?: string;
+  partyScreening?: PartyScreeningRecord;
+  jurisdiction?: Jurisdiction;
   reasoning?: string;
+  links?: WTOLinks;
+  candidates?: HSCodeCandidate[];
+  griTrace?: GRITraceStep[];
+  clarifications?: ClarificationAnswer[];
+  precedents?: Precedent[];
+  status: ClassificationStatus;
+  isSaved: boolean;
+  // Why the result could not be saved, e.g. a code that is not in HS 2022 or the tariff schedule
+  saveError?: string;
+}
+
+interface PendingClarification {
+  productName: string;
+  customerName?: string;
+  options: ClassificationOptions;
+  questions: ClarifyingQuestion[];
+  answers: ClarificationAnswer[];
+  round: number;
+  provisional: HSCodeClassification;
 }
 
+// Tabs without a permission are open to every member; the same rules are enforced by RLS
+const TABS: Array<{ key: Tab; label: string; icon: typeof Search; permission?: Permission }> = [
+  { key: 'classify', label: 'Product Classification', icon: Search, permission: 'classify' },
+  { key: 'batch', label: 'Batch Upload', icon: Layers, permission: 'classify' },
+  { key: 'review', label: 'Review Queue', icon: ClipboardCheck, permission: 'review' },
+  { key: 'history', label: 'Search History', icon: Database },
+  { key: 'company', label: 'Company Analysis', icon: Building2, permission: 'classify' },
+  { key: 'settings', label: 'API Settings', icon: Settings }
+];
+
+// The tab is kept in the URL (?tab=history) so links to a filtered history open on it
+function readTabFromUrl(): Tab {
+  const tab = new URLSearchParams(window.location.search).get('tab');
+  return TABS.find(({ key }) => key === tab)?.key ?? 'classify';
+}
+
+// After this many rounds of questions the latest answer is saved as is
+const MAX_CLARIFICATION_ROUNDS = 2;
+
+// API server environment; development builds also read the same names with a VITE_ prefix in .env
+const PROVIDER_ENV_EXAMPLES: Record<ProviderId, string[]> = {
+  openai: ['OPENAI_API_KEY=your_api_key_here', 'OPENAI_MODEL=gpt-4'],
+  azure: [
+    'AZURE_OPENAI_ENDPOINT=https://your-resource.openai.azure.com/',
+    'AZURE_OPENAI_API_KEY=your_api_key_here',
+    'AZURE_OPENAI_DEPLOYMENT=your_deployment_name',
+  ],
+  anthropic: ['ANTHROPIC_API_KEY=your_api_key_here', 'ANTHROPIC_MODEL=claude-sonnet-4-5'],
+  local: ['LOCAL_LLM_BASE_URL=http://localhost:11434/v1', 'LOCAL_LLM_MODEL=llama3.1'],
+  replay: ['LLM_FIXTURES=./llm-fixtures'],
+  fake: ['LLM_FAKE_SCRIPT=default'],
+};
+
 function App() {
-  const [activeTab, setActiveTab] = useState<'classify' | 'history' | 'company' | 'settings'>('classify');
+  const [activeTab, setActiveTab] = useState<Tab>(readTabFromUrl);
   const [results, setResults] = useState<ClassificationResult[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [isLoadingHistory, setIsLoadingHistory] = useState(true);
+  const [clarification, setClarification] = useState<PendingClarification | null>(null);
+  const [session, setSession] = useState<Session | null>(null);
+  const [membership, setMembership] = useState<Membership | null>(null);
+  const [isAuthLoading, setIsAuthLoading] = useState(true);
+  const [isMembershipLoading, setIsMembershipLoading] = useState(false);
+  const [providerStatusError, setProviderStatusError] = useState<string | null>(null);
+  const [isProviderStatusLoading, setIsProviderStatusLoading] = useState(isApiProxyEnabled());
+
+  useEffect(() => AuthService.onSessionChange(next => {
+    setSession(next);
+    setIsAuthLoading(false);
+  }), []);
 
-  // Load search history on component mount
+  const userId = session?.user.id;
+  const orgId = membership?.orgId;
+
+  useEffect(() => {
+    if (userId) {
+      loadMembership();
+    } else {
+      setMembership(null);
+    }
+  }, [userId]);
+
+  // Load search history and provider status once the user's organization is known
   useEffect(() => {
-    loadSearchHistory();
-  }, []);
+    if (orgId) {
+      loadSearchHistory();
+      loadProviders();
+    } else {
+      setResults([]);
+    }
+  }, [orgId]);
+
+  const loadMembership = async () => {
+    try {
+      setIsMembershipLoading(true);
+      setMembership(await AuthService.getMembership());
+    } catch (err) {
+      console.error('Failed to load membership:', err);
+      setMembership(null);
+    } finally {
+      setIsMembershipLoading(false);
+    }
+  };
+
+  const loadProviders = async () => {
+    try {
+      setIsProviderStatusLoading(true);
+      setProviderStatusError(null);
+      await loadProviderStatus();
+    } catch (err) {
+      console.error('Failed to load provider status:', err);
+      setProviderStatusError(err instanceof Error ? err.message : 'Unable to reach the API server');
+    } finally {
+      setIsProviderStatusLoading(false);
+    }
+  };
+
+  // Other tabs have no URL state, so the history filters are dropped when leaving it
+  const selectTab = (tab: Tab) => {
+    setActiveTab(tab);
+    window.history.replaceState(null, '', tab === 'classify' ? window.location.pathname : `?tab=${tab}`);
+  };
 
   const loadSearchHistory = async () => {
     try {
-      setIsLoadingHistory(true);
       setError(null);
       const { data } = await DatabaseService.getClassifications({
         limit: 50,
@@ -54,10 +195,22 @@ function App() {
         confidence: record.confidence,
         wtoLink: record.wto_links?.search || '',
         isDualUse: record.is_dual_use,
+        controlEntries: record.control_entries,
+        destinationCountry: record.destination_country ?? undefined,
+        sanctionsVerdict: record.sanctions_verdict ?? undefined,
+        sanctionsRules: record.sanctions_rules,
         timestamp: new Date(record.created_at),
         customerName: record.customer_name,
+        partyScreening: record.party_screening ?? undefined,
+        jurisdiction: record.jurisdiction,
         reasoning: record.reasoning,
-        links: record.wto_links
+        links: record.wto_links,
+        candidates: record.candidates,
+        griTrace: record.gri_trace,
+        clarifications: record.clarifications,
+        precedents: record.precedents,
+        status: record.status,
+        isSaved: true
       }));
 
       setResults(convertedResults);
@@ -65,56 +218,113 @@ function App() {
       console.error('Failed to load search history:', err);
       setError('Unable to connect to database. Please check your connection and try again.');
       setResults([]);
-    } finally {
-      setIsLoadingHistory(false);
     }
   };
 
-  const handleClassification = async (productName: string, customerName?: string) => {
-    setIsLoading(true);
-    setError(null);
+  const saveResult = async (
+    productName: string,
+    customerName: string | undefined,
+    classification: HSCodeClassification,
+    clarifications: ClarificationAnswer[]
+  ) => {
+    const links = generateWTOLink(classification.hsCode);
+    
+    const result: ClassificationResult = {
+      id: Date.now().toString(),
+      productName,
+      hsCode: classification.hsCode,
+      chapter: classification.chapter,
+      description: classification.description,
+      confidence: classification.confidence,
+      wtoLink: links.search,
+      isDualUse: classification.isDualUse,
+      controlEntries: classification.controlEntries,
+      destinationCountry: classification.sanctions?.destinationCountry,
+      sanctionsVerdict: classification.sanctions?.verdict,
+      sanctionsRules: classification.sanctions?.rules,
+      timestamp: new Date(),
+      customerName,
+      jurisdiction: classification.jurisdiction,
+      reasoning: classification.reasoning,
+      links,
+      candidates: classification.candidates,
+      griTrace: classification.griTrace,
+      clarifications,
+      precedents: classification.precedents,
+      status: 'draft',
+      isSaved: false
+    };
     
+    // Save to database
     try {
-      const classification = await classifyProduct(productName, customerName);
-      
-      const links = generateWTOLink(classification.hsCode);
-      
-      const result: ClassificationResult = {
-        id: Date.now().toString(),
-        productName,
-        hsCode: classification.hsCode,
+      // The customer is screened first so the classification can point at the stored result
+      const screening = customerName
+        ? await DatabaseService.saveScreening(screenParty(customerName, membership?.screeningThreshold), 'customer')
+        : undefined;
+      result.partyScreening = screening;
+
+      const dbRecord: ClassificationInsert = {
+        product_name: productName,
+        customer_name: customerName,
+        jurisdiction: classification.jurisdiction,
+        hs_code: classification.hsCode,
         chapter: classification.chapter,
         description: classification.description,
         confidence: classification.confidence,
-        wtoLink: links.search,
-        isDualUse: classification.isDualUse,
-        timestamp: new Date(),
-        customerName,
+        is_dual_use: classification.isDualUse,
+        destination_country: classification.sanctions?.destinationCountry,
+        party_screening_id: screening?.id,
         reasoning: classification.reasoning,
-        links
+        wto_links: links,
+        candidates: classification.candidates,
+        gri_trace: classification.griTrace,
+        clarifications,
+        precedents: classification.precedents
       };
       
-      // Save to database
-      try {
-        const dbRecord: ClassificationInsert = {
-          product_name: productName,
-          customer_name: customerName,
-          hs_code: classification.hsCode,
-          chapter: classification.chapter,
-          description: classification.description,
-          confidence: classification.confidence,
-          is_dual_use: classification.isDualUse,
-          reasoning: classification.reasoning,
-          wto_links: links
-        };
-        
-        await DatabaseService.saveClassification(dbRecord);
-      } catch (dbError) {
-        console.error('Failed to save to database:', dbError);
-        // Continue with local storage even if database save fails
+      const saved = await DatabaseService.saveClassification(dbRecord);
+      result.id = saved.id;
+      result.isSaved = true;
+      indexClassifications([saved]);
+    } catch (dbError) {
+      console.error('Failed to save to database:', dbError);
+      // The result stays on screen, marked as not saved, instead of passing for a stored classification
+      result.saveError = dbError instanceof Error ? dbError.message : 'Unable to save the classification to the database.';
+      setError(`${result.saveError} The result below was not saved.`);
+    }
+    
+    setResults(prev => [result, ...prev]);
+  };
+
+  const runClassification = async (
+    productName: string,
+    customerName: string | undefined,
+    options: ClassificationOptions,
+    answers: ClarificationAnswer[],
+    round: number
+  ) => {
+    setIsLoading(true);
+    setError(null);
+    
+    try {
+      const classification = await classifyProduct(productName, customerName, { ...options, clarifications: answers });
+
+      // Hold the result back while the user can still supply the missing facts
+      if (classification.clarifyingQuestions.length > 0 && round < MAX_CLARIFICATION_ROUNDS) {
+        setClarification({
+          productName,
+          customerName,
+          options,
+          questions: classification.clarifyingQuestions,
+          answers,
+          round: round + 1,
+          provisional: classification
+        });
+        return;
       }
-      
-      setResults(prev => [result, ...prev]);
+
+      setClarification(null);
+      await saveResult(productName, customerName, classification, answers);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Classification failed');
     } finally {
@@ -122,6 +332,104 @@ function App() {
     }
   };
 
+  const handleClassification = (productName: string, customerName: string | undefined, options: ClassificationOptions) => {
+    setClarification(null);
+    return runClassification(productName, customerName, options, [], 0);
+  };
+
+  const handleAnswerClarifications = (answers: ClarificationAnswer[]) => {
+    if (!clarification) return;
+    const { productName, customerName, options, round } = clarification;
+    return runClassification(productName, customerName, options, [...clarification.answers, ...answers], round);
+  };
+
+  const handleSkipClarification = async () => {
+    if (!clarification) return;
+    const { productName, customerName, provisional, answers } = clarification;
+    setClarification(null);
+    await saveResult(productName, customerName, provisional, answers);
+  };
+
+  // The broker's pick replaces the saved code; the full candidate list is kept alongside it
+  const handleSelectCandidate = async (resultId: string, candidate: HSCodeCandidate) => {
+    const result = results.find(r => r.id === resultId);
+    // Once submitted, only a reviewer can change the code
+    if (!result || result.status !== 'draft') return;
+
+    const links = generateWTOLink(candidate.hsCode);
+    const controlEntries = findControlEntries(candidate.hsCode);
+    const sanctions = result.destinationCountry
+      ? assessDestination(candidate.hsCode, result.destinationCountry, controlEntries)
+      : undefined;
+    const updated: ClassificationResult = {
+      ...result,
+      hsCode: candidate.hsCode,
+      chapter: candidate.chapter,
+      description: candidate.description,
+      confidence: candidate.confidence,
+      isDualUse: hasDualUseEvidence(controlEntries),
+      controlEntries,
+      sanctionsVerdict: sanctions?.verdict,
+      sanctionsRules: sanctions?.rules,
+      wtoLink: links.search,
+      links
+    };
+
+    setError(null);
+    setResults(prev => prev.map(r => (r.id === resultId ? updated : r)));
+
+    if (!result.isSaved) return;
+
+    try {
+      await DatabaseService.updateClassification(resultId, {
+        jurisdiction: result.jurisdiction,
+        destination_country: result.destinationCountry ?? null,
+        hs_code: candidate.hsCode,
+        chapter: candidate.chapter,
+        description: candidate.description,
+        confidence: candidate.confidence,
+        wto_links: links
+      }, { reason: `Broker selected candidate ${candidate.hsCode} (was ${result.hsCode})` });
+    } catch (dbError) {
+      console.error('Failed to save selected candidate:', dbError);
+      setError('Unable to save the selected HS code to the database.');
+    }
+  };
+
+  const handleScreeningReviewed = (resultId: string, screening: PartyScreeningRecord) => {
+    setResults(prev => prev.map(r => (r.id === resultId ? { ...r, partyScreening: screening } : r)));
+  };
+
+  const handleSubmitForReview = async (resultId: string) => {
+    try {
+      setError(null);
+      const updated = await DatabaseService.submitForReview(resultId);
+      setResults(prev => prev.map(r => (r.id === resultId ? { ...r, status: updated.status } : r)));
+    } catch (dbError) {
+      console.error('Failed to submit for review:', dbError);
+      setError('Unable to submit the classification for review.');
+    }
+  };
+
+  if (isAuthLoading || isMembershipLoading || (membership && isProviderStatusLoading)) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!session) {
+    return <SignIn />;
+  }
+
+  if (!membership) {
+    return <SignIn needsOrganization email={session.user.email} onOrganizationCreated={loadMembership} />;
+  }
+
+  const visibleTabs = TABS.filter(tab => !tab.permission || hasPermission(membership.role, tab.permission));
+  const currentTab = visibleTabs.some(tab => tab.key === activeTab) ? activeTab : visibleTabs[0].key;
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
       <header className="bg-white border-b border-gray-200 shadow-sm">
@@ -138,9 +446,20 @@ function App() {
             </div>
             <div className="flex items-center space-x-2">
               <div className="bg-green-100 text-green-800 px-3 py-1 rounded-full text-sm font-medium">
-                {import.meta.env.VITE_OPENAI_API_KEY && import.meta.env.VITE_SUPABASE_URL ? 'AI + Database' : 'Configure APIs'}
+                {isProviderConfigured() && import.meta.env.VITE_SUPABASE_URL ? 'AI + Database' : 'Configure APIs'}
+              </div>
+              <Shield className={`w-5 h-5 ${isProviderConfigured() && import.meta.env.VITE_SUPABASE_URL ? 'text-green-600' : 'text-yellow-600'}`} />
+              <div className="pl-4 ml-2 border-l border-gray-200 text-right">
+                <div className="text-sm font-medium text-gray-900">{session.user.email}</div>
+                <div className="text-xs text-gray-500">{membership.orgName} • {ROLE_LABELS[membership.role]}</div>
               </div>
-              <Shield className={`w-5 h-5 ${import.meta.env.VITE_OPENAI_API_KEY && import.meta.env.VITE_SUPABASE_URL ? 'text-green-600' : 'text-yellow-600'}`} />
+              <button
+                onClick={() => AuthService.signOut()}
+                className="text-gray-400 hover:text-gray-600"
+                title="Sign out"
+              >
+                <LogOut className="w-5 h-5" />
+              </button>
             </div>
           </div>
         </div>
@@ -149,17 +468,12 @@ function App() {
       <nav className="bg-white border-b border-gray-200">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex space-x-8">
-            {[
-              { key: 'classify', label: 'Product Classification', icon: Search },
-              { key: 'history', label: 'Search History', icon: Database },
-              { key: 'company', label: 'Company Analysis', icon: Building2 },
-              { key: 'settings', label: 'API Settings', icon: Settings }
-            ].map(({ key, label, icon: Icon }) => (
+            {visibleTabs.map(({ key, label, icon: Icon }) => (
               <button
                 key={key}
-                onClick={() => setActiveTab(key as any)}
+                onClick={() => selectTab(key)}
                 className={`flex items-center space-x-2 py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
-                  activeTab === key
+                  currentTab === key
                     ? 'border-blue-500 text-blue-600'
                     : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
                 }`}
@@ -173,27 +487,76 @@ function App() {
       </nav>
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {activeTab === 'classify' && (
+        {currentTab === 'classify' && (
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
             <div className="lg:col-span-1">
-              <ClassificationForm onSubmit={handleClassification} isLoading={isLoading} error={error} />
+              <ClassificationForm
+                onSubmit={handleClassification}
+                isLoading={isLoading}
+                error={error}
+                clarifyingQuestions={clarification?.questions}
+                provisionalHsCode={clarification?.provisional.hsCode}
+                onAnswerClarifications={handleAnswerClarifications}
+                onSkipClarification={handleSkipClarification}
+              />
             </div>
             <div className="lg:col-span-2">
-              <ResultsDisplay results={results} isLoading={isLoading} />
+              <ResultsDisplay
+                results={results}
+                isLoading={isLoading}
+                onSelectCandidate={handleSelectCandidate}
+                onSubmitForReview={handleSubmitForReview}
+                canReviewScreening={hasPermission(membership.role, 'review')}
+                onScreeningReviewed={handleScreeningReviewed}
+              />
             </div>
           </div>
         )}
         
-        {activeTab === 'history' && (
-          <SearchHistory results={results} isLoading={isLoadingHistory} onRefresh={loadSearchHistory} />
+        {currentTab === 'batch' && (
+          <BatchClassification screeningThreshold={membership.screeningThreshold} />
+        )}
+
+        {currentTab === 'review' && (
+          <div className="space-y-8">
+            <ReviewQueue />
+            <ConsistencyReport />
+          </div>
+        )}
+
+        {currentTab === 'history' && (
+          <SearchHistory
+            onChanged={loadSearchHistory}
+            canDelete={hasPermission(membership.role, 'manage')}
+          />
         )}
         
-        {activeTab === 'company' && (
-          <CompanyAnalysis />
+        {currentTab === 'company' && (
+          <CompanyAnalysis
+            screeningThreshold={membership.screeningThreshold}
+            canReviewScreening={hasPermission(membership.role, 'review')}
+            riskRules={membership.riskRules}
+            onClassificationSaved={loadSearchHistory}
+          />
         )}
         
-        {activeTab === 'settings' && (
-          <div className="max-w-2xl">
+        {currentTab === 'settings' && (
+          <div className="max-w-2xl space-y-6">
+            {hasPermission(membership.role, 'manage') && (
+              <TeamSettings orgName={membership.orgName} currentUserId={session.user.id} />
+            )}
+            {hasPermission(membership.role, 'manage') && (
+              <ScreeningSettings
+                threshold={membership.screeningThreshold}
+                onSaved={threshold => setMembership({ ...membership, screeningThreshold: threshold })}
+              />
+            )}
+            {hasPermission(membership.role, 'manage') && (
+              <RiskSettings
+                rules={membership.riskRules}
+                onSaved={riskRules => setMembership({ ...membership, riskRules })}
+              />
+            )}
             <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
               <div className="flex items-center space-x-3 mb-6">
                 <div className="bg-gray-100 p-2 rounded-lg">
@@ -204,36 +567,79 @@ function App() {
               
               <div className="space-y-6">
                 <div>
-                  <h3 className="text-lg font-medium text-gray-900 mb-4">OpenAI API Setup</h3>
-                  <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-4">
-                    <h4 className="font-medium text-blue-900 mb-2">Configuration Required</h4>
-                    <p className="text-sm text-blue-800 mb-3">
-                      To get real HS code classifications, you need to configure your OpenAI API key in the .env file.
-                    </p>
-                    <div className="bg-white rounded border p-3 font-mono text-sm">
-                      <div className="text-gray-600"># Add to .env file:</div>
-                      <div className="text-blue-600">VITE_OPENAI_API_KEY=your_api_key_here</div>
-                      <div className="text-blue-600">VITE_OPENAI_MODEL=gpt-4</div>
+                  <h3 className="text-lg font-medium text-gray-900 mb-4">AI Provider Setup</h3>
+                  {isApiProxyEnabled() ? (
+                    <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-4">
+                      <h4 className="font-medium text-blue-900 mb-2">API Server</h4>
+                      <p className="text-sm text-blue-800 mb-3">
+                        Classification runs on the API server at {import.meta.env.VITE_API_URL}, which holds the provider
+                        credentials and enforces per-user daily quotas. Configure providers in the server environment
+                        (the same names without the VITE_ prefix) and start it with npm run server.
+                      </p>
+                      {providerStatusError && (
+                        <p className="text-sm text-red-700 mb-3">{providerStatusError}</p>
+                      )}
+                      <div className="bg-white rounded border p-3 font-mono text-sm">
+                        <div className="text-gray-600"># API server environment:</div>
+                        <div className="text-blue-600">LLM_PROVIDER={getDefaultProviderId()}</div>
+                        {PROVIDER_ENV_EXAMPLES[getDefaultProviderId()].map(line => (
+                          <div key={line} className="text-blue-600">{line}</div>
+                        ))}
+                        <div className="text-blue-600">SUPABASE_URL=your_supabase_url</div>
+                        <div className="text-blue-600">SUPABASE_SERVICE_ROLE_KEY=your_service_role_key</div>
+                      </div>
                     </div>
-                  </div>
-                  
-                  <div className="grid grid-cols-2 gap-4 text-sm">
-                    <div>
-                      <span className="font-medium text-gray-700">API Status:</span>
-                      <span className={`ml-2 px-2 py-1 rounded text-xs ${
-                        import.meta.env.VITE_OPENAI_API_KEY 
-                          ? 'bg-green-100 text-green-800' 
-                          : 'bg-red-100 text-red-800'
-                      }`}>
-                        {import.meta.env.VITE_OPENAI_API_KEY ? 'Configured' : 'Not Configured'}
-                      </span>
-                    </div>
-                    <div>
-                      <span className="font-medium text-gray-700">Model:</span>
-                      <span className="ml-2 text-gray-600">
-                        {import.meta.env.VITE_OPENAI_MODEL || 'gpt-4 (default)'}
-                      </span>
+                  ) : (
+                    <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-4">
+                      <h4 className="font-medium text-blue-900 mb-2">Configuration Required</h4>
+                      <p className="text-sm text-blue-800 mb-3">
+                        Classification runs on the API server, which holds the provider credentials. Configure at least
+                        one provider in its environment, start it with npm run server and set VITE_API_URL to its address.
+                        LLM_PROVIDER selects the default ({PROVIDER_IDS.join(', ')}); any other configured provider can be
+                        chosen per classification. The replay and fake providers work without network access.
+                      </p>
+                      <p className="text-sm text-amber-800 mb-3">
+                        For local development only, npm run dev also reads the same variables with a VITE_ prefix from
+                        .env and calls the provider from the browser. Production builds ignore them.
+                      </p>
+                      <div className="bg-white rounded border p-3 font-mono text-sm">
+                        <div className="text-gray-600"># API server environment:</div>
+                        <div className="text-blue-600">LLM_PROVIDER={getDefaultProviderId()}</div>
+                        {PROVIDER_ENV_EXAMPLES[getDefaultProviderId()].map(line => (
+                          <div key={line} className="text-blue-600">{line}</div>
+                        ))}
+                        <div className="text-blue-600">SUPABASE_URL=your_supabase_url</div>
+                        <div className="text-blue-600">SUPABASE_SERVICE_ROLE_KEY=your_service_role_key</div>
+                        <div className="text-gray-600 mt-2"># Add to .env file:</div>
+                        <div className="text-blue-600">VITE_API_URL=http://localhost:8787</div>
+                      </div>
                     </div>
+                  )}
+
+                  <div className="space-y-2 text-sm">
+                    {PROVIDER_IDS.map(id => (
+                      <div key={id} className="grid grid-cols-2 gap-4">
+                        <div>
+                          <span className="font-medium text-gray-700">{PROVIDER_LABELS[id]}:</span>
+                          <span className={`ml-2 px-2 py-1 rounded text-xs ${
+                            isProviderConfigured(id) 
+                              ? 'bg-green-100 text-green-800' 
+                              : 'bg-red-100 text-red-800'
+                          }`}>
+                            {isProviderConfigured(id) ? 'Configured' : 'Not Configured'}
+                          </span>
+                          {id === getDefaultProviderId() && (
+                            <span className="ml-2 text-xs text-blue-600">Default</span>
+                          )}
+                        </div>
+                        <div>
+                          <span className="font-medium text-gray-700">Model:</span>
+                          <span className="ml-2 text-gray-600">
+                            {getProviderModel(id) || 'not set'}
+                          </span>
+                        </div>
+                      </div>
+                    ))}
                   </div>
                 </div>
                 
@@ -244,8 +650,8 @@ function App() {
                     <li>Sign in to your OpenAI account or create a new one</li>
                     <li>Click "Create new secret key"</li>
                     <li>Copy the generated API key</li>
-                    <li>Add it to your .env file as shown above</li>
-                    <li>Restart the development server</li>
+                    <li>Add it to the API server environment as OPENAI_API_KEY, as shown above</li>
+                    <li>Restart the API server</li>
                   </ol>
                 </div>
               </div>
@@ -0,0 +1,464 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Upload, FileSpreadsheet, Play, Square, Download, AlertTriangle, CheckCircle, Loader2, RefreshCw, Layers } from 'lucide-react';
+import { CatalogColumnMapping, CatalogTable, guessColumnMapping, mapCatalogItems, readCatalogFile } from '../services/catalog';
+import { BatchRowState, runBatchClassification } from '../services/batch';
+import { ClassificationBatch, ClassificationInsert, DatabaseService } from '../services/database';
+import { downloadCSV } from '../services/export';
+import { generateWTOLink } from '../services/openai';
+import { PROVIDER_LABELS, ProviderId } from '../services/llm';
+import { getConfiguredProviderIds, getDefaultProviderId, getProviderModel, indexClassifications, isProviderConfigured } from '../services/classifier';
+import { DEFAULT_JURISDICTION, getJurisdictionLabel, Jurisdiction, JURISDICTION_INFO, JURISDICTIONS } from '../services/tariffs';
+import { getCountryOptions, SANCTIONS_VERDICT_LABELS } from '../services/sanctions';
+import { SCREENING_STATUS_LABELS, screenParty } from '../services/screening';
+
+const STATUS_STYLES: Record<BatchRowState['status'], string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  running: 'bg-blue-100 text-blue-800',
+  retrying: 'bg-yellow-100 text-yellow-800',
+  done: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-500'
+};
+
+const MAPPING_FIELDS: Array<{ key: keyof CatalogColumnMapping; label: string; required: boolean }> = [
+  { key: 'description', label: 'Product Description', required: true },
+  { key: 'sku', label: 'SKU', required: false },
+  { key: 'customer', label: 'Customer', required: false },
+  { key: 'knownCode', label: 'Known HS Code', required: false }
+];
+
+const EXPORT_HEADERS = ['Row', 'SKU', 'Description', 'Customer', 'Known HS Code', 'Jurisdiction', 'HS Code', 'Chapter', 'Confidence', 'Dual Use', 'Destination', 'Sanctions Verdict', 'Customer Screening', 'Status', 'Error'];
+
+const COUNTRY_OPTIONS = getCountryOptions();
+
+interface BatchClassificationProps {
+  screeningThreshold: number;
+}
+
+export default function BatchClassification({ screeningThreshold }: BatchClassificationProps) {
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<CatalogTable | null>(null);
+  const [mapping, setMapping] = useState<CatalogColumnMapping>({ description: 0 });
+  const [provider, setProvider] = useState<ProviderId>(getDefaultProviderId());
+  const [jurisdiction, setJurisdiction] = useState<Jurisdiction>(DEFAULT_JURISDICTION);
+  const [destinationCountry, setDestinationCountry] = useState('');
+  const [concurrency, setConcurrency] = useState(3);
+  const [rows, setRows] = useState<BatchRowState[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [savedBatch, setSavedBatch] = useState<ClassificationBatch | null>(null);
+  const [batches, setBatches] = useState<ClassificationBatch[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const loadBatches = async () => {
+    try {
+      setBatches(await DatabaseService.getBatches());
+    } catch (err) {
+      console.error('Failed to load batches:', err);
+    }
+  };
+
+  useEffect(() => {
+    loadBatches();
+  }, []);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError(null);
+    setRows([]);
+    setSavedBatch(null);
+    try {
+      const parsed = await readCatalogFile(file);
+      setFileName(file.name);
+      setTable(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+    } catch (err) {
+      setTable(null);
+      setError(err instanceof Error ? err.message : 'Unable to read the catalog file');
+    }
+  };
+
+  const updateMapping = (key: keyof CatalogColumnMapping, value: string) => {
+    setMapping(prev => ({ ...prev, [key]: value === '' ? undefined : Number(value) }));
+  };
+
+  const items = table ? mapCatalogItems(table, mapping) : [];
+
+  const saveBatch = async (finished: BatchRowState[]) => {
+    const classified = finished.filter(row => row.status === 'done' && row.classification);
+    const failedCount = finished.length - classified.length;
+
+    // Each customer is screened once, however many of its products the catalog lists
+    const customers = [...new Set(classified.map(({ item }) => item.customerName).filter((name): name is string => !!name))];
+    const screenings = new Map(await Promise.all(customers.map(async name => [
+      name,
+      await DatabaseService.saveScreening(screenParty(name, screeningThreshold), 'customer')
+    ] as const)));
+
+    const inserts: ClassificationInsert[] = classified.map(({ item, classification }) => ({
+      product_name: item.description,
+      customer_name: item.customerName,
+      jurisdiction: classification!.jurisdiction,
+      destination_country: classification!.sanctions?.destinationCountry,
+      party_screening_id: item.customerName ? screenings.get(item.customerName)?.id : undefined,
+      hs_code: classification!.hsCode,
+      chapter: classification!.chapter,
+      description: classification!.description,
+      confidence: classification!.confidence,
+      is_dual_use: classification!.isDualUse,
+      reasoning: classification!.reasoning,
+      wto_links: generateWTOLink(classification!.hsCode),
+      candidates: classification!.candidates,
+      gri_trace: classification!.griTrace,
+      precedents: classification!.precedents,
+      sku: item.sku,
+      known_hs_code: item.knownHsCode,
+      // Nobody looks at a batch row before it is saved, so it goes straight to the review queue
+      status: 'pending_review'
+    }));
+
+    // The run and its rows are saved together; batch_id is filled in by the database
+    const { batch, classifications } = await DatabaseService.saveBatch(fileName, finished.length, failedCount, inserts);
+    indexClassifications(classifications);
+    return batch;
+  };
+
+  const handleRun = async () => {
+    if (items.length === 0) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setError(null);
+    setSavedBatch(null);
+    setRows(items.map(item => ({ item, status: 'pending', attempts: 0 })));
+
+    try {
+      const finished = await runBatchClassification(items, {
+        provider,
+        jurisdiction,
+        destinationCountry: destinationCountry || undefined,
+        concurrency,
+        signal: controller.signal,
+        onRowUpdate: (index, row) => setRows(prev => prev.map((r, i) => (i === index ? row : r)))
+      });
+
+      if (finished.some(row => row.status === 'done')) {
+        setSavedBatch(await saveBatch(finished));
+        loadBatches();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Batch classification failed');
+    } finally {
+      setIsRunning(false);
+      abortRef.current = null;
+    }
+  };
+
+  const exportRows = () => {
+    downloadCSV(`hs-batch-${fileName.replace(/\.[^.]+$/, '')}.csv`, EXPORT_HEADERS, rows.map(row => [
+      row.item.rowNumber,
+      row.item.sku,
+      row.item.description,
+      row.item.customerName,
+      row.item.knownHsCode,
+      row.classification && JURISDICTION_INFO[row.classification.jurisdiction].nomenclature,
+      row.classification?.hsCode,
+      row.classification?.chapter,
+      row.classification ? `${row.classification.confidence}%` : '',
+      row.classification ? (row.classification.isDualUse ? 'Yes' : 'No') : '',
+      row.classification?.sanctions?.destinationCountry,
+      row.classification?.sanctions && SANCTIONS_VERDICT_LABELS[row.classification.sanctions.verdict],
+      row.item.customerName && SCREENING_STATUS_LABELS[screenParty(row.item.customerName, screeningThreshold).status],
+      row.status,
+      row.error
+    ]));
+  };
+
+  const exportSavedBatch = async (batch: ClassificationBatch) => {
+    try {
+      const records = await DatabaseService.getClassificationsByBatch(batch.id);
+      downloadCSV(`hs-batch-${batch.id}.csv`, EXPORT_HEADERS, records.map((record, index) => [
+        index + 1,
+        record.sku,
+        record.product_name,
+        record.customer_name,
+        record.known_hs_code,
+        record.jurisdiction && JURISDICTION_INFO[record.jurisdiction].nomenclature,
+        record.hs_code,
+        record.chapter,
+        `${record.confidence}%`,
+        record.is_dual_use ? 'Yes' : 'No',
+        record.destination_country,
+        record.sanctions_verdict && SANCTIONS_VERDICT_LABELS[record.sanctions_verdict],
+        record.party_screening && SCREENING_STATUS_LABELS[record.party_screening.status],
+        'done',
+        ''
+      ]));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to export batch');
+    }
+  };
+
+  const configuredProviders = getConfiguredProviderIds();
+  const completed = rows.filter(row => row.status === 'done' || row.status === 'failed' || row.status === 'cancelled').length;
+  const failed = rows.filter(row => row.status === 'failed').length;
+  const progress = rows.length > 0 ? Math.round((completed / rows.length) * 100) : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+        <div className="flex items-center space-x-3 mb-6">
+          <div className="bg-teal-100 p-2 rounded-lg">
+            <Layers className="w-5 h-5 text-teal-600" />
+          </div>
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Batch Classification</h2>
+            <p className="text-sm text-gray-600">Classify a CSV or XLSX product catalog in one run</p>
+          </div>
+        </div>
+
+        <label className="flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-lg p-6 cursor-pointer hover:border-teal-400 hover:bg-teal-50 transition-colors">
+          <Upload className="w-8 h-8 text-gray-400 mb-2" />
+          <span className="text-sm font-medium text-gray-700">{fileName || 'Choose a catalog file'}</span>
+          <span className="text-xs text-gray-500">CSV or XLSX, first row as column headers</span>
+          <input type="file" accept=".csv,.tsv,.txt,.xlsx,.xlsm,.xls" onChange={handleFileChange} disabled={isRunning} className="hidden" />
+        </label>
+
+        {error && (
+          <div className="mt-6 bg-red-50 border border-red-200 rounded-lg p-4">
+            <div className="flex items-start space-x-3">
+              <AlertTriangle className="w-5 h-5 text-red-600 mt-0.5" />
+              <div>
+                <h4 className="text-sm font-medium text-red-800 mb-1">Batch Error</h4>
+                <p className="text-sm text-red-700">{error}</p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {table && (
+          <div className="mt-6 space-y-6">
+            <div>
+              <div className="flex items-center space-x-2 mb-3">
+                <FileSpreadsheet className="w-4 h-4 text-gray-600" />
+                <h3 className="text-sm font-medium text-gray-700">Column Mapping</h3>
+                <span className="text-xs text-gray-500">{table.rows.length} rows, {items.length} with a description</span>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                {MAPPING_FIELDS.map(({ key, label, required }) => (
+                  <div key={key}>
+                    <label htmlFor={`mapping-${key}`} className="block text-xs font-medium text-gray-700 mb-1">
+                      {label}{required && ' *'}
+                    </label>
+                    <select
+                      id={`mapping-${key}`}
+                      value={mapping[key] ?? ''}
+                      onChange={(e) => updateMapping(key, e.target.value)}
+                      disabled={isRunning}
+                      className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+                    >
+                      {!required && <option value="">Not mapped</option>}
+                      {table.headers.map((header, index) => (
+                        <option key={index} value={index}>{header}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="overflow-x-auto border border-gray-200 rounded-lg">
+              <table className="min-w-full divide-y divide-gray-200 text-xs">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {table.headers.map((header, index) => (
+                      <th key={index} className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">{header}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {table.rows.slice(0, 5).map((row, rowIndex) => (
+                    <tr key={rowIndex}>
+                      {row.map((cell, cellIndex) => (
+                        <td key={cellIndex} className="px-3 py-2 text-gray-700 max-w-xs truncate">{cell}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-4">
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <span>Import jurisdiction</span>
+                  <select
+                    value={jurisdiction}
+                    onChange={(e) => setJurisdiction(e.target.value as Jurisdiction)}
+                    disabled={isRunning}
+                    className="border border-gray-300 rounded-lg px-2 py-1 focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+                  >
+                    {JURISDICTIONS.map(id => <option key={id} value={id}>{getJurisdictionLabel(id)}</option>)}
+                  </select>
+                </label>
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <span>Destination</span>
+                  <select
+                    value={destinationCountry}
+                    onChange={(e) => setDestinationCountry(e.target.value)}
+                    disabled={isRunning}
+                    className="border border-gray-300 rounded-lg px-2 py-1 focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+                  >
+                    <option value="">Not specified</option>
+                    {COUNTRY_OPTIONS.map(country => (
+                      <option key={country.code} value={country.code}>{country.name}</option>
+                    ))}
+                  </select>
+                </label>
+                {configuredProviders.length > 1 && (
+                  <label className="flex items-center space-x-2 text-sm text-gray-700">
+                    <span>AI Provider</span>
+                    <select
+                      value={provider}
+                      onChange={(e) => setProvider(e.target.value as ProviderId)}
+                      disabled={isRunning}
+                      className="border border-gray-300 rounded-lg px-2 py-1 focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+                    >
+                      {configuredProviders.map(id => (
+                        <option key={id} value={id}>{PROVIDER_LABELS[id]} ({getProviderModel(id)})</option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <span>Parallel requests</span>
+                  <select
+                    value={concurrency}
+                    onChange={(e) => setConcurrency(Number(e.target.value))}
+                    disabled={isRunning}
+                    className="border border-gray-300 rounded-lg px-2 py-1 focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+                  >
+                    {[1, 2, 3, 4, 6, 8].map(n => <option key={n} value={n}>{n}</option>)}
+                  </select>
+                </label>
+              </div>
+
+              {isRunning ? (
+                <button
+                  onClick={() => abortRef.current?.abort()}
+                  className="inline-flex items-center space-x-2 bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors"
+                >
+                  <Square className="w-4 h-4" />
+                  <span>Stop</span>
+                </button>
+              ) : (
+                <button
+                  onClick={handleRun}
+                  disabled={items.length === 0 || !isProviderConfigured(provider)}
+                  className="inline-flex items-center space-x-2 bg-teal-600 text-white px-4 py-2 rounded-lg hover:bg-teal-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Play className="w-4 h-4" />
+                  <span>Classify {items.length} Products</span>
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {rows.length > 0 && (
+        <div className="bg-white rounded-xl shadow-lg border border-gray-200 overflow-hidden">
+          <div className="p-6 border-b border-gray-200">
+            <div className="flex items-center justify-between mb-3">
+              <div className="flex items-center space-x-3 text-sm">
+                {isRunning ? <Loader2 className="w-4 h-4 animate-spin text-teal-600" /> : <CheckCircle className="w-4 h-4 text-green-600" />}
+                <span className="text-gray-700">{completed} of {rows.length} processed</span>
+                {failed > 0 && <span className="text-red-600">{failed} failed</span>}
+                {savedBatch && <span className="text-green-600">Saved as batch {savedBatch.id.slice(0, 8)}</span>}
+              </div>
+              <button
+                onClick={exportRows}
+                disabled={isRunning}
+                className="inline-flex items-center space-x-2 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Download className="w-4 h-4" />
+                <span>Export CSV</span>
+              </button>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div className="h-2 rounded-full bg-teal-500 transition-all" style={{ width: `${progress}%` }}></div>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['Row', 'SKU', 'Product', 'Known Code', 'HS Code', 'Confidence', 'Status'].map(header => (
+                    <th key={header} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{header}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {rows.map(row => (
+                  <tr key={row.item.rowNumber} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm text-gray-500">{row.item.rowNumber}</td>
+                    <td className="px-4 py-3 text-sm font-mono text-gray-700">{row.item.sku}</td>
+                    <td className="px-4 py-3 text-sm text-gray-900 max-w-md">
+                      <div className="truncate">{row.item.description}</div>
+                      {row.error && <div className="text-xs text-red-600 mt-1">{row.error}</div>}
+                    </td>
+                    <td className="px-4 py-3 text-sm font-mono text-gray-500">{row.item.knownHsCode}</td>
+                    <td className="px-4 py-3 text-sm font-mono font-medium text-gray-900">{row.classification?.hsCode}</td>
+                    <td className="px-4 py-3 text-sm text-gray-900">{row.classification && `${row.classification.confidence}%`}</td>
+                    <td className="px-4 py-3">
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[row.status]}`}>
+                        {row.status}{row.attempts > 1 && ` (${row.attempts})`}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">Recent Batches</h3>
+          <button onClick={loadBatches} className="text-gray-500 hover:text-gray-700">
+            <RefreshCw className="w-4 h-4" />
+          </button>
+        </div>
+        {batches.length === 0 ? (
+          <p className="text-sm text-gray-500">No batch runs saved yet.</p>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {batches.map(batch => (
+              <div key={batch.id} className="flex items-center justify-between py-3">
+                <div>
+                  <div className="text-sm font-medium text-gray-900">{batch.file_name}</div>
+                  <div className="text-xs text-gray-500">
+                    {new Date(batch.created_at).toLocaleString()} • {batch.row_count} rows
+                    {batch.failed_count > 0 && <span className="text-red-600"> • {batch.failed_count} failed</span>}
+                  </div>
+                </div>
+                <button
+                  onClick={() => exportSavedBatch(batch)}
+                  className="inline-flex items-center space-x-1 text-green-600 hover:text-green-500 text-sm font-medium"
+                >
+                  <Download className="w-4 h-4" />
+                  <span>Export</span>
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
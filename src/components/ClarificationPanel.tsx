@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { HelpCircle, Loader2, RefreshCw } from 'lucide-react';
+import { ClarificationAnswer, ClarifyingQuestion } from '../services/openai';
+
+interface ClarificationPanelProps {
+  questions: ClarifyingQuestion[];
+  provisionalHsCode?: string;
+  isLoading: boolean;
+  onAnswer: (answers: ClarificationAnswer[]) => void;
+  onSkip: () => void;
+}
+
+export default function ClarificationPanel({ questions, provisionalHsCode, isLoading, onAnswer, onSkip }: ClarificationPanelProps) {
+  const [answers, setAnswers] = useState<string[]>(() => questions.map(() => ''));
+
+  const setAnswer = (index: number, value: string) => {
+    setAnswers(prev => prev.map((answer, i) => (i === index ? value : answer)));
+  };
+
+  const answered = questions
+    .map((question, index) => ({ question: question.question, answer: answers[index].trim() }))
+    .filter(answer => answer.answer);
+
+  return (
+    <div className="bg-indigo-50 border border-indigo-200 rounded-lg p-4">
+      <div className="flex items-start space-x-3 mb-4">
+        <HelpCircle className="w-5 h-5 text-indigo-600 mt-0.5" />
+        <div>
+          <h4 className="text-sm font-medium text-indigo-900 mb-1">More Detail Needed</h4>
+          <p className="text-xs text-indigo-800">
+            The description leaves facts open that decide between headings.
+            {provisionalHsCode && <> Provisional code: <span className="font-mono font-medium">{provisionalHsCode}</span>.</>}
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {questions.map((question, index) => (
+          <div key={question.question}>
+            <label htmlFor={`clarification-${index}`} className="block text-sm font-medium text-gray-800 mb-1">
+              {question.question}
+            </label>
+            {question.attribute && (
+              <p className="text-xs text-gray-500 mb-2">{question.attribute}</p>
+            )}
+            {question.options.length > 0 && (
+              <div className="flex flex-wrap gap-2 mb-2">
+                {question.options.map(option => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setAnswer(index, option)}
+                    className={`px-2.5 py-1 rounded-full text-xs font-medium border transition-colors ${
+                      answers[index] === option
+                        ? 'bg-indigo-600 text-white border-indigo-600'
+                        : 'bg-white text-indigo-700 border-indigo-200 hover:bg-indigo-100'
+                    }`}
+                  >
+                    {option}
+                  </button>
+                ))}
+              </div>
+            )}
+            <input
+              id={`clarification-${index}`}
+              type="text"
+              value={answers[index]}
+              onChange={(e) => setAnswer(index, e.target.value)}
+              placeholder="Your answer"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 flex items-center space-x-3">
+        <button
+          type="button"
+          onClick={() => onAnswer(answered)}
+          disabled={isLoading || answered.length === 0}
+          className="flex-1 bg-indigo-600 text-white py-2 px-4 rounded-lg text-sm hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+        >
+          {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+          <span>Reclassify with Answers</span>
+        </button>
+        <button
+          type="button"
+          onClick={onSkip}
+          disabled={isLoading}
+          className="text-sm text-gray-600 hover:text-gray-800 disabled:opacity-50"
+        >
+          Skip and use provisional code
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,21 +1,50 @@
 import React, { useState } from 'react';
-import { Search, Building2, Package, Loader2, AlertTriangle } from 'lucide-react';
+import { Search, Building2, Package, Loader2, AlertTriangle, Cpu, Globe, MapPin } from 'lucide-react';
+import { ClarificationAnswer, ClarifyingQuestion, ClassificationOptions } from '../services/openai';
+import ClarificationPanel from './ClarificationPanel';
+import { PROVIDER_LABELS, ProviderId } from '../services/llm';
+import { getConfiguredProviderIds, getDefaultProviderId, getProviderModel, isProviderConfigured } from '../services/classifier';
+import { DEFAULT_JURISDICTION, getJurisdictionLabel, Jurisdiction, JURISDICTIONS } from '../services/tariffs';
+import { getCountryOptions } from '../services/sanctions';
 
 interface ClassificationFormProps {
-  onSubmit: (productName: string, customerName?: string) => void;
+  onSubmit: (productName: string, customerName: string | undefined, options: ClassificationOptions) => void;
   isLoading: boolean;
   error: string | null;
+  clarifyingQuestions?: ClarifyingQuestion[];
+  provisionalHsCode?: string;
+  onAnswerClarifications?: (answers: ClarificationAnswer[]) => void;
+  onSkipClarification?: () => void;
 }
 
-export default function ClassificationForm({ onSubmit, isLoading, error }: ClassificationFormProps) {
+const COUNTRY_OPTIONS = getCountryOptions();
+
+export default function ClassificationForm({
+  onSubmit,
+  isLoading,
+  error,
+  clarifyingQuestions,
+  provisionalHsCode,
+  onAnswerClarifications,
+  onSkipClarification
+}: ClassificationFormProps) {
   const [productName, setProductName] = useState('');
   const [customerName, setCustomerName] = useState('');
   const [includeCustomerAnalysis, setIncludeCustomerAnalysis] = useState(false);
+  const [provider, setProvider] = useState<ProviderId>(getDefaultProviderId());
+  const [jurisdiction, setJurisdiction] = useState<Jurisdiction>(DEFAULT_JURISDICTION);
+  const [destinationCountry, setDestinationCountry] = useState('');
+  const configuredProviders = getConfiguredProviderIds();
+  const providerReady = isProviderConfigured(provider);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (productName.trim()) {
-      onSubmit(productName.trim(), includeCustomerAnalysis ? customerName.trim() : undefined);
+      onSubmit(productName.trim(), includeCustomerAnalysis ? customerName.trim() : undefined, {
+        provider,
+        jurisdiction,
+        destinationCountry: destinationCountry || undefined
+      });
     }
   };
 
@@ -99,6 +128,79 @@ export default function ClassificationForm({ onSubmit, isLoading, error }: Class
           )}
         </div>
 
+        <div>
+          <label htmlFor="jurisdiction" className="block text-sm font-medium text-gray-700 mb-2">
+            <Globe className="w-4 h-4 inline mr-1" />
+            Import Jurisdiction
+          </label>
+          <select
+            id="jurisdiction"
+            value={jurisdiction}
+            onChange={(e) => setJurisdiction(e.target.value as Jurisdiction)}
+            className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            {JURISDICTIONS.map(id => (
+              <option key={id} value={id}>{getJurisdictionLabel(id)}</option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">
+            The destination's national tariff line is returned and checked against its schedule
+          </p>
+        </div>
+
+        <div>
+          <label htmlFor="destinationCountry" className="block text-sm font-medium text-gray-700 mb-2">
+            <MapPin className="w-4 h-4 inline mr-1" />
+            Destination Country
+          </label>
+          <select
+            id="destinationCountry"
+            value={destinationCountry}
+            onChange={(e) => setDestinationCountry(e.target.value)}
+            className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">Not specified</option>
+            {COUNTRY_OPTIONS.map(country => (
+              <option key={country.code} value={country.code}>{country.name}</option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">
+            Checks the classified code against EU and US sanctions and embargo measures for this country
+          </p>
+        </div>
+
+        {configuredProviders.length > 1 && (
+          <div>
+            <label htmlFor="provider" className="block text-sm font-medium text-gray-700 mb-2">
+              <Cpu className="w-4 h-4 inline mr-1" />
+              AI Provider
+            </label>
+            <select
+              id="provider"
+              value={provider}
+              onChange={(e) => setProvider(e.target.value as ProviderId)}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {configuredProviders.map(id => (
+                <option key={id} value={id}>
+                  {PROVIDER_LABELS[id]} ({getProviderModel(id)})
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {clarifyingQuestions && clarifyingQuestions.length > 0 && onAnswerClarifications && onSkipClarification && (
+          <ClarificationPanel
+            key={clarifyingQuestions.map(q => q.question).join('|')}
+            questions={clarifyingQuestions}
+            provisionalHsCode={provisionalHsCode}
+            isLoading={isLoading}
+            onAnswer={onAnswerClarifications}
+            onSkip={onSkipClarification}
+          />
+        )}
+
         {error && (
           <div className="bg-red-50 border border-red-200 rounded-lg p-4">
             <div className="flex items-start space-x-3">
@@ -108,7 +210,7 @@ export default function ClassificationForm({ onSubmit, isLoading, error }: Class
                 <p className="text-sm text-red-700">{error}</p>
                 {error.includes('API') && (
                   <p className="text-xs text-red-600 mt-2">
-                    Please check your OpenAI API configuration in the Settings tab.
+                    Please check your AI provider configuration in the Settings tab.
                   </p>
                 )}
                 {error.includes('database') && (
@@ -123,7 +225,7 @@ export default function ClassificationForm({ onSubmit, isLoading, error }: Class
 
         <button
           type="submit"
-          disabled={!productName.trim() || isLoading || !import.meta.env.VITE_OPENAI_API_KEY}
+          disabled={!productName.trim() || isLoading || !providerReady}
           className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
         >
           {isLoading ? (
@@ -131,8 +233,8 @@ export default function ClassificationForm({ onSubmit, isLoading, error }: Class
               <Loader2 className="w-4 h-4 animate-spin" />
               <span>AI Analyzing Product...</span>
             </>
-          ) : !import.meta.env.VITE_OPENAI_API_KEY ? (
-            <span>Configure OpenAI API Key</span>
+          ) : !providerReady ? (
+            <span>Configure AI Provider</span>
           ) : (
             <>
               <Search className="w-4 h-4" />
@@ -141,9 +243,9 @@ export default function ClassificationForm({ onSubmit, isLoading, error }: Class
           )}
         </button>
         
-        {!import.meta.env.VITE_OPENAI_API_KEY && (
+        {!providerReady && (
           <p className="text-xs text-amber-600 text-center">
-            OpenAI API key required. Configure in Settings tab.
+            {PROVIDER_LABELS[provider]} credentials required. Configure in Settings tab.
           </p>
         )}
       </form>
@@ -0,0 +1,242 @@
+import { useEffect, useState } from 'react';
+import { History, X, Loader2, Trash2, RotateCcw, AlertTriangle, User } from 'lucide-react';
+import { ClassificationHistoryEntry, ClassificationRecord, DatabaseService } from '../services/database';
+
+interface ClassificationHistoryProps {
+  classificationId: string;
+  productName: string;
+  isDeleted: boolean;
+  // Soft delete and restore are admin-only
+  canDelete?: boolean;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+// Fields shown in the diff; bookkeeping columns such as updated_at and change_reason are left out
+const DIFF_FIELDS: Array<{ key: keyof ClassificationRecord; label: string }> = [
+  { key: 'product_name', label: 'Product' },
+  { key: 'customer_name', label: 'Customer' },
+  { key: 'jurisdiction', label: 'Jurisdiction' },
+  { key: 'hs_code', label: 'HS Code' },
+  { key: 'chapter', label: 'Chapter' },
+  { key: 'description', label: 'Description' },
+  { key: 'confidence', label: 'Confidence' },
+  { key: 'is_dual_use', label: 'Dual Use' },
+  { key: 'destination_country', label: 'Destination' },
+  { key: 'sanctions_verdict', label: 'Sanctions Verdict' },
+  { key: 'reasoning', label: 'Reasoning' },
+  { key: 'status', label: 'Review Status' },
+  { key: 'reviewed_by', label: 'Reviewed By' },
+  { key: 'review_comment', label: 'Review Comment' },
+  { key: 'deleted_at', label: 'Deleted At' }
+];
+
+const ACTION_STYLES: Record<ClassificationHistoryEntry['action'], string> = {
+  insert: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800',
+  restore: 'bg-purple-100 text-purple-800'
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function diffValues(before: Partial<ClassificationRecord> | undefined, after: Partial<ClassificationRecord>) {
+  return DIFF_FIELDS
+    .map(({ key, label }) => ({ label, before: formatValue(before?.[key]), after: formatValue(after[key]) }))
+    .filter(change => change.before !== change.after);
+}
+
+export default function ClassificationHistory({ classificationId, productName, isDeleted, canDelete, onClose, onChanged }: ClassificationHistoryProps) {
+  const [entries, setEntries] = useState<ClassificationHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const loadHistory = async (id: string) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const history = await DatabaseService.getClassificationHistory(id);
+      setEntries(history);
+      // Newest first: compare the latest version with the one before it
+      setToVersion(history[0]?.version ?? null);
+      setFromVersion(history[1]?.version ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to load history');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadHistory(classificationId);
+  }, [classificationId]);
+
+  const handleDeleteOrRestore = async () => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      if (isDeleted) {
+        await DatabaseService.restoreClassification(classificationId, reason);
+      } else {
+        await DatabaseService.deleteClassification(classificationId, reason);
+      }
+      setReason('');
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to update the classification');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const fromEntry = entries.find(e => e.version === fromVersion);
+  const toEntry = entries.find(e => e.version === toVersion);
+  const comparison = toEntry ? diffValues(fromEntry?.new_values, toEntry.new_values) : [];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-40 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-3">
+            <div className="bg-gray-100 p-2 rounded-lg">
+              <History className="w-5 h-5 text-gray-700" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Version History</h2>
+              <p className="text-sm text-gray-600">{productName}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
+              <AlertTriangle className="w-5 h-5 text-red-600 mt-0.5" />
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 text-blue-600 animate-spin" />
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-gray-500">No history recorded for this classification.</p>
+          ) : (
+            <>
+              <div>
+                <div className="flex items-center space-x-3 mb-3">
+                  <h3 className="text-sm font-medium text-gray-700">Compare</h3>
+                  <select
+                    value={fromVersion ?? ''}
+                    onChange={(e) => setFromVersion(e.target.value === '' ? null : Number(e.target.value))}
+                    className="border border-gray-300 rounded-lg px-2 py-1 text-sm"
+                  >
+                    <option value="">Empty</option>
+                    {entries.map(entry => <option key={entry.version} value={entry.version}>Version {entry.version}</option>)}
+                  </select>
+                  <span className="text-sm text-gray-500">with</span>
+                  <select
+                    value={toVersion ?? ''}
+                    onChange={(e) => setToVersion(Number(e.target.value))}
+                    className="border border-gray-300 rounded-lg px-2 py-1 text-sm"
+                  >
+                    {entries.map(entry => <option key={entry.version} value={entry.version}>Version {entry.version}</option>)}
+                  </select>
+                </div>
+                {comparison.length === 0 ? (
+                  <p className="text-sm text-gray-500">No differences in the tracked fields.</p>
+                ) : (
+                  <table className="min-w-full divide-y divide-gray-200 border border-gray-200 rounded-lg text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Field</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">{fromVersion ? `Version ${fromVersion}` : 'Before'}</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Version {toVersion}</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {comparison.map(change => (
+                        <tr key={change.label}>
+                          <td className="px-3 py-2 font-medium text-gray-700">{change.label}</td>
+                          <td className="px-3 py-2 text-red-700 bg-red-50 break-words">{change.before}</td>
+                          <td className="px-3 py-2 text-green-700 bg-green-50 break-words">{change.after}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+
+              <ol className="space-y-3">
+                {entries.map(entry => {
+                  const changes = diffValues(entry.old_values, entry.new_values);
+                  return (
+                    <li key={entry.id} className="border-l-2 border-gray-200 pl-4">
+                      <div className="flex items-center space-x-2 text-sm">
+                        <span className="font-medium text-gray-900">Version {entry.version}</span>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${ACTION_STYLES[entry.action]}`}>{entry.action}</span>
+                        <span className="text-gray-500">{new Date(entry.changed_at).toLocaleString()}</span>
+                        {entry.changed_by && (
+                          <span className="inline-flex items-center text-gray-600">
+                            <User className="w-3 h-3 mr-1" />
+                            {entry.changed_by}
+                          </span>
+                        )}
+                      </div>
+                      {entry.reason && <p className="text-xs text-gray-700 mt-1">"{entry.reason}"</p>}
+                      {entry.action !== 'insert' && changes.length > 0 && (
+                        <ul className="text-xs text-gray-600 mt-1 space-y-0.5">
+                          {changes.map(change => (
+                            <li key={change.label}>
+                              <span className="font-medium">{change.label}:</span>{' '}
+                              <span className="line-through text-red-600">{change.before}</span> → <span className="text-green-700">{change.after}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </li>
+                  );
+                })}
+              </ol>
+            </>
+          )}
+        </div>
+
+        {canDelete && (
+          <div className="p-6 border-t border-gray-200 flex items-center space-x-3">
+            <input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={isDeleted ? 'Reason for restoring (required)' : 'Reason for deleting (required)'}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <button
+              onClick={handleDeleteOrRestore}
+              disabled={!reason.trim() || isSubmitting}
+              className={`inline-flex items-center space-x-2 text-white px-4 py-2 rounded-lg text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                isDeleted ? 'bg-purple-600 hover:bg-purple-700' : 'bg-red-600 hover:bg-red-700'
+              }`}
+            >
+              {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : isDeleted ? <RotateCcw className="w-4 h-4" /> : <Trash2 className="w-4 h-4" />}
+              <span>{isDeleted ? 'Restore' : 'Delete'}</span>
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
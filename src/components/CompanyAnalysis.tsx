@@ -1,6 +1,16 @@
-import React, { useState } from 'react';
-import { Building2, Search, Globe, TrendingUp, AlertTriangle, ExternalLink, Loader2 } from 'lucide-react';
-import { analyzeCompanyProducts } from '../services/openai';
+import React, { useEffect, useState } from 'react';
+import { Building2, Search, Globe, AlertTriangle, ExternalLink, Loader2, MapPin, History, Clock } from 'lucide-react';
+import { analyzeCompanyProducts, isProviderConfigured } from '../services/classifier';
+import { findControlEntries } from '../services/controls';
+import { CompanyRecord, DatabaseService, PartyScreeningRecord } from '../services/database';
+import { assessCompanyRisk, RISK_FACTOR_LABELS, RiskAssessment, RiskRules } from '../services/risk';
+import { screenParty } from '../services/screening';
+import { assessDestination, getCountryName, getCountryOptions } from '../services/sanctions';
+import SanctionsBadge from './SanctionsBadge';
+import ScreeningBadge from './ScreeningBadge';
+import ScreeningReviewDialog from './ScreeningReviewDialog';
+import CompanyHistory from './CompanyHistory';
+import CompanyProductDetails from './CompanyProductDetails';
 
 interface CompanyProduct {
   name: string;
@@ -11,18 +21,83 @@ interface CompanyProduct {
 }
 
 interface CompanyProfile {
+  // Unset when the analysis could not be saved
+  id?: string;
   name: string;
   website: string;
   industry: string;
   products: CompanyProduct[];
-  riskLevel: 'Low' | 'Medium' | 'High';
+  risk: RiskAssessment;
+  destinationCountry?: string;
+  screening?: PartyScreeningRecord;
+  analyzedAt: Date;
 }
 
-export default function CompanyAnalysis() {
+interface CompanyAnalysisProps {
+  screeningThreshold: number;
+  canReviewScreening: boolean;
+  riskRules: RiskRules;
+  onClassificationSaved?: () => void;
+}
+
+const COUNTRY_OPTIONS = getCountryOptions();
+
+function toProfile(company: CompanyRecord): CompanyProfile {
+  return {
+    id: company.id,
+    name: company.name,
+    website: company.website || '',
+    industry: company.industry,
+    products: company.products.map(product => ({
+      name: product.name,
+      category: product.category || '',
+      hsCode: product.hs_code,
+      confidence: product.confidence,
+      isDualUse: product.is_dual_use
+    })),
+    // Runs saved before risk scoring carry the level only
+    risk: {
+      level: company.risk_level,
+      score: Number(company.risk_score ?? 0),
+      factors: company.risk_factors || []
+    },
+    destinationCountry: company.destination_country || undefined,
+    screening: company.party_screening ?? undefined,
+    analyzedAt: new Date(company.created_at)
+  };
+}
+
+export default function CompanyAnalysis({ screeningThreshold, canReviewScreening, riskRules, onClassificationSaved }: CompanyAnalysisProps) {
   const [companyName, setCompanyName] = useState('');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [companyProfile, setCompanyProfile] = useState<CompanyProfile | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [destinationCountry, setDestinationCountry] = useState('');
+  const [isReviewingScreening, setIsReviewingScreening] = useState(false);
+  const [recentAnalyses, setRecentAnalyses] = useState<CompanyRecord[]>([]);
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+  const [detailsFor, setDetailsFor] = useState<CompanyProduct | null>(null);
+
+  const loadRecentAnalyses = async () => {
+    try {
+      setRecentAnalyses(await DatabaseService.getCompanyAnalyses());
+    } catch (err) {
+      console.error('Failed to load company analyses:', err);
+    }
+  };
+
+  useEffect(() => {
+    loadRecentAnalyses();
+  }, []);
+
+  // A saved run opens without another LLM call
+  const openSavedAnalysis = (company: CompanyRecord) => {
+    setError(null);
+    setCompanyName(company.name);
+    setCompanyProfile(toProfile(company));
+    setDestinationCountry(company.destination_country || '');
+    setHistoryFor(null);
+  };
 
   const handleAnalyze = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -32,16 +107,54 @@ export default function CompanyAnalysis() {
     setError(null);
     
     try {
-      const analysis = await analyzeCompanyProducts(companyName.trim());
+      const [analysis, screening] = await Promise.all([
+        analyzeCompanyProducts(companyName.trim()),
+        DatabaseService.saveScreening(screenParty(companyName, screeningThreshold), 'company')
+      ]);
       
+      // The level is scored from the portfolio, not taken from the model's opinion
+      const risk = assessCompanyRisk({
+        products: analysis.products,
+        destinationCountry: destinationCountry || undefined,
+        screeningStatus: screening.status
+      }, riskRules);
+
       const profile: CompanyProfile = {
-        name: companyName,
+        name: companyName.trim(),
         website: `https://www.${companyName.toLowerCase().replace(/\s+/g, '')}.com`,
         industry: analysis.industry,
         products: analysis.products,
-        riskLevel: analysis.riskLevel
+        risk,
+        destinationCountry: destinationCountry || undefined,
+        screening,
+        analyzedAt: new Date()
       };
-      
+
+      try {
+        const saved = await DatabaseService.saveCompanyAnalysis({
+          name: profile.name,
+          website: profile.website,
+          industry: profile.industry,
+          risk_level: risk.level,
+          risk_score: risk.score,
+          risk_factors: risk.factors,
+          destination_country: profile.destinationCountry,
+          party_screening_id: screening.id,
+          products: profile.products.map(product => ({
+            name: product.name,
+            category: product.category,
+            hs_code: product.hsCode,
+            confidence: product.confidence,
+            is_dual_use: product.isDualUse
+          }))
+        });
+        profile.id = saved.id;
+        loadRecentAnalyses();
+      } catch (dbError) {
+        console.error('Failed to save company analysis:', dbError);
+        // The analysis is still shown even if it could not be saved
+      }
+
       setCompanyProfile(profile);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Company analysis failed');
@@ -84,7 +197,7 @@ export default function CompanyAnalysis() {
           </div>
           <button
             type="submit"
-           disabled={isAnalyzing || !companyName.trim() || !import.meta.env.VITE_OPENAI_API_KEY}
+           disabled={isAnalyzing || !companyName.trim() || !isProviderConfigured()}
             className="bg-indigo-600 text-white px-6 py-3 rounded-lg hover:bg-indigo-700 focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
           >
             {isAnalyzing ? (
@@ -92,8 +205,8 @@ export default function CompanyAnalysis() {
                <Loader2 className="w-4 h-4 animate-spin" />
                <span>AI Analyzing...</span>
               </>
-           ) : !import.meta.env.VITE_OPENAI_API_KEY ? (
-             <span>Configure API Key</span>
+           ) : !isProviderConfigured() ? (
+             <span>Configure AI Provider</span>
             ) : (
               <>
                 <Search className="w-4 h-4" />
@@ -103,6 +216,42 @@ export default function CompanyAnalysis() {
           </button>
         </form>
 
+        <div className="mt-4 flex items-center space-x-2 text-sm text-gray-700">
+          <MapPin className="w-4 h-4 text-gray-500" />
+          <label htmlFor="companyDestination">Destination country</label>
+          <select
+            id="companyDestination"
+            value={destinationCountry}
+            onChange={(e) => setDestinationCountry(e.target.value)}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            <option value="">Not specified</option>
+            {COUNTRY_OPTIONS.map(country => (
+              <option key={country.code} value={country.code}>{country.name}</option>
+            ))}
+          </select>
+        </div>
+
+        {recentAnalyses.length > 0 && (
+          <div className="mt-6">
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Saved Analyses</h3>
+            <div className="flex flex-wrap gap-2">
+              {recentAnalyses.map(company => (
+                <button
+                  key={company.id}
+                  onClick={() => openSavedAnalysis(company)}
+                  className="inline-flex items-center space-x-2 px-3 py-1.5 border border-gray-200 rounded-lg text-sm text-gray-700 hover:bg-indigo-50 hover:border-indigo-200 transition-colors"
+                  title={`Analysed ${new Date(company.created_at).toLocaleString()}`}
+                >
+                  <Building2 className="w-3 h-3 text-gray-500" />
+                  <span>{company.name}</span>
+                  <span className="text-xs text-gray-500">{company.risk_level}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
        {error && (
          <div className="mt-6 bg-red-50 border border-red-200 rounded-lg p-4">
            <div className="flex items-start space-x-3">
@@ -125,6 +274,7 @@ export default function CompanyAnalysis() {
                  <p>• Analyzing company product portfolio</p>
                  <p>• Cross-referencing with HS code database</p>
                   <p>• Identifying dual-use products and technologies</p>
+                  <p>• Screening the company against denied-party lists</p>
                   <p>• Generating HS code classifications</p>
                 </div>
               </div>
@@ -140,19 +290,35 @@ export default function CompanyAnalysis() {
               <div>
                 <h3 className="text-xl font-bold text-white">{companyProfile.name}</h3>
                 <p className="text-indigo-100">{companyProfile.industry}</p>
+                <p className="text-xs text-indigo-200 flex items-center space-x-1 mt-1">
+                  <Clock className="w-3 h-3" />
+                  <span>Analysed {companyProfile.analyzedAt.toLocaleString()}</span>
+                </p>
               </div>
               <div className="flex items-center space-x-3">
-                <div className={`px-3 py-1 rounded-full text-sm font-medium border ${getRiskColor(companyProfile.riskLevel)}`}>
-                  {companyProfile.riskLevel} Risk
+                {companyProfile.screening && (
+                  <ScreeningBadge status={companyProfile.screening.status} onClick={() => setIsReviewingScreening(true)} />
+                )}
+                <div className={`px-3 py-1 rounded-full text-sm font-medium border ${getRiskColor(companyProfile.risk.level)}`}>
+                  {companyProfile.risk.level} Risk
                 </div>
-                <a 
-                  href={companyProfile.website} 
-                  target="_blank" 
-                  rel="noopener noreferrer"
+                {companyProfile.website && (
+                  <a 
+                    href={companyProfile.website} 
+                    target="_blank" 
+                    rel="noopener noreferrer"
+                    className="text-white hover:text-indigo-200 transition-colors"
+                  >
+                    <Globe className="w-5 h-5" />
+                  </a>
+                )}
+                <button
+                  onClick={() => setHistoryFor(companyProfile.name)}
                   className="text-white hover:text-indigo-200 transition-colors"
+                  title="Company history"
                 >
-                  <Globe className="w-5 h-5" />
-                </a>
+                  <History className="w-5 h-5" />
+                </button>
               </div>
             </div>
           </div>
@@ -166,7 +332,11 @@ export default function CompanyAnalysis() {
             </div>
 
             <div className="grid grid-cols-1 gap-4">
-              {companyProfile.products.map((product, index) => (
+              {companyProfile.products.map((product, index) => {
+                const sanctions = destinationCountry
+                  ? assessDestination(product.hsCode, destinationCountry, findControlEntries(product.hsCode))
+                  : null;
+                return (
                 <div key={index} className="border border-gray-200 rounded-lg p-4">
                   <div className="flex items-start justify-between mb-3">
                     <div className="flex-1">
@@ -180,6 +350,9 @@ export default function CompanyAnalysis() {
                           Dual-Use
                         </span>
                       )}
+                      {sanctions && (
+                        <SanctionsBadge verdict={sanctions.verdict} destinationCountry={sanctions.destinationCountry} />
+                      )}
                       <span className="text-sm font-mono bg-gray-100 px-2 py-1 rounded">
                         {product.hsCode}
                       </span>
@@ -203,15 +376,44 @@ export default function CompanyAnalysis() {
                       </div>
                     </div>
                     
-                    <button className="text-blue-600 hover:text-blue-500 text-sm font-medium flex items-center space-x-1">
+                    <button
+                      onClick={() => setDetailsFor(product)}
+                      className="text-blue-600 hover:text-blue-500 text-sm font-medium flex items-center space-x-1"
+                    >
                       <span>View Details</span>
                       <ExternalLink className="w-3 h-3" />
                     </button>
                   </div>
                 </div>
-              ))}
+                );
+              })}
             </div>
 
+            {companyProfile.risk.factors.length > 0 && (
+              <div className="mt-6 pt-6 border-t">
+                <div className="flex items-center justify-between mb-3">
+                  <h4 className="text-sm font-medium text-gray-900">Risk Factors</h4>
+                  <span className="text-sm text-gray-600">
+                    Score {companyProfile.risk.score} · {companyProfile.risk.level}
+                    {companyProfile.destinationCountry && ` · scored for ${getCountryName(companyProfile.destinationCountry)}`}
+                  </span>
+                </div>
+                <ul className="space-y-2">
+                  {companyProfile.risk.factors.map(factor => (
+                    <li key={factor.id} className="text-sm">
+                      <div className="flex items-center justify-between">
+                        <span className="text-gray-800">{RISK_FACTOR_LABELS[factor.id]}</span>
+                        <span className="font-mono text-gray-700">
+                          {factor.occurrences.length} × {factor.weight} = {factor.points}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-500">{factor.occurrences.join(', ')}</p>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             <div className="mt-6 pt-6 border-t">
               <div className="grid grid-cols-3 gap-4 text-center">
                 <div>
@@ -235,6 +437,38 @@ export default function CompanyAnalysis() {
           </div>
         </div>
       )}
+
+      {historyFor && (
+        <CompanyHistory
+          companyName={historyFor}
+          onClose={() => setHistoryFor(null)}
+          onOpenRun={openSavedAnalysis}
+        />
+      )}
+
+      {companyProfile && detailsFor && (
+        <CompanyProductDetails
+          product={detailsFor}
+          companyName={companyProfile.name}
+          companyId={companyProfile.id}
+          screening={companyProfile.screening}
+          destinationCountry={destinationCountry || undefined}
+          onClose={() => setDetailsFor(null)}
+          onSaved={() => onClassificationSaved?.()}
+        />
+      )}
+
+      {companyProfile?.screening && isReviewingScreening && (
+        <ScreeningReviewDialog
+          screening={companyProfile.screening}
+          canReview={canReviewScreening}
+          onClose={() => setIsReviewingScreening(false)}
+          onReviewed={(screening) => {
+            setCompanyProfile({ ...companyProfile, screening });
+            setIsReviewingScreening(false);
+          }}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
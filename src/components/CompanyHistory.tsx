@@ -0,0 +1,185 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, FileText, History, Loader2, User, X } from 'lucide-react';
+import { ClassificationRecord, CompanyRecord, DatabaseService } from '../services/database';
+import ReviewStatusBadge from './ReviewStatusBadge';
+import ScreeningBadge from './ScreeningBadge';
+
+interface CompanyHistoryProps {
+  companyName: string;
+  onClose: () => void;
+  onOpenRun: (company: CompanyRecord) => void;
+}
+
+const RISK_STYLES: Record<CompanyRecord['risk_level'], string> = {
+  Low: 'bg-green-100 text-green-800',
+  Medium: 'bg-yellow-100 text-yellow-800',
+  High: 'bg-red-100 text-red-800'
+};
+
+// What changed from one run to the next; products are matched by name, ignoring case
+function diffRuns(before: CompanyRecord, after: CompanyRecord): string[] {
+  const changes: string[] = [];
+  if (before.industry !== after.industry) changes.push(`Industry: ${before.industry} → ${after.industry}`);
+  if (before.risk_level !== after.risk_level) changes.push(`Risk level: ${before.risk_level} → ${after.risk_level}`);
+
+  const key = (name: string) => name.trim().toLowerCase();
+  const previous = new Map(before.products.map(product => [key(product.name), product]));
+  const current = new Map(after.products.map(product => [key(product.name), product]));
+
+  const added = after.products.filter(product => !previous.has(key(product.name)));
+  const removed = before.products.filter(product => !current.has(key(product.name)));
+  if (added.length > 0) changes.push(`Added: ${added.map(product => product.name).join(', ')}`);
+  if (removed.length > 0) changes.push(`Removed: ${removed.map(product => product.name).join(', ')}`);
+
+  for (const product of after.products) {
+    const earlier = previous.get(key(product.name));
+    if (earlier && earlier.hs_code !== product.hs_code) {
+      changes.push(`${product.name}: ${earlier.hs_code} → ${product.hs_code}`);
+    }
+  }
+  return changes;
+}
+
+export default function CompanyHistory({ companyName, onClose, onOpenRun }: CompanyHistoryProps) {
+  const [runs, setRuns] = useState<CompanyRecord[]>([]);
+  const [classifications, setClassifications] = useState<ClassificationRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHistory = async (name: string) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const [history, linked] = await Promise.all([
+        DatabaseService.getCompanyHistory(name),
+        DatabaseService.getClassificationsForCompany(name)
+      ]);
+      setRuns(history);
+      setClassifications(linked);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to load company history');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadHistory(companyName);
+  }, [companyName]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-40 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-3">
+            <div className="bg-indigo-100 p-2 rounded-lg">
+              <History className="w-5 h-5 text-indigo-700" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Company History</h2>
+              <p className="text-sm text-gray-600">{companyName}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
+              <AlertTriangle className="w-5 h-5 text-red-600 mt-0.5" />
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 text-indigo-600 animate-spin" />
+            </div>
+          ) : (
+            <>
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 mb-3">Analysis Runs</h3>
+                {runs.length === 0 ? (
+                  <p className="text-sm text-gray-500">No saved analyses for this company.</p>
+                ) : (
+                  <ol className="space-y-3">
+                    {runs.map((run, index) => {
+                      const previous = runs[index + 1];
+                      const changes = previous ? diffRuns(previous, run) : [];
+                      return (
+                        <li key={run.id} className="border-l-2 border-gray-200 pl-4">
+                          <div className="flex items-center flex-wrap gap-2 text-sm">
+                            <span className="font-medium text-gray-900">{new Date(run.created_at).toLocaleString()}</span>
+                            <span
+                              className={`px-2 py-0.5 rounded-full text-xs font-medium ${RISK_STYLES[run.risk_level]}`}
+                              title={run.risk_score != null ? `Score ${run.risk_score}` : undefined}
+                            >
+                              {run.risk_level} Risk
+                            </span>
+                            {run.party_screening && <ScreeningBadge status={run.party_screening.status} />}
+                            {run.analyzed_by && (
+                              <span className="inline-flex items-center text-gray-600">
+                                <User className="w-3 h-3 mr-1" />
+                                {run.analyzed_by}
+                              </span>
+                            )}
+                            <button
+                              onClick={() => onOpenRun(run)}
+                              className="text-indigo-600 hover:text-indigo-500 text-xs font-medium"
+                            >
+                              Open
+                            </button>
+                          </div>
+                          <p className="text-xs text-gray-600 mt-1">
+                            {run.industry} · {run.products.length} products
+                          </p>
+                          {!previous ? (
+                            <p className="text-xs text-gray-500 mt-1">First analysis</p>
+                          ) : changes.length === 0 ? (
+                            <p className="text-xs text-gray-500 mt-1">No changes since the previous run</p>
+                          ) : (
+                            <ul className="text-xs text-gray-700 mt-1 space-y-0.5">
+                              {changes.map(change => <li key={change}>• {change}</li>)}
+                            </ul>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ol>
+                )}
+              </div>
+
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 mb-3">Classifications for this Customer</h3>
+                {classifications.length === 0 ? (
+                  <p className="text-sm text-gray-500">No classification has this company as its customer.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                    {classifications.map(record => (
+                      <li key={record.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                        <div className="flex items-center space-x-2 min-w-0">
+                          <FileText className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                          <span className="text-gray-900 truncate">{record.product_name}</span>
+                          {record.company_id && (
+                            <span className="text-xs text-indigo-600 flex-shrink-0">From analysis</span>
+                          )}
+                        </div>
+                        <div className="flex items-center space-x-3 flex-shrink-0">
+                          <span className="font-mono text-gray-700">{record.hs_code}</span>
+                          <ReviewStatusBadge status={record.status} />
+                          <span className="text-xs text-gray-500">{new Date(record.created_at).toLocaleDateString()}</span>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
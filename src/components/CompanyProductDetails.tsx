@@ -0,0 +1,214 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, HelpCircle, Loader2, Save, Search, X } from 'lucide-react';
+import { classifyProduct, indexClassifications } from '../services/classifier';
+import { findControlEntries, hasDualUseEvidence } from '../services/controls';
+import { ClassificationRecord, DatabaseService, PartyScreeningRecord } from '../services/database';
+import { generateWTOLink, HSCodeCandidate, HSCodeClassification } from '../services/openai';
+import { assessDestination } from '../services/sanctions';
+import ResultsDisplay from './ResultsDisplay';
+
+interface CompanyProductDetailsProps {
+  product: { name: string; category: string };
+  companyName: string;
+  // The saved analysis run; unset when the analysis could not be saved
+  companyId?: string;
+  screening?: PartyScreeningRecord;
+  destinationCountry?: string;
+  onClose: () => void;
+  onSaved?: (record: ClassificationRecord) => void;
+}
+
+// The category narrows the product down the way a broker's description would
+function describeProduct(product: { name: string; category: string }): string {
+  return product.category ? `${product.name} (${product.category})` : product.name;
+}
+
+export default function CompanyProductDetails({
+  product,
+  companyName,
+  companyId,
+  screening,
+  destinationCountry,
+  onClose,
+  onSaved
+}: CompanyProductDetailsProps) {
+  const productName = describeProduct(product);
+  const [classification, setClassification] = useState<HSCodeClassification | null>(null);
+  const [saved, setSaved] = useState<ClassificationRecord | null>(null);
+  const [isClassifying, setIsClassifying] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runClassification = async (name: string, customer: string, destination?: string) => {
+    try {
+      setIsClassifying(true);
+      setError(null);
+      setSaved(null);
+      setClassification(await classifyProduct(name, customer, { destinationCountry: destination }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Classification failed');
+    } finally {
+      setIsClassifying(false);
+    }
+  };
+
+  useEffect(() => {
+    runClassification(productName, companyName, destinationCountry);
+  }, [productName, companyName, destinationCountry]);
+
+  // Until it is saved the user can still promote an alternative, as on the classification tab
+  const handleSelectCandidate = (_resultId: string, candidate: HSCodeCandidate) => {
+    if (!classification || saved) return;
+    const controlEntries = findControlEntries(candidate.hsCode);
+    setClassification({
+      ...classification,
+      hsCode: candidate.hsCode,
+      chapter: candidate.chapter,
+      description: candidate.description,
+      confidence: candidate.confidence,
+      controlEntries,
+      isDualUse: hasDualUseEvidence(controlEntries),
+      sanctions: classification.sanctions && assessDestination(candidate.hsCode, classification.sanctions.destinationCountry, controlEntries)
+    });
+  };
+
+  const handleSave = async () => {
+    if (!classification) return;
+    try {
+      setIsSaving(true);
+      setError(null);
+      const record = await DatabaseService.saveClassification({
+        product_name: productName,
+        customer_name: companyName,
+        jurisdiction: classification.jurisdiction,
+        hs_code: classification.hsCode,
+        chapter: classification.chapter,
+        description: classification.description,
+        confidence: classification.confidence,
+        is_dual_use: classification.isDualUse,
+        destination_country: classification.sanctions?.destinationCountry,
+        // The company was screened when it was analysed
+        party_screening_id: screening?.id,
+        company_id: companyId,
+        reasoning: classification.reasoning,
+        wto_links: generateWTOLink(classification.hsCode),
+        candidates: classification.candidates,
+        gri_trace: classification.griTrace,
+        precedents: classification.precedents
+      }, { reason: `Classified from the ${companyName} company analysis` });
+      setSaved(record);
+      indexClassifications([record]);
+      onSaved?.(record);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to save the classification');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmitForReview = async () => {
+    if (!saved) return;
+    try {
+      setError(null);
+      setSaved(await DatabaseService.submitForReview(saved.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to submit the classification for review');
+    }
+  };
+
+  const links = classification ? generateWTOLink(classification.hsCode) : null;
+  const result = classification && links ? {
+    id: saved?.id || 'company-product',
+    productName,
+    hsCode: classification.hsCode,
+    chapter: classification.chapter,
+    description: classification.description,
+    confidence: classification.confidence,
+    wtoLink: links.search,
+    isDualUse: classification.isDualUse,
+    controlEntries: classification.controlEntries,
+    destinationCountry: classification.sanctions?.destinationCountry,
+    sanctionsVerdict: classification.sanctions?.verdict,
+    sanctionsRules: classification.sanctions?.rules,
+    timestamp: saved ? new Date(saved.created_at) : new Date(),
+    customerName: companyName,
+    partyScreening: screening,
+    jurisdiction: classification.jurisdiction,
+    reasoning: classification.reasoning,
+    links,
+    candidates: classification.candidates,
+    griTrace: classification.griTrace,
+    precedents: classification.precedents,
+    status: saved?.status || 'draft',
+    isSaved: !!saved
+  } : null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-40 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-50 rounded-xl shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 bg-white border-b border-gray-200 rounded-t-xl">
+          <div className="flex items-center space-x-3">
+            <div className="bg-blue-100 p-2 rounded-lg">
+              <Search className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">{product.name}</h2>
+              <p className="text-sm text-gray-600">Full classification for {companyName}</p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-3">
+            {classification && !saved && (
+              <button
+                onClick={handleSave}
+                disabled={isSaving || isClassifying}
+                className="inline-flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                <span>Save to History</span>
+              </button>
+            )}
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
+              <AlertTriangle className="w-5 h-5 text-red-600 mt-0.5" />
+              <div>
+                <p className="text-sm text-red-700">{error}</p>
+                {!classification && (
+                  <button onClick={() => runClassification(productName, companyName, destinationCountry)} className="text-sm text-red-800 underline mt-1">Try again</button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {classification && classification.clarifyingQuestions.length > 0 && !saved && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 flex items-start space-x-3">
+              <HelpCircle className="w-5 h-5 text-amber-600 mt-0.5" />
+              <div>
+                <h4 className="text-sm font-medium text-amber-800 mb-1">Open Questions</h4>
+                <p className="text-sm text-amber-700 mb-2">
+                  The portfolio entry leaves these facts open; answer them on the classification tab for a firmer code.
+                </p>
+                <ul className="text-sm text-amber-700 space-y-1">
+                  {classification.clarifyingQuestions.map(question => <li key={question.attribute}>• {question.question}</li>)}
+                </ul>
+              </div>
+            </div>
+          )}
+
+          <ResultsDisplay
+            results={result ? [result] : []}
+            isLoading={isClassifying}
+            onSelectCandidate={saved ? undefined : handleSelectCandidate}
+            onSubmitForReview={handleSubmitForReview}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+import { useState } from 'react';
+import { AlertTriangle, CheckCircle, GitCompare, Loader2, RefreshCw } from 'lucide-react';
+import {
+  ConsistencyCluster,
+  DUPLICATE_REASON_LABELS,
+  loadConsistencyReport,
+  planPropagation,
+  propagateCanonicalCode
+} from '../services/consistency';
+import { getJurisdictionLabel } from '../services/tariffs';
+import { getUserName } from '../services/identity';
+import ReviewStatusBadge from './ReviewStatusBadge';
+
+export default function ConsistencyReport() {
+  // Null until the check has run; it compares the whole history, so it runs on request
+  const [clusters, setClusters] = useState<ConsistencyCluster[] | null>(null);
+  const [checkedAt, setCheckedAt] = useState<Date | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [activeClusterId, setActiveClusterId] = useState<string | null>(null);
+  const [canonicalId, setCanonicalId] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+  const [isApplying, setIsApplying] = useState(false);
+
+  const runCheck = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setClusters(await loadConsistencyReport());
+      setCheckedAt(new Date());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to run the consistency check');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openCluster = (cluster: ConsistencyCluster) => {
+    setActiveClusterId(activeClusterId === cluster.id ? null : cluster.id);
+    setCanonicalId(null);
+    setNote('');
+    setNotice(null);
+  };
+
+  const applyCanonical = async (cluster: ConsistencyCluster) => {
+    const canonical = cluster.records.find(record => record.id === canonicalId);
+    if (!canonical) return;
+    const { targets } = planPropagation(cluster, canonical);
+
+    try {
+      setIsApplying(true);
+      setError(null);
+      const result = await propagateCanonicalCode(canonical, targets, getUserName(), note);
+      setNotice(`${result.updated.length} of ${targets.length} records now use ${canonical.hs_code}.`);
+      if (result.failed.length > 0) {
+        setError(result.failed.map(failure => `${failure.record.product_name}: ${failure.error}`).join('\n'));
+      }
+      setActiveClusterId(null);
+      await runCheck();
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="bg-blue-100 p-2 rounded-lg">
+              <GitCompare className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Consistency Check</h2>
+              <p className="text-sm text-gray-600">
+                The same product or SKU saved with different codes or dual-use flags
+                {checkedAt && <> · checked {checkedAt.toLocaleTimeString()}</>}
+              </p>
+            </div>
+          </div>
+
+          <button
+            onClick={runCheck}
+            disabled={isLoading || isApplying}
+            className="inline-flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            <span>{clusters ? 'Run Again' : 'Run Check'}</span>
+          </button>
+        </div>
+
+        {notice && (
+          <div className="mt-6 bg-green-50 border border-green-200 rounded-lg p-4 flex items-start space-x-3">
+            <CheckCircle className="w-5 h-5 text-green-600 mt-0.5" />
+            <p className="text-sm text-green-700">{notice}</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-6 bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
+            <AlertTriangle className="w-5 h-5 text-red-600 mt-0.5" />
+            <p className="text-sm text-red-700 whitespace-pre-line">{error}</p>
+          </div>
+        )}
+      </div>
+
+      {clusters && clusters.length === 0 && (
+        <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-8 text-center">
+          <CheckCircle className="w-12 h-12 text-green-500 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900">No Conflicting Classifications</h3>
+        </div>
+      )}
+
+      {clusters?.map(cluster => {
+        const isActive = activeClusterId === cluster.id;
+        const canonical = cluster.records.find(record => record.id === canonicalId);
+        const plan = isActive && canonical ? planPropagation(cluster, canonical) : null;
+
+        return (
+          <div key={cluster.id} className="bg-white rounded-xl shadow-lg border border-gray-200 overflow-hidden">
+            <button onClick={() => openCluster(cluster)} className="w-full text-left p-6 hover:bg-gray-50 transition-colors">
+              <div className="flex items-start justify-between">
+                <div>
+                  <h3 className="text-base font-semibold text-gray-900">{cluster.records[0].product_name}</h3>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {cluster.records.length} records · {cluster.reasons.map(reason => DUPLICATE_REASON_LABELS[reason]).join(', ')}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {cluster.hasDualUseConflict && (
+                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                      <AlertTriangle className="w-3 h-3 mr-1" />
+                      Dual-Use Disagrees
+                    </span>
+                  )}
+                  {cluster.hasCodeConflict && (
+                    <span className="px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                      {cluster.codes.length} Codes
+                    </span>
+                  )}
+                </div>
+              </div>
+              <div className="mt-3 flex flex-wrap gap-2">
+                {cluster.codes.map(code => (
+                  <span key={code.hsCode} className="font-mono text-xs bg-gray-100 text-gray-800 px-2 py-1 rounded">
+                    {code.hsCode} × {code.count}
+                  </span>
+                ))}
+              </div>
+            </button>
+
+            {isActive && (
+              <div className="px-6 pb-6 border-t border-gray-200 pt-4 space-y-4">
+                <p className="text-sm text-gray-600">Select the record whose code is correct.</p>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500 border-b">
+                        <th className="py-2 pr-3"></th>
+                        <th className="py-2 pr-3">Product</th>
+                        <th className="py-2 pr-3">Customer</th>
+                        <th className="py-2 pr-3">SKU</th>
+                        <th className="py-2 pr-3">Schedule</th>
+                        <th className="py-2 pr-3">Code</th>
+                        <th className="py-2 pr-3">Status</th>
+                        <th className="py-2">Saved</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {cluster.records.map(record => (
+                        <tr key={record.id} className="border-b last:border-0">
+                          <td className="py-2 pr-3">
+                            <input
+                              type="radio"
+                              name={`canonical-${cluster.id}`}
+                              checked={canonicalId === record.id}
+                              onChange={() => setCanonicalId(record.id)}
+                              className="text-blue-600 focus:ring-blue-500"
+                            />
+                          </td>
+                          <td className="py-2 pr-3 text-gray-900">{record.product_name}</td>
+                          <td className="py-2 pr-3 text-gray-600">{record.customer_name || '—'}</td>
+                          <td className="py-2 pr-3 text-gray-600">{record.sku || '—'}</td>
+                          <td className="py-2 pr-3 text-gray-600">{record.jurisdiction ? getJurisdictionLabel(record.jurisdiction) : '—'}</td>
+                          <td className="py-2 pr-3">
+                            <span className="font-mono text-gray-900">{record.hs_code}</span>
+                            {record.is_dual_use && <AlertTriangle className="inline w-3 h-3 ml-1 text-amber-600" />}
+                          </td>
+                          <td className="py-2 pr-3"><ReviewStatusBadge status={record.status} /></td>
+                          <td className="py-2 text-gray-500">{new Date(record.created_at).toLocaleDateString()}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {canonical && plan && (
+                  <div className="space-y-3">
+                    {plan.targets.length > 0 ? (
+                      <p className="text-sm text-gray-700">
+                        {plan.targets.length} record{plan.targets.length === 1 ? '' : 's'} will be overridden with{' '}
+                        <span className="font-mono font-medium">{canonical.hs_code}</span>; the reason is recorded in each audit trail.
+                      </p>
+                    ) : (
+                      <p className="text-sm text-gray-700">No record in the same schedule uses a different code.</p>
+                    )}
+                    {plan.manual.length > 0 && (
+                      <p className="text-sm text-amber-700">
+                        {plan.manual.length} record{plan.manual.length === 1 ? ' is a draft or is' : 's are drafts or are'} in another
+                        schedule with a different subheading and must be reviewed individually.
+                      </p>
+                    )}
+                    <input
+                      type="text"
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      placeholder="Note for the audit trail (optional)"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <button
+                      onClick={() => applyCanonical(cluster)}
+                      disabled={isApplying || plan.targets.length === 0}
+                      className="inline-flex items-center space-x-2 bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
+                    >
+                      {isApplying && <Loader2 className="w-4 h-4 animate-spin" />}
+                      <span>Apply Canonical Code</span>
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { AlertTriangle, ShieldCheck } from 'lucide-react';
+import { CONTROL_REGIME_LABELS, ControlMatch, hasDualUseEvidence } from '../services/controls';
+
+interface ControlEntriesPanelProps {
+  entries: ControlMatch[];
+}
+
+export default function ControlEntriesPanel({ entries }: ControlEntriesPanelProps) {
+  const isDualUse = hasDualUseEvidence(entries);
+
+  if (entries.length === 0) {
+    return (
+      <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 flex items-start space-x-3">
+        <ShieldCheck className="w-5 h-5 text-gray-500 mt-0.5" />
+        <p className="text-sm text-gray-600">
+          No EU Annex I or US CCL entry correlates with this code in the bundled tables. Catch-all controls
+          based on end use or end user still apply.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`${isDualUse ? 'bg-amber-50 border-amber-200' : 'bg-gray-50 border-gray-200'} border rounded-lg p-4`}>
+      <div className="flex items-start space-x-3 mb-3">
+        <AlertTriangle className={`w-5 h-5 mt-0.5 ${isDualUse ? 'text-amber-600' : 'text-gray-500'}`} />
+        <div>
+          <h4 className={`text-sm font-medium mb-1 ${isDualUse ? 'text-amber-800' : 'text-gray-800'}`}>
+            {isDualUse ? 'Possible Dual-Use Item' : 'Anti-Terrorism Controls Only'}
+          </h4>
+          <p className={`text-sm ${isDualUse ? 'text-amber-700' : 'text-gray-600'}`}>
+            This code correlates with the control entries below. Check the product against each entry's
+            parameters to confirm or rule it out.
+          </p>
+        </div>
+      </div>
+
+      <ul className="space-y-3">
+        {entries.map(match => (
+          <li key={`${match.regime}-${match.entry}`} className="bg-white border border-gray-200 rounded-lg p-3">
+            <div className="flex items-center justify-between mb-1">
+              <span className="font-mono font-medium text-gray-900">{match.entry}</span>
+              <span className="text-xs text-gray-500">
+                {CONTROL_REGIME_LABELS[match.regime]}{!match.dualUseListed && ' · AT only'}
+              </span>
+            </div>
+            <p className="text-sm text-gray-700 mb-2">{match.title}</p>
+            <ul className="text-xs text-gray-600 space-y-1">
+              {match.parameters.map(parameter => (
+                <li key={parameter}>• {parameter}</li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, GitBranch, BookOpen } from 'lucide-react';
+import { GRITraceStep } from '../services/openai';
+
+interface GRIDecisionTreeProps {
+  steps: GRITraceStep[];
+  hsCode: string;
+}
+
+const LEVEL_LABELS: Record<GRITraceStep['level'], string> = {
+  section: 'Section',
+  chapter: 'Chapter',
+  heading: 'Heading',
+  subheading: 'Subheading'
+};
+
+export default function GRIDecisionTree({ steps, hsCode }: GRIDecisionTreeProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [expandedSteps, setExpandedSteps] = useState<Set<number>>(new Set());
+
+  const toggleStep = (index: number) => {
+    setExpandedSteps(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  // The trace is produced for the model's top-ranked code, which the broker may have overridden
+  const tracedCode = steps[steps.length - 1]?.code.replace(/\D/g, '');
+  const isForSelectedCode = !tracedCode || hsCode.replace(/\D/g, '').startsWith(tracedCode);
+
+  return (
+    <div className="mt-6 border border-gray-200 rounded-lg">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-4 py-3 text-left hover:bg-gray-50 transition-colors"
+      >
+        <div className="flex items-center space-x-2">
+          <GitBranch className="w-4 h-4 text-gray-600" />
+          <span className="text-sm font-medium text-gray-700">GRI Decision Trace</span>
+          <span className="text-xs text-gray-500">{steps.length} steps</span>
+        </div>
+        {isOpen ? <ChevronDown className="w-4 h-4 text-gray-500" /> : <ChevronRight className="w-4 h-4 text-gray-500" />}
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4">
+          {!isForSelectedCode && (
+            <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded p-2 mb-3">
+              This trace explains the AI's top-ranked code, not the selected code {hsCode}.
+            </p>
+          )}
+          <ol className="space-y-2">
+            {steps.map((step, index) => {
+              const hasDetails = step.citedNotes.length > 0 || step.alternativesConsidered.length > 0;
+              const isExpanded = expandedSteps.has(index);
+              return (
+                <li key={index} style={{ marginLeft: `${index * 1.25}rem` }} className="border-l-2 border-blue-200 pl-3">
+                  <button
+                    onClick={() => hasDetails && toggleStep(index)}
+                    className={`w-full text-left ${hasDetails ? 'cursor-pointer' : 'cursor-default'}`}
+                  >
+                    <div className="flex items-center space-x-2">
+                      {hasDetails && (isExpanded
+                        ? <ChevronDown className="w-3 h-3 text-gray-500" />
+                        : <ChevronRight className="w-3 h-3 text-gray-500" />)}
+                      <span className="text-xs font-medium text-gray-500 uppercase">{LEVEL_LABELS[step.level]}</span>
+                      <span className="text-sm font-mono font-medium text-gray-900">{step.code}</span>
+                      <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                        GRI {step.rule}
+                      </span>
+                    </div>
+                    <p className="text-xs text-gray-700 mt-1">{step.decision}</p>
+                  </button>
+
+                  {isExpanded && (
+                    <div className="mt-2 space-y-2">
+                      {step.citedNotes.length > 0 && (
+                        <div className="flex flex-wrap gap-1">
+                          {step.citedNotes.map(note => (
+                            <span key={note} className="inline-flex items-center px-2 py-0.5 rounded text-xs bg-gray-100 text-gray-700">
+                              <BookOpen className="w-3 h-3 mr-1" />
+                              {note}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                      {step.alternativesConsidered.length > 0 && (
+                        <ul className="text-xs text-gray-600 space-y-1">
+                          {step.alternativesConsidered.map(alternative => (
+                            <li key={alternative}>• {alternative}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
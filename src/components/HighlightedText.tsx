@@ -0,0 +1,22 @@
+import { SEARCH_HIGHLIGHT_END, SEARCH_HIGHLIGHT_START } from '../services/database';
+
+interface HighlightedTextProps {
+  text: string;
+  className?: string;
+}
+
+const HIGHLIGHT_PATTERN = new RegExp(`${SEARCH_HIGHLIGHT_START}([^${SEARCH_HIGHLIGHT_END}]*)${SEARCH_HIGHLIGHT_END}`, 'g');
+
+// Renders search highlights as marks; the text stays plain text
+export default function HighlightedText({ text, className }: HighlightedTextProps) {
+  // Odd parts are the matched terms captured by the pattern
+  const parts = text.split(HIGHLIGHT_PATTERN);
+  return (
+    <span className={className}>
+      {parts.map((part, index) => index % 2 === 1
+        ? <mark key={index} className="bg-yellow-200 text-inherit rounded px-0.5">{part}</mark>
+        : part
+      )}
+    </span>
+  );
+}
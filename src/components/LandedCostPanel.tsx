@@ -0,0 +1,177 @@
+import { useState } from 'react';
+import { Calculator, Download } from 'lucide-react';
+import { calculateLandedCost, getDutyRates, IMPORT_TAX_RULES, MFN_PROGRAMME } from '../services/duty';
+import { downloadCSV } from '../services/export';
+import { Jurisdiction, JURISDICTION_INFO } from '../services/tariffs';
+
+interface LandedCostPanelProps {
+  productName: string;
+  hsCode: string;
+  description: string;
+  jurisdiction: Jurisdiction;
+}
+
+const EXPORT_HEADERS = [
+  'Product Name', 'Jurisdiction', 'Tariff Line', 'Description', 'Rate Programme', 'Scheduled Rate', 'Currency',
+  'Goods Value', 'Freight', 'Insurance', 'Valuation Basis', 'Customs Value', 'Duty Rate', 'Duty', 'Duty Surcharge',
+  'VAT/GST Rate', 'VAT/GST', 'Landed Cost'
+];
+
+function toNumber(value: string): number {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : 0;
+}
+
+export default function LandedCostPanel({ productName, hsCode, description, jurisdiction }: LandedCostPanelProps) {
+  const rules = IMPORT_TAX_RULES[jurisdiction];
+  const { nomenclature } = JURISDICTION_INFO[jurisdiction];
+  const rates = getDutyRates(hsCode, jurisdiction);
+
+  const [programme, setProgramme] = useState(MFN_PROGRAMME);
+  const [dutyRate, setDutyRate] = useState(() => String(rates[0]?.adValorem ?? ''));
+  const [vatRate, setVatRate] = useState(String(rules.vatRate));
+  const [goodsValue, setGoodsValue] = useState('');
+  const [freight, setFreight] = useState('');
+  const [insurance, setInsurance] = useState('');
+
+  const selectedRate = rates.find(rate => rate.programme === programme);
+  const breakdown = calculateLandedCost({
+    goodsValue: toNumber(goodsValue),
+    freight: toNumber(freight),
+    insurance: toNumber(insurance),
+    dutyRate: toNumber(dutyRate),
+    vatRate: toNumber(vatRate)
+  }, rules);
+
+  const money = new Intl.NumberFormat(undefined, { style: 'currency', currency: rules.currency });
+
+  const selectProgramme = (value: string) => {
+    setProgramme(value);
+    const rate = rates.find(r => r.programme === value);
+    // Specific and compound rates cannot be applied automatically, so the last rate is kept for editing
+    if (rate && rate.adValorem !== null) {
+      setDutyRate(String(rate.adValorem));
+    }
+  };
+
+  const exportEstimate = () => {
+    downloadCSV(`landed-cost-${hsCode.replace(/\D/g, '')}-${jurisdiction}.csv`, EXPORT_HEADERS, [[
+      productName,
+      nomenclature,
+      hsCode,
+      description,
+      selectedRate ? programme : 'Manual',
+      selectedRate?.rate,
+      rules.currency,
+      toNumber(goodsValue),
+      toNumber(freight),
+      toNumber(insurance),
+      rules.valuationBasis,
+      breakdown.customsValue.toFixed(2),
+      `${toNumber(dutyRate)}%`,
+      breakdown.duty.toFixed(2),
+      breakdown.surcharge.toFixed(2),
+      `${toNumber(vatRate)}%`,
+      breakdown.vat.toFixed(2),
+      breakdown.landedCost.toFixed(2)
+    ]]);
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          <Calculator className="w-4 h-4 text-gray-600" />
+          <h4 className="text-sm font-medium text-gray-700">Duty &amp; Landed Cost Estimate</h4>
+        </div>
+        <button
+          type="button"
+          onClick={exportEstimate}
+          disabled={toNumber(goodsValue) === 0}
+          className="inline-flex items-center space-x-1 text-xs text-blue-600 hover:text-blue-700 disabled:text-gray-400 disabled:cursor-not-allowed"
+        >
+          <Download className="w-3 h-3" />
+          <span>Export</span>
+        </button>
+      </div>
+
+      {rates.length > 0 ? (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {rates.map(rate => (
+            <button
+              key={rate.programme}
+              type="button"
+              onClick={() => selectProgramme(rate.programme)}
+              className={`px-2.5 py-1 rounded-full text-xs font-medium border transition-colors ${
+                programme === rate.programme
+                  ? 'bg-blue-600 text-white border-blue-600'
+                  : 'bg-white text-blue-700 border-blue-200 hover:bg-blue-50'
+              }`}
+            >
+              {rate.programme === MFN_PROGRAMME ? rules.dutyLabel : rate.programme}: {rate.rate}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-amber-700 mb-4">
+          No {nomenclature} rate imported for {hsCode}; enter the duty rate manually.
+        </p>
+      )}
+      {selectedRate && selectedRate.adValorem === null && (
+        <p className="text-xs text-amber-700 mb-4">
+          {selectedRate.rate} is not an ad valorem rate; enter its equivalent percentage for this shipment.
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-4">
+        <label className="text-xs text-gray-600">
+          Goods value ({rules.currency})
+          <input type="number" min="0" step="any" value={goodsValue} onChange={(e) => setGoodsValue(e.target.value)} className={inputClass} />
+        </label>
+        <label className="text-xs text-gray-600">
+          Freight
+          <input type="number" min="0" step="any" value={freight} onChange={(e) => setFreight(e.target.value)} className={inputClass} />
+        </label>
+        <label className="text-xs text-gray-600">
+          Insurance
+          <input type="number" min="0" step="any" value={insurance} onChange={(e) => setInsurance(e.target.value)} className={inputClass} />
+        </label>
+        <label className="text-xs text-gray-600">
+          Duty rate (%)
+          <input type="number" min="0" step="any" value={dutyRate} onChange={(e) => setDutyRate(e.target.value)} className={inputClass} />
+        </label>
+        {rules.vatLabel && (
+          <label className="text-xs text-gray-600">
+            {rules.vatLabel} (%)
+            <input type="number" min="0" step="any" value={vatRate} onChange={(e) => setVatRate(e.target.value)} className={inputClass} />
+          </label>
+        )}
+      </div>
+
+      <dl className="grid grid-cols-2 md:grid-cols-3 gap-x-6 gap-y-1 text-sm">
+        <dt className="text-gray-600">Customs value ({rules.valuationBasis})</dt>
+        <dd className="md:col-span-2 font-medium text-gray-900">{money.format(breakdown.customsValue)}</dd>
+        <dt className="text-gray-600">{rules.dutyLabel}</dt>
+        <dd className="md:col-span-2 font-medium text-gray-900">{money.format(breakdown.duty)}</dd>
+        {rules.dutySurcharge && (
+          <>
+            <dt className="text-gray-600">{rules.dutySurcharge.label} ({rules.dutySurcharge.rate}% of duty)</dt>
+            <dd className="md:col-span-2 font-medium text-gray-900">{money.format(breakdown.surcharge)}</dd>
+          </>
+        )}
+        {rules.vatLabel && (
+          <>
+            <dt className="text-gray-600">{rules.vatLabel} on {money.format(breakdown.vatBase)}</dt>
+            <dd className="md:col-span-2 font-medium text-gray-900">{money.format(breakdown.vat)}</dd>
+          </>
+        )}
+        <dt className="text-gray-900 font-medium border-t pt-1">Landed cost</dt>
+        <dd className="md:col-span-2 font-bold text-gray-900 border-t pt-1">{money.format(breakdown.landedCost)}</dd>
+      </dl>
+
+      {rules.note && <p className="text-xs text-gray-500 mt-3">{rules.note}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { AlertTriangle, BookOpen } from 'lucide-react';
+import { CLOSE_PRECEDENT_SIMILARITY, findPrecedentConflict, Precedent } from '../services/precedents';
+
+interface PrecedentsPanelProps {
+  precedents: Precedent[];
+  // The code currently chosen, which may be an alternative the user selected
+  hsCode: string;
+}
+
+export default function PrecedentsPanel({ precedents, hsCode }: PrecedentsPanelProps) {
+  if (precedents.length === 0) return null;
+
+  const conflict = findPrecedentConflict(hsCode, precedents);
+  const sorted = [...precedents].sort((a, b) => b.similarity - a.similarity);
+
+  return (
+    <div className={`${conflict ? 'bg-amber-50 border-amber-200' : 'bg-gray-50 border-gray-200'} border rounded-lg p-4`}>
+      <div className="flex items-start space-x-3 mb-3">
+        {conflict
+          ? <AlertTriangle className="w-5 h-5 mt-0.5 text-amber-600" />
+          : <BookOpen className="w-5 h-5 mt-0.5 text-gray-500" />}
+        <div>
+          <h4 className={`text-sm font-medium mb-1 ${conflict ? 'text-amber-800' : 'text-gray-800'}`}>
+            {conflict ? 'Disagrees with a Close Precedent' : 'Precedents Used'}
+          </h4>
+          <p className={`text-sm ${conflict ? 'text-amber-700' : 'text-gray-600'}`}>
+            {conflict
+              ? `"${conflict.precedent.productName}" was approved under ${conflict.precedentSubheading}, this classification uses
+                ${conflict.classifiedSubheading}. Confirm which facts justify the different subheading.`
+              : 'Approved classifications of similar products the model was given as guidance.'}
+          </p>
+        </div>
+      </div>
+
+      <ul className="space-y-2">
+        {sorted.map(precedent => (
+          <li key={precedent.classificationId} className="bg-white border border-gray-200 rounded-lg p-3">
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-sm font-medium text-gray-900">{precedent.productName}</span>
+              <span className="font-mono text-sm text-gray-800">{precedent.hsCode}</span>
+            </div>
+            <p className="text-xs text-gray-600">{precedent.description}</p>
+            <p className="text-xs text-gray-500 mt-1">
+              {Math.round(precedent.similarity * 100)}% similar
+              {precedent.similarity >= CLOSE_PRECEDENT_SIMILARITY && ' · close match'}
+              {precedent.reviewedBy && ` · approved by ${precedent.reviewedBy}`}
+              {precedent.reviewedAt && ` on ${new Date(precedent.reviewedAt).toLocaleDateString()}`}
+            </p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -1,5 +1,23 @@
-import React from 'react';
-import { ExternalLink, AlertTriangle, CheckCircle, TrendingUp, Clock, Building2 } from 'lucide-react';
+import { useState } from 'react';
+import { ExternalLink, AlertTriangle, CheckCircle, TrendingUp, Clock, Building2, ListOrdered, Send } from 'lucide-react';
+import { ClarificationAnswer, GRITraceStep, HSCodeCandidate } from '../services/openai';
+import GRIDecisionTree from './GRIDecisionTree';
+import LandedCostPanel from './LandedCostPanel';
+import ControlEntriesPanel from './ControlEntriesPanel';
+import PrecedentsPanel from './PrecedentsPanel';
+import SimilarClassificationsPanel from './SimilarClassificationsPanel';
+import { Precedent } from '../services/precedents';
+import { ControlMatch } from '../services/controls';
+import { SanctionsRule, SanctionsVerdict } from '../services/sanctions';
+import SanctionsBadge from './SanctionsBadge';
+import SanctionsPanel from './SanctionsPanel';
+import ReviewStatusBadge from './ReviewStatusBadge';
+import ScreeningBadge from './ScreeningBadge';
+import ScreeningReviewDialog from './ScreeningReviewDialog';
+import { ClassificationStatus, PartyScreeningRecord } from '../services/database';
+import { formatHSCode, lookupHSCode } from '../services/nomenclature';
+import { Jurisdiction, JURISDICTION_INFO, lookupTariffLine } from '../services/tariffs';
+import { isEmbeddingConfigured } from '../services/classifier';
 
 interface ClassificationResult {
   id: string;
@@ -10,8 +28,14 @@ interface ClassificationResult {
   confidence: number;
   wtoLink: string;
   isDualUse: boolean;
+  controlEntries?: ControlMatch[];
+  destinationCountry?: string;
+  sanctionsVerdict?: SanctionsVerdict;
+  sanctionsRules?: SanctionsRule[];
   timestamp: Date;
   customerName?: string;
+  partyScreening?: PartyScreeningRecord;
+  jurisdiction?: Jurisdiction;
   reasoning?: string;
   links?: {
     wto: string;
@@ -20,20 +44,52 @@ interface ClassificationResult {
     detailed: string;
     search: string;
   };
+  candidates?: HSCodeCandidate[];
+  griTrace?: GRITraceStep[];
+  clarifications?: ClarificationAnswer[];
+  precedents?: Precedent[];
+  status: ClassificationStatus;
+  isSaved: boolean;
+  // Why the result could not be saved, e.g. a code that is not in HS 2022 or the tariff schedule
+  saveError?: string;
 }
 
 interface ResultsDisplayProps {
   results: ClassificationResult[];
   isLoading: boolean;
+  onSelectCandidate?: (resultId: string, candidate: HSCodeCandidate) => void;
+  onSubmitForReview?: (resultId: string) => void;
+  canReviewScreening?: boolean;
+  onScreeningReviewed?: (resultId: string, screening: PartyScreeningRecord) => void;
 }
 
-export default function ResultsDisplay({ results, isLoading }: ResultsDisplayProps) {
+export default function ResultsDisplay({
+  results,
+  isLoading,
+  onSelectCandidate,
+  onSubmitForReview,
+  canReviewScreening = false,
+  onScreeningReviewed
+}: ResultsDisplayProps) {
+  const [screeningResultId, setScreeningResultId] = useState<string | null>(null);
+  const screeningResult = results.find(result => result.id === screeningResultId);
+
   const getConfidenceColor = (confidence: number) => {
     if (confidence >= 95) return 'text-green-600 bg-green-100';
     if (confidence >= 85) return 'text-yellow-600 bg-yellow-100';
     return 'text-red-600 bg-red-100';
   };
 
+  const getOfficialText = (hsCode: string) => {
+    const lookup = lookupHSCode(hsCode);
+    const entry = lookup.subheading || lookup.heading || lookup.chapter;
+    if (!entry || !lookup.verifiedLevel) return null;
+    return {
+      label: `${lookup.verifiedLevel} ${entry.code.length > 2 ? formatHSCode(entry.code) : entry.code}`,
+      description: entry.description
+    };
+  };
+
   const getConfidenceText = (confidence: number) => {
     if (confidence >= 95) return 'High Confidence';
     if (confidence >= 85) return 'Medium Confidence';
@@ -75,166 +131,333 @@ export default function ResultsDisplay({ results, isLoading }: ResultsDisplayPro
 
   return (
     <div className="space-y-6">
-      {results.map((result) => (
-        <div key={result.id} className="bg-white rounded-xl shadow-lg border border-gray-200 overflow-hidden">
-          <div className="p-6">
-            <div className="flex items-start justify-between mb-4">
-              <div className="flex-1">
-                <h3 className="text-lg font-semibold text-gray-900 mb-1">
-                  {result.productName}
-                </h3>
-                {result.customerName && (
-                  <div className="flex items-center space-x-2 text-sm text-gray-600 mb-2">
-                    <Building2 className="w-4 h-4" />
-                    <span>Customer: {result.customerName}</span>
+      {results.map((result) => {
+        const official = getOfficialText(result.hsCode);
+        const national = result.jurisdiction ? JURISDICTION_INFO[result.jurisdiction] : null;
+        const nationalText = result.jurisdiction ? lookupTariffLine(result.hsCode, result.jurisdiction) : undefined;
+        return (
+          <div key={result.id} className="bg-white rounded-xl shadow-lg border border-gray-200 overflow-hidden">
+            <div className="p-6">
+              <div className="flex items-start justify-between mb-4">
+                <div className="flex-1">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-1">
+                    {result.productName}
+                  </h3>
+                  {result.customerName && (
+                    <div className="flex items-center space-x-2 text-sm text-gray-600 mb-2">
+                      <Building2 className="w-4 h-4" />
+                      <span>Customer: {result.customerName}</span>
+                      {result.partyScreening && (
+                        <ScreeningBadge status={result.partyScreening.status} onClick={() => setScreeningResultId(result.id)} />
+                      )}
+                    </div>
+                  )}
+                  <div className="flex items-center space-x-2 text-sm text-gray-500">
+                    <Clock className="w-4 h-4" />
+                    <span>{result.timestamp.toLocaleString()}</span>
                   </div>
-                )}
-                <div className="flex items-center space-x-2 text-sm text-gray-500">
-                  <Clock className="w-4 h-4" />
-                  <span>{result.timestamp.toLocaleString()}</span>
-                </div>
-              </div>
-              
-              <div className="flex items-center space-x-3">
-                <div className={`px-3 py-1 rounded-full text-sm font-medium ${getConfidenceColor(result.confidence)}`}>
-                  {result.confidence}% {getConfidenceText(result.confidence)}
                 </div>
-                {result.isDualUse && (
-                  <div className="bg-amber-100 text-amber-800 px-3 py-1 rounded-full text-sm font-medium flex items-center space-x-1">
-                    <AlertTriangle className="w-4 h-4" />
-                    <span>Dual-Use</span>
+                
+                <div className="flex items-center space-x-3">
+                  <ReviewStatusBadge status={result.status} />
+                  <div className={`px-3 py-1 rounded-full text-sm font-medium ${getConfidenceColor(result.confidence)}`}>
+                    {result.confidence}% {getConfidenceText(result.confidence)}
                   </div>
-                )}
+                  {result.isDualUse && (
+                    <div className="bg-amber-100 text-amber-800 px-3 py-1 rounded-full text-sm font-medium flex items-center space-x-1">
+                      <AlertTriangle className="w-4 h-4" />
+                      <span>Dual-Use</span>
+                    </div>
+                  )}
+                  {result.destinationCountry && result.sanctionsVerdict && (
+                    <SanctionsBadge verdict={result.sanctionsVerdict} destinationCountry={result.destinationCountry} />
+                  )}
+                </div>
               </div>
-            </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <div className="space-y-4">
-                <div>
-                  <h4 className="text-sm font-medium text-gray-700 mb-2">HS Code</h4>
-                  <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
-                    <div className="flex items-center justify-between">
-                      <span className="text-2xl font-mono font-bold text-blue-800">
-                        {result.hsCode}
-                      </span>
-                      {result.links && (
-                        <a
-                          href={result.links.search}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="text-blue-600 hover:text-blue-500 transition-colors"
-                          title="Search this HS Code"
-                        >
-                          <ExternalLink className="w-4 h-4" />
-                        </a>
-                      )}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="space-y-4">
+                  <div>
+                    <h4 className="text-sm font-medium text-gray-700 mb-2">
+                      {national ? `${national.nomenclature} Tariff Line` : 'HS Code'}
+                      {national && <span className="font-normal text-gray-500"> – {national.label}</span>}
+                    </h4>
+                    <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
+                      <div className="flex items-center justify-between">
+                        <span className="text-2xl font-mono font-bold text-blue-800">
+                          {result.hsCode}
+                        </span>
+                        {result.links && (
+                          <a
+                            href={result.links.search}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-blue-600 hover:text-blue-500 transition-colors"
+                            title="Search this HS Code"
+                          >
+                            <ExternalLink className="w-4 h-4" />
+                          </a>
+                        )}
+                      </div>
                     </div>
                   </div>
-                </div>
 
-                <div>
-                  <h4 className="text-sm font-medium text-gray-700 mb-2">Chapter</h4>
-                  <p className="text-sm text-gray-900 bg-gray-50 p-3 rounded-lg">
-                    {result.chapter}
-                  </p>
+                  <div>
+                    <h4 className="text-sm font-medium text-gray-700 mb-2">Chapter</h4>
+                    <p className="text-sm text-gray-900 bg-gray-50 p-3 rounded-lg">
+                      {result.chapter}
+                    </p>
+                  </div>
                 </div>
-              </div>
 
-              <div className="space-y-4">
-                <div>
-                  <h4 className="text-sm font-medium text-gray-700 mb-2">Description</h4>
-                  <p className="text-sm text-gray-900 bg-gray-50 p-3 rounded-lg">
-                    {result.description}
-                  </p>
-                  {result.reasoning && (
-                    <div className="mt-2">
-                      <h5 className="text-xs font-medium text-gray-700 mb-1">AI Reasoning</h5>
-                      <p className="text-xs text-gray-600 bg-blue-50 p-2 rounded">
-                        {result.reasoning}
-                      </p>
-                    </div>
-                  )}
-                </div>
+                <div className="space-y-4">
+                  <div>
+                    <h4 className="text-sm font-medium text-gray-700 mb-2">Description</h4>
+                    <p className="text-sm text-gray-900 bg-gray-50 p-3 rounded-lg">
+                      {result.description}
+                    </p>
+                    {official && (
+                      <div className="mt-2">
+                        <h5 className="text-xs font-medium text-gray-700 mb-1">
+                          Official HS 2022 Text <span className="font-normal text-gray-500">({official.label})</span>
+                        </h5>
+                        <p className="text-xs text-gray-700 bg-green-50 border border-green-200 p-2 rounded">
+                          {official.description}
+                        </p>
+                      </div>
+                    )}
+                    {national && nationalText && (
+                      <div className="mt-2">
+                        <h5 className="text-xs font-medium text-gray-700 mb-1">
+                          Official {national.nomenclature} Text <span className="font-normal text-gray-500">({national.schedule.source})</span>
+                        </h5>
+                        <p className="text-xs text-gray-700 bg-green-50 border border-green-200 p-2 rounded">
+                          {nationalText}
+                        </p>
+                      </div>
+                    )}
+                    {result.clarifications && result.clarifications.length > 0 && (
+                      <div className="mt-2">
+                        <h5 className="text-xs font-medium text-gray-700 mb-1">Clarifications</h5>
+                        <dl className="text-xs bg-indigo-50 p-2 rounded space-y-1">
+                          {result.clarifications.map((clarification, index) => (
+                            <div key={index}>
+                              <dt className="text-gray-600">{clarification.question}</dt>
+                              <dd className="font-medium text-gray-900">{clarification.answer}</dd>
+                            </div>
+                          ))}
+                        </dl>
+                      </div>
+                    )}
+                    {result.reasoning && (
+                      <div className="mt-2">
+                        <h5 className="text-xs font-medium text-gray-700 mb-1">AI Reasoning</h5>
+                        <p className="text-xs text-gray-600 bg-blue-50 p-2 rounded">
+                          {result.reasoning}
+                        </p>
+                      </div>
+                    )}
+                  </div>
 
-                <div>
-                  <h4 className="text-sm font-medium text-gray-700 mb-2">Confidence Analysis</h4>
-                  <div className="bg-gray-50 p-3 rounded-lg">
-                    <div className="flex items-center justify-between mb-2">
-                      <span className="text-sm text-gray-600">Classification Accuracy</span>
-                      <span className="text-sm font-medium">{result.confidence}%</span>
-                    </div>
-                    <div className="w-full bg-gray-200 rounded-full h-2">
-                      <div 
-                        className={`h-2 rounded-full transition-all ${
-                          result.confidence >= 95 ? 'bg-green-500' :
-                          result.confidence >= 85 ? 'bg-yellow-500' : 'bg-red-500'
-                        }`}
-                        style={{ width: `${result.confidence}%` }}
-                      ></div>
+                  <div>
+                    <h4 className="text-sm font-medium text-gray-700 mb-2">Confidence Analysis</h4>
+                    <div className="bg-gray-50 p-3 rounded-lg">
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="text-sm text-gray-600">Classification Accuracy</span>
+                        <span className="text-sm font-medium">{result.confidence}%</span>
+                      </div>
+                      <div className="w-full bg-gray-200 rounded-full h-2">
+                        <div 
+                          className={`h-2 rounded-full transition-all ${
+                            result.confidence >= 95 ? 'bg-green-500' :
+                            result.confidence >= 85 ? 'bg-yellow-500' : 'bg-red-500'
+                          }`}
+                          style={{ width: `${result.confidence}%` }}
+                        ></div>
+                      </div>
                     </div>
                   </div>
                 </div>
               </div>
-            </div>
 
-            {result.isDualUse && (
-              <div className="mt-6 bg-amber-50 border border-amber-200 rounded-lg p-4">
-                <div className="flex items-start space-x-3">
-                  <AlertTriangle className="w-5 h-5 text-amber-600 mt-0.5" />
-                  <div>
-                    <h4 className="text-sm font-medium text-amber-800 mb-1">Dual-Use Item Detected</h4>
-                    <p className="text-sm text-amber-700">
-                      This product may have both civilian and military applications. Additional export controls 
-                      and licensing requirements may apply. Please consult with trade compliance specialists.
-                    </p>
+              {result.jurisdiction && (
+                <div className="mt-6">
+                  <LandedCostPanel
+                    key={result.hsCode}
+                    productName={result.productName}
+                    hsCode={result.hsCode}
+                    description={result.description}
+                    jurisdiction={result.jurisdiction}
+                  />
+                </div>
+              )}
+
+              {result.candidates && result.candidates.length > 1 && (
+                <div className="mt-6">
+                  <div className="flex items-center space-x-2 mb-3">
+                    <ListOrdered className="w-4 h-4 text-gray-600" />
+                    <h4 className="text-sm font-medium text-gray-700">Candidate HS Codes</h4>
+                    <span className="text-xs text-gray-500">Ranked by confidence — select the final code</span>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+                    {result.candidates.map((candidate, index) => {
+                      const isSelected = candidate.hsCode === result.hsCode;
+                      return (
+                        <div
+                          key={`${candidate.hsCode}-${index}`}
+                          className={`rounded-lg border p-4 flex flex-col ${
+                            isSelected ? 'border-blue-500 bg-blue-50' : 'border-gray-200 bg-white'
+                          }`}
+                        >
+                          <div className="flex items-center justify-between mb-2">
+                            <span className="text-xs font-medium text-gray-500">#{index + 1}</span>
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getConfidenceColor(candidate.confidence)}`}>
+                              {candidate.confidence}%
+                            </span>
+                          </div>
+                          <div className="text-lg font-mono font-bold text-gray-900">{candidate.hsCode}</div>
+                          <p className="text-xs text-gray-600 mb-2">{candidate.chapter}</p>
+                          <p className="text-sm text-gray-900 mb-2">{candidate.description}</p>
+                          {candidate.reasoning && (
+                            <p className="text-xs text-gray-600 mb-2">{candidate.reasoning}</p>
+                          )}
+                          {candidate.distinguishingFact && (
+                            <div className="text-xs bg-amber-50 border border-amber-200 text-amber-800 rounded p-2 mb-3">
+                              <span className="font-medium">Deciding fact: </span>
+                              {candidate.distinguishingFact}
+                            </div>
+                          )}
+                          <div className="mt-auto">
+                            {isSelected ? (
+                              <div className="flex items-center space-x-1 text-sm font-medium text-blue-700">
+                                <CheckCircle className="w-4 h-4" />
+                                <span>Selected</span>
+                              </div>
+                            ) : onSelectCandidate && result.status === 'draft' && (
+                              <button
+                                onClick={() => onSelectCandidate(result.id, candidate)}
+                                className="text-sm font-medium text-blue-600 hover:text-blue-500 transition-colors"
+                              >
+                                Use this code
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })}
                   </div>
                 </div>
-              </div>
-            )}
+              )}
 
-            <div className="mt-6 flex items-center justify-between pt-4 border-t">
-              <div className="flex items-center space-x-2">
-                <CheckCircle className="w-5 h-5 text-green-500" />
-                <span className="text-sm text-gray-600">AI-Powered Classification</span>
-              </div>
-              
-              <div className="flex items-center space-x-3">
-                {result.links && (
-                  <>
-                    <a
-                      href={result.links.chapter}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="inline-flex items-center space-x-1 text-blue-600 hover:text-blue-500 text-sm font-medium transition-colors"
-                    >
-                      <span>Chapter {result.hsCode.substring(0, 2)}</span>
-                      <ExternalLink className="w-3 h-3" />
-                    </a>
-                    <a
-                      href={result.links.search}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="inline-flex items-center space-x-1 text-green-600 hover:text-green-500 text-sm font-medium transition-colors"
-                    >
-                      <span>HS Database</span>
-                      <ExternalLink className="w-3 h-3" />
-                    </a>
-                    <a
-                      href={result.links.detailed}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="inline-flex items-center space-x-1 text-purple-600 hover:text-purple-500 text-sm font-medium transition-colors"
+              {result.griTrace && result.griTrace.length > 0 && (
+                <GRIDecisionTree steps={result.griTrace} hsCode={result.hsCode} />
+              )}
+
+              {result.precedents && result.precedents.length > 0 && (
+                <div className="mt-6">
+                  <PrecedentsPanel precedents={result.precedents} hsCode={result.hsCode} />
+                </div>
+              )}
+
+              {isEmbeddingConfigured() && (
+                <div className="mt-6">
+                  <SimilarClassificationsPanel
+                    productName={result.productName}
+                    excludeId={result.isSaved ? result.id : undefined}
+                  />
+                </div>
+              )}
+
+              {result.controlEntries && (
+                <div className="mt-6">
+                  <ControlEntriesPanel entries={result.controlEntries} />
+                </div>
+              )}
+
+              {result.destinationCountry && result.sanctionsVerdict && (
+                <div className="mt-6">
+                  <SanctionsPanel
+                    destinationCountry={result.destinationCountry}
+                    verdict={result.sanctionsVerdict}
+                    rules={result.sanctionsRules ?? []}
+                  />
+                </div>
+              )}
+
+              <div className="mt-6 flex items-center justify-between pt-4 border-t">
+                <div className="flex items-center space-x-2">
+                  {result.saveError ? (
+                    <>
+                      <AlertTriangle className="w-5 h-5 text-red-500" />
+                      <span className="text-sm text-red-700">Not saved: {result.saveError}</span>
+                    </>
+                  ) : (
+                    <>
+                      <CheckCircle className="w-5 h-5 text-green-500" />
+                      <span className="text-sm text-gray-600">AI-Powered Classification</span>
+                    </>
+                  )}
+                  {onSubmitForReview && result.isSaved && result.status === 'draft' && (
+                    <button
+                      onClick={() => onSubmitForReview(result.id)}
+                      className="inline-flex items-center space-x-1 ml-3 bg-blue-600 text-white px-3 py-1 rounded-lg text-sm hover:bg-blue-700 transition-colors"
                     >
-                      <span>US Tariff</span>
-                      <ExternalLink className="w-3 h-3" />
-                    </a>
-                  </>
-                )}
+                      <Send className="w-3 h-3" />
+                      <span>Submit for Review</span>
+                    </button>
+                  )}
+                </div>
+                
+                <div className="flex items-center space-x-3">
+                  {result.links && (
+                    <>
+                      <a
+                        href={result.links.chapter}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center space-x-1 text-blue-600 hover:text-blue-500 text-sm font-medium transition-colors"
+                      >
+                        <span>Chapter {result.hsCode.substring(0, 2)}</span>
+                        <ExternalLink className="w-3 h-3" />
+                      </a>
+                      <a
+                        href={result.links.search}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center space-x-1 text-green-600 hover:text-green-500 text-sm font-medium transition-colors"
+                      >
+                        <span>HS Database</span>
+                        <ExternalLink className="w-3 h-3" />
+                      </a>
+                      <a
+                        href={result.links.detailed}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center space-x-1 text-purple-600 hover:text-purple-500 text-sm font-medium transition-colors"
+                      >
+                        <span>US Tariff</span>
+                        <ExternalLink className="w-3 h-3" />
+                      </a>
+                    </>
+                  )}
+                </div>
               </div>
             </div>
           </div>
-        </div>
-      ))}
+        );
+      })}
+
+      {screeningResult?.partyScreening && (
+        <ScreeningReviewDialog
+          screening={screeningResult.partyScreening}
+          canReview={canReviewScreening}
+          onClose={() => setScreeningResultId(null)}
+          onReviewed={(screening) => {
+            onScreeningReviewed?.(screeningResult.id, screening);
+            setScreeningResultId(null);
+          }}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,382 @@
+import { useEffect, useState } from 'react';
+import { ClipboardCheck, AlertTriangle, Building2, CheckCircle, XCircle, Pencil, RefreshCw, Loader2, User } from 'lucide-react';
+import { ClassificationRecord, DatabaseService, PartyScreeningRecord, ReviewDecision } from '../services/database';
+import { HSValidationResult, validateHSCode } from '../services/nomenclature';
+import { JURISDICTION_INFO, validateTariffLine } from '../services/tariffs';
+import { getUserName } from '../services/identity';
+import ReviewStatusBadge from './ReviewStatusBadge';
+import ControlEntriesPanel from './ControlEntriesPanel';
+import PrecedentsPanel from './PrecedentsPanel';
+import SanctionsBadge from './SanctionsBadge';
+import SanctionsPanel from './SanctionsPanel';
+import ScreeningBadge from './ScreeningBadge';
+import ScreeningReviewDialog from './ScreeningReviewDialog';
+
+type QueueView = 'pending' | 'reviewed';
+
+const LOW_CONFIDENCE_THRESHOLD = 85;
+
+export default function ReviewQueue() {
+  const [view, setView] = useState<QueueView>('pending');
+  const [records, setRecords] = useState<ClassificationRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [comment, setComment] = useState('');
+  const [overrideCode, setOverrideCode] = useState('');
+  const [overrideDescription, setOverrideDescription] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [screeningRecordId, setScreeningRecordId] = useState<string | null>(null);
+
+  const loadRecords = async (target: QueueView) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setRecords(target === 'pending'
+        ? await DatabaseService.getReviewQueue()
+        : await DatabaseService.getReviewedClassifications());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to load the review queue');
+      setRecords([]);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRecords(view);
+  }, [view]);
+
+  const screeningRecord = records.find(record => record.id === screeningRecordId);
+
+  const handleScreeningReviewed = (recordId: string, screening: PartyScreeningRecord) => {
+    setRecords(prev => prev.map(r => (r.id === recordId ? { ...r, party_screening: screening } : r)));
+    setScreeningRecordId(null);
+  };
+
+  const openRecord = (record: ClassificationRecord) => {
+    setActiveId(activeId === record.id ? null : record.id);
+    setComment('');
+    setOverrideCode('');
+    setOverrideDescription('');
+  };
+
+  // Overrides are checked against the same national schedule as the row they replace
+  const activeJurisdiction = records.find(record => record.id === activeId)?.jurisdiction;
+  const overrideValidation: (HSValidationResult & { nationalDescription?: string }) | null = !overrideCode.trim()
+    ? null
+    : activeJurisdiction
+      ? validateTariffLine(overrideCode.trim(), activeJurisdiction)
+      : validateHSCode(overrideCode.trim());
+
+  const submitDecision = async (record: ClassificationRecord, status: ReviewDecision['status']) => {
+    const decision: ReviewDecision = { status, reviewer: getUserName(), comment };
+    if (status === 'overridden') {
+      if (!overrideValidation || overrideValidation.status === 'invalid') return;
+      decision.override = {
+        hs_code: overrideValidation.hsCode,
+        chapter: overrideValidation.chapter,
+        description: overrideDescription.trim() || overrideValidation.officialDescription || record.description,
+        jurisdiction: record.jurisdiction,
+        destination_country: record.destination_country
+      };
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await DatabaseService.reviewClassification(record.id, decision);
+      setRecords(prev => prev.filter(r => r.id !== record.id));
+      setActiveId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to save the review decision');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const canDecide = !isSubmitting;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-3">
+            <div className="bg-blue-100 p-2 rounded-lg">
+              <ClipboardCheck className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Review Queue</h2>
+              <p className="text-sm text-gray-600">Dual-use and low-confidence classifications are listed first</p>
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-3">
+            <div className="flex items-center space-x-1 text-sm text-gray-600">
+              <User className="w-4 h-4" />
+              <span>{getUserName()}</span>
+            </div>
+            <button
+              onClick={() => loadRecords(view)}
+              disabled={isLoading}
+              className="inline-flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+              <span>Refresh</span>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex space-x-2">
+          {([
+            { key: 'pending', label: 'Pending Review' },
+            { key: 'reviewed', label: 'Recently Reviewed' }
+          ] as const).map(({ key, label }) => (
+            <button
+              key={key}
+              onClick={() => setView(key)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                view === key ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="mt-6 bg-red-50 border border-red-200 rounded-lg p-4">
+            <div className="flex items-start space-x-3">
+              <AlertTriangle className="w-5 h-5 text-red-600 mt-0.5" />
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-8 text-center">
+          <RefreshCw className="w-8 h-8 text-blue-600 animate-spin mx-auto mb-4" />
+          <p className="text-gray-500">Loading classifications...</p>
+        </div>
+      ) : records.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-8 text-center">
+          <ClipboardCheck className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">
+            {view === 'pending' ? 'Nothing Awaiting Review' : 'No Reviews Yet'}
+          </h3>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {records.map(record => {
+            const isActive = activeId === record.id;
+            const suggestion = record.ai_suggestion;
+            const wasOverridden = suggestion && suggestion.hs_code !== record.hs_code;
+            return (
+              <div key={record.id} className="bg-white rounded-xl shadow-lg border border-gray-200 overflow-hidden">
+                <button
+                  onClick={() => openRecord(record)}
+                  className="w-full text-left p-6 hover:bg-gray-50 transition-colors"
+                >
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <h3 className="text-base font-semibold text-gray-900">{record.product_name}</h3>
+                      {record.customer_name && (
+                        <div className="flex items-center space-x-1 text-xs text-gray-500 mt-1">
+                          <Building2 className="w-3 h-3" />
+                          <span>{record.customer_name}</span>
+                          {record.party_screening && <ScreeningBadge status={record.party_screening.status} />}
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      {record.is_dual_use && (
+                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                          <AlertTriangle className="w-3 h-3 mr-1" />
+                          Dual-Use
+                        </span>
+                      )}
+                      {record.destination_country && record.sanctions_verdict && (
+                        <SanctionsBadge verdict={record.sanctions_verdict} destinationCountry={record.destination_country} />
+                      )}
+                      <span className={`px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                        record.confidence < LOW_CONFIDENCE_THRESHOLD ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-700'
+                      }`}>
+                        {record.confidence}%
+                      </span>
+                      <ReviewStatusBadge status={record.status} />
+                    </div>
+                  </div>
+
+                  <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                    <div>
+                      <div className="text-xs font-medium text-gray-500 mb-1">AI Suggestion</div>
+                      <div className="font-mono font-medium text-gray-900">{suggestion?.hs_code ?? record.hs_code}</div>
+                      <div className="text-xs text-gray-600">{suggestion?.description ?? record.description}</div>
+                    </div>
+                    {(wasOverridden || view === 'reviewed') && (
+                      <div>
+                        <div className="text-xs font-medium text-gray-500 mb-1">Final Code</div>
+                        <div className={`font-mono font-medium ${wasOverridden ? 'text-purple-700' : 'text-gray-900'}`}>{record.hs_code}</div>
+                        <div className="text-xs text-gray-600">{record.description}</div>
+                      </div>
+                    )}
+                  </div>
+
+                  {record.reviewed_by && (
+                    <div className="mt-3 text-xs text-gray-500">
+                      Reviewed by <span className="font-medium text-gray-700">{record.reviewed_by}</span>
+                      {record.reviewed_at && <> on {new Date(record.reviewed_at).toLocaleString()}</>}
+                      {record.review_comment && <span className="block mt-1 text-gray-700">"{record.review_comment}"</span>}
+                    </div>
+                  )}
+                </button>
+
+                {isActive && view === 'pending' && (
+                  <div className="px-6 pb-6 border-t border-gray-200 pt-4 space-y-4">
+                    {record.reasoning && (
+                      <p className="text-xs text-gray-600 bg-blue-50 p-2 rounded">{record.reasoning}</p>
+                    )}
+
+                    {record.precedents && record.precedents.length > 0 && (
+                      <PrecedentsPanel precedents={record.precedents} hsCode={record.hs_code} />
+                    )}
+
+                    {record.control_entries && record.control_entries.length > 0 && (
+                      <ControlEntriesPanel entries={record.control_entries} />
+                    )}
+
+                    {record.party_screening && (
+                      <div className="flex items-center space-x-2 text-sm text-gray-700">
+                        <span>Customer screening:</span>
+                        <ScreeningBadge status={record.party_screening.status} onClick={() => setScreeningRecordId(record.id)} />
+                      </div>
+                    )}
+
+                    {record.destination_country && record.sanctions_verdict && (
+                      <SanctionsPanel
+                        destinationCountry={record.destination_country}
+                        verdict={record.sanctions_verdict}
+                        rules={record.sanctions_rules ?? []}
+                      />
+                    )}
+
+                    {record.candidates && record.candidates.length > 1 && (
+                      <div>
+                        <h4 className="text-xs font-medium text-gray-700 mb-2">Other candidates</h4>
+                        <div className="flex flex-wrap gap-2">
+                          {record.candidates.filter(c => c.hsCode !== record.hs_code).map(candidate => (
+                            <button
+                              key={candidate.hsCode}
+                              onClick={() => {
+                                setOverrideCode(candidate.hsCode);
+                                setOverrideDescription(candidate.description);
+                              }}
+                              className="px-2.5 py-1 rounded border border-gray-200 text-xs hover:bg-gray-50"
+                              title={candidate.description}
+                            >
+                              <span className="font-mono font-medium">{candidate.hsCode}</span>
+                              <span className="text-gray-500 ml-1">{candidate.confidence}%</span>
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <label htmlFor={`override-${record.id}`} className="block text-xs font-medium text-gray-700 mb-1">
+                          Override {record.jurisdiction ? `${JURISDICTION_INFO[record.jurisdiction].nomenclature} Line` : 'HS Code'}
+                        </label>
+                        <input
+                          id={`override-${record.id}`}
+                          type="text"
+                          value={overrideCode}
+                          onChange={(e) => setOverrideCode(e.target.value)}
+                          placeholder="e.g. 8471.30.00"
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        />
+                        {overrideValidation && (
+                          <p className={`text-xs mt-1 ${overrideValidation.status === 'invalid'
+                            ? 'text-red-600'
+                            : overrideValidation.status === 'unverifiable' ? 'text-amber-700' : 'text-green-700'}`}>
+                            {overrideValidation.status === 'invalid'
+                              ? overrideValidation.issues.join('; ')
+                              : overrideValidation.nationalDescription || overrideValidation.officialDescription || overrideValidation.chapter}
+                            {overrideValidation.status === 'unverifiable' && ` (${overrideValidation.issues.join('; ')})`}
+                          </p>
+                        )}
+                      </div>
+                      <div>
+                        <label htmlFor={`override-description-${record.id}`} className="block text-xs font-medium text-gray-700 mb-1">
+                          Override Description
+                        </label>
+                        <input
+                          id={`override-description-${record.id}`}
+                          type="text"
+                          value={overrideDescription}
+                          onChange={(e) => setOverrideDescription(e.target.value)}
+                          placeholder="Defaults to the official HS text"
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        />
+                      </div>
+                    </div>
+
+                    <div>
+                      <label htmlFor={`comment-${record.id}`} className="block text-xs font-medium text-gray-700 mb-1">
+                        Review Comment
+                      </label>
+                      <textarea
+                        id={`comment-${record.id}`}
+                        value={comment}
+                        onChange={(e) => setComment(e.target.value)}
+                        rows={2}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </div>
+
+                    <div className="flex items-center space-x-3">
+                      <button
+                        onClick={() => submitDecision(record, 'approved')}
+                        disabled={!canDecide}
+                        className="inline-flex items-center space-x-2 bg-green-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle className="w-4 h-4" />}
+                        <span>Approve</span>
+                      </button>
+                      <button
+                        onClick={() => submitDecision(record, 'overridden')}
+                        disabled={!canDecide || !overrideValidation || overrideValidation.status === 'invalid'}
+                        className="inline-flex items-center space-x-2 bg-purple-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <Pencil className="w-4 h-4" />
+                        <span>Override</span>
+                      </button>
+                      <button
+                        onClick={() => submitDecision(record, 'rejected')}
+                        disabled={!canDecide}
+                        className="inline-flex items-center space-x-2 bg-red-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <XCircle className="w-4 h-4" />
+                        <span>Reject</span>
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {screeningRecord?.party_screening && (
+        <ScreeningReviewDialog
+          screening={screeningRecord.party_screening}
+          canReview
+          onClose={() => setScreeningRecordId(null)}
+          onReviewed={(screening) => handleScreeningReviewed(screeningRecord.id, screening)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import { CheckCircle, Clock, FileEdit, Pencil, XCircle } from 'lucide-react';
+import { ClassificationStatus } from '../services/database';
+
+const STATUS_META: Record<ClassificationStatus, { label: string; className: string; icon: typeof Clock }> = {
+  draft: { label: 'Draft', className: 'bg-gray-100 text-gray-700', icon: FileEdit },
+  pending_review: { label: 'Pending Review', className: 'bg-blue-100 text-blue-800', icon: Clock },
+  approved: { label: 'Approved', className: 'bg-green-100 text-green-800', icon: CheckCircle },
+  rejected: { label: 'Rejected', className: 'bg-red-100 text-red-800', icon: XCircle },
+  overridden: { label: 'Overridden', className: 'bg-purple-100 text-purple-800', icon: Pencil }
+};
+
+export default function ReviewStatusBadge({ status }: { status: ClassificationStatus }) {
+  const { label, className, icon: Icon } = STATUS_META[status];
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${className}`}>
+      <Icon className="w-3 h-3 mr-1" />
+      {label}
+    </span>
+  );
+}
@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { AlertTriangle, Gauge, Loader2 } from 'lucide-react';
+import { AuthService } from '../services/auth';
+import { CONTROLLED_CHAPTERS, DEFAULT_RISK_RULES, RISK_FACTOR_LABELS, RISK_FACTORS, RiskFactorId, RiskRules } from '../services/risk';
+
+interface RiskSettingsProps {
+  rules: RiskRules;
+  onSaved: (rules: RiskRules) => void;
+}
+
+export default function RiskSettings({ rules, onSaved }: RiskSettingsProps) {
+  const [draft, setDraft] = useState<RiskRules>(rules);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isChanged = JSON.stringify(draft) !== JSON.stringify(rules);
+  const isValid = RISK_FACTORS.every(id => draft.weights[id] >= 0)
+    && draft.mediumAt > 0
+    && draft.highAt >= draft.mediumAt;
+
+  const setWeight = (id: RiskFactorId, value: number) => {
+    setDraft({ ...draft, weights: { ...draft.weights, [id]: value } });
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await AuthService.setRiskRules(draft);
+      onSaved(draft);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to save the scoring rules');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const numberInput = (id: string, value: number, onChange: (value: number) => void) => (
+    <input
+      id={id}
+      type="number"
+      min={0}
+      step={0.5}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="w-20 px-2 py-1 border border-gray-300 rounded-lg text-sm text-right focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+    />
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+      <div className="flex items-center space-x-3 mb-6">
+        <div className="bg-red-100 p-2 rounded-lg">
+          <Gauge className="w-5 h-5 text-red-600" />
+        </div>
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Company Risk Scoring</h2>
+          <p className="text-sm text-gray-600">Each occurrence of a factor adds its weight to the company's score</p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 flex items-start space-x-2">
+          <AlertTriangle className="w-4 h-4 text-red-600 mt-0.5" />
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      <div className="space-y-2 mb-4">
+        {RISK_FACTORS.map(id => (
+          <div key={id} className="flex items-center justify-between">
+            <label htmlFor={`riskWeight-${id}`} className="text-sm text-gray-700">{RISK_FACTOR_LABELS[id]}</label>
+            {numberInput(`riskWeight-${id}`, draft.weights[id], value => setWeight(id, value))}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center space-x-6 border-t border-gray-200 pt-4 mb-2">
+        <div className="flex items-center space-x-2">
+          <label htmlFor="riskMediumAt" className="text-sm text-gray-700">Medium from</label>
+          {numberInput('riskMediumAt', draft.mediumAt, value => setDraft({ ...draft, mediumAt: value }))}
+        </div>
+        <div className="flex items-center space-x-2">
+          <label htmlFor="riskHighAt" className="text-sm text-gray-700">High from</label>
+          {numberInput('riskHighAt', draft.highAt, value => setDraft({ ...draft, highAt: value }))}
+        </div>
+      </div>
+      {!isValid && (
+        <p className="text-xs text-red-600 mb-2">Weights cannot be negative and the High threshold cannot be below the Medium one.</p>
+      )}
+
+      <div className="flex items-center justify-between mt-4 mb-4">
+        <button
+          onClick={() => setDraft(DEFAULT_RISK_RULES)}
+          className="text-sm text-gray-600 hover:text-gray-800"
+        >
+          Restore defaults
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isSubmitting || !isChanged || !isValid}
+          className="inline-flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+          <span>Save</span>
+        </button>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Controlled chapters: {Object.entries(CONTROLLED_CHAPTERS).map(([chapter, title]) => `${chapter} ${title}`).join(', ')}.
+        Saved analyses keep the score they were run with.
+      </p>
+    </div>
+  );
+}
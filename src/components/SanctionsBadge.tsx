@@ -0,0 +1,21 @@
+import { Ban, FileWarning, Globe } from 'lucide-react';
+import { getCountryName, SANCTIONS_VERDICT_LABELS, SanctionsVerdict } from '../services/sanctions';
+
+const VERDICT_META: Record<SanctionsVerdict, { className: string; icon: typeof Globe }> = {
+  allowed: { className: 'bg-green-100 text-green-800', icon: Globe },
+  licence_required: { className: 'bg-orange-100 text-orange-800', icon: FileWarning },
+  prohibited: { className: 'bg-red-100 text-red-800', icon: Ban }
+};
+
+export default function SanctionsBadge({ verdict, destinationCountry }: { verdict: SanctionsVerdict; destinationCountry: string }) {
+  const { className, icon: Icon } = VERDICT_META[verdict];
+  return (
+    <span
+      className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${className}`}
+      title={`Destination: ${getCountryName(destinationCountry)}`}
+    >
+      <Icon className="w-3 h-3 mr-1" />
+      {SANCTIONS_VERDICT_LABELS[verdict]} · {destinationCountry}
+    </span>
+  );
+}
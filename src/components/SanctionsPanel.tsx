@@ -0,0 +1,42 @@
+import { Globe } from 'lucide-react';
+import { getCountryName, SanctionsRule, SanctionsVerdict } from '../services/sanctions';
+import SanctionsBadge from './SanctionsBadge';
+
+interface SanctionsPanelProps {
+  destinationCountry: string;
+  verdict: SanctionsVerdict;
+  rules: SanctionsRule[];
+}
+
+export default function SanctionsPanel({ destinationCountry, verdict, rules }: SanctionsPanelProps) {
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-2">
+          <Globe className="w-4 h-4 text-gray-600" />
+          <h4 className="text-sm font-medium text-gray-700">Destination Check: {getCountryName(destinationCountry)}</h4>
+        </div>
+        <SanctionsBadge verdict={verdict} destinationCountry={destinationCountry} />
+      </div>
+
+      {rules.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          No EU or US destination measure in the bundled rules restricts this code. Denied-party and
+          end-use checks still apply.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {rules.map(rule => (
+            <li key={rule.id} className="bg-white border border-gray-200 rounded-lg p-3">
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-sm font-medium text-gray-900">{rule.measure}</span>
+                <span className="text-xs text-gray-500">{rule.regime}</span>
+              </div>
+              <p className="text-xs text-gray-600">{rule.summary}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
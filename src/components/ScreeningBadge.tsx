@@ -0,0 +1,44 @@
+import { ShieldCheck, ShieldQuestion, ShieldX } from 'lucide-react';
+import { SCREENING_STATUS_LABELS, ScreeningStatus } from '../services/screening';
+
+const STATUS_META: Record<ScreeningStatus, { className: string; icon: typeof ShieldCheck }> = {
+  clear: { className: 'bg-green-100 text-green-800', icon: ShieldCheck },
+  cleared: { className: 'bg-green-100 text-green-800', icon: ShieldCheck },
+  potential_match: { className: 'bg-orange-100 text-orange-800', icon: ShieldQuestion },
+  confirmed_match: { className: 'bg-red-100 text-red-800', icon: ShieldX }
+};
+
+interface ScreeningBadgeProps {
+  status: ScreeningStatus;
+  // Opens the match review; without it the badge is plain text
+  onClick?: () => void;
+}
+
+export default function ScreeningBadge({ status, onClick }: ScreeningBadgeProps) {
+  const { className, icon: Icon } = STATUS_META[status];
+  const content = (
+    <>
+      <Icon className="w-3 h-3 mr-1" />
+      {SCREENING_STATUS_LABELS[status]}
+    </>
+  );
+
+  if (!onClick) {
+    return (
+      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${className}`} title="Denied-party screening">
+        {content}
+      </span>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium hover:opacity-80 ${className}`}
+      title="Review denied-party screening"
+    >
+      {content}
+    </button>
+  );
+}
@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import { AlertTriangle, CheckCircle, Loader2, ShieldAlert, User, X, XCircle } from 'lucide-react';
+import { DatabaseService, PartyScreeningRecord } from '../services/database';
+import { getUserName } from '../services/identity';
+import { getCountryName } from '../services/sanctions';
+import { DENIED_PARTY_LIST_LABELS, MatchDecision, PartyMatch } from '../services/screening';
+import ScreeningBadge from './ScreeningBadge';
+
+interface ScreeningReviewDialogProps {
+  screening: PartyScreeningRecord;
+  canReview: boolean;
+  onClose: () => void;
+  onReviewed: (screening: PartyScreeningRecord) => void;
+}
+
+const DECISION_LABELS: Record<MatchDecision, string> = {
+  confirmed: 'Confirmed',
+  false_positive: 'False positive'
+};
+
+export default function ScreeningReviewDialog({ screening, canReview, onClose, onReviewed }: ScreeningReviewDialogProps) {
+  const [matches, setMatches] = useState<PartyMatch[]>(screening.matches);
+  const [comment, setComment] = useState(screening.review_comment || '');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const decide = (index: number, decision: MatchDecision) => {
+    setMatches(prev => prev.map((match, i) => (i === index ? { ...match, decision } : match)));
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      onReviewed(await DatabaseService.reviewScreening(screening.id, matches, getUserName(), comment));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to save the review');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const allDecided = matches.every(match => match.decision);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-40 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-3">
+            <div className="bg-orange-100 p-2 rounded-lg">
+              <ShieldAlert className="w-5 h-5 text-orange-700" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Denied-Party Screening</h2>
+              <p className="text-sm text-gray-600">
+                {screening.screened_name} · threshold {Math.round(screening.threshold * 100)}%
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-3">
+            <ScreeningBadge status={screening.status} />
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
+              <AlertTriangle className="w-5 h-5 text-red-600 mt-0.5" />
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+
+          {matches.length === 0 ? (
+            <p className="text-sm text-gray-600">
+              No entry on the OFAC SDN, EU, UK or Entity lists scored at or above the threshold.
+            </p>
+          ) : (
+            <ul className="space-y-3">
+              {matches.map((match, index) => (
+                <li key={`${match.list}-${match.listedName}`} className="border border-gray-200 rounded-lg p-4">
+                  <div className="flex items-start justify-between mb-2">
+                    <div>
+                      <div className="font-medium text-gray-900">{match.listedName}</div>
+                      {match.matchedName !== match.listedName && (
+                        <div className="text-xs text-gray-600">Matched alias: {match.matchedName}</div>
+                      )}
+                    </div>
+                    <span className="px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                      {Math.round(match.score * 100)}%
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-600 space-y-0.5 mb-3">
+                    <div>
+                      {DENIED_PARTY_LIST_LABELS[match.list]}
+                      {match.reference && ` · ${match.reference}`} · {match.type}
+                    </div>
+                    {match.programmes.length > 0 && <div>Programmes: {match.programmes.join(', ')}</div>}
+                    {match.countries.length > 0 && <div>Countries: {match.countries.map(getCountryName).join(', ')}</div>}
+                  </div>
+
+                  {canReview ? (
+                    <div className="flex items-center space-x-2">
+                      <button
+                        type="button"
+                        onClick={() => decide(index, 'confirmed')}
+                        className={`inline-flex items-center space-x-1 px-3 py-1 rounded-lg text-xs font-medium border ${
+                          match.decision === 'confirmed' ? 'bg-red-600 text-white border-red-600' : 'bg-white text-red-700 border-red-200 hover:bg-red-50'
+                        }`}
+                      >
+                        <XCircle className="w-3 h-3" />
+                        <span>Confirm match</span>
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => decide(index, 'false_positive')}
+                        className={`inline-flex items-center space-x-1 px-3 py-1 rounded-lg text-xs font-medium border ${
+                          match.decision === 'false_positive' ? 'bg-green-600 text-white border-green-600' : 'bg-white text-green-700 border-green-200 hover:bg-green-50'
+                        }`}
+                      >
+                        <CheckCircle className="w-3 h-3" />
+                        <span>False positive</span>
+                      </button>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-gray-500">
+                      {match.decision ? DECISION_LABELS[match.decision] : 'Awaiting compliance review'}
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {screening.reviewed_by && (
+            <p className="text-xs text-gray-500 inline-flex items-center">
+              <User className="w-3 h-3 mr-1" />
+              Reviewed by {screening.reviewed_by}
+              {screening.reviewed_at && ` on ${new Date(screening.reviewed_at).toLocaleString()}`}
+            </p>
+          )}
+
+          {canReview && matches.length > 0 && (
+            <div className="space-y-3">
+              <textarea
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                placeholder="Evidence for the decisions (addresses, registration numbers, ownership)"
+                rows={2}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+              />
+              <div className="flex justify-end">
+                <button
+                  onClick={handleSave}
+                  disabled={!allDecided || isSubmitting}
+                  className="inline-flex items-center space-x-2 bg-orange-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                  <span>Save Review</span>
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
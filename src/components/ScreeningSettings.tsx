@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { AlertTriangle, Loader2, ShieldAlert } from 'lucide-react';
+import { AuthService } from '../services/auth';
+import { DENIED_PARTY_LIST_LABELS, DENIED_PARTY_LISTS, DeniedPartyListId, MIN_SCREENING_THRESHOLD } from '../services/screening';
+
+interface ScreeningSettingsProps {
+  threshold: number;
+  onSaved: (threshold: number) => void;
+}
+
+export default function ScreeningSettings({ threshold, onSaved }: ScreeningSettingsProps) {
+  const [percent, setPercent] = useState(Math.round(threshold * 100));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await AuthService.setScreeningThreshold(percent / 100);
+      onSaved(percent / 100);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to save the threshold');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+      <div className="flex items-center space-x-3 mb-6">
+        <div className="bg-orange-100 p-2 rounded-lg">
+          <ShieldAlert className="w-5 h-5 text-orange-600" />
+        </div>
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Denied-Party Screening</h2>
+          <p className="text-sm text-gray-600">Customer and company names are screened against the bundled lists</p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 flex items-start space-x-2">
+          <AlertTriangle className="w-4 h-4 text-red-600 mt-0.5" />
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      <label htmlFor="screeningThreshold" className="block text-sm font-medium text-gray-700 mb-2">
+        Match threshold: {percent}%
+      </label>
+      <div className="flex items-center space-x-4 mb-2">
+        <input
+          id="screeningThreshold"
+          type="range"
+          min={MIN_SCREENING_THRESHOLD * 100}
+          max={100}
+          value={percent}
+          onChange={(e) => setPercent(Number(e.target.value))}
+          className="flex-1"
+        />
+        <button
+          onClick={handleSave}
+          disabled={isSubmitting || percent === Math.round(threshold * 100)}
+          className="inline-flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+          <span>Save</span>
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        Lower thresholds catch more spelling and transliteration variants at the cost of more false positives.
+        The threshold applies to new screenings only.
+      </p>
+
+      <ul className="text-xs text-gray-600 space-y-1">
+        {(Object.keys(DENIED_PARTY_LISTS) as DeniedPartyListId[]).map(list => (
+          <li key={list}>
+            <span className="font-medium text-gray-700">{DENIED_PARTY_LIST_LABELS[list]}:</span>{' '}
+            {DENIED_PARTY_LISTS[list].source}, {DENIED_PARTY_LISTS[list].parties.length} parties
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -1,6 +1,26 @@
-import React, { useState } from 'react';
-import { Clock, Download, Filter, Search, AlertTriangle, Building2, RefreshCw, BarChart3 } from 'lucide-react';
-import { DatabaseService } from '../services/database';
+import { useEffect, useState } from 'react';
+import { Clock, Download, Filter, Search, AlertTriangle, Building2, RefreshCw, BarChart3, History, Trash2, ChevronLeft, ChevronRight } from 'lucide-react';
+import {
+  ClassificationRecord,
+  ClassificationSearchHit,
+  ClassificationSortColumn,
+  ClassificationStatus,
+  CONFIDENCE_BANDS,
+  ConfidenceBand,
+  DatabaseService,
+  PartyScreeningRecord
+} from '../services/database';
+import { hasActiveFilters, HistorySort, HistoryView, readHistoryView, REVIEW_STATUS_OPTIONS, writeHistoryView } from '../services/historyFilters';
+import { getChapterOptions } from '../services/nomenclature';
+import ReviewStatusBadge from './ReviewStatusBadge';
+import ClassificationHistory from './ClassificationHistory';
+import HighlightedText from './HighlightedText';
+import { downloadCSV } from '../services/export';
+import { Jurisdiction, JURISDICTION_INFO, JURISDICTIONS } from '../services/tariffs';
+import { SANCTIONS_VERDICT_LABELS, SanctionsVerdict } from '../services/sanctions';
+import SanctionsBadge from './SanctionsBadge';
+import ScreeningBadge from './ScreeningBadge';
+import { SCREENING_STATUS_LABELS } from '../services/screening';
 
 interface ClassificationResult {
   id: string;
@@ -13,6 +33,14 @@ interface ClassificationResult {
   isDualUse: boolean;
   timestamp: Date;
   customerName?: string;
+  partyScreening?: PartyScreeningRecord;
+  jurisdiction?: Jurisdiction;
+  destinationCountry?: string;
+  sanctionsVerdict?: SanctionsVerdict;
+  status: ClassificationStatus;
+  // Set on search results
+  productNameHighlight?: string;
+  snippet?: string;
   links?: {
     wto: string;
     wcoomic: string;
@@ -22,16 +50,58 @@ interface ClassificationResult {
   };
 }
 
+function toResult(record: ClassificationRecord | ClassificationSearchHit): ClassificationResult {
+  return {
+    id: record.id,
+    productName: record.product_name,
+    hsCode: record.hs_code,
+    chapter: record.chapter,
+    description: record.description,
+    confidence: record.confidence,
+    wtoLink: record.wto_links?.search || '',
+    isDualUse: record.is_dual_use,
+    timestamp: new Date(record.created_at),
+    customerName: record.customer_name,
+    partyScreening: record.party_screening ?? undefined,
+    jurisdiction: record.jurisdiction,
+    destinationCountry: record.destination_country ?? undefined,
+    sanctionsVerdict: record.sanctions_verdict ?? undefined,
+    status: record.status,
+    productNameHighlight: 'product_name_highlight' in record ? record.product_name_highlight : undefined,
+    snippet: 'search_snippet' in record ? record.search_snippet : undefined,
+    links: record.wto_links
+  };
+}
+
+const SORT_COLUMNS: Record<HistorySort, { sortBy: ClassificationSortColumn; sortOrder: 'asc' | 'desc' }> = {
+  date: { sortBy: 'created_at', sortOrder: 'desc' },
+  confidence: { sortBy: 'confidence', sortOrder: 'desc' },
+  product: { sortBy: 'product_name', sortOrder: 'asc' }
+};
+
+const PAGE_SIZE = 25;
+const SEARCH_DEBOUNCE_MS = 300;
+const CHAPTER_OPTIONS = getChapterOptions();
+
 interface SearchHistoryProps {
-  results: ClassificationResult[];
-  isLoading: boolean;
-  onRefresh: () => void;
+  // Called after a classification was deleted or restored
+  onChanged?: () => void;
+  canDelete?: boolean;
 }
 
-export default function SearchHistory({ results, isLoading, onRefresh }: SearchHistoryProps) {
-  const [searchTerm, setSearchTerm] = useState('');
-  const [filterDualUse, setFilterDualUse] = useState(false);
-  const [sortBy, setSortBy] = useState<'date' | 'confidence' | 'product'>('date');
+export default function SearchHistory({ onChanged, canDelete }: SearchHistoryProps) {
+  // The applied filters start from, and are written back to, the URL
+  const [view, setView] = useState<HistoryView>(() => readHistoryView(window.location.search));
+  // Typed text is applied to the view once typing pauses
+  const [searchTerm, setSearchTerm] = useState(view.searchTerm || '');
+  const [customer, setCustomer] = useState(view.customer || '');
+  // The cursor each visited page was loaded with; the last one is the current page
+  const [cursors, setCursors] = useState<Array<string | null>>([null]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [results, setResults] = useState<ClassificationResult[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
   const [statistics, setStatistics] = useState<{
     totalClassifications: number;
     dualUseCount: number;
@@ -39,6 +109,96 @@ export default function SearchHistory({ results, isLoading, onRefresh }: SearchH
     topChapters: Array<{ chapter: string; count: number }>;
   } | null>(null);
   const [showStats, setShowStats] = useState(false);
+  const [showDeleted, setShowDeleted] = useState(false);
+  const [deletedResults, setDeletedResults] = useState<ClassificationResult[]>([]);
+  const [historyFor, setHistoryFor] = useState<ClassificationResult | null>(null);
+
+  const page = cursors.length - 1;
+
+  const loadPage = async (filters: HistoryView, cursor: string | null) => {
+    try {
+      setIsLoading(true);
+      setLoadError(null);
+      const { data, count, nextCursor: next } = await DatabaseService.getClassifications({
+        ...filters,
+        ...SORT_COLUMNS[filters.sort],
+        limit: PAGE_SIZE,
+        cursor
+      });
+      setResults(data.map(toResult));
+      setTotalCount(count);
+      setNextCursor(next);
+    } catch (error) {
+      console.error('Failed to load classification history:', error);
+      setLoadError(error instanceof Error ? error.message : 'Unable to load classification history');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const refresh = () => loadPage(view, cursors[page]);
+
+  // A changed filter starts again from the first page
+  const updateView = (changes: Partial<HistoryView>) => {
+    setView(current => ({ ...current, ...changes }));
+    setCursors([null]);
+  };
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const changes = { searchTerm: searchTerm.trim() || undefined, customer: customer.trim() || undefined };
+      setView(current => (
+        current.searchTerm === changes.searchTerm && current.customer === changes.customer ? current : { ...current, ...changes }
+      ));
+      setCursors(current => (current.length === 1 ? current : [null]));
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchTerm, customer]);
+
+  useEffect(() => {
+    window.history.replaceState(null, '', `?${writeHistoryView(view, window.location.search)}`);
+  }, [view]);
+
+  useEffect(() => {
+    loadPage(view, cursors[cursors.length - 1]);
+  }, [view, cursors]);
+
+  const clearFilters = () => {
+    setSearchTerm('');
+    setCustomer('');
+    updateView({
+      searchTerm: undefined,
+      dualUseOnly: undefined,
+      createdFrom: undefined,
+      createdTo: undefined,
+      confidenceBand: undefined,
+      chapter: undefined,
+      customer: undefined,
+      status: undefined,
+      jurisdiction: undefined
+    });
+  };
+
+  const loadDeleted = async () => {
+    try {
+      const records = await DatabaseService.getDeletedClassifications();
+      setDeletedResults(records.map(toResult));
+    } catch (error) {
+      console.error('Failed to load deleted classifications:', error);
+    }
+  };
+
+  const toggleDeleted = (checked: boolean) => {
+    setShowDeleted(checked);
+    if (checked) loadDeleted();
+  };
+
+  const handleHistoryChanged = () => {
+    setHistoryFor(null);
+    refresh();
+    onChanged?.();
+    if (showDeleted) loadDeleted();
+  };
 
   // Load statistics
   const loadStatistics = async () => {
@@ -51,48 +211,37 @@ export default function SearchHistory({ results, isLoading, onRefresh }: SearchH
     }
   };
 
-  const filteredResults = results
-    .filter(result => 
-      result.productName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      result.hsCode.includes(searchTerm) ||
-      (result.customerName && result.customerName.toLowerCase().includes(searchTerm.toLowerCase()))
-    )
-    .filter(result => !filterDualUse || result.isDualUse)
-    .sort((a, b) => {
-      switch (sortBy) {
-        case 'confidence':
-          return b.confidence - a.confidence;
-        case 'product':
-          return a.productName.localeCompare(b.productName);
-        case 'date':
-        default:
-          return b.timestamp.getTime() - a.timestamp.getTime();
-      }
-    });
+  // Deleted classifications are few and filtered here; live ones are searched and paged server-side
+  const filteredResults = showDeleted
+    ? deletedResults
+      .filter(result =>
+        result.productName.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        result.hsCode.includes(searchTerm) ||
+        (result.customerName && result.customerName.toLowerCase().includes(searchTerm.toLowerCase()))
+      )
+      .filter(result => !view.dualUseOnly || result.isDualUse)
+    : results;
+  const pageCount = Math.ceil(totalCount / PAGE_SIZE);
+  const selectClassName = 'border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
 
   const exportToCSV = () => {
-    const headers = ['Product Name', 'HS Code', 'Chapter', 'Confidence', 'Dual Use', 'Customer', 'Timestamp'];
+    const headers = ['Product Name', 'Jurisdiction', 'HS Code', 'Chapter', 'Confidence', 'Dual Use', 'Destination', 'Sanctions Verdict', 'Review Status', 'Customer', 'Customer Screening', 'Timestamp'];
     const csvData = filteredResults.map(result => [
       result.productName,
+      result.jurisdiction ? JURISDICTION_INFO[result.jurisdiction].nomenclature : '',
       result.hsCode,
       result.chapter,
       `${result.confidence}%`,
       result.isDualUse ? 'Yes' : 'No',
+      result.destinationCountry || '',
+      result.sanctionsVerdict ? SANCTIONS_VERDICT_LABELS[result.sanctionsVerdict] : '',
+      result.status,
       result.customerName || '',
+      result.partyScreening ? SCREENING_STATUS_LABELS[result.partyScreening.status] : '',
       result.timestamp.toISOString()
     ]);
 
-    const csvContent = [headers, ...csvData]
-      .map(row => row.map(cell => `"${cell}"`).join(','))
-      .join('\n');
-
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `hs-code-history-${new Date().toISOString().split('T')[0]}.csv`;
-    a.click();
-    window.URL.revokeObjectURL(url);
+    downloadCSV(`hs-code-history-${new Date().toISOString().split('T')[0]}.csv`, headers, csvData);
   };
 
   return (
@@ -132,7 +281,7 @@ export default function SearchHistory({ results, isLoading, onRefresh }: SearchH
           <div>
             <h4 className="text-sm font-medium text-gray-700 mb-3">Top HS Chapters</h4>
             <div className="space-y-2">
-              {statistics.topChapters.map((chapter, index) => (
+              {statistics.topChapters.map((chapter) => (
                 <div key={chapter.chapter} className="flex items-center justify-between">
                   <span className="text-sm text-gray-600">Chapter {chapter.chapter}</span>
                   <div className="flex items-center space-x-2">
@@ -169,7 +318,7 @@ export default function SearchHistory({ results, isLoading, onRefresh }: SearchH
               <span>Statistics</span>
             </button>
             <button
-              onClick={onRefresh}
+              onClick={refresh}
               disabled={isLoading}
               className="inline-flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
             >
@@ -178,7 +327,7 @@ export default function SearchHistory({ results, isLoading, onRefresh }: SearchH
             </button>
             <button
               onClick={exportToCSV}
-              disabled={results.length === 0}
+              disabled={filteredResults.length === 0}
               className="inline-flex items-center space-x-2 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <Download className="w-4 h-4" />
@@ -204,34 +353,139 @@ export default function SearchHistory({ results, isLoading, onRefresh }: SearchH
             <label className="flex items-center space-x-2 cursor-pointer">
               <input
                 type="checkbox"
-                checked={filterDualUse}
-                onChange={(e) => setFilterDualUse(e.target.checked)}
+                checked={!!view.dualUseOnly}
+                onChange={(e) => updateView({ dualUseOnly: e.target.checked || undefined })}
                 className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
               />
               <span className="text-sm text-gray-700">Dual-Use Only</span>
             </label>
+            <label className="flex items-center space-x-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showDeleted}
+                onChange={(e) => toggleDeleted(e.target.checked)}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              <span className="text-sm text-gray-700">Deleted</span>
+            </label>
           </div>
 
           <select
-            value={sortBy}
-            onChange={(e) => setSortBy(e.target.value as 'date' | 'confidence' | 'product')}
-            className="border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            value={view.searchTerm ? 'relevance' : view.sort}
+            onChange={(e) => updateView({ sort: e.target.value as HistorySort })}
+            disabled={!!view.searchTerm}
+            className="border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50"
           >
+            {view.searchTerm && <option value="relevance">Sort by Relevance</option>}
             <option value="date">Sort by Date</option>
             <option value="confidence">Sort by Confidence</option>
             <option value="product">Sort by Product</option>
           </select>
         </div>
 
+        {!showDeleted && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <span className="whitespace-nowrap">From</span>
+              <input
+                type="date"
+                value={view.createdFrom || ''}
+                max={view.createdTo}
+                onChange={(e) => updateView({ createdFrom: e.target.value || undefined })}
+                className={`${selectClassName} w-full`}
+              />
+            </label>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <span className="whitespace-nowrap">To</span>
+              <input
+                type="date"
+                value={view.createdTo || ''}
+                min={view.createdFrom}
+                onChange={(e) => updateView({ createdTo: e.target.value || undefined })}
+                className={`${selectClassName} w-full`}
+              />
+            </label>
+            <select
+              aria-label="Confidence"
+              value={view.confidenceBand || ''}
+              onChange={(e) => updateView({ confidenceBand: (e.target.value || undefined) as ConfidenceBand | undefined })}
+              className={selectClassName}
+            >
+              <option value="">Any confidence</option>
+              {(Object.keys(CONFIDENCE_BANDS) as ConfidenceBand[]).map(band => (
+                <option key={band} value={band}>{CONFIDENCE_BANDS[band].label}</option>
+              ))}
+            </select>
+            <select
+              aria-label="HS chapter"
+              value={view.chapter || ''}
+              onChange={(e) => updateView({ chapter: e.target.value || undefined })}
+              className={selectClassName}
+            >
+              <option value="">Any chapter</option>
+              {CHAPTER_OPTIONS.map(chapter => (
+                <option key={chapter.code} value={chapter.code}>{chapter.label}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              placeholder="Customer"
+              value={customer}
+              onChange={(e) => setCustomer(e.target.value)}
+              className={selectClassName}
+            />
+            <select
+              aria-label="Review status"
+              value={view.status || ''}
+              onChange={(e) => updateView({ status: (e.target.value || undefined) as ClassificationStatus | undefined })}
+              className={selectClassName}
+            >
+              <option value="">Any status</option>
+              {REVIEW_STATUS_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <select
+              aria-label="Jurisdiction"
+              value={view.jurisdiction || ''}
+              onChange={(e) => updateView({ jurisdiction: (e.target.value || undefined) as Jurisdiction | undefined })}
+              className={selectClassName}
+            >
+              <option value="">Any jurisdiction</option>
+              {JURISDICTIONS.map(jurisdiction => (
+                <option key={jurisdiction} value={jurisdiction}>{JURISDICTION_INFO[jurisdiction].label}</option>
+              ))}
+            </select>
+            <button
+              onClick={clearFilters}
+              disabled={!hasActiveFilters(view)}
+              className="text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Clear filters
+            </button>
+          </div>
+        )}
+
         <div className="text-sm text-gray-600 mb-4">
-          Showing {filteredResults.length} of {results.length} classifications
+          {showDeleted
+            ? `Showing ${filteredResults.length} of ${deletedResults.length} deleted classifications`
+            : totalCount === 0
+              ? 'Showing 0 classifications'
+              : `Showing ${page * PAGE_SIZE + 1}–${page * PAGE_SIZE + results.length} of ${totalCount} classifications`}
           {import.meta.env.VITE_SUPABASE_URL && (
             <span className="ml-2 text-green-600">• Database Connected</span>
           )}
         </div>
       </div>
 
-      {isLoading ? (
+      {loadError && !showDeleted && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
+          <AlertTriangle className="w-5 h-5 text-red-600 mt-0.5" />
+          <p className="text-sm text-red-700">{loadError}</p>
+        </div>
+      )}
+
+      {isLoading && !showDeleted ? (
         <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-8 text-center">
           <RefreshCw className="w-8 h-8 text-blue-600 animate-spin mx-auto mb-4" />
           <h3 className="text-lg font-medium text-gray-900 mb-2">Loading History</h3>
@@ -242,9 +496,9 @@ export default function SearchHistory({ results, isLoading, onRefresh }: SearchH
           <Clock className="w-12 h-12 text-gray-400 mx-auto mb-4" />
           <h3 className="text-lg font-medium text-gray-900 mb-2">No Results Found</h3>
           <p className="text-gray-500">
-            {results.length === 0 
-              ? 'No classification history available yet.'
-              : 'No results match your current filters.'
+            {showDeleted
+              ? deletedResults.length === 0 ? 'No deleted classifications.' : 'No results match your current filters.'
+              : hasActiveFilters(view) ? 'No results match your current filters.' : 'No classification history available yet.'
             }
           </p>
         </div>
@@ -269,6 +523,7 @@ export default function SearchHistory({ results, isLoading, onRefresh }: SearchH
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Date
                   </th>
+                  <th className="px-6 py-3"></th>
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
@@ -277,12 +532,18 @@ export default function SearchHistory({ results, isLoading, onRefresh }: SearchH
                     <td className="px-6 py-4">
                       <div>
                         <div className="text-sm font-medium text-gray-900">
-                          {result.productName}
+                          {result.productNameHighlight
+                            ? <HighlightedText text={result.productNameHighlight} />
+                            : result.productName}
                         </div>
+                        {result.snippet && (
+                          <HighlightedText text={result.snippet} className="block text-xs text-gray-500 mt-1 max-w-md" />
+                        )}
                         {result.customerName && (
                           <div className="flex items-center space-x-1 text-xs text-gray-500 mt-1">
                             <Building2 className="w-3 h-3" />
                             <span>{result.customerName}</span>
+                            {result.partyScreening && <ScreeningBadge status={result.partyScreening.status} />}
                           </div>
                         )}
                       </div>
@@ -291,6 +552,9 @@ export default function SearchHistory({ results, isLoading, onRefresh }: SearchH
                       <span className="text-sm font-mono font-medium text-gray-900">
                         {result.hsCode}
                       </span>
+                      {result.jurisdiction && (
+                        <div className="text-xs text-gray-500 mt-1">{JURISDICTION_INFO[result.jurisdiction].nomenclature}</div>
+                      )}
                     </td>
                     <td className="px-6 py-4">
                       <div className="flex items-center">
@@ -308,24 +572,70 @@ export default function SearchHistory({ results, isLoading, onRefresh }: SearchH
                     </td>
                     <td className="px-6 py-4">
                       <div className="flex items-center space-x-2">
+                        <ReviewStatusBadge status={result.status} />
                         {result.isDualUse && (
                           <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
                             <AlertTriangle className="w-3 h-3 mr-1" />
                             Dual-Use
                           </span>
                         )}
+                        {result.destinationCountry && result.sanctionsVerdict && (
+                          <SanctionsBadge verdict={result.sanctionsVerdict} destinationCountry={result.destinationCountry} />
+                        )}
                       </div>
                     </td>
                     <td className="px-6 py-4 text-sm text-gray-500">
                       {result.timestamp.toLocaleDateString()}
                     </td>
+                    <td className="px-6 py-4 text-right">
+                      <button
+                        onClick={() => setHistoryFor(result)}
+                        className="inline-flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-900"
+                        title="Version history"
+                      >
+                        {showDeleted ? <Trash2 className="w-4 h-4 text-red-500" /> : <History className="w-4 h-4" />}
+                        <span>History</span>
+                      </button>
+                    </td>
                   </tr>
                 ))}
               </tbody>
             </table>
           </div>
+          {!showDeleted && (page > 0 || nextCursor) && (
+            <div className="flex items-center justify-between px-6 py-3 border-t border-gray-200 bg-gray-50">
+              <button
+                onClick={() => setCursors(cursors.slice(0, -1))}
+                disabled={page === 0 || isLoading}
+                className="inline-flex items-center space-x-1 text-sm text-gray-700 hover:text-gray-900 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <ChevronLeft className="w-4 h-4" />
+                <span>Previous</span>
+              </button>
+              <span className="text-sm text-gray-600">Page {page + 1} of {pageCount}</span>
+              <button
+                onClick={() => nextCursor && setCursors([...cursors, nextCursor])}
+                disabled={!nextCursor || isLoading}
+                className="inline-flex items-center space-x-1 text-sm text-gray-700 hover:text-gray-900 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <span>Next</span>
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          )}
         </div>
       )}
+
+      {historyFor && (
+        <ClassificationHistory
+          classificationId={historyFor.id}
+          productName={historyFor.productName}
+          isDeleted={showDeleted}
+          canDelete={canDelete}
+          onClose={() => setHistoryFor(null)}
+          onChanged={handleHistoryChanged}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { Globe, Loader2, LogIn, UserPlus, AlertTriangle, Building2, LogOut } from 'lucide-react';
+import { AuthService } from '../services/auth';
+
+interface SignInProps {
+  // Signed in but not yet a member of any organization
+  needsOrganization?: boolean;
+  email?: string;
+  onOrganizationCreated?: () => void;
+}
+
+export default function SignIn({ needsOrganization, email: signedInEmail, onOrganizationCreated }: SignInProps) {
+  const [mode, setMode] = useState<'signIn' | 'signUp'>('signIn');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [orgName, setOrgName] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSubmitting(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      if (mode === 'signIn') {
+        await AuthService.signIn(email, password);
+      } else if (await AuthService.signUp(email, password)) {
+        setNotice('Check your inbox to confirm your email address, then sign in.');
+        setMode('signIn');
+      }
+    });
+  };
+
+  const handleCreateOrganization = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await AuthService.createOrganization(orgName);
+      onOrganizationCreated?.();
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-8 w-full max-w-md">
+        <div className="flex items-center space-x-3 mb-6">
+          <div className="bg-blue-600 p-2 rounded-lg">
+            <Globe className="w-6 h-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-xl font-bold text-gray-900">HS Code Classifier</h1>
+            <p className="text-sm text-gray-500">
+              {needsOrganization ? `Signed in as ${signedInEmail}` : mode === 'signIn' ? 'Sign in to your account' : 'Create an account'}
+            </p>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 flex items-start space-x-2">
+            <AlertTriangle className="w-4 h-4 text-red-600 mt-0.5" />
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+        {notice && (
+          <div className="mb-4 bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-800">{notice}</div>
+        )}
+
+        {needsOrganization ? (
+          <div className="space-y-6">
+            <p className="text-sm text-gray-600">
+              Your account is not part of an organization yet. Ask an admin to add {signedInEmail}, or create a new
+              organization and become its admin.
+            </p>
+            <form onSubmit={handleCreateOrganization} className="space-y-3">
+              <label htmlFor="orgName" className="block text-sm font-medium text-gray-700">Organization Name</label>
+              <input
+                id="orgName"
+                type="text"
+                value={orgName}
+                onChange={(e) => setOrgName(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                disabled={isSubmitting}
+              />
+              <button
+                type="submit"
+                disabled={!orgName.trim() || isSubmitting}
+                className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+              >
+                {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Building2 className="w-4 h-4" />}
+                <span>Create Organization</span>
+              </button>
+            </form>
+            <button
+              onClick={() => run(() => AuthService.signOut())}
+              className="w-full inline-flex items-center justify-center space-x-2 text-sm text-gray-600 hover:text-gray-800"
+            >
+              <LogOut className="w-4 h-4" />
+              <span>Sign out</span>
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">Email</label>
+              <input
+                id="email"
+                type="email"
+                autoComplete="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                disabled={isSubmitting}
+              />
+            </div>
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">Password</label>
+              <input
+                id="password"
+                type="password"
+                autoComplete={mode === 'signIn' ? 'current-password' : 'new-password'}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                disabled={isSubmitting}
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={!email.trim() || !password || isSubmitting}
+              className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+            >
+              {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : mode === 'signIn' ? <LogIn className="w-4 h-4" /> : <UserPlus className="w-4 h-4" />}
+              <span>{mode === 'signIn' ? 'Sign In' : 'Create Account'}</span>
+            </button>
+            <button
+              type="button"
+              onClick={() => setMode(mode === 'signIn' ? 'signUp' : 'signIn')}
+              className="w-full text-sm text-blue-600 hover:text-blue-500"
+            >
+              {mode === 'signIn' ? 'No account yet? Sign up' : 'Already have an account? Sign in'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Sparkles } from 'lucide-react';
+import { findSimilarClassifications } from '../services/classifier';
+import { SimilarClassification } from '../services/database';
+import ReviewStatusBadge from './ReviewStatusBadge';
+
+interface SimilarClassificationsPanelProps {
+  productName: string;
+  // The saved classification itself, which would otherwise be its own nearest neighbour
+  excludeId?: string;
+}
+
+export default function SimilarClassificationsPanel({ productName, excludeId }: SimilarClassificationsPanelProps) {
+  const [neighbours, setNeighbours] = useState<SimilarClassification[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // A slower lookup for a previous product must not overwrite the current one
+    let isCurrent = true;
+    setIsLoading(true);
+    setError(null);
+    findSimilarClassifications(productName, { excludeId })
+      .then(results => {
+        if (isCurrent) setNeighbours(results);
+      })
+      .catch(err => {
+        if (isCurrent) setError(err instanceof Error ? err.message : 'Unable to find similar classifications');
+      })
+      .finally(() => {
+        if (isCurrent) setIsLoading(false);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [productName, excludeId]);
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center space-x-2 mb-3">
+        <Sparkles className="w-4 h-4 text-gray-600" />
+        <h4 className="text-sm font-medium text-gray-700">Similar Past Classifications</h4>
+        <span className="text-xs text-gray-500">Matched by meaning, not spelling</span>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center space-x-2 text-sm text-gray-500">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          <span>Searching the history...</span>
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : neighbours.length === 0 ? (
+        <p className="text-sm text-gray-500">No similar products have been classified yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {neighbours.map(neighbour => (
+            <li key={neighbour.id} className="bg-white border border-gray-200 rounded-lg p-3">
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-sm font-medium text-gray-900">{neighbour.product_name}</span>
+                <span className="font-mono text-sm text-gray-800">{neighbour.hs_code}</span>
+              </div>
+              <p className="text-xs text-gray-600">{neighbour.description}</p>
+              <div className="flex items-center justify-between mt-2">
+                <span className="text-xs text-gray-500">
+                  {Math.round(neighbour.similarity * 100)}% similar · {new Date(neighbour.created_at).toLocaleDateString()}
+                </span>
+                <ReviewStatusBadge status={neighbour.status} />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { Users, UserPlus, Trash2, AlertTriangle, Loader2 } from 'lucide-react';
+import { AuthService, OrganizationMember, ROLE_LABELS, USER_ROLES, UserRole } from '../services/auth';
+
+interface TeamSettingsProps {
+  orgName: string;
+  currentUserId: string;
+}
+
+export default function TeamSettings({ orgName, currentUserId }: TeamSettingsProps) {
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<UserRole>('classifier');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadMembers = async () => {
+    try {
+      setIsLoading(true);
+      setMembers(await AuthService.getMembers());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to load members');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadMembers();
+  }, []);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await action();
+      await loadMembers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to update members');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await AuthService.addMember(email, role);
+      setEmail('');
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+      <div className="flex items-center space-x-3 mb-6">
+        <div className="bg-blue-100 p-2 rounded-lg">
+          <Users className="w-5 h-5 text-blue-600" />
+        </div>
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Team</h2>
+          <p className="text-sm text-gray-600">{orgName}</p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 flex items-start space-x-2">
+          <AlertTriangle className="w-4 h-4 text-red-600 mt-0.5" />
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <Loader2 className="w-5 h-5 text-blue-600 animate-spin" />
+      ) : (
+        <div className="divide-y divide-gray-200 mb-6">
+          {members.map(member => (
+            <div key={member.user_id} className="flex items-center justify-between py-3">
+              <span className="text-sm text-gray-900">{member.email}</span>
+              <div className="flex items-center space-x-3">
+                <select
+                  value={member.role}
+                  onChange={(e) => run(() => AuthService.setMemberRole(member.user_id, e.target.value as UserRole))}
+                  disabled={isSubmitting || member.user_id === currentUserId}
+                  className="border border-gray-300 rounded-lg px-2 py-1 text-sm"
+                >
+                  {USER_ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                </select>
+                <button
+                  onClick={() => run(() => AuthService.removeMember(member.user_id))}
+                  disabled={isSubmitting || member.user_id === currentUserId}
+                  className="text-gray-400 hover:text-red-600 disabled:opacity-30"
+                  title="Remove member"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleAdd} className="flex items-center space-x-3">
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="colleague@example.com"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+        <select
+          value={role}
+          onChange={(e) => setRole(e.target.value as UserRole)}
+          className="border border-gray-300 rounded-lg px-2 py-2 text-sm"
+        >
+          {USER_ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+        </select>
+        <button
+          type="submit"
+          disabled={!email.trim() || isSubmitting}
+          className="inline-flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          <UserPlus className="w-4 h-4" />
+          <span>Add</span>
+        </button>
+      </form>
+      <p className="text-xs text-gray-500 mt-2">Colleagues need to sign up before they can be added.</p>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { DeniedPartyList } from './types';
+
+// Regenerate or extend with scripts/import-denied-parties.mjs from the EU Financial Sanctions Files.
+export const EU_CONSOLIDATED: DeniedPartyList = {
+  source: 'EU Consolidated List of persons, groups and entities subject to financial sanctions (bundled excerpt)',
+  parties: [
+    {
+      name: 'Joint Stock Company Almaz-Antey',
+      aliases: ['Almaz-Antey Corp', 'Almaz-Antey Defence Corporation', 'Almaz-Antey JSC', 'АО Концерн ВКО Алмаз-Антей'],
+      type: 'entity',
+      countries: ['RU'],
+      programmes: ['Regulation (EU) No 269/2014']
+    },
+    {
+      name: 'Wagner Group',
+      aliases: ['PMC Wagner', 'ChVK Wagner', 'Liga', 'ЧВК Вагнер'],
+      type: 'entity',
+      countries: ['RU'],
+      programmes: ['Regulation (EU) 2020/1998', 'Regulation (EU) No 269/2014']
+    },
+    {
+      name: 'Korea Mining Development Trading Corporation',
+      aliases: ['KOMID', 'Changgwang Sinyong Corporation', 'External Technology General Corporation'],
+      type: 'entity',
+      countries: ['KP'],
+      programmes: ['Regulation (EU) 2017/1509']
+    }
+  ]
+};
@@ -0,0 +1,5 @@
+export type { DeniedParty, DeniedPartyList, DeniedPartyListId, DeniedPartyType } from './types';
+export { OFAC_SDN } from './ofac-sdn';
+export { EU_CONSOLIDATED } from './eu-consolidated';
+export { UK_SANCTIONS } from './uk-sanctions';
+export { US_ENTITY_LIST } from './us-entity-list';
@@ -0,0 +1,50 @@
+import { DeniedPartyList } from './types';
+
+// Regenerate or extend with scripts/import-denied-parties.mjs from the OFAC SDN CSV files.
+export const OFAC_SDN: DeniedPartyList = {
+  source: 'OFAC Specially Designated Nationals and Blocked Persons List (bundled excerpt)',
+  parties: [
+    {
+      name: 'PUBLIC JOINT STOCK COMPANY SBERBANK OF RUSSIA',
+      aliases: ['SBERBANK', 'SBERBANK ROSSII', 'PAO SBERBANK', 'ПАО Сбербанк'],
+      type: 'entity',
+      countries: ['RU'],
+      programmes: ['RUSSIA-EO14024']
+    },
+    {
+      name: 'JOINT STOCK COMPANY CONCERN ALMAZ-ANTEY',
+      aliases: ['ALMAZ-ANTEY AIR AND SPACE DEFENCE CORPORATION', 'CONCERN VKO ALMAZ-ANTEY', 'Концерн ВКО Алмаз-Антей'],
+      type: 'entity',
+      countries: ['RU'],
+      programmes: ['UKRAINE-EO13661']
+    },
+    {
+      name: 'PMC WAGNER',
+      aliases: ['WAGNER GROUP', 'CHVK WAGNER', 'ЧВК Вагнер'],
+      type: 'entity',
+      countries: ['RU'],
+      programmes: ['UKRAINE-EO13660', 'TCO']
+    },
+    {
+      name: 'ISLAMIC REPUBLIC OF IRAN SHIPPING LINES',
+      aliases: ['IRISL', 'IRANO HIND SHIPPING COMPANY'],
+      type: 'entity',
+      countries: ['IR'],
+      programmes: ['IRAN', 'NPWMD']
+    },
+    {
+      name: 'MAHAN AIR',
+      aliases: ['MAHAN AIRLINES', 'MAHAN AIRWAYS'],
+      type: 'entity',
+      countries: ['IR'],
+      programmes: ['SDGT', 'IRAN']
+    },
+    {
+      name: 'KOREA MINING DEVELOPMENT TRADING CORPORATION',
+      aliases: ['KOMID', 'CHANGGWANG SINYONG CORPORATION'],
+      type: 'entity',
+      countries: ['KP'],
+      programmes: ['NPWMD', 'DPRK']
+    }
+  ]
+};
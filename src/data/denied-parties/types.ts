@@ -0,0 +1,21 @@
+export type DeniedPartyListId = 'OFAC_SDN' | 'EU_CONSOLIDATED' | 'UK_SANCTIONS' | 'US_ENTITY_LIST';
+
+export type DeniedPartyType = 'entity' | 'individual' | 'vessel';
+
+export interface DeniedParty {
+  // The list's own reference (OFAC UID, EU logical ID, UK group ID, Federal Register citation)
+  reference?: string;
+  name: string;
+  // AKAs, former names and native-script spellings, as published
+  aliases: string[];
+  type: DeniedPartyType;
+  // ISO 3166-1 alpha-2 codes from the listed addresses
+  countries: string[];
+  // Sanctions programmes or legal bases the party is listed under
+  programmes: string[];
+}
+
+export interface DeniedPartyList {
+  source: string;
+  parties: DeniedParty[];
+}
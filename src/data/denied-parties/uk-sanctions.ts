@@ -0,0 +1,29 @@
+import { DeniedPartyList } from './types';
+
+// Regenerate or extend with scripts/import-denied-parties.mjs from the UK Sanctions List CSV.
+export const UK_SANCTIONS: DeniedPartyList = {
+  source: 'UK Sanctions List (bundled excerpt)',
+  parties: [
+    {
+      name: 'PJSC SBERBANK',
+      aliases: ['SBERBANK OF RUSSIA', 'SBERBANK ROSSII', 'ПАО Сбербанк'],
+      type: 'entity',
+      countries: ['RU'],
+      programmes: ['Russia']
+    },
+    {
+      name: 'WAGNER GROUP',
+      aliases: ['PMC WAGNER', 'CHVK WAGNER', 'ЧВК Вагнер'],
+      type: 'entity',
+      countries: ['RU'],
+      programmes: ['Russia']
+    },
+    {
+      name: 'KOREA MINING DEVELOPMENT TRADING CORPORATION',
+      aliases: ['KOMID', 'CHANGGWANG SINYONG CORPORATION'],
+      type: 'entity',
+      countries: ['KP'],
+      programmes: ['Democratic People\'s Republic of Korea']
+    }
+  ]
+};
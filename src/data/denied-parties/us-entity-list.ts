@@ -0,0 +1,29 @@
+import { DeniedPartyList } from './types';
+
+// Regenerate or extend with scripts/import-denied-parties.mjs from the Consolidated Screening List CSV.
+export const US_ENTITY_LIST: DeniedPartyList = {
+  source: 'BIS Entity List, Supplement No. 4 to EAR Part 744 (bundled excerpt)',
+  parties: [
+    {
+      name: 'Huawei Technologies Co., Ltd.',
+      aliases: ['Huawei', '华为技术有限公司'],
+      type: 'entity',
+      countries: ['CN'],
+      programmes: ['EAR Part 744']
+    },
+    {
+      name: 'Semiconductor Manufacturing International Corporation',
+      aliases: ['SMIC', '中芯国际集成电路制造有限公司'],
+      type: 'entity',
+      countries: ['CN'],
+      programmes: ['EAR Part 744']
+    },
+    {
+      name: 'Hangzhou Hikvision Digital Technology Co., Ltd.',
+      aliases: ['Hikvision', '海康威视'],
+      type: 'entity',
+      countries: ['CN'],
+      programmes: ['EAR Part 744']
+    }
+  ]
+};
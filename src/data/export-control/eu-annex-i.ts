@@ -0,0 +1,80 @@
+import { ControlCorrelationTable, ControlListTable } from './types';
+
+// Entries of Annex I to Regulation (EU) 2021/821 referenced by the correlation table below
+export const EU_ANNEX_I: ControlListTable = {
+  '3A001.a': {
+    title: 'Electronic integrated circuits (radiation-hardened, extended temperature, FPGAs, ADCs/DACs and others listed in 3A001.a)',
+    parameters: [
+      'Rated to withstand a total dose of 5 × 10³ Gy (Si) or higher',
+      'Rated for operation above 398 K (+125 °C) or below 218 K (−55 °C), or across that whole range',
+      'Field programmable logic devices exceeding the 3A001.a.7 digital I/O or serial transceiver data rate limits',
+      'Analogue-to-digital or digital-to-analogue converters exceeding the 3A001.a.5 resolution and sample rate limits'
+    ]
+  },
+  '4A003': {
+    title: 'Digital computers, electronic assemblies and related equipment',
+    parameters: [
+      'Adjusted Peak Performance (APP) exceeding 70 Weighted TeraFLOPS (4A003.b)',
+      'Designed or modified for fault tolerance, or rated for operation below 228 K or above 358 K'
+    ]
+  },
+  '5A001': {
+    title: 'Telecommunications systems, equipment and components',
+    parameters: [
+      'Specially designed to withstand nuclear effects or hardened against electromagnetic pulse',
+      'Spread-spectrum or frequency-hopping techniques with user-programmable codes',
+      'Designed for interception or jamming of mobile telecommunications, or for monitoring radio frequency transmissions'
+    ]
+  },
+  '5A002.a': {
+    title: 'Information security systems, equipment and components using cryptography',
+    parameters: [
+      'Cryptography for data confidentiality with a symmetric key longer than 56 bits or an equivalent asymmetric algorithm',
+      'Cryptographic functionality usable without cryptographic activation (check the Note 3 mass-market decontrol)',
+      'Not excluded by Category 5 Part 2 Note 2 (e.g. authentication-only, copy protection, consumer devices)'
+    ]
+  },
+  '6A008': {
+    title: 'Radar systems, equipment and assemblies',
+    parameters: [
+      'Operating frequency, peak output power and instantaneous bandwidth against the 6A008 limits',
+      'Space-qualified, airborne, low probability of intercept or electronically steerable antenna design',
+      'Not a civil air traffic control, marine or automotive radar covered by the entry notes'
+    ]
+  },
+  '7A005': {
+    title: 'Global navigation satellite system (GNSS) receiving equipment',
+    parameters: [
+      'Employs a decryption algorithm designed or modified for government use (e.g. Galileo PRS, GPS P(Y)/M-code)',
+      'Uses adaptive antenna systems (beam steering or null steering)'
+    ]
+  }
+};
+
+/*
+ * An HS6 approximation of the Commission's correlation table, which links the entries above to
+ * 8-digit CN codes. Each row lists what any CN line under the subheading is correlated with, so a
+ * CN code whose own line is not correlated still gets its subheading's entries; the parameters
+ * and the compliance review settle whether an entry applies.
+ */
+export const EU_HS6_CORRELATION: ControlCorrelationTable = {
+  // Chapter 84
+  '847130': ['4A003', '5A002.a'],
+  '847141': ['4A003', '5A002.a'],
+  '847149': ['4A003', '5A002.a'],
+  '847150': ['4A003', '5A002.a'],
+  '847180': ['4A003', '5A002.a'],
+
+  // Chapter 85
+  '851713': ['5A002.a'],
+  '851714': ['5A001', '5A002.a'],
+  '851761': ['5A001', '5A002.a'],
+  '851762': ['5A001', '5A002.a'],
+  '852351': ['5A002.a'],
+  '852610': ['6A008'],
+  '852691': ['7A005'],
+  '854231': ['3A001.a', '5A002.a'],
+  '854232': ['3A001.a'],
+  '854233': ['3A001.a'],
+  '854239': ['3A001.a'],
+};
@@ -0,0 +1,3 @@
+export type { ControlCorrelationTable, ControlListEntry, ControlListTable, ControlRegime } from './types';
+export { EU_ANNEX_I, EU_HS6_CORRELATION } from './eu-annex-i';
+export { US_CCL, US_ECCN_CANDIDATES } from './us-ccl';
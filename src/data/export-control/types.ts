@@ -0,0 +1,13 @@
+export type ControlRegime = 'EU' | 'US';
+
+export interface ControlListEntry {
+  title: string;
+  // Technical criteria that decide whether a given product is caught by the entry
+  parameters: string[];
+}
+
+// Keyed by the control list number: '5A002.a' for EU Annex I, '5A992.c' for the US CCL
+export type ControlListTable = Record<string, ControlListEntry>;
+
+// Keyed by unpunctuated HS heading or subheading ('8471', '851762'); applies to every national line beneath
+export type ControlCorrelationTable = Record<string, string[]>;
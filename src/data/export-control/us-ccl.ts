@@ -0,0 +1,91 @@
+import { ControlCorrelationTable, ControlListTable } from './types';
+
+// Commerce Control List (15 CFR 774, Supplement No. 1) entries proposed as ECCN candidates below
+export const US_CCL: ControlListTable = {
+  '3A001.a': {
+    title: 'Electronic integrated circuits (radiation-hardened, extended temperature, FPGAs, ADCs/DACs and others listed in 3A001.a)',
+    parameters: [
+      'Same technical thresholds as EU Annex I 3A001.a (Wassenaar Arrangement Category 3)',
+      'Check 3A090 for advanced computing integrated circuits before settling on 3A001 or 3A991'
+    ]
+  },
+  '3A991': {
+    title: 'Electronic devices and components not controlled by 3A001 (anti-terrorism controls only)',
+    parameters: [
+      'Microprocessors, memories, FPGAs or converters below the 3A001 thresholds but meeting a 3A991 paragraph'
+    ]
+  },
+  '4A003': {
+    title: 'Digital computers, electronic assemblies and related equipment',
+    parameters: [
+      'Adjusted Peak Performance (APP) exceeding 70 Weighted TeraFLOPS',
+      'Check 4A090 for computers containing advanced computing integrated circuits'
+    ]
+  },
+  '4A994': {
+    title: 'Computers and related equipment not controlled by 4A001 or 4A003 (anti-terrorism controls only)',
+    parameters: [
+      'Electronic computers and related equipment meeting a 4A994 paragraph, e.g. rated for extended temperature operation'
+    ]
+  },
+  '5A002.a': {
+    title: 'Information security items using cryptography for data confidentiality',
+    parameters: [
+      'Symmetric key longer than 56 bits or an equivalent asymmetric algorithm for data confidentiality',
+      'Not eligible for mass-market treatment under 740.17(b)(1), which moves the item to 5A992.c'
+    ]
+  },
+  '5A991': {
+    title: 'Telecommunications equipment not controlled by 5A001 (anti-terrorism controls only)',
+    parameters: [
+      'Equipment meeting a 5A991 paragraph, e.g. stored-program-controlled switching or radio equipment above set frequencies'
+    ]
+  },
+  '5A992.c': {
+    title: 'Mass-market encryption commodities (anti-terrorism controls only)',
+    parameters: [
+      'Meets the mass-market criteria of Category 5 Part 2 Note 3 and 740.17(b)(1)',
+      'Self-classification report or classification request filed where 740.17 requires one'
+    ]
+  },
+  '6A008': {
+    title: 'Radar systems, equipment and assemblies',
+    parameters: [
+      'Same technical thresholds as EU Annex I 6A008; civil air traffic control and automotive radars may fall to 6A998'
+    ]
+  },
+  '6A998': {
+    title: 'Airborne radar and related equipment not controlled by 6A008 (anti-terrorism controls only)',
+    parameters: [
+      'Airborne radar equipment, or space-qualified LIDAR, below the 6A008 thresholds'
+    ]
+  },
+  '7A005': {
+    title: 'GNSS receiving equipment with government decryption or adaptive antennas',
+    parameters: [
+      'Same criteria as EU Annex I 7A005; receivers without them usually fall to 7A994'
+    ]
+  },
+  '7A994': {
+    title: 'Other navigation direction finding equipment and airborne communication equipment (anti-terrorism controls only)',
+    parameters: [
+      'GNSS receivers and other navigation equipment not controlled by 7A005 or 7A105'
+    ]
+  }
+};
+
+// ECCN candidates by heading or subheading; the CCL has no official HS correlation, so these are screening hints
+export const US_ECCN_CANDIDATES: ControlCorrelationTable = {
+  // Chapter 84
+  '8471': ['4A003', '4A994', '5A002.a', '5A992.c'],
+
+  // Chapter 85
+  '851713': ['5A002.a', '5A992.c'],
+  '851714': ['5A991', '5A002.a', '5A992.c'],
+  '851761': ['5A991', '5A002.a', '5A992.c'],
+  '851762': ['5A991', '5A002.a', '5A992.c'],
+  '852351': ['5A002.a', '5A992.c'],
+  '852610': ['6A008', '6A998'],
+  '852691': ['7A005', '7A994'],
+  '8542': ['3A001.a', '3A991'],
+};
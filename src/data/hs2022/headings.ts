@@ -0,0 +1,188 @@
+import { HSDescriptionTable } from './types';
+
+// Chapters listed here are complete: every HS 2022 heading of the chapter is present.
+// Codes in chapters without any heading here are reported as unverifiable below the chapter.
+// Regenerate or extend with scripts/import-hs-nomenclature.mjs.
+export const HS_HEADINGS: HSDescriptionTable = {
+  // Chapter 84
+  '8401': 'Nuclear reactors; fuel elements (cartridges), non-irradiated, for nuclear reactors; machinery and apparatus for isotopic separation',
+  '8402': 'Steam or other vapour generating boilers (other than central heating hot water boilers capable also of producing low pressure steam); super-heated water boilers',
+  '8403': 'Central heating boilers other than those of heading 84.02',
+  '8404': 'Auxiliary plant for use with boilers of heading 84.02 or 84.03 (for example, economisers, super-heaters, soot removers, gas recoverers); condensers for steam or other vapour power units',
+  '8405': 'Producer gas or water gas generators, with or without their purifiers; acetylene gas generators and similar water process gas generators, with or without their purifiers',
+  '8406': 'Steam turbines and other vapour turbines',
+  '8407': 'Spark-ignition reciprocating or rotary internal combustion piston engines',
+  '8408': 'Compression-ignition internal combustion piston engines (diesel or semi-diesel engines)',
+  '8409': 'Parts suitable for use solely or principally with the engines of heading 84.07 or 84.08',
+  '8410': 'Hydraulic turbines, water wheels, and regulators therefor',
+  '8411': 'Turbo-jets, turbo-propellers and other gas turbines',
+  '8412': 'Other engines and motors',
+  '8413': 'Pumps for liquids, whether or not fitted with a measuring device; liquid elevators',
+  '8414': 'Air or vacuum pumps, air or other gas compressors and fans; ventilating or recycling hoods incorporating a fan, whether or not fitted with filters; gas-tight biological safety cabinets, whether or not fitted with filters',
+  '8415': 'Air conditioning machines, comprising a motor-driven fan and elements for changing the temperature and humidity, including those machines in which the humidity cannot be separately regulated',
+  '8416': 'Furnace burners for liquid fuel, for pulverised solid fuel or for gas; mechanical stokers, including their mechanical grates, mechanical ash dischargers and similar appliances',
+  '8417': 'Industrial or laboratory furnaces and ovens, including incinerators, non-electric',
+  '8418': 'Refrigerators, freezers and other refrigerating or freezing equipment, electric or other; heat pumps other than air conditioning machines of heading 84.15',
+  '8419': 'Machinery, plant or laboratory equipment, whether or not electrically heated, for the treatment of materials by a process involving a change of temperature such as heating, cooking, roasting, distilling, rectifying, sterilising, pasteurising, steaming, drying, evaporating, vaporising, condensing or cooling, other than machinery or plant of a kind used for domestic purposes; instantaneous or storage water heaters, non-electric',
+  '8420': 'Calendering or other rolling machines, other than for metals or glass, and cylinders therefor',
+  '8421': 'Centrifuges, including centrifugal dryers; filtering or purifying machinery and apparatus, for liquids or gases',
+  '8422': 'Dish washing machines; machinery for cleaning or drying bottles or other containers; machinery for filling, closing, sealing or labelling bottles, cans, boxes, bags or other containers; machinery for capsuling bottles, jars, tubes and similar containers; machinery for aerating beverages; other packing or wrapping machinery (including heat-shrink wrapping machinery)',
+  '8423': 'Weighing machinery (excluding balances of a sensitivity of 5 cg or better), including weight operated counting or checking machines; weighing machine weights of all kinds',
+  '8424': 'Mechanical appliances (whether or not hand-operated) for projecting, dispersing or spraying liquids or powders; fire extinguishers, whether or not charged; spray guns and similar appliances; steam or sand blasting machines and similar jet projecting machines',
+  '8425': 'Pulley tackle and hoists other than skip hoists; winches and capstans; jacks',
+  '8426': "Ships' derricks; cranes, including cable cranes; mobile lifting frames, straddle carriers and works trucks fitted with a crane",
+  '8427': 'Fork-lift trucks; other works trucks fitted with lifting or handling equipment',
+  '8428': 'Other lifting, handling, loading or unloading machinery (for example, lifts, escalators, conveyors, teleferics)',
+  '8429': 'Self-propelled bulldozers, angledozers, graders, levellers, scrapers, mechanical shovels, excavators, shovel loaders, tamping machines and road rollers',
+  '8430': 'Other moving, grading, levelling, scraping, excavating, tamping, compacting, extracting or boring machinery, for earth, minerals or ores; pile-drivers and pile-extractors; snow-ploughs and snow-blowers',
+  '8431': 'Parts suitable for use solely or principally with the machinery of headings 84.25 to 84.30',
+  '8432': 'Agricultural, horticultural or forestry machinery for soil preparation or cultivation; lawn or sports-ground rollers',
+  '8433': 'Harvesting or threshing machinery, including straw or fodder balers; grass or hay mowers; machines for cleaning, sorting or grading eggs, fruit or other agricultural produce, other than machinery of heading 84.37',
+  '8434': 'Milking machines and dairy machinery',
+  '8435': 'Presses, crushers and similar machinery used in the manufacture of wine, cider, fruit juices or similar beverages',
+  '8436': 'Other agricultural, horticultural, forestry, poultry-keeping or bee-keeping machinery, including germination plant fitted with mechanical or thermal equipment; poultry incubators and brooders',
+  '8437': 'Machines for cleaning, sorting or grading seed, grain or dried leguminous vegetables; machinery used in the milling industry or for the working of cereals or dried leguminous vegetables, other than farm-type machinery',
+  '8438': 'Machinery, not specified or included elsewhere in this Chapter, for the industrial preparation or manufacture of food or drink, other than machinery for the extraction or preparation of animal or fixed vegetable or microbial fats or oils',
+  '8439': 'Machinery for making pulp of fibrous cellulosic material or for making or finishing paper or paperboard',
+  '8440': 'Book-binding machinery, including book-sewing machines',
+  '8441': 'Other machinery for making up paper pulp, paper or paperboard, including cutting machines of all kinds',
+  '8442': 'Machinery, apparatus and equipment (other than the machines of headings 84.56 to 84.65) for preparing or making plates, cylinders or other printing components; plates, cylinders and other printing components; plates, cylinders and lithographic stones, prepared for printing purposes',
+  '8443': 'Printing machinery used for printing by means of plates, cylinders and other printing components of heading 84.42; other printers, copying machines and facsimile machines, whether or not combined; parts and accessories thereof',
+  '8444': 'Machines for extruding, drawing, texturing or cutting man-made textile materials',
+  '8445': 'Machines for preparing textile fibres; spinning, doubling or twisting machines and other machinery for producing textile yarns; textile reeling or winding (including weft-winding) machines and machines for preparing textile yarns for use on the machines of heading 84.46 or 84.47',
+  '8446': 'Weaving machines (looms)',
+  '8447': 'Knitting machines, stitch-bonding machines and machines for making gimped yarn, tulle, lace, embroidery, trimmings, braid or net and machines for tufting',
+  '8448': 'Auxiliary machinery for use with machines of heading 84.44, 84.45, 84.46 or 84.47; parts and accessories suitable for use solely or principally with the machines of this heading or of heading 84.44, 84.45, 84.46 or 84.47',
+  '8449': 'Machinery for the manufacture or finishing of felt or nonwovens in the piece or in shapes, including machinery for making felt hats; blocks for making hats',
+  '8450': 'Household or laundry-type washing machines, including machines which both wash and dry',
+  '8451': 'Machinery (other than machines of heading 84.50) for washing, cleaning, wringing, drying, ironing, pressing, bleaching, dyeing, dressing, finishing, coating or impregnating textile yarns, fabrics or made up textile articles and machines for applying the paste to the base fabric or other support used in the manufacture of floor coverings such as linoleum; machines for reeling, unreeling, folding, cutting or pinking textile fabrics',
+  '8452': 'Sewing machines, other than book-sewing machines of heading 84.40; furniture, bases and covers specially designed for sewing machines; sewing machine needles',
+  '8453': 'Machinery for preparing, tanning or working hides, skins or leather or for making or repairing footwear or other articles of hides, skins or leather, other than sewing machines',
+  '8454': 'Converters, ladles, ingot moulds and casting machines, of a kind used in metallurgy or in metal foundries',
+  '8455': 'Metal-rolling mills and rolls therefor',
+  '8456': 'Machine-tools for working any material by removal of material, by laser or other light or photon beam, ultrasonic, electro-discharge, electro-chemical, electron beam, ionic-beam or plasma arc processes; water-jet cutting machines',
+  '8457': 'Machining centres, unit construction machines (single station) and multi-station transfer machines, for working metal',
+  '8458': 'Lathes (including turning centres) for removing metal',
+  '8459': 'Machine-tools (including way-type unit head machines) for drilling, boring, milling, threading or tapping by removing metal, other than lathes (including turning centres) of heading 84.58',
+  '8460': 'Machine-tools for deburring, sharpening, grinding, honing, lapping, polishing or otherwise finishing metal or cermets by means of grinding stones, abrasives or polishing products, other than gear cutting, gear grinding or gear finishing machines of heading 84.61',
+  '8461': 'Machine-tools for planing, shaping, slotting, broaching, gear cutting, gear grinding or gear finishing, sawing, cutting-off and other machine-tools working by removing metal or cermets, not elsewhere specified or included',
+  '8462': 'Machine-tools (including presses) for working metal by forging, hammering or die forging (excluding rolling mills); machine-tools (including presses, slitting lines and cut-to-length lines) for working metal by bending, folding, straightening, flattening, shearing, punching, notching or nibbling (excluding draw-benches); presses for working metal or metal carbides, not specified above',
+  '8463': 'Other machine-tools for working metal or cermets, without removing material',
+  '8464': 'Machine-tools for working stone, ceramics, concrete, asbestos-cement or like mineral materials or for cold working glass',
+  '8465': 'Machine-tools (including machines for nailing, stapling, glueing or otherwise assembling) for working wood, cork, bone, hard rubber, hard plastics or similar hard materials',
+  '8466': 'Parts and accessories suitable for use solely or principally with the machines of headings 84.56 to 84.65, including work or tool holders, self-opening dieheads, dividing heads and other special attachments for the machines; tool holders for any type of tool for working in the hand',
+  '8467': 'Tools for working in the hand, pneumatic, hydraulic or with self-contained electric or non-electric motor',
+  '8468': 'Machinery and apparatus for soldering, brazing or welding, whether or not capable of cutting, other than those of heading 85.15; gas-operated surface tempering machines and appliances',
+  '8469': 'Typewriters other than printers of heading 84.43; word-processing machines',
+  '8470': 'Calculating machines and pocket-size data recording, reproducing and displaying machines with calculating functions; accounting machines, postage-franking machines, ticket-issuing machines and similar machines, incorporating a calculating device; cash registers',
+  '8471': 'Automatic data processing machines and units thereof; magnetic or optical readers, machines for transcribing data onto data media in coded form and machines for processing such data, not elsewhere specified or included',
+  '8472': 'Other office machines (for example, hectograph or stencil duplicating machines, addressing machines, automatic banknote dispensers, coin-sorting machines, coin-counting or wrapping machines, pencil-sharpening machines, perforating or stapling machines)',
+  '8473': 'Parts and accessories (other than covers, carrying cases and the like) suitable for use solely or principally with machines of headings 84.70 to 84.72',
+  '8474': 'Machinery for sorting, screening, separating, washing, crushing, grinding, mixing or kneading earth, stone, ores or other mineral substances, in solid (including powder or paste) form; machinery for agglomerating, shaping or moulding solid mineral fuels, ceramic paste, unhardened cements, plastering materials or other mineral products in powder or paste form; machines for forming foundry moulds of sand',
+  '8475': 'Machines for assembling electric or electronic lamps, tubes or valves or flashbulbs, in glass envelopes; machines for manufacturing or hot working glass or glassware',
+  '8476': 'Automatic goods-vending machines (for example, postage stamp, cigarette, food or beverage machines), including money-changing machines',
+  '8477': 'Machinery for working rubber or plastics or for the manufacture of products from these materials, not specified or included elsewhere in this Chapter',
+  '8478': 'Machinery for preparing or making up tobacco, not specified or included elsewhere in this Chapter',
+  '8479': 'Machines and mechanical appliances having individual functions, not specified or included elsewhere in this Chapter',
+  '8480': 'Moulding boxes for metal foundry; mould bases; moulding patterns; moulds for metal (other than ingot moulds), metal carbides, glass, mineral materials, rubber or plastics',
+  '8481': 'Taps, cocks, valves and similar appliances for pipes, boiler shells, tanks, vats or the like, including pressure-reducing valves and thermostatically controlled valves',
+  '8482': 'Ball or roller bearings',
+  '8483': 'Transmission shafts (including cam shafts and crank shafts) and cranks; bearing housings and plain shaft bearings; gears and gearing; ball or roller screws; gear boxes and other speed changers, including torque converters; flywheels and pulleys, including pulley blocks; clutches and shaft couplings (including universal joints)',
+  '8484': 'Gaskets and similar joints of metal sheeting combined with other material or of two or more layers of metal; sets or assortments of gaskets and similar joints, dissimilar in composition, put up in pouches, envelopes or similar packings; mechanical seals',
+  '8485': 'Machines for additive manufacturing',
+  '8486': 'Machines and apparatus of a kind used solely or principally for the manufacture of semiconductor boules or wafers, semiconductor devices, electronic integrated circuits or flat panel displays; machines and apparatus specified in Note 11 (C) to this Chapter; parts and accessories',
+  '8487': 'Machinery parts, not containing electrical connectors, insulators, coils, contacts or other electrical features, not specified or included elsewhere in this Chapter',
+
+  // Chapter 85
+  '8501': 'Electric motors and generators (excluding generating sets)',
+  '8502': 'Electric generating sets and rotary converters',
+  '8503': 'Parts suitable for use solely or principally with the machines of heading 85.01 or 85.02',
+  '8504': 'Electrical transformers, static converters (for example, rectifiers) and inductors',
+  '8505': 'Electro-magnets; permanent magnets and articles intended to become permanent magnets after magnetisation; electro-magnetic or permanent magnet chucks, clamps and similar holding devices; electro-magnetic couplings, clutches and brakes; electro-magnetic lifting heads',
+  '8506': 'Primary cells and primary batteries',
+  '8507': 'Electric accumulators, including separators therefor, whether or not rectangular (including square)',
+  '8508': 'Vacuum cleaners',
+  '8509': 'Electro-mechanical domestic appliances, with self-contained electric motor, other than vacuum cleaners of heading 85.08',
+  '8510': 'Shavers, hair clippers and hair-removing appliances, with self-contained electric motor',
+  '8511': 'Electrical ignition or starting equipment of a kind used for spark-ignition or compression-ignition internal combustion engines (for example, ignition magnetos, magneto-dynamos, ignition coils, sparking plugs and glow plugs, starter motors); generators and cut-outs of a kind used in conjunction with such engines',
+  '8512': 'Electrical lighting or signalling equipment (excluding articles of heading 85.39), windscreen wipers, defrosters and demisters, of a kind used for cycles or motor vehicles',
+  '8513': 'Portable electric lamps designed to function by their own source of energy (for example, dry batteries, accumulators, magnetos), other than lighting equipment of heading 85.12',
+  '8514': 'Industrial or laboratory electric furnaces and ovens (including those functioning by induction or dielectric loss); other industrial or laboratory equipment for the heat treatment of materials by induction or dielectric loss',
+  '8515': 'Electric (including electrically heated gas), laser or other light or photon beam, ultrasonic, electron beam, magnetic pulse or plasma arc soldering, brazing or welding machines and apparatus, whether or not capable of cutting; electric machines and apparatus for hot spraying of metals or cermets',
+  '8516': 'Electric instantaneous or storage water heaters and immersion heaters; electric space heating apparatus and soil heating apparatus; electro-thermic hair-dressing apparatus (for example, hair dryers, hair curlers, curling tong heaters) and hand dryers; electric smoothing irons; other electro-thermic appliances of a kind used for domestic purposes; electric heating resistors, other than those of heading 85.45',
+  '8517': 'Telephone sets, including smartphones and other telephones for cellular networks or for other wireless networks; other apparatus for the transmission or reception of voice, images or other data, including apparatus for communication in a wired or wireless network (such as a local or wide area network), other than transmission or reception apparatus of heading 84.43, 85.25, 85.27 or 85.28',
+  '8518': 'Microphones and stands therefor; loudspeakers, whether or not mounted in their enclosures; headphones and earphones, whether or not combined with a microphone, and sets consisting of a microphone and one or more loudspeakers; audio-frequency electric amplifiers; electric sound amplifier sets',
+  '8519': 'Sound recording or reproducing apparatus',
+  '8521': 'Video recording or reproducing apparatus, whether or not incorporating a video tuner',
+  '8522': 'Parts and accessories suitable for use solely or principally with the apparatus of headings 85.19 to 85.21',
+  '8523': 'Discs, tapes, solid-state non-volatile storage devices, "smart cards" and other media for the recording of sound or of other phenomena, whether or not recorded, including matrices and masters for the production of discs, but excluding products of Chapter 37',
+  '8524': 'Flat panel display modules, whether or not incorporating touch-sensitive screens',
+  '8525': 'Transmission apparatus for radio-broadcasting or television, whether or not incorporating reception apparatus or sound recording or reproducing apparatus; television cameras, digital cameras and video camera recorders',
+  '8526': 'Radar apparatus, radio navigational aid apparatus and radio remote control apparatus',
+  '8527': 'Reception apparatus for radio-broadcasting, whether or not combined, in the same housing, with sound recording or reproducing apparatus or a clock',
+  '8528': 'Monitors and projectors, not incorporating television reception apparatus; reception apparatus for television, whether or not incorporating radio-broadcast receivers or sound or video recording or reproducing apparatus',
+  '8529': 'Parts suitable for use solely or principally with the apparatus of headings 85.24 to 85.28',
+  '8530': 'Electrical signalling, safety or traffic control equipment for railways, tramways, roads, inland waterways, parking facilities, port installations or airfields (other than those of heading 86.08)',
+  '8531': 'Electric sound or visual signalling apparatus (for example, bells, sirens, indicator panels, burglar or fire alarms), other than those of heading 85.12 or 85.30',
+  '8532': 'Electrical capacitors, fixed, variable or adjustable (pre-set)',
+  '8533': 'Electrical resistors (including rheostats and potentiometers), other than heating resistors',
+  '8534': 'Printed circuits',
+  '8535': 'Electrical apparatus for switching or protecting electrical circuits, or for making connections to or in electrical circuits (for example, switches, fuses, lightning arresters, voltage limiters, surge suppressors, plugs and other connectors, junction boxes), for a voltage exceeding 1,000 volts',
+  '8536': 'Electrical apparatus for switching or protecting electrical circuits, or for making connections to or in electrical circuits (for example, switches, relays, fuses, surge suppressors, plugs, sockets, lamp-holders and other connectors, junction boxes), for a voltage not exceeding 1,000 volts; connectors for optical fibres, optical fibre bundles or cables',
+  '8537': 'Boards, panels, consoles, desks, cabinets and other bases, equipped with two or more apparatus of heading 85.35 or 85.36, for electric control or the distribution of electricity, including those incorporating instruments or apparatus of Chapter 90, and numerical control apparatus, other than switching apparatus of heading 85.17',
+  '8538': 'Parts suitable for use solely or principally with the apparatus of heading 85.35, 85.36 or 85.37',
+  '8539': 'Electric filament or discharge lamps, including sealed beam lamp units and ultra-violet or infra-red lamps; arc-lamps; light-emitting diode (LED) light sources',
+  '8540': 'Thermionic, cold cathode or photo-cathode valves and tubes (for example, vacuum or vapour or gas filled valves and tubes, mercury arc rectifying valves and tubes, cathode-ray tubes, television camera tubes)',
+  '8541': 'Semiconductor devices (for example, diodes, transistors, semiconductor based transducers); photosensitive semiconductor devices, including photovoltaic cells whether or not assembled in modules or made up into panels; light-emitting diodes (LED), whether or not assembled with other light-emitting diodes (LED); mounted piezo-electric crystals',
+  '8542': 'Electronic integrated circuits',
+  '8543': 'Electrical machines and apparatus, having individual functions, not specified or included elsewhere in this Chapter',
+  '8544': 'Insulated (including enamelled or anodised) wire, cable (including co-axial cable) and other insulated electric conductors, whether or not fitted with connectors; optical fibre cables, made up of individually sheathed fibres, whether or not assembled with electric conductors or fitted with connectors',
+  '8545': 'Carbon electrodes, carbon brushes, lamp carbons, battery carbons and other articles of graphite or other carbon, with or without metal, of a kind used for electrical purposes',
+  '8546': 'Electrical insulators of any material',
+  '8547': 'Insulating fittings for electrical machines, appliances or equipment, being fittings wholly of insulating material apart from any minor components of metal incorporated during moulding solely for purposes of assembly, other than insulators of heading 85.46; electrical conduit tubing and joints therefor, of base metal lined with insulating material',
+  '8548': 'Electrical parts of machinery or apparatus, not specified or included elsewhere in this Chapter',
+  '8549': 'Electrical and electronic waste and scrap',
+
+  // Chapter 90
+  '9001': 'Optical fibres and optical fibre bundles; optical fibre cables other than those of heading 85.44; sheets and plates of polarising material; lenses (including contact lenses), prisms, mirrors and other optical elements, of any material, unmounted, other than such elements of glass not optically worked',
+  '9002': 'Lenses, prisms, mirrors and other optical elements, of any material, mounted, being parts of or fittings for instruments or apparatus, other than such elements of glass not optically worked',
+  '9003': 'Frames and mountings for spectacles, goggles or the like, and parts thereof',
+  '9004': 'Spectacles, goggles and the like, corrective, protective or other',
+  '9005': 'Binoculars, monoculars, other optical telescopes, and mountings therefor; other astronomical instruments and mountings therefor, but not including instruments for radio-astronomy',
+  '9006': 'Photographic (other than cinematographic) cameras; photographic flashlight apparatus and flashbulbs other than discharge lamps of heading 85.39',
+  '9007': 'Cinematographic cameras and projectors, whether or not incorporating sound recording or reproducing apparatus',
+  '9008': 'Image projectors, other than cinematographic; photographic (other than cinematographic) enlargers and reducers',
+  '9010': 'Apparatus and equipment for photographic (including cinematographic) laboratories, not specified or included elsewhere in this Chapter; negatoscopes; projection screens',
+  '9011': 'Compound optical microscopes, including those for photomicrography, cinephotomicrography or microprojection',
+  '9012': 'Microscopes other than optical microscopes; diffraction apparatus',
+  '9013': 'Liquid crystal devices not constituting articles provided for more specifically in other headings; lasers, other than laser diodes; other optical appliances and instruments, not specified or included elsewhere in this Chapter',
+  '9014': 'Direction finding compasses; other navigational instruments and appliances',
+  '9015': 'Surveying (including photogrammetrical surveying), hydrographic, oceanographic, hydrological, meteorological or geophysical instruments and appliances, excluding compasses; rangefinders',
+  '9016': 'Balances of a sensitivity of 5 cg or better, with or without weights',
+  '9017': 'Drawing, marking-out or mathematical calculating instruments (for example, drafting machines, pantographs, protractors, drawing sets, slide rules, disc calculators); instruments for measuring length, for use in the hand (for example, measuring rods and tapes, micrometers, callipers), not specified or included elsewhere in this Chapter',
+  '9018': 'Instruments and appliances used in medical, surgical, dental or veterinary sciences, including scintigraphic apparatus, other electro-medical apparatus and sight-testing instruments',
+  '9019': 'Mechano-therapy appliances; massage apparatus; psychological aptitude-testing apparatus; ozone therapy, oxygen therapy, aerosol therapy, artificial respiration or other therapeutic respiration apparatus',
+  '9020': 'Other breathing appliances and gas masks, excluding protective masks having neither mechanical parts nor replaceable filters',
+  '9021': 'Orthopaedic appliances, including crutches, surgical belts and trusses; splints and other fracture appliances; artificial parts of the body; hearing aids and other appliances which are worn or carried, or implanted in the body, to compensate for a defect or disability',
+  '9022': 'Apparatus based on the use of X-rays or of alpha, beta, gamma or other ionising radiations, whether or not for medical, surgical, dental or veterinary uses, including radiography or radiotherapy apparatus, X-ray tubes and other X-ray generators, high tension generators, control panels and desks, screens, examination or treatment tables, chairs and the like',
+  '9023': 'Instruments, apparatus and models, designed for demonstrational purposes (for example, in education or exhibitions), unsuitable for other uses',
+  '9024': 'Machines and appliances for testing the hardness, strength, compressibility, elasticity or other mechanical properties of materials (for example, metals, wood, textiles, paper, plastics)',
+  '9025': 'Hydrometers and similar floating instruments, thermometers, pyrometers, barometers, hygrometers and psychrometers, recording or not, and any combination of these instruments',
+  '9026': 'Instruments and apparatus for measuring or checking the flow, level, pressure or other variables of liquids or gases (for example, flow meters, level gauges, manometers, heat meters), excluding instruments and apparatus of heading 90.14, 90.15, 90.28 or 90.32',
+  '9027': 'Instruments and apparatus for physical or chemical analysis (for example, polarimeters, refractometers, spectrometers, gas or smoke analysis apparatus); instruments and apparatus for measuring or checking viscosity, porosity, expansion, surface tension or the like; instruments and apparatus for measuring or checking quantities of heat, sound or light (including exposure meters); microtomes',
+  '9028': 'Gas, liquid or electricity supply or production meters, including calibrating meters therefor',
+  '9029': 'Revolution counters, production counters, taximeters, odometers, pedometers and the like; speed indicators and tachometers, other than those of heading 90.14 or 90.15; stroboscopes',
+  '9030': 'Oscilloscopes, spectrum analysers and other instruments and apparatus for measuring or checking electrical quantities, excluding meters of heading 90.28; instruments and apparatus for measuring or detecting alpha, beta, gamma, X-ray, cosmic or other ionising radiations',
+  '9031': 'Measuring or checking instruments, appliances and machines, not specified or included elsewhere in this Chapter; profile projectors',
+  '9032': 'Automatic regulating or controlling instruments and apparatus',
+  '9033': 'Parts and accessories (not specified or included elsewhere in this Chapter) for machines, appliances, instruments or apparatus of Chapter 90',
+
+  // Chapter 93
+  '9301': 'Military weapons, other than revolvers, pistols and the arms of heading 93.07',
+  '9302': 'Revolvers and pistols, other than those of heading 93.03 or 93.04',
+  '9303': 'Other firearms and similar devices which operate by the firing of an explosive charge (for example, sporting shotguns and rifles, muzzle-loading firearms, Very pistols and other devices designed to project only signal flares, pistols and revolvers for firing blank ammunition, captive-bolt humane killers, line-throwing guns)',
+  '9304': 'Other arms (for example, spring, air or gas guns and pistols, truncheons), excluding those of heading 93.07',
+  '9305': 'Parts and accessories of articles of headings 93.01 to 93.04',
+  '9306': 'Bombs, grenades, torpedoes, mines, missiles and similar munitions of war and parts thereof; cartridges and other ammunition and projectiles and parts thereof, including shot and cartridge wads',
+  '9307': 'Swords, cutlasses, bayonets, lances and similar arms and parts thereof and scabbards and sheaths therefor',
+};
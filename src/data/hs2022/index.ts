@@ -0,0 +1,5 @@
+export type { HSDescriptionTable, HSSection } from './types';
+export { HS_SECTIONS } from './sections';
+export { HS_CHAPTERS } from './chapters';
+export { HS_HEADINGS } from './headings';
+export { HS_SUBHEADINGS } from './subheadings';
@@ -0,0 +1,25 @@
+import { HSSection } from './types';
+
+export const HS_SECTIONS: HSSection[] = [
+  { id: 'I', title: 'Live animals; animal products', chapters: ['01', '05'] },
+  { id: 'II', title: 'Vegetable products', chapters: ['06', '14'] },
+  { id: 'III', title: 'Animal, vegetable or microbial fats and oils and their cleavage products; prepared edible fats; animal or vegetable waxes', chapters: ['15', '15'] },
+  { id: 'IV', title: 'Prepared foodstuffs; beverages, spirits and vinegar; tobacco and manufactured tobacco substitutes; products, whether or not containing nicotine, intended for inhalation without combustion; other nicotine containing products intended for the intake of nicotine into the human body', chapters: ['16', '24'] },
+  { id: 'V', title: 'Mineral products', chapters: ['25', '27'] },
+  { id: 'VI', title: 'Products of the chemical or allied industries', chapters: ['28', '38'] },
+  { id: 'VII', title: 'Plastics and articles thereof; rubber and articles thereof', chapters: ['39', '40'] },
+  { id: 'VIII', title: 'Raw hides and skins, leather, furskins and articles thereof; saddlery and harness; travel goods, handbags and similar containers; articles of animal gut (other than silk-worm gut)', chapters: ['41', '43'] },
+  { id: 'IX', title: 'Wood and articles of wood; wood charcoal; cork and articles of cork; manufactures of straw, of esparto or of other plaiting materials; basketware and wickerwork', chapters: ['44', '46'] },
+  { id: 'X', title: 'Pulp of wood or of other fibrous cellulosic material; recovered (waste and scrap) paper or paperboard; paper and paperboard and articles thereof', chapters: ['47', '49'] },
+  { id: 'XI', title: 'Textiles and textile articles', chapters: ['50', '63'] },
+  { id: 'XII', title: 'Footwear, headgear, umbrellas, sun umbrellas, walking-sticks, seat-sticks, whips, riding-crops and parts thereof; prepared feathers and articles made therewith; artificial flowers; articles of human hair', chapters: ['64', '67'] },
+  { id: 'XIII', title: 'Articles of stone, plaster, cement, asbestos, mica or similar materials; ceramic products; glass and glassware', chapters: ['68', '70'] },
+  { id: 'XIV', title: 'Natural or cultured pearls, precious or semi-precious stones, precious metals, metals clad with precious metal, and articles thereof; imitation jewellery; coin', chapters: ['71', '71'] },
+  { id: 'XV', title: 'Base metals and articles of base metal', chapters: ['72', '83'] },
+  { id: 'XVI', title: 'Machinery and mechanical appliances; electrical equipment; parts thereof; sound recorders and reproducers, television image and sound recorders and reproducers, and parts and accessories of such articles', chapters: ['84', '85'] },
+  { id: 'XVII', title: 'Vehicles, aircraft, vessels and associated transport equipment', chapters: ['86', '89'] },
+  { id: 'XVIII', title: 'Optical, photographic, cinematographic, measuring, checking, precision, medical or surgical instruments and apparatus; clocks and watches; musical instruments; parts and accessories thereof', chapters: ['90', '92'] },
+  { id: 'XIX', title: 'Arms and ammunition; parts and accessories thereof', chapters: ['93', '93'] },
+  { id: 'XX', title: 'Miscellaneous manufactured articles', chapters: ['94', '96'] },
+  { id: 'XXI', title: "Works of art, collectors' pieces and antiques", chapters: ['97', '97'] },
+];
@@ -0,0 +1,82 @@
+import { HSDescriptionTable } from './types';
+
+// Headings listed here are complete: every HS 2022 subheading of the heading is present.
+// Headings without any subheading here are only validated at heading level.
+// Dash-indented subheadings are prefixed with their parent text so each entry reads on its own.
+export const HS_SUBHEADINGS: HSDescriptionTable = {
+  '846900': 'Typewriters other than printers of heading 84.43; word-processing machines',
+
+  '847130': 'Portable automatic data processing machines, weighing not more than 10 kg, consisting of at least a central processing unit, a keyboard and a display',
+  '847141': 'Other automatic data processing machines: comprising in the same housing at least a central processing unit and an input and output unit, whether or not combined',
+  '847149': 'Other automatic data processing machines: other, presented in the form of systems',
+  '847150': 'Processing units other than those of subheading 8471.41 or 8471.49, whether or not containing in the same housing one or two of the following types of unit: storage units, input units, output units',
+  '847160': 'Input or output units, whether or not containing storage units in the same housing',
+  '847170': 'Storage units',
+  '847180': 'Other units of automatic data processing machines',
+  '847190': 'Other',
+
+  '847310': 'Parts and accessories of the machines of heading 84.69',
+  '847321': 'Parts and accessories of the machines of heading 84.70: of the electronic calculating machines of subheading 8470.10, 8470.21 or 8470.29',
+  '847329': 'Parts and accessories of the machines of heading 84.70: other',
+  '847330': 'Parts and accessories of the machines of heading 84.71',
+  '847340': 'Parts and accessories of the machines of heading 84.72',
+  '847350': 'Parts and accessories equally suitable for use with machines of two or more of the headings 84.70 to 84.72',
+
+  '848510': 'Machines for additive manufacturing: by metal deposit',
+  '848520': 'Machines for additive manufacturing: by plastics or rubber deposit',
+  '848530': 'Machines for additive manufacturing: by plaster, cement, ceramics or glass deposit',
+  '848580': 'Machines for additive manufacturing: other',
+  '848590': 'Parts of machines for additive manufacturing',
+
+  '851711': 'Telephone sets: line telephone sets with cordless handsets',
+  '851713': 'Telephone sets: smartphones',
+  '851714': 'Telephone sets: other telephones for cellular networks or for other wireless networks',
+  '851718': 'Telephone sets: other',
+  '851761': 'Other apparatus for the transmission or reception of voice, images or other data: base stations',
+  '851762': 'Other apparatus for the transmission or reception of voice, images or other data: machines for the reception, conversion and transmission or regeneration of voice, images or other data, including switching and routing apparatus',
+  '851769': 'Other apparatus for the transmission or reception of voice, images or other data: other',
+  '851771': 'Parts: aerials and aerial reflectors of all kinds; parts suitable for use therewith',
+  '851779': 'Parts: other',
+
+  '852321': 'Magnetic media: cards incorporating a magnetic stripe',
+  '852329': 'Magnetic media: other',
+  '852341': 'Optical media: unrecorded',
+  '852349': 'Optical media: other',
+  '852351': 'Semiconductor media: solid-state non-volatile storage devices',
+  '852352': 'Semiconductor media: "smart cards"',
+  '852359': 'Semiconductor media: other',
+  '852380': 'Other recording media',
+
+  '852610': 'Radar apparatus',
+  '852691': 'Other: radio navigational aid apparatus',
+  '852692': 'Other: radio remote control apparatus',
+
+  '853710': 'Boards, panels and other bases for electric control or the distribution of electricity: for a voltage not exceeding 1,000 V',
+  '853720': 'Boards, panels and other bases for electric control or the distribution of electricity: for a voltage exceeding 1,000 V',
+
+  '854231': 'Electronic integrated circuits: processors and controllers, whether or not combined with memories, converters, logic circuits, amplifiers, clock and timing circuits, or other circuits',
+  '854232': 'Electronic integrated circuits: memories',
+  '854233': 'Electronic integrated circuits: amplifiers',
+  '854239': 'Electronic integrated circuits: other',
+  '854290': 'Parts of electronic integrated circuits',
+
+  '901811': 'Electro-diagnostic apparatus: electro-cardiographs',
+  '901812': 'Electro-diagnostic apparatus: ultrasonic scanning apparatus',
+  '901813': 'Electro-diagnostic apparatus: magnetic resonance imaging apparatus',
+  '901814': 'Electro-diagnostic apparatus: scintigraphic apparatus',
+  '901819': 'Electro-diagnostic apparatus: other',
+  '901820': 'Ultra-violet or infra-red ray apparatus',
+  '901831': 'Syringes, needles, catheters, cannulae and the like: syringes, with or without needles',
+  '901832': 'Syringes, needles, catheters, cannulae and the like: tubular metal needles and needles for sutures',
+  '901839': 'Syringes, needles, catheters, cannulae and the like: other',
+  '901841': 'Other instruments and appliances, used in dental sciences: dental drill engines, whether or not combined on a single base with other dental equipment',
+  '901849': 'Other instruments and appliances, used in dental sciences: other',
+  '901850': 'Other ophthalmic instruments and appliances',
+  '901890': 'Other instruments and appliances',
+
+  '903210': 'Thermostats',
+  '903220': 'Manostats',
+  '903281': 'Other instruments and apparatus: hydraulic or pneumatic',
+  '903289': 'Other instruments and apparatus: other',
+  '903290': 'Parts and accessories',
+};
@@ -0,0 +1,9 @@
+export interface HSSection {
+  id: string;
+  title: string;
+  // First and last chapter of the section, inclusive
+  chapters: [string, string];
+}
+
+// Keyed by the unpunctuated code: '84' for chapters, '8471' for headings, '847130' for subheadings
+export type HSDescriptionTable = Record<string, string>;
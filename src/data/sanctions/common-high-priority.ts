@@ -0,0 +1,5 @@
+// Common High Priority (CHP) items: battlefield goods the EU, US, UK and Japan track jointly,
+// listed by HS subheading so both regimes' rules share one list
+export const COMMON_HIGH_PRIORITY_PREFIXES = [
+  '847150', '847180', '847330', '851762', '852351', '852691', '854231', '854232', '854233', '854239'
+];
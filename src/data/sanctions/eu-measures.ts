@@ -0,0 +1,61 @@
+import { COMMON_HIGH_PRIORITY_PREFIXES } from './common-high-priority';
+import { SanctionsRule } from './types';
+
+// Rules without hsPrefixes or controlScope cover every product
+
+export const EU_MEASURES: SanctionsRule[] = [
+  {
+    id: 'EU-RU-DUAL-USE',
+    regime: 'EU',
+    countries: ['RU'],
+    controlScope: 'dual-use',
+    verdict: 'prohibited',
+    measure: 'Regulation (EU) No 833/2014, Art. 2',
+    summary: 'Sale, supply, transfer or export of dual-use items in Annex I to Regulation (EU) 2021/821 to Russia is prohibited.'
+  },
+  {
+    id: 'EU-RU-CHP',
+    regime: 'EU',
+    countries: ['RU'],
+    hsPrefixes: COMMON_HIGH_PRIORITY_PREFIXES,
+    verdict: 'prohibited',
+    measure: 'Regulation (EU) No 833/2014, Art. 2a and 3k (Annexes VII and XXIII, Common High Priority list)',
+    summary: 'Advanced technology and Common High Priority items may not be exported to Russia.'
+  },
+  {
+    id: 'EU-BY-DUAL-USE',
+    regime: 'EU',
+    countries: ['BY'],
+    controlScope: 'dual-use',
+    verdict: 'prohibited',
+    measure: 'Council Regulation (EC) No 765/2006, Art. 1e',
+    summary: 'Sale, supply, transfer or export of dual-use items to Belarus is prohibited.'
+  },
+  {
+    id: 'EU-BY-CHP',
+    regime: 'EU',
+    countries: ['BY'],
+    hsPrefixes: COMMON_HIGH_PRIORITY_PREFIXES,
+    verdict: 'prohibited',
+    measure: 'Council Regulation (EC) No 765/2006, Art. 1f (advanced technology items)',
+    summary: 'Advanced technology and Common High Priority items may not be exported to Belarus.'
+  },
+  {
+    id: 'EU-IR-DUAL-USE',
+    regime: 'EU',
+    countries: ['IR'],
+    controlScope: 'dual-use',
+    verdict: 'licence_required',
+    measure: 'Regulation (EU) No 267/2012, Art. 2a',
+    summary: 'Dual-use items need prior authorisation from the competent authority before export to Iran.'
+  },
+  {
+    id: 'EU-KP-MACHINERY',
+    regime: 'EU',
+    countries: ['KP'],
+    hsPrefixes: ['84', '85', '86', '87', '88', '89'],
+    verdict: 'prohibited',
+    measure: 'Regulation (EU) 2017/1509 (implementing UNSC Resolution 2397)',
+    summary: 'Industrial machinery, electrical equipment and transport vehicles (HS chapters 84 to 89) may not be exported to North Korea.'
+  }
+];
@@ -0,0 +1,4 @@
+export type { SanctionsRegime, SanctionsRule, SanctionsVerdict } from './types';
+export { COUNTRY_CODES } from './countries';
+export { EU_MEASURES } from './eu-measures';
+export { US_MEASURES } from './us-measures';
@@ -0,0 +1,19 @@
+export type SanctionsRegime = 'EU' | 'US';
+
+export type SanctionsVerdict = 'allowed' | 'licence_required' | 'prohibited';
+
+export interface SanctionsRule {
+  id: string;
+  regime: SanctionsRegime;
+  // ISO 3166-1 alpha-2 destination codes
+  countries: string[];
+  // Unpunctuated HS prefixes (chapter to subheading) the measure lists
+  hsPrefixes?: string[];
+  // Restricts the rule to codes correlated with a control list entry: 'dual-use' for the
+  // multilateral lists only, 'any' to include US anti-terrorism-only entries
+  controlScope?: 'dual-use' | 'any';
+  verdict: Exclude<SanctionsVerdict, 'allowed'>;
+  // Legal reference, as a compliance officer would cite it
+  measure: string;
+  summary: string;
+}
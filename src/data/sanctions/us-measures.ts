@@ -0,0 +1,33 @@
+import { COMMON_HIGH_PRIORITY_PREFIXES } from './common-high-priority';
+import { SanctionsRule } from './types';
+
+// Rules without hsPrefixes or controlScope cover every product
+
+export const US_MEASURES: SanctionsRule[] = [
+  {
+    id: 'US-EMBARGO',
+    regime: 'US',
+    countries: ['CU', 'IR', 'KP'],
+    verdict: 'prohibited',
+    measure: 'EAR Part 746 and OFAC sanctions programs (Country Groups E:1/E:2)',
+    summary: 'Comprehensive embargo: exports need a specific BIS or OFAC authorisation, which is generally denied.'
+  },
+  {
+    id: 'US-RU-BY-CCL',
+    regime: 'US',
+    countries: ['RU', 'BY'],
+    controlScope: 'any',
+    verdict: 'licence_required',
+    measure: 'EAR § 746.8(a)(1)',
+    summary: 'A BIS licence is required for every item on the Commerce Control List; applications face a policy of denial.'
+  },
+  {
+    id: 'US-RU-BY-HTS',
+    regime: 'US',
+    countries: ['RU', 'BY'],
+    hsPrefixes: COMMON_HIGH_PRIORITY_PREFIXES,
+    verdict: 'licence_required',
+    measure: 'EAR § 746.8(a) (HTS-based requirements, Supplements No. 4 and 6 to Part 746)',
+    summary: 'Listed HTS items, including Common High Priority items, need a BIS licence even when designated EAR99.'
+  }
+];
@@ -0,0 +1,41 @@
+import { TariffSchedule } from './types';
+
+// HS subheadings listed here are complete: every 8-digit CN subheading under them is present.
+// Subheadings without any line here are only validated at HS level.
+// Regenerate or extend with scripts/import-tariff-schedule.mjs.
+export const EU_CN: TariffSchedule = {
+  source: 'Combined Nomenclature, Annex I to Regulation (EEC) No 2658/87 (2025 version)',
+  lines: {
+    // Chapter 84
+    '84713000': 'Portable automatic data-processing machines, weighing not more than 10 kg, consisting of at least a central processing unit, a keyboard and a display',
+
+    // Chapter 85
+    '85171300': 'Smartphones',
+    '85171400': 'Other telephones for cellular networks or for other wireless networks',
+
+    '85423111': 'Processors and controllers: goods specified in Note 12(b)(3) and (4) to Chapter 85, multi-component integrated circuits',
+    '85423119': 'Processors and controllers: goods specified in Note 12(b)(3) and (4) to Chapter 85, other',
+    '85423190': 'Processors and controllers: other',
+    '85423300': 'Electronic integrated circuits: amplifiers',
+    '85423911': 'Other electronic integrated circuits: goods specified in Note 12(b)(3) and (4) to Chapter 85, multi-component integrated circuits',
+    '85423919': 'Other electronic integrated circuits: goods specified in Note 12(b)(3) and (4) to Chapter 85, other',
+    '85423990': 'Other electronic integrated circuits: other',
+    '85429000': 'Parts of electronic integrated circuits',
+  },
+  rates: {
+    // Chapter 84
+    '84713000': { mfn: '0 %' },
+
+    // Chapter 85
+    '85171300': { mfn: '0 %' },
+    '85171400': { mfn: '0 %' },
+    '85423111': { mfn: '0 %' },
+    '85423119': { mfn: '0 %' },
+    '85423190': { mfn: '0 %' },
+    '85423300': { mfn: '0 %' },
+    '85423911': { mfn: '0 %' },
+    '85423919': { mfn: '0 %' },
+    '85423990': { mfn: '0 %' },
+    '85429000': { mfn: '0 %' },
+  },
+};
@@ -0,0 +1,41 @@
+import { TariffSchedule } from './types';
+
+// HS subheadings listed here are complete: every 10-digit TARIC code under them is present.
+// CN subheadings without a TARIC subdivision carry the suffix 00.
+// Regenerate or extend with scripts/import-tariff-schedule.mjs.
+export const EU_TARIC: TariffSchedule = {
+  source: 'European Commission TARIC database (2025 nomenclature)',
+  lines: {
+    // Chapter 84
+    '8471300000': 'Portable automatic data-processing machines, weighing not more than 10 kg, consisting of at least a central processing unit, a keyboard and a display',
+
+    // Chapter 85
+    '8517130000': 'Smartphones',
+    '8517140000': 'Other telephones for cellular networks or for other wireless networks',
+
+    '8542311100': 'Processors and controllers: goods specified in Note 12(b)(3) and (4) to Chapter 85, multi-component integrated circuits',
+    '8542311900': 'Processors and controllers: goods specified in Note 12(b)(3) and (4) to Chapter 85, other',
+    '8542319000': 'Processors and controllers: other',
+    '8542330000': 'Electronic integrated circuits: amplifiers',
+    '8542391100': 'Other electronic integrated circuits: goods specified in Note 12(b)(3) and (4) to Chapter 85, multi-component integrated circuits',
+    '8542391900': 'Other electronic integrated circuits: goods specified in Note 12(b)(3) and (4) to Chapter 85, other',
+    '8542399000': 'Other electronic integrated circuits: other',
+    '8542900000': 'Parts of electronic integrated circuits',
+  },
+  rates: {
+    // Chapter 84
+    '8471300000': { mfn: '0 %' },
+
+    // Chapter 85
+    '8517130000': { mfn: '0 %' },
+    '8517140000': { mfn: '0 %' },
+    '8542311100': { mfn: '0 %' },
+    '8542311900': { mfn: '0 %' },
+    '8542319000': { mfn: '0 %' },
+    '8542330000': { mfn: '0 %' },
+    '8542391100': { mfn: '0 %' },
+    '8542391900': { mfn: '0 %' },
+    '8542399000': { mfn: '0 %' },
+    '8542900000': { mfn: '0 %' },
+  },
+};
@@ -0,0 +1,37 @@
+import { TariffSchedule } from './types';
+
+// HS subheadings listed here are complete: every 8-digit ITC-HS line under them is present.
+// Subheadings without any line here are only validated at HS level.
+// Regenerate or extend with scripts/import-tariff-schedule.mjs.
+export const IN_ITC_HS: TariffSchedule = {
+  source: 'DGFT ITC(HS) Schedule I (Import Policy), 2022 edition',
+  lines: {
+    // Chapter 84
+    '84713010': 'Portable automatic data processing machines: personal computer',
+    '84713020': 'Portable automatic data processing machines: laptops including notebooks and sub-notebooks',
+    '84713090': 'Portable automatic data processing machines: other',
+
+    // Chapter 85
+    '85171300': 'Smartphones',
+
+    '85423100': 'Electronic integrated circuits: processors and controllers',
+    '85423200': 'Electronic integrated circuits: memories',
+    '85423300': 'Electronic integrated circuits: amplifiers',
+    '85423900': 'Electronic integrated circuits: other',
+    '85429000': 'Parts of electronic integrated circuits',
+  },
+  rates: {
+    // Chapter 84
+    '84713010': { mfn: '0%' },
+    '84713020': { mfn: '0%' },
+    '84713090': { mfn: '0%' },
+
+    // Chapter 85
+    '85171300': { mfn: '15%' },
+    '85423100': { mfn: '0%' },
+    '85423200': { mfn: '0%' },
+    '85423300': { mfn: '0%' },
+    '85423900': { mfn: '0%' },
+    '85429000': { mfn: '0%' },
+  },
+};
@@ -0,0 +1,5 @@
+export type { TariffLineRates, TariffLineTable, TariffSchedule } from './types';
+export { US_HTS } from './us-hts';
+export { EU_CN } from './eu-cn';
+export { EU_TARIC } from './eu-taric';
+export { IN_ITC_HS } from './in-itc-hs';
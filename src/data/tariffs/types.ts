@@ -0,0 +1,17 @@
+// Keyed by the unpunctuated national tariff line: '8471300100' for HTSUS, '84713000' for CN
+export type TariffLineTable = Record<string, string>;
+
+// Rates are kept as printed in the schedule ('Free', '2.6%', '0 %', '3.9¢/kg')
+export interface TariffLineRates {
+  mfn: string;
+  // Keyed by preference programme, e.g. 'KORUS' or 'EU-Japan EPA'
+  preferential?: Record<string, string>;
+}
+
+export interface TariffSchedule {
+  // Publisher and edition the lines were taken from
+  source: string;
+  lines: TariffLineTable;
+  // Lines without an entry have no imported rate; keyed like `lines`
+  rates: Record<string, TariffLineRates>;
+}
@@ -0,0 +1,36 @@
+import { TariffSchedule } from './types';
+
+// HS subheadings listed here are complete: every 10-digit HTSUS line under them is present.
+// Subheadings without any line here are only validated at HS level.
+// Regenerate or extend with scripts/import-tariff-schedule.mjs.
+export const US_HTS: TariffSchedule = {
+  source: 'USITC Harmonized Tariff Schedule of the United States (2025 Basic Edition)',
+  lines: {
+    // Chapter 84
+    '8471300100': 'Portable automatic data processing machines, weighing not more than 10 kg, consisting of at least a central processing unit, a keyboard and a display',
+
+    // Chapter 85
+    '8517130000': 'Smartphones',
+    '8517140000': 'Other telephones for cellular networks or for other wireless networks',
+
+    '8523510000': 'Semiconductor media: solid-state non-volatile storage devices',
+
+    '8542310000': 'Electronic integrated circuits: processors and controllers, whether or not combined with memories, converters, logic circuits, amplifiers, clock and timing circuits, or other circuits',
+    '8542330000': 'Electronic integrated circuits: amplifiers',
+    '8542390000': 'Electronic integrated circuits: other',
+    '8542900000': 'Parts of electronic integrated circuits',
+  },
+  rates: {
+    // Chapter 84
+    '8471300100': { mfn: 'Free' },
+
+    // Chapter 85
+    '8517130000': { mfn: 'Free' },
+    '8517140000': { mfn: 'Free' },
+    '8523510000': { mfn: 'Free' },
+    '8542310000': { mfn: 'Free' },
+    '8542330000': { mfn: 'Free' },
+    '8542390000': { mfn: 'Free' },
+    '8542900000': { mfn: 'Free' },
+  },
+};
@@ -0,0 +1,80 @@
+import { supabase } from './database';
+import type { EmbeddingResult, ProviderId } from './llm';
+import type { ClassificationOptions, CompanyProductAnalysis, HSCodeClassification, LLMRequestOptions } from './openai';
+
+export interface ApiProviderStatus {
+  id: ProviderId;
+  label: string;
+  model: string;
+  configured: boolean;
+}
+
+export interface ApiStatus {
+  defaultProvider: ProviderId;
+  providers: ApiProviderStatus[];
+  embeddings: { model: string; configured: boolean };
+  quotas: Record<'classify' | 'analyze-company' | 'embed', number>;
+}
+
+const apiUrl = import.meta.env.VITE_API_URL?.replace(/\/$/, '');
+
+// With VITE_API_URL set, LLM calls go through the API server and no provider key reaches the browser
+export function isApiProxyEnabled(): boolean {
+  return Boolean(apiUrl);
+}
+
+async function request<T>(path: string, body?: unknown): Promise<T> {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  if (!token) {
+    throw new Error('Sign in to use the classification API');
+  }
+
+  const response = await fetch(`${apiUrl}${path}`, {
+    method: body === undefined ? 'GET' : 'POST',
+    headers: {
+      Authorization: `Bearer ${token}`,
+      ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    // The status stays in the message so batch retries can recognise 429 rate limits
+    throw new Error(`API error ${response.status}: ${payload?.error || response.statusText}`);
+  }
+
+  return payload as T;
+}
+
+export function fetchApiStatus(): Promise<ApiStatus> {
+  return request<ApiStatus>('/status');
+}
+
+export function classifyProductViaApi(
+  productName: string,
+  customerName?: string,
+  options?: ClassificationOptions
+): Promise<HSCodeClassification> {
+  return request<HSCodeClassification>('/classify', {
+    productName,
+    customerName,
+    provider: options?.provider,
+    clarifications: options?.clarifications,
+    jurisdiction: options?.jurisdiction,
+    destinationCountry: options?.destinationCountry,
+    precedents: options?.precedents,
+  });
+}
+
+export function analyzeCompanyProductsViaApi(companyName: string, options?: LLMRequestOptions): Promise<CompanyProductAnalysis> {
+  return request<CompanyProductAnalysis>('/analyze-company', {
+    companyName,
+    provider: options?.provider,
+  });
+}
+
+export function embedTextsViaApi(texts: string[]): Promise<EmbeddingResult> {
+  return request<EmbeddingResult>('/embed', { texts });
+}
@@ -0,0 +1,178 @@
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from './database';
+import { setUserName } from './identity';
+import { DEFAULT_SCREENING_THRESHOLD } from './screening';
+import { normalizeRiskRules, RiskRules } from './risk';
+
+export type UserRole = 'classifier' | 'reviewer' | 'admin';
+
+export type Permission = 'classify' | 'review' | 'manage';
+
+export const USER_ROLES: UserRole[] = ['classifier', 'reviewer', 'admin'];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  classifier: 'Classifier',
+  reviewer: 'Reviewer',
+  admin: 'Admin'
+};
+
+// Mirrors the checks in the RLS policies and enforce_classification_roles trigger
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  classifier: ['classify'],
+  reviewer: ['review'],
+  admin: ['classify', 'review', 'manage']
+};
+
+export function hasPermission(role: UserRole | undefined, permission: Permission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+export interface Membership {
+  orgId: string;
+  orgName: string;
+  role: UserRole;
+  // Minimum score, 0 to 1, at which a listed party is reported as a match
+  screeningThreshold: number;
+  // Weights and thresholds of the company risk score
+  riskRules: RiskRules;
+}
+
+export interface OrganizationMember {
+  user_id: string;
+  email: string;
+  role: UserRole;
+  created_at: string;
+}
+
+export class AuthService {
+  static async getSession(): Promise<Session | null> {
+    const { data, error } = await supabase.auth.getSession();
+    if (error) {
+      console.error('Auth error:', error);
+      throw new Error(`Failed to restore session: ${error.message}`);
+    }
+    setUserName(data.session?.user.email || '');
+    return data.session;
+  }
+
+  static onSessionChange(callback: (session: Session | null) => void): () => void {
+    const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUserName(session?.user.email || '');
+      callback(session);
+    });
+    return () => data.subscription.unsubscribe();
+  }
+
+  static async signIn(email: string, password: string): Promise<void> {
+    const { error } = await supabase.auth.signInWithPassword({ email: email.trim(), password });
+    if (error) {
+      throw new Error(`Sign in failed: ${error.message}`);
+    }
+  }
+
+  // Returns true when the project requires the email address to be confirmed before sign-in
+  static async signUp(email: string, password: string): Promise<boolean> {
+    const { data, error } = await supabase.auth.signUp({ email: email.trim(), password });
+    if (error) {
+      throw new Error(`Sign up failed: ${error.message}`);
+    }
+    return !data.session;
+  }
+
+  static async signOut(): Promise<void> {
+    const { error } = await supabase.auth.signOut();
+    if (error) {
+      throw new Error(`Sign out failed: ${error.message}`);
+    }
+  }
+
+  // The caller's organization and role, or null until an admin adds them to one
+  static async getMembership(): Promise<Membership | null> {
+    const { data: session } = await supabase.auth.getSession();
+    const userId = session.session?.user.id;
+    if (!userId) return null;
+
+    const { data, error } = await supabase
+      .from('organization_members')
+      .select('org_id, role, organizations(name, screening_threshold, risk_rules)')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Database error:', error);
+      throw new Error(`Failed to fetch organization membership: ${error.message}`);
+    }
+    if (!data) return null;
+
+    const organization = data.organizations as unknown as { name: string; screening_threshold: number; risk_rules: unknown } | null;
+    return {
+      orgId: data.org_id,
+      orgName: organization?.name || '',
+      role: data.role,
+      screeningThreshold: Number(organization?.screening_threshold ?? DEFAULT_SCREENING_THRESHOLD),
+      riskRules: normalizeRiskRules(organization?.risk_rules)
+    };
+  }
+
+  static async createOrganization(name: string): Promise<void> {
+    const { error } = await supabase.rpc('create_organization', { org_name: name });
+    if (error) {
+      console.error('Database error:', error);
+      throw new Error(`Failed to create organization: ${error.message}`);
+    }
+  }
+
+  static async setScreeningThreshold(threshold: number): Promise<void> {
+    const { error } = await supabase.rpc('set_screening_threshold', { threshold });
+    if (error) {
+      console.error('Database error:', error);
+      throw new Error(`Failed to change screening threshold: ${error.message}`);
+    }
+  }
+
+  static async setRiskRules(rules: RiskRules): Promise<void> {
+    const { error } = await supabase.rpc('set_risk_rules', { rules });
+    if (error) {
+      console.error('Database error:', error);
+      throw new Error(`Failed to change risk scoring rules: ${error.message}`);
+    }
+  }
+
+  static async getMembers(): Promise<OrganizationMember[]> {
+    const { data, error } = await supabase
+      .from('organization_members')
+      .select('user_id, email, role, created_at')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Database error:', error);
+      throw new Error(`Failed to fetch members: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  static async addMember(email: string, role: UserRole): Promise<void> {
+    const { error } = await supabase.rpc('add_organization_member', { member_email: email, member_role: role });
+    if (error) {
+      console.error('Database error:', error);
+      throw new Error(`Failed to add member: ${error.message}`);
+    }
+  }
+
+  static async setMemberRole(userId: string, role: UserRole): Promise<void> {
+    const { error } = await supabase.rpc('set_organization_member_role', { member_id: userId, member_role: role });
+    if (error) {
+      console.error('Database error:', error);
+      throw new Error(`Failed to change role: ${error.message}`);
+    }
+  }
+
+  static async removeMember(userId: string): Promise<void> {
+    const { error } = await supabase.rpc('remove_organization_member', { member_id: userId });
+    if (error) {
+      console.error('Database error:', error);
+      throw new Error(`Failed to remove member: ${error.message}`);
+    }
+  }
+}
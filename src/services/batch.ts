@@ -0,0 +1,99 @@
+import { CatalogItem } from './catalog';
+import { ProviderId } from './llm';
+import { HSCodeClassification } from './openai';
+import { classifyProduct } from './classifier';
+import { Jurisdiction } from './tariffs';
+
+export type BatchRowStatus = 'pending' | 'running' | 'retrying' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchRowState {
+  item: CatalogItem;
+  status: BatchRowStatus;
+  attempts: number;
+  classification?: HSCodeClassification;
+  error?: string;
+}
+
+export interface BatchRunOptions {
+  provider?: ProviderId;
+  jurisdiction?: Jurisdiction;
+  destinationCountry?: string;
+  concurrency?: number;
+  maxRetries?: number;
+  signal?: AbortSignal;
+  onRowUpdate?: (index: number, row: BatchRowState) => void;
+}
+
+const RATE_LIMIT_PATTERN = /\b429\b|rate.?limit|too many requests|quota/i;
+
+function isRateLimitError(error: unknown): boolean {
+  return error instanceof Error && RATE_LIMIT_PATTERN.test(error.message);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+/**
+ * Classifies catalog rows with at most `concurrency` requests in flight. Rate-limited
+ * requests are retried with exponential backoff and jitter; any other error fails the row
+ * without stopping the run. Rows not started before `signal` aborts are marked cancelled.
+ */
+export async function runBatchClassification(items: CatalogItem[], options: BatchRunOptions = {}): Promise<BatchRowState[]> {
+  const concurrency = Math.max(1, options.concurrency ?? 3);
+  const maxRetries = options.maxRetries ?? 4;
+  const rows: BatchRowState[] = items.map(item => ({ item, status: 'pending', attempts: 0 }));
+
+  const update = (index: number, patch: Partial<BatchRowState>) => {
+    rows[index] = { ...rows[index], ...patch };
+    options.onRowUpdate?.(index, rows[index]);
+  };
+
+  const classifyRow = async (index: number) => {
+    const { item } = rows[index];
+
+    for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+      if (options.signal?.aborted) {
+        update(index, { status: 'cancelled' });
+        return;
+      }
+
+      update(index, { status: attempt === 1 ? 'running' : 'retrying', attempts: attempt });
+      try {
+        // Batch rows cannot answer clarifying questions, so the best guess is kept as is
+        const classification = await classifyProduct(item.description, item.customerName, {
+          provider: options.provider,
+          jurisdiction: options.jurisdiction,
+          destinationCountry: options.destinationCountry
+        });
+        update(index, { status: 'done', classification, error: undefined });
+        return;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Classification failed';
+        if (!isRateLimitError(error) || attempt > maxRetries) {
+          update(index, { status: 'failed', error: message });
+          return;
+        }
+        update(index, { status: 'retrying', error: message });
+        await sleep(1000 * 2 ** (attempt - 1) + Math.random() * 500, options.signal);
+      }
+    }
+  };
+
+  let next = 0;
+  const worker = async () => {
+    while (next < rows.length) {
+      const index = next++;
+      await classifyRow(index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, rows.length) }, worker));
+  return rows;
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { guessColumnMapping, mapCatalogItems, parseCSV, readCatalogFile } from './catalog';
+
+describe('parseCSV', () => {
+  it('keeps delimiters, line breaks and escaped quotes inside quoted fields', () => {
+    const text = 'SKU,Description\r\nA-1,"Laptop, 14"" screen"\r\nA-2,"Dock\nwith charger"\r\n';
+
+    expect(parseCSV(text)).toEqual([
+      ['SKU', 'Description'],
+      ['A-1', 'Laptop, 14" screen'],
+      ['A-2', 'Dock\nwith charger']
+    ]);
+  });
+
+  it('uses the separator that dominates the header line and drops blank lines', () => {
+    const text = 'SKU;Description;HS code\nA-1;Router, 4 ports;8517.62\n\n;;\nA-2;Modem;';
+
+    expect(parseCSV(text)).toEqual([
+      ['SKU', 'Description', 'HS code'],
+      ['A-1', 'Router, 4 ports', '8517.62'],
+      ['A-2', 'Modem', '']
+    ]);
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('recognises the usual catalog headers', () => {
+    expect(guessColumnMapping(['Item No', 'Product Description', 'Customer', 'HS Code'])).toEqual({
+      sku: 0,
+      description: 1,
+      customer: 2,
+      knownCode: 3
+    });
+    expect(guessColumnMapping(['Tariff code', 'Consignee', 'Specification'])).toEqual({
+      sku: undefined,
+      description: 2,
+      customer: 1,
+      knownCode: 0
+    });
+  });
+
+  it('falls back to the first column for the description', () => {
+    expect(guessColumnMapping(['Bezeichnung', 'Menge'])).toMatchObject({ description: 0 });
+  });
+});
+
+describe('mapCatalogItems', () => {
+  it('numbers items by spreadsheet row and skips rows without a description', () => {
+    const table = { headers: ['SKU', 'Description'], rows: [['A-1', 'Laptop'], ['A-2', ''], ['A-3', 'Router']] };
+
+    expect(mapCatalogItems(table, { sku: 0, description: 1 })).toEqual([
+      { rowNumber: 2, sku: 'A-1', description: 'Laptop', customerName: undefined, knownHsCode: undefined },
+      { rowNumber: 4, sku: 'A-3', description: 'Router', customerName: undefined, knownHsCode: undefined }
+    ]);
+  });
+});
+
+describe('readCatalogFile', () => {
+  it('pads short rows and names unnamed columns', async () => {
+    const table = await readCatalogFile(new File(['Description,\nLaptop,Acme\nRouter'], 'catalog.csv'));
+
+    expect(table).toEqual({ headers: ['Description', 'Column 2'], rows: [['Laptop', 'Acme'], ['Router', '']] });
+  });
+
+  it('rejects other file types', async () => {
+    await expect(readCatalogFile(new File(['{}'], 'catalog.json')))
+      .rejects.toThrow('Unsupported file type: catalog.json. Upload a CSV or XLSX catalog.');
+  });
+});
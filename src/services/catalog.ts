@@ -0,0 +1,141 @@
+import { read, utils } from 'xlsx';
+
+export interface CatalogTable {
+  headers: string[];
+  rows: string[][];
+}
+
+// Column indexes into CatalogTable.headers; only the description is required
+export interface CatalogColumnMapping {
+  sku?: number;
+  description: number;
+  customer?: number;
+  knownCode?: number;
+}
+
+export interface CatalogItem {
+  rowNumber: number;
+  sku?: string;
+  description: string;
+  customerName?: string;
+  knownHsCode?: string;
+}
+
+const COLUMN_HINTS: Record<keyof CatalogColumnMapping, RegExp> = {
+  sku: /\b(sku|item|part|article|material)\s*(no|number|#|code|id)?\b/i,
+  description: /desc|product|specification|name/i,
+  customer: /customer|client|buyer|consignee|company/i,
+  knownCode: /\b(hs|hts|tariff|cn|commodity)\b.*code|\bhs\b|\bhts\b/i,
+};
+
+// Excel exports CSV with ';' in many locales, so pick whichever separator dominates the header line
+function detectDelimiter(text: string): string {
+  const headerLine = text.split(/\r?\n/, 1)[0];
+  return [',', ';', '\t']
+    .map(delimiter => ({ delimiter, count: headerLine.split(delimiter).length }))
+    .sort((a, b) => b.count - a.count)[0].delimiter;
+}
+
+export function parseCSV(text: string): string[][] {
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+function toTable(rows: string[][]): CatalogTable {
+  if (rows.length === 0) {
+    throw new Error('The catalog file is empty');
+  }
+
+  const [headerRow, ...dataRows] = rows;
+  const width = Math.max(...rows.map(r => r.length));
+  const headers = Array.from({ length: width }, (_, i) => headerRow[i]?.trim() || `Column ${i + 1}`);
+  return {
+    headers,
+    rows: dataRows.map(r => headers.map((_, i) => (r[i] ?? '').toString().trim()))
+  };
+}
+
+// Reads the first worksheet of an XLSX/XLS workbook or a CSV/TSV file; the first row holds the headers
+export async function readCatalogFile(file: File): Promise<CatalogTable> {
+  if (/\.(xlsx|xlsm|xls)$/i.test(file.name)) {
+    const workbook = read(await file.arrayBuffer(), { type: 'array' });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (!sheet) {
+      throw new Error('The workbook has no worksheets');
+    }
+    const rows = utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: '' });
+    return toTable(rows.map(r => r.map(cell => String(cell ?? ''))).filter(r => r.some(cell => cell.trim() !== '')));
+  }
+
+  if (/\.(csv|tsv|txt)$/i.test(file.name)) {
+    return toTable(parseCSV(await file.text()));
+  }
+
+  throw new Error(`Unsupported file type: ${file.name}. Upload a CSV or XLSX catalog.`);
+}
+
+export function guessColumnMapping(headers: string[]): CatalogColumnMapping {
+  const find = (key: keyof CatalogColumnMapping, taken: number[]) => {
+    const index = headers.findIndex((header, i) => !taken.includes(i) && COLUMN_HINTS[key].test(header));
+    return index === -1 ? undefined : index;
+  };
+
+  const knownCode = find('knownCode', []);
+  const sku = find('sku', [knownCode ?? -1]);
+  const customer = find('customer', [knownCode ?? -1, sku ?? -1]);
+  const description = find('description', [knownCode ?? -1, sku ?? -1, customer ?? -1]);
+
+  return { sku, description: description ?? 0, customer, knownCode };
+}
+
+export function mapCatalogItems(table: CatalogTable, mapping: CatalogColumnMapping): CatalogItem[] {
+  const cell = (row: string[], index?: number) => (index === undefined ? undefined : row[index] || undefined);
+
+  return table.rows
+    .map((row, i) => ({
+      // Spreadsheet row numbers: 1-based with the header on row 1
+      rowNumber: i + 2,
+      sku: cell(row, mapping.sku),
+      description: cell(row, mapping.description) || '',
+      customerName: cell(row, mapping.customer),
+      knownHsCode: cell(row, mapping.knownCode)
+    }))
+    .filter(item => item.description);
+}
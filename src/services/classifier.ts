@@ -0,0 +1,139 @@
+import * as llm from './llm';
+import { EmbeddingResult, ProviderId } from './llm';
+import {
+  analyzeCompanyProducts as analyzeDirect,
+  classifyProduct as classifyDirect,
+  ClassificationOptions,
+  CompanyProductAnalysis,
+  HSCodeClassification,
+  LLMRequestOptions,
+} from './openai';
+import {
+  analyzeCompanyProductsViaApi,
+  ApiStatus,
+  classifyProductViaApi,
+  embedTextsViaApi,
+  fetchApiStatus,
+  isApiProxyEnabled,
+} from './api';
+import { ClassificationRecord, DatabaseService, SimilarClassification } from './database';
+import { Precedent } from './precedents';
+import { DEFAULT_JURISDICTION, Jurisdiction } from './tariffs';
+
+/*
+ * Entry point for components: classification runs on the API server when VITE_API_URL is set.
+ * Development builds without it call the provider directly from VITE_ settings; production builds
+ * never read those, so no provider is configured there until the API server is.
+ */
+
+let apiStatus: ApiStatus | null = null;
+
+// Fetches provider and quota details from the API server; a no-op in direct mode
+export async function loadProviderStatus(): Promise<void> {
+  if (isApiProxyEnabled()) {
+    apiStatus = await fetchApiStatus();
+  }
+}
+
+export function getDefaultProviderId(): ProviderId {
+  return isApiProxyEnabled() ? apiStatus?.defaultProvider ?? 'openai' : llm.getDefaultProviderId();
+}
+
+export function isProviderConfigured(id: ProviderId = getDefaultProviderId()): boolean {
+  return isApiProxyEnabled()
+    ? Boolean(apiStatus?.providers.find(provider => provider.id === id)?.configured)
+    : llm.isProviderConfigured(id);
+}
+
+export function getConfiguredProviderIds(): ProviderId[] {
+  return llm.PROVIDER_IDS.filter(id => isProviderConfigured(id));
+}
+
+export function getProviderModel(id: ProviderId): string {
+  return isApiProxyEnabled()
+    ? apiStatus?.providers.find(provider => provider.id === id)?.model ?? ''
+    : llm.getProviderModel(id);
+}
+
+export function getQuotas(): ApiStatus['quotas'] | null {
+  return apiStatus?.quotas ?? null;
+}
+
+// Precedents are guidance only, so a failed lookup classifies without them
+async function findPrecedents(productName: string, jurisdiction: Jurisdiction): Promise<Precedent[]> {
+  try {
+    return await DatabaseService.findSimilarProducts(productName, { jurisdiction });
+  } catch (error) {
+    console.error('Failed to retrieve precedents:', error);
+    return [];
+  }
+}
+
+// Retrieves approved precedents from our own history unless the caller passes them
+export async function classifyProduct(
+  productName: string,
+  customerName?: string,
+  options?: ClassificationOptions
+): Promise<HSCodeClassification> {
+  const precedents = options?.precedents
+    ?? await findPrecedents(productName, options?.jurisdiction ?? DEFAULT_JURISDICTION);
+  const withPrecedents = { ...options, precedents };
+
+  return isApiProxyEnabled()
+    ? classifyProductViaApi(productName, customerName, withPrecedents)
+    : classifyDirect(productName, customerName, withPrecedents);
+}
+
+export function isEmbeddingConfigured(): boolean {
+  return isApiProxyEnabled() ? Boolean(apiStatus?.embeddings.configured) : llm.isEmbeddingConfigured();
+}
+
+// The API accepts at most this many texts per request
+const EMBEDDING_BATCH_SIZE = 100;
+
+async function embedTexts(texts: string[]): Promise<EmbeddingResult> {
+  if (isApiProxyEnabled()) {
+    return embedTextsViaApi(texts);
+  }
+  const provider = llm.getEmbeddingProvider();
+  return { model: provider.model, embeddings: await provider.embed(texts) };
+}
+
+// Embeds the product names of saved classifications for similarity search; a failure only
+// leaves rows for the backfill (npm run backfill:embeddings), so it is logged, not thrown
+export async function indexClassifications(records: Array<Pick<ClassificationRecord, 'id' | 'product_name'>>): Promise<void> {
+  if (!isEmbeddingConfigured()) return;
+
+  try {
+    for (let start = 0; start < records.length; start += EMBEDDING_BATCH_SIZE) {
+      const chunk = records.slice(start, start + EMBEDDING_BATCH_SIZE);
+      const { model, embeddings } = await embedTexts(chunk.map(record => record.product_name));
+      await DatabaseService.saveEmbeddings(chunk.map((record, index) => ({
+        classification_id: record.id,
+        model,
+        embedding: embeddings[index]
+      })));
+    }
+  } catch (error) {
+    console.error('Failed to embed classifications:', error);
+  }
+}
+
+// Past classifications of semantically similar products; none when embeddings are not configured
+export async function findSimilarClassifications(
+  productName: string,
+  options?: { excludeId?: string }
+): Promise<SimilarClassification[]> {
+  if (!isEmbeddingConfigured()) return [];
+
+  const { model, embeddings } = await embedTexts([productName]);
+  return DatabaseService.findSimilarClassifications(embeddings[0], model, options);
+}
+
+export function analyzeCompanyProducts(companyName: string, options?: LLMRequestOptions): Promise<CompanyProductAnalysis> {
+  return isApiProxyEnabled()
+    ? analyzeCompanyProductsViaApi(companyName, options)
+    : analyzeDirect(companyName, options);
+}
+
+export { isApiProxyEnabled };
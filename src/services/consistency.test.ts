@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { buildConsistencyClusters, planPropagation } from './consistency';
+import { ClassificationRecord, DuplicatePair } from './database';
+
+function record(id: string, hsCode: string, fields: Partial<ClassificationRecord> = {}): ClassificationRecord {
+  return {
+    id,
+    hs_code: hsCode,
+    is_dual_use: false,
+    status: 'approved',
+    jurisdiction: 'US_HTS',
+    created_at: `2026-01-01T00:00:0${id.charCodeAt(0) - 97}Z`,
+    ...fields
+  } as ClassificationRecord;
+}
+
+function pair(first: string, second: string): DuplicatePair {
+  return { first_id: first, second_id: second, similarity: 1, matched_on: 'name' };
+}
+
+describe('buildConsistencyClusters', () => {
+  it('groups pairs transitively and keeps only groups that disagree', () => {
+    const records = [
+      record('a', '8471.30.01.00'),
+      record('b', '8471.30.01.00'),
+      record('c', '8471.41.01.50'),
+      record('d', '8504.40.95.10'),
+      record('e', '8504.40.95.10')
+    ];
+    const clusters = buildConsistencyClusters([pair('a', 'b'), pair('b', 'c'), pair('d', 'e')], records);
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].id).toBe('a');
+    expect(clusters[0].records.map(r => r.id)).toEqual(['a', 'b', 'c']);
+    expect(clusters[0].codes).toEqual([{ hsCode: '8471.30.01.00', count: 2 }, { hsCode: '8471.41.01.50', count: 1 }]);
+  });
+
+  it('only compares subheadings across schedules and puts dual-use conflicts first', () => {
+    const records = [
+      record('a', '8471.30.01.00'),
+      record('b', '8471.30.00.00', { jurisdiction: 'EU_CN' }),
+      record('c', '8471.30.01.00'),
+      record('d', '8471.30.01.00', { is_dual_use: true }),
+      record('e', '8471.30.01.00'),
+      record('f', '8471.30.02.00'),
+      record('g', '8471.30.03.00')
+    ];
+    const clusters = buildConsistencyClusters([pair('a', 'b'), pair('c', 'd'), pair('e', 'f'), pair('f', 'g')], records);
+
+    expect(clusters.map(cluster => cluster.id)).toEqual(['c', 'e']);
+    expect(clusters[0]).toMatchObject({ hasDualUseConflict: true, hasCodeConflict: false });
+  });
+});
+
+describe('planPropagation', () => {
+  it('leaves drafts and other schedules to a reviewer', () => {
+    const canonical = record('a', '8471.30.01.00');
+    const records = [
+      canonical,
+      record('b', '8471.41.01.50', { status: 'pending_review' }),
+      record('c', '8471.41.01.50', { status: 'draft' }),
+      record('d', '8471.41.00.00', { jurisdiction: 'EU_CN' }),
+      record('e', '8471.30.01.00')
+    ];
+    const [cluster] = buildConsistencyClusters([pair('a', 'b'), pair('a', 'c'), pair('a', 'd'), pair('a', 'e')], records);
+    const plan = planPropagation(cluster, canonical);
+
+    expect(plan.targets.map(r => r.id)).toEqual(['b']);
+    expect(plan.manual.map(r => r.id)).toEqual(['c', 'd']);
+  });
+});
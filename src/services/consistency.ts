@@ -0,0 +1,155 @@
+import { ClassificationRecord, ClassificationStatus, DatabaseService, DuplicatePair, DuplicateReason } from './database';
+import { normalizeHSCode } from './nomenclature';
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  sku: 'Same SKU',
+  name: 'Near-identical name',
+  meaning: 'Same product by meaning'
+};
+
+// Records that describe the same product but were not classified alike
+export interface ConsistencyCluster {
+  // The lowest record id, stable across reloads
+  id: string;
+  records: ClassificationRecord[];
+  reasons: DuplicateReason[];
+  // Distinct codes, most used first
+  codes: Array<{ hsCode: string; count: number }>;
+  hasCodeConflict: boolean;
+  hasDualUseConflict: boolean;
+}
+
+export interface PropagationPlan {
+  // Same schedule, different code: these take the canonical code
+  targets: ClassificationRecord[];
+  // Another schedule and another subheading: national codes cannot be copied across, so a reviewer
+  // decides; drafts too, since nobody has submitted them for review yet
+  manual: ClassificationRecord[];
+}
+
+// Submitted rows; a consistency fix may re-decide rows that were already approved or overridden
+const PROPAGATION_STATUSES: ClassificationStatus[] = ['pending_review', 'approved', 'rejected', 'overridden'];
+
+export interface PropagationResult {
+  updated: ClassificationRecord[];
+  failed: Array<{ record: ClassificationRecord; error: string }>;
+}
+
+function subheadingOf(hsCode: string): string {
+  return normalizeHSCode(hsCode).slice(0, 7);
+}
+
+// Within one schedule every digit must agree; across schedules only the 6-digit subheading is shared
+function codesConflict(a: ClassificationRecord, b: ClassificationRecord): boolean {
+  return (a.jurisdiction ?? null) === (b.jurisdiction ?? null)
+    ? normalizeHSCode(a.hs_code) !== normalizeHSCode(b.hs_code)
+    : subheadingOf(a.hs_code) !== subheadingOf(b.hs_code);
+}
+
+/**
+ * Groups records linked by duplicate pairs, transitively, and keeps the groups whose codes or
+ * dual-use flags disagree. Dual-use disagreements come first, then larger groups.
+ */
+export function buildConsistencyClusters(pairs: DuplicatePair[], records: ClassificationRecord[]): ConsistencyCluster[] {
+  const byId = new Map(records.map(record => [record.id, record]));
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    const root = parent.get(id) ?? id;
+    if (root === id) return id;
+    const top = find(root);
+    parent.set(id, top);
+    return top;
+  };
+
+  const livePairs = pairs.filter(pair => byId.has(pair.first_id) && byId.has(pair.second_id));
+  for (const pair of livePairs) {
+    const [a, b] = [find(pair.first_id), find(pair.second_id)].sort();
+    if (a !== b) parent.set(b, a);
+  }
+
+  const groups = new Map<string, { records: ClassificationRecord[]; reasons: Set<DuplicateReason> }>();
+  for (const pair of livePairs) {
+    const root = find(pair.first_id);
+    const group = groups.get(root) ?? { records: [], reasons: new Set<DuplicateReason>() };
+    group.reasons.add(pair.matched_on);
+    groups.set(root, group);
+  }
+  for (const record of records) {
+    groups.get(find(record.id))?.records.push(record);
+  }
+
+  const clusters = [...groups.entries()].map(([id, group]): ConsistencyCluster => {
+    const counts = new Map<string, number>();
+    group.records.forEach(record => counts.set(record.hs_code, (counts.get(record.hs_code) ?? 0) + 1));
+
+    return {
+      id,
+      records: [...group.records].sort((a, b) => a.created_at.localeCompare(b.created_at)),
+      reasons: [...group.reasons],
+      codes: [...counts.entries()]
+        .map(([hsCode, count]) => ({ hsCode, count }))
+        .sort((a, b) => b.count - a.count),
+      hasCodeConflict: group.records.some((a, index) => group.records.slice(index + 1).some(b => codesConflict(a, b))),
+      hasDualUseConflict: group.records.some(record => record.is_dual_use) && group.records.some(record => !record.is_dual_use)
+    };
+  });
+
+  return clusters
+    .filter(cluster => cluster.hasCodeConflict || cluster.hasDualUseConflict)
+    .sort((a, b) => Number(b.hasDualUseConflict) - Number(a.hasDualUseConflict) || b.records.length - a.records.length);
+}
+
+export async function loadConsistencyReport(): Promise<ConsistencyCluster[]> {
+  const pairs = await DatabaseService.findDuplicatePairs();
+  const ids = [...new Set(pairs.flatMap(pair => [pair.first_id, pair.second_id]))];
+  const records = ids.length > 0 ? await DatabaseService.getClassificationsByIds(ids) : [];
+  return buildConsistencyClusters(pairs, records);
+}
+
+export function planPropagation(cluster: ConsistencyCluster, canonical: ClassificationRecord): PropagationPlan {
+  const others = cluster.records.filter(record => record.id !== canonical.id && codesConflict(record, canonical));
+  const isTarget = (record: ClassificationRecord) => PROPAGATION_STATUSES.includes(record.status)
+    && (record.jurisdiction ?? null) === (canonical.jurisdiction ?? null);
+
+  return {
+    targets: others.filter(isTarget),
+    manual: others.filter(record => !isTarget(record))
+  };
+}
+
+/**
+ * Overrides each target with the canonical code as a review decision, so the history trigger
+ * records the reviewer and the reason. Rows are updated one at a time; a failure does not stop
+ * the rest and is reported back.
+ */
+export async function propagateCanonicalCode(
+  canonical: ClassificationRecord,
+  targets: ClassificationRecord[],
+  reviewer: string,
+  note?: string
+): Promise<PropagationResult> {
+  const reason = `Consistency check: aligned with ${canonical.hs_code} used for "${canonical.product_name}"`
+    + (note?.trim() ? ` - ${note.trim()}` : '');
+  const result: PropagationResult = { updated: [], failed: [] };
+
+  for (const record of targets) {
+    try {
+      result.updated.push(await DatabaseService.reviewClassification(record.id, {
+        status: 'overridden',
+        reviewer,
+        comment: reason,
+        override: {
+          hs_code: canonical.hs_code,
+          chapter: canonical.chapter,
+          description: canonical.description,
+          jurisdiction: record.jurisdiction,
+          destination_country: record.destination_country
+        }
+      }, PROPAGATION_STATUSES));
+    } catch (error) {
+      result.failed.push({ record, error: error instanceof Error ? error.message : 'Update failed' });
+    }
+  }
+
+  return result;
+}
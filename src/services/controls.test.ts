@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { ControlMatch, findControlEntries, hasDualUseEvidence } from './controls';
+
+const summary = (matches: ControlMatch[]) =>
+  matches.map(match => `${match.regime} ${match.entry} via ${match.matchedPrefix}${match.dualUseListed ? '' : ' (AT)'}`);
+
+describe('findControlEntries', () => {
+  it('correlates national lines through their subheading or heading', () => {
+    expect(summary(findControlEntries('8471.30.01.00'))).toEqual([
+      'EU 4A003 via 847130',
+      'EU 5A002.a via 847130',
+      'US 4A003 via 8471',
+      'US 4A994 via 8471 (AT)',
+      'US 5A002.a via 8471',
+      'US 5A992.c via 8471 (AT)'
+    ]);
+    expect(summary(findControlEntries('8542.32.00'))).toEqual([
+      'EU 3A001.a via 854232',
+      'US 3A001.a via 8542',
+      'US 3A991 via 8542 (AT)'
+    ]);
+  });
+
+  it('finds nothing for uncorrelated or incomplete codes', () => {
+    expect(findControlEntries('8473.30')).toEqual([]);
+    expect(findControlEntries('85')).toEqual([]);
+  });
+
+  it('carries the entry title and parameters', () => {
+    const [match] = findControlEntries('8526.91');
+
+    expect(match).toMatchObject({ regime: 'EU', entry: '7A005' });
+    expect(match.title).toMatch(/GNSS/);
+    expect(match.parameters.length).toBeGreaterThan(0);
+  });
+});
+
+describe('hasDualUseEvidence', () => {
+  it('ignores anti-terrorism-only entries', () => {
+    const matches = findControlEntries('8471.30');
+
+    expect(hasDualUseEvidence(matches)).toBe(true);
+    expect(hasDualUseEvidence(matches.filter(match => !match.dualUseListed))).toBe(false);
+    expect(hasDualUseEvidence([])).toBe(false);
+  });
+});
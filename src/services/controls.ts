@@ -0,0 +1,71 @@
+import {
+  ControlCorrelationTable,
+  ControlListTable,
+  ControlRegime,
+  EU_ANNEX_I,
+  EU_HS6_CORRELATION,
+  US_CCL,
+  US_ECCN_CANDIDATES
+} from '../data/export-control';
+
+// A control list entry that may apply to a classified code; the parameters decide whether it does
+export interface ControlMatch {
+  regime: ControlRegime;
+  entry: string;
+  title: string;
+  parameters: string[];
+  // The HS heading or subheading the correlation was found under
+  matchedPrefix: string;
+  // False for US anti-terrorism-only entries, which are not on the multilateral dual-use lists
+  dualUseListed: boolean;
+}
+
+export const CONTROL_REGIME_LABELS: Record<ControlRegime, string> = {
+  EU: 'EU Annex I (Reg. 2021/821)',
+  US: 'US Commerce Control List'
+};
+
+// x99x entries (3A991, 5A992.c, ...) carry anti-terrorism controls only
+const AT_ONLY_PATTERN = /^\d[A-E]99\d/;
+
+function correlate(
+  digits: string,
+  regime: ControlRegime,
+  correlation: ControlCorrelationTable,
+  entries: ControlListTable
+): ControlMatch[] {
+  // The most specific prefix wins, so a subheading row overrides its heading row
+  const prefix = [6, 4].map(length => digits.slice(0, length)).find(p => correlation[p]);
+  if (!prefix) return [];
+
+  return correlation[prefix]
+    .filter(entry => entries[entry])
+    .map(entry => ({
+      regime,
+      entry,
+      title: entries[entry].title,
+      parameters: entries[entry].parameters,
+      matchedPrefix: prefix,
+      dualUseListed: !AT_ONLY_PATTERN.test(entry)
+    }));
+}
+
+// Looks the code up in the bundled EU and US correlation tables; national digits are ignored
+export function findControlEntries(hsCode: string): ControlMatch[] {
+  const digits = hsCode.replace(/\D/g, '');
+  if (digits.length < 4) return [];
+
+  return [
+    ...correlate(digits, 'EU', EU_HS6_CORRELATION, EU_ANNEX_I),
+    ...correlate(digits, 'US', US_ECCN_CANDIDATES, US_CCL)
+  ];
+}
+
+/**
+ * The dual-use flag follows the correlation evidence: a code is flagged when it correlates with
+ * at least one entry of a multilateral dual-use list. Whether the product actually meets the
+ * entry's parameters is for the compliance review to confirm.
+ */
+export function hasDualUseEvidence(matches: ControlMatch[]): boolean {
+  return matches.some(match => match.dualUseListed);
+}
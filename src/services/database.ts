@@ -1,4 +1,13 @@
 import { createClient } from '@supabase/supabase-js';
+import type { ClarificationAnswer, GRITraceStep, HSCodeCandidate } from './openai';
+import { validateHSCode } from './nomenclature';
+import { Jurisdiction, validateTariffLine } from './tariffs';
+import { ControlMatch, findControlEntries, hasDualUseEvidence } from './controls';
+import { assessDestination, SanctionsRule, SanctionsVerdict } from './sanctions';
+import { getScreeningStatus, PartyMatch, ScreeningResult, ScreeningStatus } from './screening';
+import { CompanyRiskLevel, RiskFactor } from './risk';
+import { MAX_PRECEDENTS, MIN_PRECEDENT_SIMILARITY, Precedent } from './precedents';
+import { getUserName } from './identity';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -9,8 +18,8 @@ if (!supabaseUrl || !supabaseAnonKey) {
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
   auth: {
-    persistSession: false,
-    autoRefreshToken: false,
+    persistSession: true,
+    autoRefreshToken: true,
   },
   global: {
     headers: {
@@ -19,15 +28,84 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
   },
 });
 
+export type ClassificationStatus = 'draft' | 'pending_review' | 'approved' | 'rejected' | 'overridden';
+
+// The AI's answer as first saved; kept unchanged when a reviewer overrides the code
+export interface AISuggestion {
+  hs_code: string;
+  chapter: string;
+  description: string;
+  confidence: number;
+}
+
+export interface ReviewDecision {
+  status: 'approved' | 'rejected' | 'overridden';
+  reviewer: string;
+  comment?: string;
+  override?: {
+    hs_code: string;
+    chapter: string;
+    description: string;
+    // The row's jurisdiction and destination, so the replacement is checked the same way
+    jurisdiction?: Jurisdiction;
+    destination_country?: string | null;
+  };
+}
+
+// Who made a change and why; copied into classification_history by a database trigger
+export interface AuditContext {
+  changedBy?: string;
+  reason?: string;
+}
+
+export interface ClassificationHistoryEntry {
+  id: string;
+  classification_id: string;
+  version: number;
+  action: 'insert' | 'update' | 'delete' | 'restore';
+  changed_by?: string;
+  reason?: string;
+  old_values?: Partial<ClassificationRecord>;
+  new_values: Partial<ClassificationRecord>;
+  changed_at: string;
+}
+
+export type ScreeningSubject = 'customer' | 'company';
+
+export interface PartyScreeningRecord {
+  id: string;
+  subject: ScreeningSubject;
+  screened_name: string;
+  threshold: number;
+  status: ScreeningStatus;
+  matches: PartyMatch[];
+  reviewed_by?: string;
+  reviewed_at?: string;
+  review_comment?: string;
+  created_at: string;
+}
+
 export interface ClassificationRecord {
   id: string;
   product_name: string;
   customer_name?: string;
+  // Unset on rows saved before jurisdictions, whose national digits belong to no schedule
+  jurisdiction?: Jurisdiction;
   hs_code: string;
   chapter: string;
   description: string;
   confidence: number;
   is_dual_use: boolean;
+  control_entries?: ControlMatch[];
+  destination_country?: string | null;
+  // Null when no destination was given
+  sanctions_verdict?: SanctionsVerdict | null;
+  sanctions_rules?: SanctionsRule[];
+  // The screening of customer_name; embedded by the list queries below
+  party_screening_id?: string | null;
+  party_screening?: PartyScreeningRecord | null;
+  // The company analysis run the product was classified from
+  company_id?: string | null;
   reasoning?: string;
   wto_links?: {
     wto: string;
@@ -36,6 +114,23 @@ export interface ClassificationRecord {
     detailed: string;
     search: string;
   };
+  candidates?: HSCodeCandidate[];
+  gri_trace?: GRITraceStep[];
+  clarifications?: ClarificationAnswer[];
+  // Approved classifications of similar products the model was given
+  precedents?: Precedent[];
+  batch_id?: string;
+  sku?: string;
+  known_hs_code?: string;
+  status: ClassificationStatus;
+  ai_suggestion?: AISuggestion;
+  reviewed_by?: string;
+  reviewed_at?: string;
+  review_comment?: string;
+  changed_by?: string;
+  change_reason?: string;
+  deleted_at?: string;
+  deleted_by?: string;
   created_at: string;
   updated_at: string;
 }
@@ -43,11 +138,19 @@ export interface ClassificationRecord {
 export interface ClassificationInsert {
   product_name: string;
   customer_name?: string;
+  jurisdiction?: Jurisdiction;
   hs_code: string;
   chapter: string;
   description: string;
   confidence: number;
   is_dual_use: boolean;
+  control_entries?: ControlMatch[];
+  destination_country?: string | null;
+  // Null when no destination was given
+  sanctions_verdict?: SanctionsVerdict | null;
+  sanctions_rules?: SanctionsRule[];
+  party_screening_id?: string | null;
+  company_id?: string | null;
   reasoning?: string;
   wto_links?: {
     wto: string;
@@ -56,6 +159,209 @@ export interface ClassificationInsert {
     detailed: string;
     search: string;
   };
+  candidates?: HSCodeCandidate[];
+  gri_trace?: GRITraceStep[];
+  clarifications?: ClarificationAnswer[];
+  // Approved classifications of similar products the model was given
+  precedents?: Precedent[];
+  batch_id?: string;
+  sku?: string;
+  known_hs_code?: string;
+  status?: ClassificationStatus;
+}
+
+export interface ClassificationBatch {
+  id: string;
+  file_name: string;
+  row_count: number;
+  failed_count: number;
+  created_at: string;
+}
+
+export type { CompanyRiskLevel };
+
+export interface CompanyProductRecord {
+  id: string;
+  company_id: string;
+  position: number;
+  name: string;
+  category?: string;
+  hs_code: string;
+  confidence: number;
+  is_dual_use: boolean;
+}
+
+// One analysis run; runs of the same company share its name
+export interface CompanyRecord {
+  id: string;
+  name: string;
+  website?: string;
+  industry: string;
+  risk_level: CompanyRiskLevel;
+  // The rule-based score and its contributing factors, as of the run
+  risk_score?: number | null;
+  risk_factors?: RiskFactor[];
+  destination_country?: string | null;
+  party_screening_id?: string | null;
+  party_screening?: PartyScreeningRecord | null;
+  analyzed_by?: string;
+  created_at: string;
+  // Ordered by position
+  products: CompanyProductRecord[];
+}
+
+export interface CompanyInsert {
+  name: string;
+  website?: string;
+  industry: string;
+  risk_level: CompanyRiskLevel;
+  risk_score?: number;
+  risk_factors?: RiskFactor[];
+  destination_country?: string | null;
+  party_screening_id?: string | null;
+  products: Array<Omit<CompanyProductRecord, 'id' | 'company_id' | 'position'>>;
+}
+
+// Matched terms in search highlights are wrapped in these control characters
+export const SEARCH_HIGHLIGHT_START = '\u0002';
+export const SEARCH_HIGHLIGHT_END = '\u0003';
+
+// A classification matching a history search, best matches first
+export interface ClassificationSearchHit extends ClassificationRecord {
+  search_rank: number;
+  product_name_highlight: string;
+  // Matching fragments of the description and reasoning
+  search_snippet: string;
+}
+
+interface SearchRow {
+  id: string;
+  rank: number;
+  product_name_highlight: string;
+  snippet: string;
+  total_count: number;
+}
+
+// A past classification whose product is semantically close to a query, closest first
+export interface SimilarClassification extends ClassificationRecord {
+  // Cosine similarity of the product name embeddings, 0 to 1
+  similarity: number;
+}
+
+// Vectors from one model; vectors of different models are not comparable
+export interface ClassificationEmbedding {
+  classification_id: string;
+  model: string;
+  embedding: number[];
+}
+
+export type DuplicateReason = 'sku' | 'name' | 'meaning';
+
+// Two live classifications that appear to describe the same product
+export interface DuplicatePair {
+  first_id: string;
+  second_id: string;
+  similarity: number;
+  matched_on: DuplicateReason;
+}
+
+const SIMILAR_CLASSIFICATION_LIMIT = 8;
+// Below this cosine similarity neighbours are rarely the same kind of product
+const MIN_SEMANTIC_SIMILARITY = 0.55;
+
+export type ClassificationSortColumn = 'created_at' | 'confidence' | 'product_name';
+
+export type ConfidenceBand = 'high' | 'medium' | 'low';
+
+// The same cut-offs as the confidence bars
+export const CONFIDENCE_BANDS: Record<ConfidenceBand, { label: string; min: number; max: number }> = {
+  high: { label: 'High (95%+)', min: 95, max: 100 },
+  medium: { label: 'Medium (85-94%)', min: 85, max: 94 },
+  low: { label: 'Low (below 85%)', min: 0, max: 84 }
+};
+
+// Filters of the classification history; unset filters do not restrict
+export interface ClassificationFilters {
+  searchTerm?: string;
+  dualUseOnly?: boolean;
+  // Local calendar dates (YYYY-MM-DD), both inclusive
+  createdFrom?: string;
+  createdTo?: string;
+  confidenceBand?: ConfidenceBand;
+  // Two-digit HS chapter
+  chapter?: string;
+  // Part of the customer name
+  customer?: string;
+  status?: ClassificationStatus;
+  jurisdiction?: Jurisdiction;
+}
+
+export interface ClassificationPage<T extends ClassificationRecord = ClassificationRecord> {
+  data: T[];
+  // All rows matching the filters, across pages
+  count: number;
+  // Pass back as `cursor` for the next page; null on the last page
+  nextCursor: string | null;
+}
+
+// Opaque to callers: the last row's sort value and id when listing, an offset when searching
+type PageCursor = { value: string | number; id: string } | { offset: number };
+
+function encodeCursor(cursor: PageCursor): string {
+  return JSON.stringify(cursor);
+}
+
+function decodeCursor(cursor?: string | null): PageCursor | null {
+  if (!cursor) return null;
+  try {
+    return JSON.parse(cursor) as PageCursor;
+  } catch {
+    return null;
+  }
+}
+
+// Values in PostgREST or() filters are quoted so commas, dots and parentheses in them are literal
+function quoteFilterValue(value: string | number): string {
+  return `"${String(value).replace(/[\\"]/g, char => `\\${char}`)}"`;
+}
+
+// The filters as timestamps and bounds; dates are local days, the end date included
+function getFilterRange(filters: ClassificationFilters): {
+  createdFrom?: string;
+  createdBefore?: string;
+  minConfidence?: number;
+  maxConfidence?: number;
+  chapter?: string;
+} {
+  const dayAfter = (date: string) => {
+    const next = new Date(`${date}T00:00:00`);
+    next.setDate(next.getDate() + 1);
+    return next.toISOString();
+  };
+  const band = filters.confidenceBand ? CONFIDENCE_BANDS[filters.confidenceBand] : undefined;
+  const chapter = filters.chapter?.replace(/\D/g, '');
+
+  return {
+    createdFrom: filters.createdFrom ? new Date(`${filters.createdFrom}T00:00:00`).toISOString() : undefined,
+    createdBefore: filters.createdTo ? dayAfter(filters.createdTo) : undefined,
+    minConfidence: band?.min,
+    maxConfidence: band?.max,
+    chapter: chapter && chapter.length === 2 ? chapter : undefined
+  };
+}
+
+// Classification rows with the screening of their customer
+const CLASSIFICATION_COLUMNS = '*, party_screening:party_screenings(*)';
+
+const COMPANY_COLUMNS = '*, products:company_products(*), party_screening:party_screenings(*)';
+
+// Escapes the ilike wildcards so the value matches literally
+function escapeLikePattern(value: string): string {
+  return value.trim().replace(/[\\%_]/g, char => `\\${char}`);
+}
+
+function sortCompanyProducts(company: CompanyRecord): CompanyRecord {
+  return { ...company, products: [...(company.products || [])].sort((a, b) => a.position - b.position) };
 }
 
 export class DatabaseService {
@@ -75,11 +381,64 @@ export class DatabaseService {
     }
   }
 
-  static async saveClassification(classification: ClassificationInsert): Promise<ClassificationRecord> {
+  // Rejects codes missing from the HS 2022 nomenclature and normalises format and chapter label
+  private static validateCode<T extends Partial<ClassificationInsert>>(classification: T, action: string): T {
+    if (classification.hs_code === undefined) {
+      return classification;
+    }
+
+    // Without a jurisdiction only the HS 2022 part of the code can be checked
+    const validation = classification.jurisdiction
+      ? validateTariffLine(classification.hs_code, classification.jurisdiction, classification.chapter)
+      : validateHSCode(classification.hs_code, classification.chapter);
+    if (validation.status === 'invalid') {
+      throw new Error(`Failed to ${action} classification: ${validation.issues.join('; ')}`);
+    }
+
+    // Whoever writes the code, the dual-use flag follows its export-control correlation
+    const control_entries = findControlEntries(validation.hsCode);
+    const sanctions = classification.destination_country
+      ? assessDestination(validation.hsCode, classification.destination_country, control_entries)
+      : null;
+    return {
+      ...classification,
+      hs_code: validation.hsCode,
+      chapter: validation.chapter,
+      control_entries,
+      is_dual_use: hasDualUseEvidence(control_entries),
+      // Left untouched when the write does not say where the goods are going
+      ...(classification.destination_country !== undefined && {
+        sanctions_verdict: sanctions?.verdict ?? null,
+        sanctions_rules: sanctions?.rules ?? []
+      })
+    };
+  }
+
+  // Sent with every write so the history trigger never copies a stale author or reason
+  private static auditFields(audit?: AuditContext) {
+    return {
+      changed_by: audit?.changedBy?.trim() || getUserName() || null,
+      change_reason: audit?.reason?.trim() || null
+    };
+  }
+
+  private static withAISuggestion(classification: ClassificationInsert) {
+    const ai_suggestion: AISuggestion = {
+      hs_code: classification.hs_code,
+      chapter: classification.chapter,
+      description: classification.description,
+      confidence: classification.confidence
+    };
+    return { ...classification, ai_suggestion };
+  }
+
+  static async saveClassification(classification: ClassificationInsert, audit?: AuditContext): Promise<ClassificationRecord> {
+    const validated = { ...this.withAISuggestion(this.validateCode(classification, 'save')), ...this.auditFields(audit) };
+
     return this.retryOperation(async () => {
       const { data, error } = await supabase
         .from('classifications')
-        .insert([classification])
+        .insert([validated])
         .select()
         .single();
 
@@ -92,60 +451,328 @@ export class DatabaseService {
     });
   }
 
-  static async getClassifications(options?: {
-    limit?: number;
-    offset?: number;
-    searchTerm?: string;
-    dualUseOnly?: boolean;
-    sortBy?: 'created_at' | 'confidence' | 'product_name';
-    sortOrder?: 'asc' | 'desc';
-  }): Promise<{ data: ClassificationRecord[]; count: number }> {
+  // Insert many rows in one request; every code is validated before anything is written
+  static async saveClassifications(classifications: ClassificationInsert[], audit?: AuditContext): Promise<ClassificationRecord[]> {
+    if (classifications.length === 0) {
+      return [];
+    }
+
+    const auditFields = this.auditFields(audit);
+    const validated = classifications.map(c => ({ ...this.withAISuggestion(this.validateCode(c, 'save')), ...auditFields }));
+
     return this.retryOperation(async () => {
-      let query = supabase
+      const { data, error } = await supabase
         .from('classifications')
-        .select('*', { count: 'exact' });
-
-    // Apply search filter
-    if (options?.searchTerm) {
-      const searchTerm = options.searchTerm.trim();
-      
-      // Use individual filters to ensure index usage
-      if (searchTerm.match(/^\d{4}(\.\d{2}(\.\d{2})?)?$/)) {
-        // If it looks like an HS code, search HS codes first (uses idx_classifications_hs_code)
-        query = query.ilike('hs_code', `%${searchTerm}%`);
-      } else {
-        // For text searches, use OR condition but structure to use indexes
-        query = query.or(`product_name.ilike.%${searchTerm}%,customer_name.ilike.%${searchTerm}%,hs_code.ilike.%${searchTerm}%`);
+        .insert(validated)
+        .select();
+
+      if (error) {
+        console.error('Database error:', error);
+        throw new Error(`Failed to save classifications: ${error.message}`);
+      }
+
+      return data || [];
+    });
+  }
+
+  // Saves a batch run and its classifications in one transaction, so a failed insert never leaves
+  // an empty run behind
+  static async saveBatch(
+    fileName: string,
+    rowCount: number,
+    failedCount: number,
+    classifications: ClassificationInsert[],
+    audit?: AuditContext
+  ): Promise<{ batch: ClassificationBatch; classifications: ClassificationRecord[] }> {
+    const auditFields = this.auditFields(audit);
+    const validated = classifications.map(c => ({ ...this.withAISuggestion(this.validateCode(c, 'save')), ...auditFields }));
+
+    return this.retryOperation(async () => {
+      const { data, error } = await supabase.rpc('save_classification_batch', {
+        batch_fields: { file_name: fileName, row_count: rowCount, failed_count: failedCount },
+        classification_rows: validated
+      });
+
+      if (error) {
+        console.error('Database error:', error);
+        throw new Error(`Failed to save batch: ${error.message}`);
+      }
+
+      return data as { batch: ClassificationBatch; classifications: ClassificationRecord[] };
+    });
+  }
+
+  static async getBatches(limit = 20): Promise<ClassificationBatch[]> {
+    const { data, error } = await supabase
+      .from('classification_batches')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Database error:', error);
+      throw new Error(`Failed to fetch batches: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  // Saves one analysis run and its products in a single transaction, so a retry never leaves a run
+  // without products behind; earlier runs of the company are kept for comparison
+  static async saveCompanyAnalysis(company: CompanyInsert): Promise<CompanyRecord> {
+    const { products, ...fields } = company;
+
+    const id = await this.retryOperation(async () => {
+      const { data, error } = await supabase.rpc('save_company_analysis', {
+        company: { ...fields, name: fields.name.trim(), analyzed_by: getUserName() || null },
+        products
+      });
+
+      if (error) {
+        console.error('Database error:', error);
+        throw new Error(`Failed to save company analysis: ${error.message}`);
+      }
+
+      return data as string;
+    });
+
+    // Read back separately so a failed read is retried without saving the run twice
+    return this.retryOperation(async () => {
+      const { data, error } = await supabase
+        .from('companies')
+        .select(COMPANY_COLUMNS)
+        .eq('id', id)
+        .single();
+
+      if (error) {
+        console.error('Database error:', error);
+        throw new Error(`Failed to fetch saved company analysis: ${error.message}`);
       }
+
+      return sortCompanyProducts(data);
+    });
+  }
+
+  // The latest run of each recently analysed company - utilizes idx_companies_org_created_at
+  static async getCompanyAnalyses(limit = 20): Promise<CompanyRecord[]> {
+    const { data, error } = await supabase
+      .from('companies')
+      .select(COMPANY_COLUMNS)
+      .order('created_at', { ascending: false })
+      // Over-fetched so companies analysed several times in a row do not crowd out the others
+      .limit(limit * 5);
+
+    if (error) {
+      console.error('Database error:', error);
+      throw new Error(`Failed to fetch company analyses: ${error.message}`);
     }
 
-    // Apply dual-use filter
-    if (options?.dualUseOnly) {
-      // Uses idx_classifications_is_dual_use
-      query = query.eq('is_dual_use', true);
+    const latest = new Map<string, CompanyRecord>();
+    for (const company of data || []) {
+      const key = company.name.trim().toLowerCase();
+      if (!latest.has(key)) latest.set(key, sortCompanyProducts(company));
     }
+    return [...latest.values()].slice(0, limit);
+  }
 
-    // Apply sorting
-    const sortBy = options?.sortBy || 'created_at';
-    const sortOrder = options?.sortOrder || 'desc';
-    query = query.order(sortBy, { ascending: sortOrder === 'asc' });
+  // Every run of one company, newest first
+  static async getCompanyHistory(name: string): Promise<CompanyRecord[]> {
+    const { data, error } = await supabase
+      .from('companies')
+      .select(COMPANY_COLUMNS)
+      .ilike('name', escapeLikePattern(name))
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Database error:', error);
+      throw new Error(`Failed to fetch company history: ${error.message}`);
+    }
+
+    return (data || []).map(sortCompanyProducts);
+  }
+
+  // Classifications whose customer is the company, ignoring case
+  static async getClassificationsForCompany(name: string): Promise<ClassificationRecord[]> {
+    const { data, error } = await supabase
+      .from('classifications')
+      .select(CLASSIFICATION_COLUMNS)
+      .is('deleted_at', null)
+      .ilike('customer_name', escapeLikePattern(name))
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Database error:', error);
+      throw new Error(`Failed to fetch company classifications: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  // Get every classification saved from one batch run - utilizes idx_classifications_batch_id
+  static async getClassificationsByBatch(batchId: string): Promise<ClassificationRecord[]> {
+    const { data, error } = await supabase
+      .from('classifications')
+      .select(CLASSIFICATION_COLUMNS)
+      .is('deleted_at', null)
+      .eq('batch_id', batchId)
+      .order('created_at', { ascending: true });
 
-    // Apply pagination
-    if (options?.limit) {
-      query = query.limit(options.limit);
+    if (error) {
+      console.error('Database error:', error);
+      throw new Error(`Failed to fetch batch classifications: ${error.message}`);
     }
-    if (options?.offset) {
-      query = query.range(options.offset, options.offset + (options.limit || 50) - 1);
+
+    return data || [];
+  }
+
+  // Cursor-paginated history, newest first unless sorted otherwise. The cursor of the last row
+  // is passed back as `cursor` for the next page; searches delegate to searchClassifications.
+  static async getClassifications(options?: ClassificationFilters & {
+    limit?: number;
+    cursor?: string | null;
+    sortBy?: ClassificationSortColumn;
+    sortOrder?: 'asc' | 'desc';
+  }): Promise<ClassificationPage> {
+    // Searches are ranked by relevance, so the sort options do not apply
+    if (options?.searchTerm?.trim()) {
+      return this.searchClassifications({ ...options, searchTerm: options.searchTerm });
     }
 
-      const { data, error, count } = await query;
+    const limit = options?.limit || 50;
+    const sortBy = options?.sortBy || 'created_at';
+    const ascending = options?.sortOrder === 'asc';
+    const after = decodeCursor(options?.cursor);
+
+    // The rows and the total share every filter; only the rows are limited by the cursor
+    const filtered = (countOnly: boolean) => {
+      let query = supabase
+        .from('classifications')
+        .select(CLASSIFICATION_COLUMNS, countOnly ? { count: 'exact', head: true } : undefined)
+        .is('deleted_at', null);
+
+      const range = getFilterRange(options || {});
+      if (options?.dualUseOnly) {
+        // Uses idx_classifications_is_dual_use
+        query = query.eq('is_dual_use', true);
+      }
+      if (range.createdFrom) query = query.gte('created_at', range.createdFrom);
+      if (range.createdBefore) query = query.lt('created_at', range.createdBefore);
+      if (range.minConfidence !== undefined) query = query.gte('confidence', range.minConfidence);
+      if (range.maxConfidence !== undefined) query = query.lte('confidence', range.maxConfidence);
+      if (range.chapter) {
+        // Uses idx_classifications_hs_code_prefix
+        query = query.like('hs_code', `${range.chapter}%`);
+      }
+      if (options?.customer?.trim()) {
+        // Uses idx_classifications_customer_name_trgm
+        query = query.ilike('customer_name', `%${escapeLikePattern(options.customer)}%`);
+      }
+      if (options?.status) query = query.eq('status', options.status);
+      if (options?.jurisdiction) query = query.eq('jurisdiction', options.jurisdiction);
+      return query;
+    };
+
+    return this.retryOperation(async () => {
+      let query = filtered(false);
+
+      // Keyset pagination: rows after the cursor's sort value, with the id breaking ties
+      if (after && 'value' in after) {
+        const operator = ascending ? 'gt' : 'lt';
+        const value = quoteFilterValue(after.value);
+        query = query.or(`${sortBy}.${operator}.${value},and(${sortBy}.eq.${value},id.${operator}.${after.id})`);
+      }
+
+      // One extra row tells whether there is a next page
+      const [{ data, error }, { count, error: countError }] = await Promise.all([
+        query
+          .order(sortBy, { ascending })
+          .order('id', { ascending })
+          .limit(limit + 1),
+        filtered(true)
+      ]);
+
+      const failure = error || countError;
+      if (failure) {
+        console.error('Database error:', failure);
+        throw new Error(`Failed to fetch classifications: ${failure.message}`);
+      }
+
+      const rows: ClassificationRecord[] = data || [];
+      const page = rows.slice(0, limit);
+      const last = page[page.length - 1];
+      return {
+        data: page,
+        count: count || 0,
+        nextCursor: rows.length > limit && last ? encodeCursor({ value: last[sortBy], id: last.id }) : null
+      };
+    });
+  }
+
+  // Ranked full-text, fuzzy name and HS code prefix search - utilizes idx_classifications_search_vector,
+  // the trigram indexes and idx_classifications_hs_code_digits_prefix
+  static async searchClassifications(options: ClassificationFilters & {
+    searchTerm: string;
+    limit?: number;
+    cursor?: string | null;
+  }): Promise<ClassificationPage<ClassificationSearchHit>> {
+    const limit = options.limit || 25;
+    // Relevance is computed per query, so search pages are counted by offset
+    const after = decodeCursor(options.cursor);
+    const offset = after && 'offset' in after ? after.offset : 0;
+    const range = getFilterRange(options);
+
+    return this.retryOperation(async () => {
+      const { data, error } = await supabase.rpc('search_classifications', {
+        search_query: options.searchTerm,
+        dual_use_only: options.dualUseOnly ?? false,
+        created_from: range.createdFrom ?? null,
+        created_before: range.createdBefore ?? null,
+        min_confidence: range.minConfidence ?? null,
+        max_confidence: range.maxConfidence ?? null,
+        chapter_filter: range.chapter ?? null,
+        customer_filter: options.customer?.trim() || null,
+        status_filter: options.status ?? null,
+        jurisdiction_filter: options.jurisdiction ?? null,
+        result_limit: limit,
+        result_offset: offset
+      });
 
       if (error) {
         console.error('Database error:', error);
-        throw new Error(`Failed to fetch classifications: ${error.message}`);
+        throw new Error(`Failed to search classifications: ${error.message}`);
+      }
+
+      const rows: SearchRow[] = data || [];
+      if (rows.length === 0) {
+        return { data: [], count: 0, nextCursor: null };
+      }
+
+      // The function returns ids only; the rows come with their embedded screening as usual
+      const { data: records, error: recordsError } = await supabase
+        .from('classifications')
+        .select(CLASSIFICATION_COLUMNS)
+        .in('id', rows.map(row => row.id));
+
+      if (recordsError) {
+        console.error('Database error:', recordsError);
+        throw new Error(`Failed to fetch classifications: ${recordsError.message}`);
       }
 
-      return { data: data || [], count: count || 0 };
+      const byId = new Map((records || []).map(record => [record.id, record as ClassificationRecord]));
+      const count = Number(rows[0].total_count);
+      return {
+        data: rows.flatMap(row => {
+          const record = byId.get(row.id);
+          return record ? [{
+            ...record,
+            search_rank: row.rank,
+            product_name_highlight: row.product_name_highlight,
+            search_snippet: row.snippet
+          }] : [];
+        }),
+        count,
+        nextCursor: offset + rows.length < count ? encodeCursor({ offset: offset + rows.length }) : null
+      };
     });
   }
 
@@ -168,12 +795,15 @@ export class DatabaseService {
     return data;
   }
 
-  // Update an existing classification
-  static async updateClassification(id: string, updates: Partial<ClassificationInsert>): Promise<ClassificationRecord> {
+  // Update an existing classification; the previous values are kept in classification_history
+  static async updateClassification(id: string, updates: Partial<ClassificationInsert>, audit?: AuditContext): Promise<ClassificationRecord> {
+    const validated = this.validateCode(updates, 'update');
+
     const { data, error } = await supabase
       .from('classifications')
-      .update(updates)
+      .update({ ...validated, ...this.auditFields(audit) })
       .eq('id', id)
+      .is('deleted_at', null)
       .select()
       .single();
 
@@ -185,12 +815,172 @@ export class DatabaseService {
     return data;
   }
 
-  // Delete a classification
-  static async deleteClassification(id: string): Promise<void> {
+  static async submitForReview(id: string): Promise<ClassificationRecord> {
+    const { data, error } = await supabase
+      .from('classifications')
+      .update({ status: 'pending_review', ...this.auditFields({ reason: 'Submitted for review' }) })
+      .eq('id', id)
+      .eq('status', 'draft')
+      .is('deleted_at', null)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Database error:', error);
+      throw new Error(`Failed to submit classification for review: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  // Records the reviewer's decision; an override replaces the code but leaves ai_suggestion untouched.
+  // Only rows awaiting review are decided unless the caller names other statuses it may re-decide
+  static async reviewClassification(
+    id: string,
+    decision: ReviewDecision,
+    fromStatuses: ClassificationStatus[] = ['pending_review']
+  ): Promise<ClassificationRecord> {
+    if (!decision.reviewer.trim()) {
+      throw new Error('Failed to review classification: reviewer is required');
+    }
+    if (decision.status === 'overridden' && !decision.override) {
+      throw new Error('Failed to review classification: an override needs a replacement HS code');
+    }
+
+    const override = decision.status === 'overridden' && decision.override
+      ? this.validateCode(decision.override, 'override')
+      : {};
+
+    const { data, error } = await supabase
+      .from('classifications')
+      .update({
+        ...override,
+        status: decision.status,
+        reviewed_by: decision.reviewer.trim(),
+        reviewed_at: new Date().toISOString(),
+        review_comment: decision.comment?.trim() || null,
+        ...this.auditFields({ changedBy: decision.reviewer, reason: decision.comment || `Review decision: ${decision.status}` })
+      })
+      .eq('id', id)
+      .in('status', fromStatuses)
+      .is('deleted_at', null)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new Error(`Failed to review classification: it is no longer ${fromStatuses.map(status => status.replace('_', ' ')).join(' or ')}`);
+      }
+      console.error('Database error:', error);
+      throw new Error(`Failed to review classification: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  // Pending items with dual-use first, then lowest confidence - utilizes idx_classifications_review_queue
+  static async getReviewQueue(limit = 100): Promise<ClassificationRecord[]> {
+    const { data, error } = await supabase
+      .from('classifications')
+      .select(CLASSIFICATION_COLUMNS)
+      .is('deleted_at', null)
+      .eq('status', 'pending_review')
+      .order('is_dual_use', { ascending: false })
+      .order('confidence', { ascending: true })
+      .order('created_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      console.error('Database error:', error);
+      throw new Error(`Failed to fetch review queue: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  // Recently decided items - utilizes idx_classifications_status
+  static async getReviewedClassifications(limit = 50): Promise<ClassificationRecord[]> {
+    const { data, error } = await supabase
+      .from('classifications')
+      .select(CLASSIFICATION_COLUMNS)
+      .is('deleted_at', null)
+      .in('status', ['approved', 'rejected', 'overridden'])
+      .order('reviewed_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Database error:', error);
+      throw new Error(`Failed to fetch reviewed classifications: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  static async saveScreening(screening: ScreeningResult, subject: ScreeningSubject): Promise<PartyScreeningRecord> {
+    return this.retryOperation(async () => {
+      const { data, error } = await supabase
+        .from('party_screenings')
+        .insert([{
+          subject,
+          screened_name: screening.screenedName,
+          threshold: screening.threshold,
+          status: screening.status,
+          matches: screening.matches
+        }])
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Database error:', error);
+        throw new Error(`Failed to save screening: ${error.message}`);
+      }
+
+      return data;
+    });
+  }
+
+  // Records a decision on every match; the status follows from the decisions
+  static async reviewScreening(id: string, matches: PartyMatch[], reviewer: string, comment?: string): Promise<PartyScreeningRecord> {
+    if (!reviewer.trim()) {
+      throw new Error('Failed to review screening: reviewer is required');
+    }
+    if (matches.some(match => !match.decision)) {
+      throw new Error('Failed to review screening: every match needs a decision');
+    }
+
+    const { data, error } = await supabase
+      .from('party_screenings')
+      .update({
+        matches,
+        status: getScreeningStatus(matches),
+        reviewed_by: reviewer.trim(),
+        reviewed_at: new Date().toISOString(),
+        review_comment: comment?.trim() || null
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Database error:', error);
+      throw new Error(`Failed to review screening: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  // Soft delete: the row is hidden from every list but stays in the table and its history
+  static async deleteClassification(id: string, reason: string, audit?: AuditContext): Promise<void> {
+    if (!reason.trim()) {
+      throw new Error('Failed to delete classification: a reason is required');
+    }
+
+    const fields = this.auditFields({ ...audit, reason });
     const { error } = await supabase
       .from('classifications')
-      .delete()
-      .eq('id', id);
+      .update({ ...fields, deleted_at: new Date().toISOString(), deleted_by: fields.changed_by })
+      .eq('id', id)
+      .is('deleted_at', null);
 
     if (error) {
       console.error('Database error:', error);
@@ -198,6 +988,59 @@ export class DatabaseService {
     }
   }
 
+  static async restoreClassification(id: string, reason: string, audit?: AuditContext): Promise<ClassificationRecord> {
+    if (!reason.trim()) {
+      throw new Error('Failed to restore classification: a reason is required');
+    }
+
+    const { data, error } = await supabase
+      .from('classifications')
+      .update({ ...this.auditFields({ ...audit, reason }), deleted_at: null, deleted_by: null })
+      .eq('id', id)
+      .not('deleted_at', 'is', null)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Database error:', error);
+      throw new Error(`Failed to restore classification: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  static async getDeletedClassifications(limit = 50): Promise<ClassificationRecord[]> {
+    const { data, error } = await supabase
+      .from('classifications')
+      .select(CLASSIFICATION_COLUMNS)
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Database error:', error);
+      throw new Error(`Failed to fetch deleted classifications: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  // Every version of one record, newest first - utilizes idx_classification_history_classification
+  static async getClassificationHistory(id: string): Promise<ClassificationHistoryEntry[]> {
+    const { data, error } = await supabase
+      .from('classification_history')
+      .select('*')
+      .eq('classification_id', id)
+      .order('version', { ascending: false });
+
+    if (error) {
+      console.error('Database error:', error);
+      throw new Error(`Failed to fetch classification history: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
   // Get classification statistics
   static async getStatistics(): Promise<{
     totalClassifications: number;
@@ -208,7 +1051,8 @@ export class DatabaseService {
     // Get total count and dual-use count
     const { data: stats, error: statsError } = await supabase
       .from('classifications')
-      .select('confidence, is_dual_use, chapter');
+      .select('confidence, is_dual_use, chapter')
+      .is('deleted_at', null);
 
     if (statsError) {
       console.error('Database error:', statsError);
@@ -241,22 +1085,139 @@ export class DatabaseService {
     };
   }
 
-  // Search for similar products
-  static async findSimilarProducts(productName: string, limit = 5): Promise<ClassificationRecord[]> {
-    // Use ILIKE for pattern matching which can utilize idx_classifications_product_name
-    const { data, error } = await supabase
-      .from('classifications')
-      .select('*')
-      .ilike('product_name', `%${productName}%`)
-      .limit(limit)
-      .order('created_at', { ascending: false });
+  // Approved classifications of the most similar products, as precedents for a new classification -
+  // utilizes idx_classifications_product_name_trgm
+  static async findSimilarProducts(
+    productName: string,
+    options?: { jurisdiction?: Jurisdiction; limit?: number }
+  ): Promise<Precedent[]> {
+    const { data, error } = await supabase.rpc('match_precedents', {
+      product_query: productName.trim(),
+      jurisdiction_filter: options?.jurisdiction ?? null,
+      match_count: options?.limit || MAX_PRECEDENTS,
+      min_similarity: MIN_PRECEDENT_SIMILARITY
+    });
+
+    if (error) {
+      console.error('Database error:', error);
+      throw new Error(`Failed to find similar products: ${error.message}`);
+    }
+
+    return ((data || []) as Array<{
+      id: string;
+      product_name: string;
+      hs_code: string;
+      description: string;
+      similarity: number;
+      reviewed_by: string | null;
+      reviewed_at: string | null;
+    }>).map(row => ({
+      classificationId: row.id,
+      productName: row.product_name,
+      hsCode: row.hs_code,
+      description: row.description,
+      similarity: row.similarity,
+      reviewedBy: row.reviewed_by ?? undefined,
+      reviewedAt: row.reviewed_at ?? undefined
+    }));
+  }
+
+  // Embeddings are an index over the history: saving them never changes a classification or its audit trail
+  static async saveEmbeddings(embeddings: ClassificationEmbedding[]): Promise<void> {
+    if (embeddings.length === 0) {
+      return;
+    }
+
+    // One embedding per classification; a save with a new model replaces the old vector
+    const { error } = await supabase
+      .from('classification_embeddings')
+      .upsert(
+        embeddings.map(embedding => ({ ...embedding, created_at: new Date().toISOString() })),
+        { onConflict: 'classification_id' }
+      );
+
+    if (error) {
+      console.error('Database error:', error);
+      throw new Error(`Failed to save embeddings: ${error.message}`);
+    }
+  }
+
+  // Nearest past classifications by product name embedding - utilizes idx_classification_embeddings_embedding
+  static async findSimilarClassifications(
+    embedding: number[],
+    model: string,
+    options?: { limit?: number; excludeId?: string }
+  ): Promise<SimilarClassification[]> {
+    const { data, error } = await supabase.rpc('match_classifications', {
+      query_embedding: embedding,
+      embedding_model: model,
+      match_count: options?.limit || SIMILAR_CLASSIFICATION_LIMIT,
+      min_similarity: MIN_SEMANTIC_SIMILARITY,
+      exclude_id: options?.excludeId ?? null
+    });
 
     if (error) {
       console.error('Database error:', error);
+      throw new Error(`Failed to find similar classifications: ${error.message}`);
+    }
+
+    const matches: Array<{ id: string; similarity: number }> = data || [];
+    if (matches.length === 0) {
       return [];
     }
 
-    return data || [];
+    const { data: records, error: recordsError } = await supabase
+      .from('classifications')
+      .select(CLASSIFICATION_COLUMNS)
+      .in('id', matches.map(match => match.id));
+
+    if (recordsError) {
+      console.error('Database error:', recordsError);
+      throw new Error(`Failed to fetch classifications: ${recordsError.message}`);
+    }
+
+    const byId = new Map((records || []).map(record => [record.id, record as ClassificationRecord]));
+    return matches.flatMap(match => {
+      const record = byId.get(match.id);
+      return record ? [{ ...record, similarity: match.similarity }] : [];
+    });
+  }
+
+  // Same SKU, near-identical names or near-identical meaning - utilizes idx_classifications_sku_normalized,
+  // idx_classifications_product_name_trgm and idx_classification_embeddings_embedding
+  static async findDuplicatePairs(): Promise<DuplicatePair[]> {
+    return this.retryOperation(async () => {
+      const { data, error } = await supabase.rpc('find_duplicate_classifications');
+
+      if (error) {
+        console.error('Database error:', error);
+        throw new Error(`Failed to find duplicate classifications: ${error.message}`);
+      }
+
+      return data || [];
+    });
+  }
+
+  // Ids are requested in chunks so the filter stays within URL length limits
+  static async getClassificationsByIds(ids: string[]): Promise<ClassificationRecord[]> {
+    const records: ClassificationRecord[] = [];
+
+    for (let start = 0; start < ids.length; start += 100) {
+      const { data, error } = await supabase
+        .from('classifications')
+        .select(CLASSIFICATION_COLUMNS)
+        .is('deleted_at', null)
+        .in('id', ids.slice(start, start + 100));
+
+      if (error) {
+        console.error('Database error:', error);
+        throw new Error(`Failed to fetch classifications: ${error.message}`);
+      }
+
+      records.push(...(data || []));
+    }
+
+    return records;
   }
 
   // Get classifications by HS code - utilizes idx_classifications_hs_code
@@ -264,6 +1225,7 @@ export class DatabaseService {
     const { data, error } = await supabase
       .from('classifications')
       .select('*')
+      .is('deleted_at', null)
       .eq('hs_code', hsCode) // Uses idx_classifications_hs_code
       .order('created_at', { ascending: false });
 
@@ -280,6 +1242,7 @@ export class DatabaseService {
     const { data, error } = await supabase
       .from('classifications')
       .select('*')
+      .is('deleted_at', null)
       .eq('customer_name', customerName) // Uses idx_classifications_customer_name
       .order('created_at', { ascending: false });
 
@@ -296,6 +1259,7 @@ export class DatabaseService {
     const { data, error } = await supabase
       .from('classifications')
       .select('*')
+      .is('deleted_at', null)
       .eq('is_dual_use', true) // Uses idx_classifications_is_dual_use
       .order('created_at', { ascending: false });
 
@@ -314,7 +1278,8 @@ export class DatabaseService {
     const { data, error } = await supabase
       .from('classifications')
       .select('*')
-      .ilike('product_name', `%${productName}%`) // Uses idx_classifications_product_name
+      .is('deleted_at', null)
+      .ilike('product_name', `%${escapeLikePattern(productName)}%`) // Uses idx_classifications_product_name_trgm
       .limit(limit)
       .order('created_at', { ascending: false });
 
@@ -331,6 +1296,7 @@ export class DatabaseService {
     const { data, error } = await supabase
       .from('classifications')
       .select('*')
+      .is('deleted_at', null)
       .ilike('hs_code', `${hsCodePattern}%`) // Uses idx_classifications_hs_code
       .order('created_at', { ascending: false });
 
@@ -347,6 +1313,7 @@ export class DatabaseService {
     const { data, error } = await supabase
       .from('classifications')
       .select('*')
+      .is('deleted_at', null)
       .ilike('customer_name', `%${customerPattern}%`) // Uses idx_classifications_customer_name
       .order('created_at', { ascending: false });
 
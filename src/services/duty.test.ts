@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { calculateLandedCost, getDutyRates, IMPORT_TAX_RULES, parseAdValorem } from './duty';
+
+describe('parseAdValorem', () => {
+  it('reads free and percentage rates as printed in the schedules', () => {
+    expect(parseAdValorem('Free')).toBe(0);
+    expect(parseAdValorem('0 %')).toBe(0);
+    expect(parseAdValorem('2.6%')).toBe(2.6);
+  });
+
+  it('leaves specific and compound rates for a manual rate', () => {
+    expect(parseAdValorem('3.9¢/kg')).toBeNull();
+    expect(parseAdValorem('2.5% + 1.1¢/kg')).toBeNull();
+  });
+});
+
+describe('getDutyRates', () => {
+  it('looks the line up however it is punctuated', () => {
+    expect(getDutyRates('8517.13.00', 'IN_ITC_HS')).toEqual([{ programme: 'MFN', rate: '15%', adValorem: 15 }]);
+    expect(getDutyRates('8471.41.01.50', 'US_HTS')).toEqual([]);
+  });
+});
+
+describe('calculateLandedCost', () => {
+  it('assesses duty on the goods value alone for FOB valuation', () => {
+    const cost = calculateLandedCost(
+      { goodsValue: 1000, freight: 100, insurance: 10, dutyRate: 2.5, vatRate: 0 },
+      IMPORT_TAX_RULES.US_HTS
+    );
+
+    expect(cost).toEqual({ customsValue: 1000, duty: 25, surcharge: 0, vatBase: 1025, vat: 0, landedCost: 1135 });
+  });
+
+  it('adds the duty surcharge to the VAT base for CIF valuation', () => {
+    const cost = calculateLandedCost(
+      { goodsValue: 1000, freight: 100, insurance: 0, dutyRate: 15, vatRate: 18 },
+      IMPORT_TAX_RULES.IN_ITC_HS
+    );
+
+    expect(cost.customsValue).toBe(1100);
+    expect(cost.duty).toBeCloseTo(165);
+    expect(cost.surcharge).toBeCloseTo(16.5);
+    expect(cost.vatBase).toBeCloseTo(1281.5);
+    expect(cost.vat).toBeCloseTo(230.67);
+    expect(cost.landedCost).toBeCloseTo(1512.17);
+  });
+});
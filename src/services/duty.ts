@@ -0,0 +1,114 @@
+import { Jurisdiction, JURISDICTION_INFO } from './tariffs';
+
+export interface ImportTaxRules {
+  currency: string;
+  // Schedule column the imported MFN rate is taken from
+  dutyLabel: string;
+  // FOB: duty is assessed on the goods value alone; CIF: on goods plus freight and insurance
+  valuationBasis: 'FOB' | 'CIF';
+  // Omitted where no VAT or GST is collected at import
+  vatLabel?: string;
+  vatRate: number;
+  // Levied as a percentage of the duty, not of the customs value
+  dutySurcharge?: { label: string; rate: number };
+  note?: string;
+}
+
+// CN and TARIC share the Union's customs valuation and import VAT
+const EU_RULES: ImportTaxRules = {
+  currency: 'EUR',
+  dutyLabel: 'Third-country duty',
+  valuationBasis: 'CIF',
+  vatLabel: 'Import VAT',
+  vatRate: 19,
+  note: 'Import VAT defaults to the German standard rate; set the rate of the member state of import.'
+};
+
+export const IMPORT_TAX_RULES: Record<Jurisdiction, ImportTaxRules> = {
+  US_HTS: {
+    currency: 'USD',
+    dutyLabel: 'General (column 1) duty',
+    valuationBasis: 'FOB',
+    vatRate: 0,
+    note: 'No VAT is collected at import; merchandise processing and harbor maintenance fees are not included.'
+  },
+  EU_CN: EU_RULES,
+  EU_TARIC: EU_RULES,
+  IN_ITC_HS: {
+    currency: 'INR',
+    dutyLabel: 'Basic customs duty',
+    valuationBasis: 'CIF',
+    vatLabel: 'IGST',
+    vatRate: 18,
+    dutySurcharge: { label: 'Social Welfare Surcharge', rate: 10 }
+  }
+};
+
+export const MFN_PROGRAMME = 'MFN';
+
+export interface DutyRate {
+  programme: string;
+  // As printed in the schedule
+  rate: string;
+  // Percentage of the customs value; null for specific and compound rates, which need a manual rate
+  adValorem: number | null;
+}
+
+export interface LandedCostInput {
+  goodsValue: number;
+  freight: number;
+  insurance: number;
+  // Percentages
+  dutyRate: number;
+  vatRate: number;
+}
+
+export interface LandedCostBreakdown {
+  customsValue: number;
+  duty: number;
+  surcharge: number;
+  vatBase: number;
+  vat: number;
+  landedCost: number;
+}
+
+export function parseAdValorem(rate: string): number | null {
+  if (/^\s*free\s*$/i.test(rate)) return 0;
+  const match = rate.match(/^\s*(\d+(?:\.\d+)?)\s*%\s*$/);
+  return match ? Number(match[1]) : null;
+}
+
+// MFN first, then every preferential programme the schedule lists for the line
+export function getDutyRates(code: string, jurisdiction: Jurisdiction): DutyRate[] {
+  const rates = JURISDICTION_INFO[jurisdiction].schedule.rates[code.replace(/\D/g, '')];
+  if (!rates) return [];
+
+  return [
+    [MFN_PROGRAMME, rates.mfn] as const,
+    ...Object.entries(rates.preferential ?? {})
+  ].map(([programme, rate]) => ({ programme, rate, adValorem: parseAdValorem(rate) }));
+}
+
+/**
+ * Estimates the cost of the goods delivered duty paid. Duty is assessed on the customs value
+ * for the jurisdiction's valuation basis; VAT or GST is assessed on the customs value plus duty
+ * and any duty surcharge. Freight and insurance are always part of the landed cost.
+ */
+export function calculateLandedCost(input: LandedCostInput, rules: ImportTaxRules): LandedCostBreakdown {
+  const customsValue = rules.valuationBasis === 'CIF'
+    ? input.goodsValue + input.freight + input.insurance
+    : input.goodsValue;
+  const duty = customsValue * input.dutyRate / 100;
+  const surcharge = rules.dutySurcharge ? duty * rules.dutySurcharge.rate / 100 : 0;
+  const vatBase = customsValue + duty + surcharge;
+  const vat = vatBase * input.vatRate / 100;
+
+  return {
+    customsValue,
+    duty,
+    surcharge,
+    vatBase,
+    vat,
+    landedCost: input.goodsValue + input.freight + input.insurance + duty + surcharge + vat
+  };
+}
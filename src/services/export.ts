@@ -0,0 +1,21 @@
+export type CSVCell = string | number | boolean | null | undefined;
+
+function escapeCell(cell: CSVCell): string {
+  return `"${String(cell ?? '').replace(/"/g, '""')}"`;
+}
+
+export function toCSV(headers: string[], rows: CSVCell[][]): string {
+  return [headers, ...rows]
+    .map(row => row.map(escapeCell).join(','))
+    .join('\n');
+}
+
+export function downloadCSV(fileName: string, headers: string[], rows: CSVCell[][]): void {
+  const blob = new Blob([toCSV(headers, rows)], { type: 'text/csv' });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  window.URL.revokeObjectURL(url);
+}
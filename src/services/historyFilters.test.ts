@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { hasActiveFilters, HistoryView, readHistoryView, writeHistoryView } from './historyFilters';
+
+describe('readHistoryView', () => {
+  it('reads every filter from its parameter', () => {
+    const search = '?q=laptop&dual_use=1&from=2024-01-01&to=2024-03-31&confidence=high&chapter=84'
+      + '&customer=Acme&status=approved&jurisdiction=EU_CN&sort=confidence';
+
+    expect(readHistoryView(search)).toEqual({
+      searchTerm: 'laptop',
+      dualUseOnly: true,
+      createdFrom: '2024-01-01',
+      createdTo: '2024-03-31',
+      confidenceBand: 'high',
+      chapter: '84',
+      customer: 'Acme',
+      status: 'approved',
+      jurisdiction: 'EU_CN',
+      sort: 'confidence'
+    });
+  });
+
+  it('ignores values that are not valid for their filter', () => {
+    const view = readHistoryView('?dual_use=yes&from=2024-13-45&to=yesterday&confidence=max&chapter=8471'
+      + '&status=done&jurisdiction=UK&sort=price');
+
+    expect(view).toEqual(readHistoryView(''));
+    expect(view.sort).toBe('date');
+    expect(hasActiveFilters(view)).toBe(false);
+  });
+});
+
+describe('writeHistoryView', () => {
+  it('keeps unrelated parameters and drops cleared filters', () => {
+    const view: HistoryView = { ...readHistoryView('?q=laptop&chapter=84'), searchTerm: '  ', status: 'pending_review' };
+
+    expect(writeHistoryView(view, 'tab=history&q=laptop&chapter=84')).toBe('tab=history&chapter=84&status=pending_review');
+  });
+
+  it('leaves the default sort out of the URL', () => {
+    expect(writeHistoryView({ sort: 'date' }, 'sort=product')).toBe('');
+    expect(writeHistoryView({ sort: 'product' }, '')).toBe('sort=product');
+  });
+
+  it('round-trips a view through the query string', () => {
+    const view: HistoryView = {
+      searchTerm: 'pump',
+      dualUseOnly: true,
+      createdFrom: '2024-02-01',
+      confidenceBand: 'low',
+      customer: 'Acme GmbH',
+      jurisdiction: 'US_HTS',
+      sort: 'product'
+    };
+
+    expect(readHistoryView(writeHistoryView(view, ''))).toMatchObject(view);
+    expect(hasActiveFilters(view)).toBe(true);
+  });
+});
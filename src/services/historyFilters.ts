@@ -0,0 +1,95 @@
+import { ClassificationFilters, ClassificationStatus, CONFIDENCE_BANDS, ConfidenceBand } from './database';
+import { Jurisdiction, JURISDICTIONS } from './tariffs';
+
+export type HistorySort = 'date' | 'confidence' | 'product';
+
+// What the history shows; kept in the URL so a filtered view can be bookmarked and shared
+export interface HistoryView extends ClassificationFilters {
+  sort: HistorySort;
+}
+
+export const REVIEW_STATUS_OPTIONS: Array<{ value: ClassificationStatus; label: string }> = [
+  { value: 'draft', label: 'Draft' },
+  { value: 'pending_review', label: 'Pending Review' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'rejected', label: 'Rejected' },
+  { value: 'overridden', label: 'Overridden' }
+];
+
+const SORTS: HistorySort[] = ['date', 'confidence', 'product'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Query parameter of each filter
+const PARAMS = {
+  searchTerm: 'q',
+  dualUseOnly: 'dual_use',
+  createdFrom: 'from',
+  createdTo: 'to',
+  confidenceBand: 'confidence',
+  chapter: 'chapter',
+  customer: 'customer',
+  status: 'status',
+  jurisdiction: 'jurisdiction',
+  sort: 'sort'
+} as const;
+
+function oneOf<T extends string>(value: string | null, allowed: readonly T[]): T | undefined {
+  return allowed.find(option => option === value);
+}
+
+function isDate(value: string | null): value is string {
+  return !!value && DATE_PATTERN.test(value) && !Number.isNaN(new Date(`${value}T00:00:00`).getTime());
+}
+
+// Parameters that are missing or not valid values are ignored rather than reported
+export function readHistoryView(search: string): HistoryView {
+  const params = new URLSearchParams(search);
+  const createdFrom = params.get(PARAMS.createdFrom);
+  const createdTo = params.get(PARAMS.createdTo);
+  const chapter = params.get(PARAMS.chapter);
+
+  return {
+    searchTerm: params.get(PARAMS.searchTerm) || undefined,
+    dualUseOnly: params.get(PARAMS.dualUseOnly) === '1' || undefined,
+    createdFrom: isDate(createdFrom) ? createdFrom : undefined,
+    createdTo: isDate(createdTo) ? createdTo : undefined,
+    confidenceBand: oneOf(params.get(PARAMS.confidenceBand), Object.keys(CONFIDENCE_BANDS) as ConfidenceBand[]),
+    chapter: chapter && /^\d{2}$/.test(chapter) ? chapter : undefined,
+    customer: params.get(PARAMS.customer) || undefined,
+    status: oneOf(params.get(PARAMS.status), REVIEW_STATUS_OPTIONS.map(option => option.value)),
+    jurisdiction: oneOf<Jurisdiction>(params.get(PARAMS.jurisdiction), JURISDICTIONS),
+    sort: oneOf(params.get(PARAMS.sort), SORTS) ?? 'date'
+  };
+}
+
+// The query string with the view's parameters replaced; other parameters are kept
+export function writeHistoryView(view: HistoryView, search: string): string {
+  const params = new URLSearchParams(search);
+  const values: Record<keyof typeof PARAMS, string | undefined> = {
+    searchTerm: view.searchTerm?.trim(),
+    dualUseOnly: view.dualUseOnly ? '1' : undefined,
+    createdFrom: view.createdFrom,
+    createdTo: view.createdTo,
+    confidenceBand: view.confidenceBand,
+    chapter: view.chapter,
+    customer: view.customer?.trim(),
+    status: view.status,
+    jurisdiction: view.jurisdiction,
+    // Date is the default order
+    sort: view.sort === 'date' ? undefined : view.sort
+  };
+
+  for (const [key, param] of Object.entries(PARAMS) as Array<[keyof typeof PARAMS, string]>) {
+    const value = values[key];
+    if (value) {
+      params.set(param, value);
+    } else {
+      params.delete(param);
+    }
+  }
+  return params.toString();
+}
+
+export function hasActiveFilters(view: HistoryView): boolean {
+  return Object.entries(view).some(([key, value]) => key !== 'sort' && !!value);
+}
@@ -0,0 +1,10 @@
+// The signed-in user's email, kept here so database writes can name their author without importing auth
+let currentUserName = '';
+
+export function getUserName(): string {
+  return currentUserName;
+}
+
+export function setUserName(name: string): void {
+  currentUserName = name.trim();
+}
@@ -0,0 +1,52 @@
+import { AnthropicProviderConfig, LLMProvider } from './types';
+
+const ANTHROPIC_API_VERSION = '2023-06-01';
+
+interface AnthropicMessageResponse {
+  content?: Array<{ type: string; text?: string }>;
+}
+
+export function createAnthropicProvider(config: AnthropicProviderConfig): LLMProvider {
+  const baseURL = (config.baseURL || 'https://api.anthropic.com').replace(/\/$/, '');
+
+  return {
+    id: 'anthropic',
+    label: 'Anthropic',
+    model: config.model,
+    async complete(request) {
+      // The Messages API takes the system prompt separately from the conversation
+      const system = request.messages
+        .filter(message => message.role === 'system')
+        .map(message => message.content)
+        .join('\n\n');
+      const messages = request.messages.filter(message => message.role !== 'system');
+
+      const response = await fetch(`${baseURL}/v1/messages`, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'x-api-key': config.apiKey,
+          'anthropic-version': ANTHROPIC_API_VERSION,
+          'anthropic-dangerous-direct-browser-access': 'true',
+        },
+        body: JSON.stringify({
+          model: config.model,
+          system: system || undefined,
+          messages,
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Anthropic API error ${response.status}: ${await response.text()}`);
+      }
+
+      const data: AnthropicMessageResponse = await response.json();
+      return (data.content || [])
+        .filter(block => block.type === 'text')
+        .map(block => block.text || '')
+        .join('');
+    },
+  };
+}
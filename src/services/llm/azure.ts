@@ -0,0 +1,21 @@
+import { AzureOpenAI } from 'openai';
+import { completeChat } from './openai';
+import { AzureOpenAIProviderConfig, LLMProvider } from './types';
+
+export function createAzureOpenAIProvider(config: AzureOpenAIProviderConfig): LLMProvider {
+  const client = new AzureOpenAI({
+    endpoint: config.endpoint,
+    apiKey: config.apiKey,
+    deployment: config.deployment,
+    apiVersion: config.apiVersion,
+    dangerouslyAllowBrowser: true
+  });
+
+  return {
+    id: 'azure',
+    label: 'Azure OpenAI',
+    // Azure routes by deployment name rather than model name
+    model: config.deployment,
+    complete: (request) => completeChat(client, config.deployment, request),
+  };
+}
@@ -0,0 +1,81 @@
+import OpenAI from 'openai';
+import { LLMEnvironment } from './registry';
+import { EmbeddingProvider, EmbeddingProviderId } from './types';
+
+// Width of the stored vectors; every embedding model must produce, or be asked for, this size
+export const EMBEDDING_DIMENSIONS = 768;
+
+export const EMBEDDING_PROVIDER_IDS: EmbeddingProviderId[] = ['openai', 'local'];
+
+export interface EmbeddingRegistry {
+  isEmbeddingConfigured(): boolean;
+  getEmbeddingModel(): string;
+  getEmbeddingProvider(): EmbeddingProvider;
+}
+
+function isEmbeddingProviderId(value: unknown): value is EmbeddingProviderId {
+  return typeof value === 'string' && EMBEDDING_PROVIDER_IDS.includes(value as EmbeddingProviderId);
+}
+
+async function createEmbeddings(client: OpenAI, model: string, texts: string[], dimensions?: number): Promise<number[][]> {
+  const response = await client.embeddings.create({
+    model,
+    input: texts,
+    ...(dimensions && { dimensions }),
+  });
+
+  const vectors = [...response.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+  const mismatched = vectors.find(vector => vector.length !== EMBEDDING_DIMENSIONS);
+  if (mismatched) {
+    throw new Error(`${model} returned ${mismatched.length}-dimensional embeddings; ${EMBEDDING_DIMENSIONS} are required`);
+  }
+  return vectors;
+}
+
+export function createEmbeddingRegistry(source: LLMEnvironment, prefix = ''): EmbeddingRegistry {
+  const env = (name: string) => source[`${prefix}${name}`];
+
+  // Chosen with EMBEDDING_PROVIDER; a local server keeps product names on premises
+  const getProviderId = (): EmbeddingProviderId => {
+    const configured = env('EMBEDDING_PROVIDER');
+    return isEmbeddingProviderId(configured) ? configured : 'openai';
+  };
+
+  const getLocalBaseURL = () => env('LOCAL_EMBEDDING_BASE_URL') || env('LOCAL_LLM_BASE_URL');
+
+  const isEmbeddingConfigured = (): boolean =>
+    getProviderId() === 'openai' ? Boolean(env('OPENAI_API_KEY')) : Boolean(getLocalBaseURL());
+
+  const getEmbeddingModel = (): string =>
+    env('EMBEDDING_MODEL') || (getProviderId() === 'openai' ? 'text-embedding-3-small' : 'nomic-embed-text');
+
+  const createProvider = (): EmbeddingProvider => {
+    const model = getEmbeddingModel();
+
+    if (getProviderId() === 'openai') {
+      const client = new OpenAI({ apiKey: env('OPENAI_API_KEY')!, dangerouslyAllowBrowser: true });
+      // The text-embedding-3 models shorten their vectors on request
+      return { id: 'openai', model, embed: (texts) => createEmbeddings(client, model, texts, EMBEDDING_DIMENSIONS) };
+    }
+
+    // Any OpenAI-compatible embeddings endpoint (Ollama, llama.cpp, vLLM)
+    const client = new OpenAI({
+      baseURL: getLocalBaseURL(),
+      apiKey: env('LOCAL_LLM_API_KEY') || 'local',
+      dangerouslyAllowBrowser: true
+    });
+    return { id: 'local', model, embed: (texts) => createEmbeddings(client, model, texts) };
+  };
+
+  let provider: EmbeddingProvider | null = null;
+
+  const getEmbeddingProvider = (): EmbeddingProvider => {
+    if (!isEmbeddingConfigured()) {
+      throw new Error('Embedding provider is not configured');
+    }
+    provider ??= createProvider();
+    return provider;
+  };
+
+  return { isEmbeddingConfigured, getEmbeddingModel, getEmbeddingProvider };
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { createScriptedProvider, DEFAULT_SCRIPT, parseScript } from './fake';
+
+const prompt = (content: string) => ({ messages: [{ role: 'user' as const, content }], maxTokens: 100, temperature: 0 });
+
+describe('parseScript', () => {
+  it('reads "default" and JSON arrays of steps', () => {
+    expect(parseScript(' default ')).toBe(DEFAULT_SCRIPT);
+    expect(parseScript('[{"error":"down","times":2},{"response":"{}"}]')).toEqual([{ error: 'down', times: 2 }, { response: '{}' }]);
+  });
+
+  it('rejects anything else', () => {
+    expect(() => parseScript('[{"response":')).toThrow('LLM_FAKE_SCRIPT must be "default" or a JSON array of steps');
+    expect(() => parseScript('{"response":"{}"}')).toThrow('Every LLM_FAKE_SCRIPT step needs a response or an error');
+    expect(() => parseScript('[{"match":"laptop"}]')).toThrow('Every LLM_FAKE_SCRIPT step needs a response or an error');
+  });
+});
+
+describe('createScriptedProvider', () => {
+  it('fails once no step is left for the prompt', async () => {
+    const llm = createScriptedProvider([{ match: 'laptop', response: 'first', times: 1 }]);
+
+    await expect(llm.complete(prompt('a laptop'))).resolves.toBe('first');
+    await expect(llm.complete(prompt('a laptop'))).rejects.toThrow('The scripted provider has no step for this prompt');
+    await expect(createScriptedProvider([]).complete(prompt('anything'))).rejects.toThrow(/no step/);
+  });
+});
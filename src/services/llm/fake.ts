@@ -0,0 +1,99 @@
+import { LLMProvider, ScriptStep } from './types';
+
+const CHAPTER_84 = '84 - Nuclear reactors, boilers, machinery and mechanical appliances; parts thereof';
+
+function classificationResponse(hsCode: string): string {
+  return JSON.stringify({
+    candidates: [
+      {
+        hsCode,
+        chapter: CHAPTER_84,
+        description: 'Portable automatic data processing machines, weighing not more than 10 kg',
+        confidence: 88,
+        reasoning: 'Scripted answer: a portable computer with its own CPU, keyboard and display',
+        distinguishingFact: 'Weight of not more than 10 kg'
+      },
+      {
+        hsCode: '8473.30',
+        chapter: CHAPTER_84,
+        description: 'Parts and accessories of the machines of heading 8471',
+        confidence: 12,
+        reasoning: 'Scripted answer: applies if the goods are parts rather than a complete machine'
+      }
+    ],
+    reasoning: 'Scripted answer from the fake provider; no model was called.',
+    griTrace: [
+      { level: 'section', code: 'XVI', rule: '1', decision: 'Machinery and electrical equipment', citedNotes: [], alternativesConsidered: [] },
+      { level: 'chapter', code: '84', rule: '1', decision: 'Automatic data processing machines', citedNotes: ['Chapter 84 Note 5(A)'], alternativesConsidered: [] },
+      { level: 'heading', code: '8471', rule: '1', decision: 'Complete ADP machine', citedNotes: [], alternativesConsidered: ['8473 - parts only'] },
+      { level: 'subheading', code: '8471.30', rule: '6', decision: 'Portable, not more than 10 kg', citedNotes: [], alternativesConsidered: [] }
+    ],
+    clarifyingQuestions: []
+  });
+}
+
+/**
+ * Answers every prompt the app sends with a plausible, valid response: a portable computer for
+ * classifications (India's schedule splits the subheading, so it gets its own line) and three
+ * product lines for company analyses.
+ */
+export const DEFAULT_SCRIPT: ScriptStep[] = [
+  {
+    match: 'Analyze the company',
+    response: JSON.stringify({
+      industry: 'Consumer electronics (scripted)',
+      products: [
+        { name: 'Laptop computers', category: 'Computers', hsCode: '8471.30', confidence: 90 },
+        { name: 'Smartphones', category: 'Telecommunications', hsCode: '8517.13', confidence: 88 },
+        { name: 'Lithium-ion batteries', category: 'Electrical components', hsCode: '8507.60', confidence: 80 }
+      ]
+    })
+  },
+  { match: 'Import jurisdiction: India', response: classificationResponse('8471.30.20') },
+  { response: classificationResponse('8471.30') }
+];
+
+// LLM_FAKE_SCRIPT is either "default" or a JSON array of steps
+export function parseScript(value: string): ScriptStep[] {
+  if (value.trim() === 'default') {
+    return DEFAULT_SCRIPT;
+  }
+
+  let steps: unknown;
+  try {
+    steps = JSON.parse(value);
+  } catch {
+    throw new Error('LLM_FAKE_SCRIPT must be "default" or a JSON array of steps');
+  }
+  if (!Array.isArray(steps) || steps.some(step => !step || typeof step !== 'object'
+    || (typeof step.response !== 'string' && typeof step.error !== 'string'))) {
+    throw new Error('Every LLM_FAKE_SCRIPT step needs a response or an error');
+  }
+  return steps as ScriptStep[];
+}
+
+// Deterministic stand-in for a model: answers from the script, no network
+export function createScriptedProvider(script: ScriptStep[]): LLMProvider {
+  const uses = new Map<ScriptStep, number>();
+
+  return {
+    id: 'fake',
+    label: 'Scripted Fake',
+    model: 'scripted',
+    async complete(request) {
+      const prompt = request.messages.map(message => message.content).join('\n');
+      const step = script.find(candidate => (!candidate.match || prompt.includes(candidate.match))
+        && (candidate.times === undefined || (uses.get(candidate) ?? 0) < candidate.times));
+
+      if (!step) {
+        throw new Error('The scripted provider has no step for this prompt');
+      }
+      uses.set(step, (uses.get(step) ?? 0) + 1);
+
+      if (step.error !== undefined) {
+        throw new Error(step.error);
+      }
+      return step.response ?? '';
+    },
+  };
+}
@@ -0,0 +1,40 @@
+import { createEmbeddingRegistry } from './embeddings';
+import { createProviderRegistry, LLMEnvironment } from './registry';
+
+export type {
+  ChatMessage,
+  CompletionRequest,
+  EmbeddingProvider,
+  EmbeddingProviderId,
+  EmbeddingResult,
+  FixtureStore,
+  LLMProvider,
+  ProviderId,
+  RecordedExchange,
+  ScriptStep,
+} from './types';
+export type { LLMEnvironment, ProviderRegistry } from './registry';
+export type { EmbeddingRegistry } from './embeddings';
+export { createProviderRegistry, isProviderId, PROVIDER_IDS, PROVIDER_LABELS } from './registry';
+export { createEmbeddingRegistry, EMBEDDING_DIMENSIONS } from './embeddings';
+export { createHttpFixtureStore, createReplayProvider, hashPrompt } from './replay';
+export { createScriptedProvider, DEFAULT_SCRIPT, parseScript } from './fake';
+
+// Browser registry built from VITE_ variables in development builds only: production bundles carry no
+// provider keys and classify through the API server. import.meta.env is absent when the API server imports this module.
+const browserEnvironment: LLMEnvironment = import.meta.env?.DEV ? import.meta.env : {};
+const browserRegistry = createProviderRegistry(browserEnvironment, 'VITE_');
+
+export const {
+  getDefaultProviderId,
+  isProviderConfigured,
+  getConfiguredProviderIds,
+  getProviderModel,
+  getProvider,
+} = browserRegistry;
+
+export const {
+  isEmbeddingConfigured,
+  getEmbeddingModel,
+  getEmbeddingProvider,
+} = createEmbeddingRegistry(browserEnvironment, 'VITE_');
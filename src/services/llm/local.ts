@@ -0,0 +1,20 @@
+import OpenAI from 'openai';
+import { completeChat } from './openai';
+import { LLMProvider, LocalProviderConfig } from './types';
+
+// Any self-hosted server exposing an OpenAI-compatible API (Ollama, llama.cpp, vLLM, LM Studio)
+export function createLocalProvider(config: LocalProviderConfig): LLMProvider {
+  const client = new OpenAI({
+    baseURL: config.baseURL,
+    // Most local servers ignore the key, but the SDK refuses to start without one
+    apiKey: config.apiKey || 'local',
+    dangerouslyAllowBrowser: true
+  });
+
+  return {
+    id: 'local',
+    label: 'Local Model',
+    model: config.model,
+    complete: (request) => completeChat(client, config.model, request),
+  };
+}
@@ -0,0 +1,28 @@
+import OpenAI from 'openai';
+import { CompletionRequest, LLMProvider, OpenAIProviderConfig } from './types';
+
+// Shared by every provider that speaks the OpenAI chat completions protocol
+export async function completeChat(client: OpenAI, model: string, request: CompletionRequest): Promise<string> {
+  const completion = await client.chat.completions.create({
+    model,
+    messages: request.messages,
+    max_tokens: request.maxTokens,
+    temperature: request.temperature,
+  });
+
+  return completion.choices[0]?.message?.content || '';
+}
+
+export function createOpenAIProvider(config: OpenAIProviderConfig): LLMProvider {
+  const client = new OpenAI({
+    apiKey: config.apiKey,
+    dangerouslyAllowBrowser: true
+  });
+
+  return {
+    id: 'openai',
+    label: 'OpenAI',
+    model: config.model,
+    complete: (request) => completeChat(client, config.model, request),
+  };
+}
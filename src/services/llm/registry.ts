@@ -0,0 +1,157 @@
+import { createAnthropicProvider } from './anthropic';
+import { createAzureOpenAIProvider } from './azure';
+import { createScriptedProvider, parseScript } from './fake';
+import { createLocalProvider } from './local';
+import { createOpenAIProvider } from './openai';
+import { createHttpFixtureStore, createReplayProvider } from './replay';
+import { FixtureStore, LLMProvider, ProviderId } from './types';
+
+export const PROVIDER_IDS: ProviderId[] = ['openai', 'azure', 'anthropic', 'local', 'replay', 'fake'];
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  openai: 'OpenAI',
+  azure: 'Azure OpenAI',
+  anthropic: 'Anthropic',
+  local: 'Local Model',
+  replay: 'Recorded Responses',
+  fake: 'Scripted Fake',
+};
+
+// Raw environment variables; the browser reads VITE_-prefixed names, the API server unprefixed ones
+export type LLMEnvironment = Record<string, string | undefined>;
+
+export interface ProviderRegistry {
+  getDefaultProviderId(): ProviderId;
+  isProviderConfigured(id?: ProviderId): boolean;
+  getConfiguredProviderIds(): ProviderId[];
+  getProviderModel(id: ProviderId): string;
+  getProvider(id?: ProviderId): LLMProvider;
+}
+
+export function isProviderId(value: unknown): value is ProviderId {
+  return typeof value === 'string' && PROVIDER_IDS.includes(value as ProviderId);
+}
+
+// The browser reads fixtures over HTTP; the API server and CLIs pass a store backed by the file system
+export function createProviderRegistry(
+  source: LLMEnvironment,
+  prefix = '',
+  createFixtureStore: (location: string) => FixtureStore = createHttpFixtureStore
+): ProviderRegistry {
+  const env = (name: string) => source[`${prefix}${name}`];
+
+  // Real provider that answers prompts without a fixture while LLM_REPLAY_MODE is "record"
+  const getRecordingProviderId = (): ProviderId | null => {
+    if (env('LLM_REPLAY_MODE') !== 'record') return null;
+    const configured = env('LLM_RECORD_PROVIDER') || 'openai';
+    return isProviderId(configured) && configured !== 'replay' && configured !== 'fake' ? configured : null;
+  };
+
+  // Deployment default, chosen with LLM_PROVIDER
+  const getDefaultProviderId = (): ProviderId => {
+    const configured = env('LLM_PROVIDER');
+    return isProviderId(configured) ? configured : 'openai';
+  };
+
+  const isProviderConfigured = (id: ProviderId = getDefaultProviderId()): boolean => {
+    switch (id) {
+      case 'openai':
+        return Boolean(env('OPENAI_API_KEY'));
+      case 'azure':
+        return Boolean(env('AZURE_OPENAI_ENDPOINT') && env('AZURE_OPENAI_API_KEY') && env('AZURE_OPENAI_DEPLOYMENT'));
+      case 'anthropic':
+        return Boolean(env('ANTHROPIC_API_KEY'));
+      case 'local':
+        return Boolean(env('LOCAL_LLM_BASE_URL'));
+      case 'replay': {
+        if (!env('LLM_FIXTURES')) return false;
+        if (env('LLM_REPLAY_MODE') !== 'record') return true;
+        const upstreamId = getRecordingProviderId();
+        return upstreamId !== null && isProviderConfigured(upstreamId);
+      }
+      case 'fake':
+        return Boolean(env('LLM_FAKE_SCRIPT'));
+    }
+  };
+
+  const getProviderModel = (id: ProviderId): string => {
+    switch (id) {
+      case 'openai':
+        return env('OPENAI_MODEL') || 'gpt-4';
+      case 'azure':
+        return env('AZURE_OPENAI_DEPLOYMENT') || '';
+      case 'anthropic':
+        return env('ANTHROPIC_MODEL') || 'claude-sonnet-4-5';
+      case 'local':
+        return env('LOCAL_LLM_MODEL') || 'llama3.1';
+      case 'replay': {
+        const upstreamId = getRecordingProviderId();
+        return upstreamId ? getProviderModel(upstreamId) : 'recorded';
+      }
+      case 'fake':
+        return 'scripted';
+    }
+  };
+
+  const createProvider = (id: ProviderId): LLMProvider => {
+    switch (id) {
+      case 'openai':
+        return createOpenAIProvider({
+          apiKey: env('OPENAI_API_KEY')!,
+          model: getProviderModel(id),
+        });
+      case 'azure':
+        return createAzureOpenAIProvider({
+          endpoint: env('AZURE_OPENAI_ENDPOINT')!,
+          apiKey: env('AZURE_OPENAI_API_KEY')!,
+          deployment: getProviderModel(id),
+          apiVersion: env('AZURE_OPENAI_API_VERSION') || '2024-10-21',
+        });
+      case 'anthropic':
+        return createAnthropicProvider({
+          apiKey: env('ANTHROPIC_API_KEY')!,
+          model: getProviderModel(id),
+          baseURL: env('ANTHROPIC_BASE_URL'),
+        });
+      case 'local':
+        return createLocalProvider({
+          baseURL: env('LOCAL_LLM_BASE_URL')!,
+          model: getProviderModel(id),
+          apiKey: env('LOCAL_LLM_API_KEY'),
+        });
+      case 'replay': {
+        const upstreamId = getRecordingProviderId();
+        return createReplayProvider({
+          store: createFixtureStore(env('LLM_FIXTURES')!),
+          upstream: upstreamId ? getProvider(upstreamId) : undefined,
+        });
+      }
+      case 'fake':
+        return createScriptedProvider(parseScript(env('LLM_FAKE_SCRIPT')!));
+    }
+  };
+
+  const providers = new Map<ProviderId, LLMProvider>();
+
+  // Providers are created lazily so an unconfigured vendor never instantiates a client
+  const getProvider = (id: ProviderId = getDefaultProviderId()): LLMProvider => {
+    if (!isProviderConfigured(id)) {
+      throw new Error(`${PROVIDER_LABELS[id]} provider is not configured`);
+    }
+
+    let provider = providers.get(id);
+    if (!provider) {
+      provider = createProvider(id);
+      providers.set(id, provider);
+    }
+    return provider;
+  };
+
+  return {
+    getDefaultProviderId,
+    isProviderConfigured,
+    getConfiguredProviderIds: () => PROVIDER_IDS.filter(id => isProviderConfigured(id)),
+    getProviderModel,
+    getProvider,
+  };
+}
@@ -0,0 +1,63 @@
+import { ChatMessage, FixtureStore, LLMProvider, RecordedExchange, ReplayProviderConfig } from './types';
+
+// Fixtures are keyed by the conversation alone, so changing the model or temperature replays the
+// same answer while any change to the prompt text needs a new recording
+export async function hashPrompt(messages: ChatMessage[]): Promise<string> {
+  const canonical = JSON.stringify(messages.map(message => [message.role, message.content]));
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Read-only store for the browser, which fetches <baseURL>/<hash>.json; recording needs the API server or a CLI
+export function createHttpFixtureStore(baseURL: string): FixtureStore {
+  const base = baseURL.replace(/\/$/, '');
+
+  return {
+    location: base,
+    async read(promptHash) {
+      const response = await fetch(`${base}/${promptHash}.json`);
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`Unable to load fixture ${promptHash}: ${response.status} ${response.statusText}`);
+      }
+      return await response.json() as RecordedExchange;
+    },
+    async write() {
+      throw new Error('The browser cannot write fixtures; record through the API server or the evaluation CLI');
+    },
+  };
+}
+
+// Replays recorded answers with no network; with an upstream provider, records prompts it has not seen
+export function createReplayProvider(config: ReplayProviderConfig): LLMProvider {
+  const { store, upstream } = config;
+
+  return {
+    id: 'replay',
+    label: 'Recorded Responses',
+    model: upstream ? upstream.model : 'recorded',
+    async complete(request) {
+      const promptHash = await hashPrompt(request.messages);
+      const recorded = await store.read(promptHash);
+      if (recorded) {
+        return recorded.response;
+      }
+
+      if (!upstream) {
+        throw new Error(`No recorded response for prompt ${promptHash.slice(0, 12)} in ${store.location}; `
+          + 'record it with LLM_REPLAY_MODE=record');
+      }
+
+      const response = await upstream.complete(request);
+      await store.write({
+        promptHash,
+        provider: upstream.id,
+        model: upstream.model,
+        request,
+        response,
+        recordedAt: new Date().toISOString(),
+      });
+      return response;
+    },
+  };
+}
@@ -0,0 +1,92 @@
+export type ProviderId = 'openai' | 'azure' | 'anthropic' | 'local' | 'replay' | 'fake';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature: number;
+}
+
+export interface LLMProvider {
+  id: ProviderId;
+  label: string;
+  model: string;
+  complete(request: CompletionRequest): Promise<string>;
+}
+
+export interface OpenAIProviderConfig {
+  apiKey: string;
+  model: string;
+}
+
+export interface AzureOpenAIProviderConfig {
+  endpoint: string;
+  apiKey: string;
+  deployment: string;
+  apiVersion: string;
+}
+
+export interface AnthropicProviderConfig {
+  apiKey: string;
+  model: string;
+  baseURL?: string;
+}
+
+export interface LocalProviderConfig {
+  baseURL: string;
+  model: string;
+  apiKey?: string;
+}
+
+// A prompt and the response a real provider gave, stored as a fixture named by the prompt hash
+export interface RecordedExchange {
+  promptHash: string;
+  provider: ProviderId;
+  model: string;
+  request: CompletionRequest;
+  response: string;
+  recordedAt: string;
+}
+
+// Where fixtures live: a directory for the API server and CLIs, a URL for the browser
+export interface FixtureStore {
+  location: string;
+  read(promptHash: string): Promise<RecordedExchange | null>;
+  write(exchange: RecordedExchange): Promise<void>;
+}
+
+export interface ReplayProviderConfig {
+  store: FixtureStore;
+  // Set to record: prompts without a fixture go to this provider and its answer is stored
+  upstream?: LLMProvider;
+}
+
+// One scripted answer; steps are tried in order and the first that applies is used
+export interface ScriptStep {
+  // Applies only when the prompt contains this text; steps without it apply to any prompt
+  match?: string;
+  response?: string;
+  // Fails the call with this message instead of answering
+  error?: string;
+  // Used at most this many times, so a failure can be followed by a success
+  times?: number;
+}
+
+export type EmbeddingProviderId = 'openai' | 'local';
+
+export interface EmbeddingProvider {
+  id: EmbeddingProviderId;
+  model: string;
+  // One vector per text, in the order given
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Vectors together with the model that produced them
+export interface EmbeddingResult {
+  model: string;
+  embeddings: number[][];
+}
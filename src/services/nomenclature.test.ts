@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { formatHSCode, validateHSCode } from './nomenclature';
+
+const CHAPTER_84 = '84 - Nuclear reactors, boilers, machinery and mechanical appliances; parts thereof';
+
+describe('validateHSCode', () => {
+  it('accepts a subheading the bundled data confirms', () => {
+    const result = validateHSCode('8471.30', CHAPTER_84);
+
+    expect(result).toMatchObject({ status: 'valid', hsCode: '8471.30', verifiedLevel: 'subheading', issues: [] });
+    expect(result.officialDescription).toMatch(/^Portable automatic data processing machines/);
+  });
+
+  it('reformats the code and replaces a chapter label that names another chapter', () => {
+    const result = validateHSCode('847130', '85 - Electrical machinery');
+
+    expect(result.status).toBe('repaired');
+    expect(result.hsCode).toBe('8471.30');
+    expect(result.chapter).toMatch(/^84 - /);
+    expect(result.issues).toEqual([
+      'Reformatted "847130" as 8471.30',
+      'Chapter label "85 - Electrical machinery" does not match code; replaced with chapter 84'
+    ]);
+  });
+
+  it('rejects codes that are too short or do not exist', () => {
+    expect(validateHSCode('8471', CHAPTER_84).issues).toContain('HS code "8471" must have at least 6 digits');
+    expect(validateHSCode('7701.10').issues).toContain('Chapter 77 does not exist in HS 2022');
+    expect(validateHSCode('8400.10', CHAPTER_84).issues).toContain('Heading 84.00 does not exist in HS 2022');
+    expect(validateHSCode('8471.99', CHAPTER_84)).toMatchObject({
+      status: 'invalid',
+      issues: ['Subheading 8471.99 does not exist in HS 2022']
+    });
+  });
+
+  it('reports codes beyond the bundled data as unverifiable, not valid', () => {
+    expect(validateHSCode('8401.10', CHAPTER_84)).toMatchObject({ status: 'unverifiable', verifiedLevel: 'heading' });
+    expect(validateHSCode('0101.21')).toMatchObject({ status: 'unverifiable', verifiedLevel: 'chapter' });
+  });
+});
+
+describe('formatHSCode', () => {
+  it('groups national digits after the subheading', () => {
+    expect(formatHSCode('8471300100')).toBe('8471.30.01.00');
+    expect(formatHSCode('847130')).toBe('8471.30');
+  });
+});
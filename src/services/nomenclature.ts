@@ -0,0 +1,155 @@
+import { HS_CHAPTERS, HS_HEADINGS, HS_SECTIONS, HS_SUBHEADINGS, HSSection } from '../data/hs2022';
+
+export type HSVerificationLevel = 'chapter' | 'heading' | 'subheading';
+
+export interface HSNomenclatureEntry {
+  code: string;
+  description: string;
+}
+
+export interface HSCodeLookup {
+  section?: HSSection;
+  chapter?: HSNomenclatureEntry;
+  heading?: HSNomenclatureEntry;
+  subheading?: HSNomenclatureEntry;
+  // Most specific official text found for the code
+  officialDescription?: string;
+  verifiedLevel?: HSVerificationLevel;
+}
+
+// unverifiable: nothing is known to be wrong, but the bundled dataset does not reach the subheading
+export interface HSValidationResult {
+  status: 'valid' | 'repaired' | 'unverifiable' | 'invalid';
+  hsCode: string;
+  chapter: string;
+  officialDescription?: string;
+  verifiedLevel?: HSVerificationLevel;
+  issues: string[];
+}
+
+// The bundled dataset only ships complete chapters and headings, so presence tells us coverage
+const chaptersWithHeadings = new Set(Object.keys(HS_HEADINGS).map(code => code.slice(0, 2)));
+const headingsWithSubheadings = new Set(Object.keys(HS_SUBHEADINGS).map(code => code.slice(0, 4)));
+
+function digitsOf(hsCode: string): string {
+  return hsCode.replace(/\D/g, '');
+}
+
+// 84713000 -> 8471.30.00; national digits beyond eight are kept as a final group
+export function formatHSCode(digits: string): string {
+  const groups = [digits.slice(0, 4), digits.slice(4, 6), digits.slice(6, 8), digits.slice(8)];
+  return groups.filter(Boolean).join('.');
+}
+
+export function normalizeHSCode(hsCode: string): string {
+  return formatHSCode(digitsOf(hsCode));
+}
+
+export function getChapterLabel(chapter: string): string | undefined {
+  const description = HS_CHAPTERS[chapter];
+  return description ? `${chapter} - ${description}` : undefined;
+}
+
+// Chapter picker options in chapter order
+export function getChapterOptions(): Array<{ code: string; label: string }> {
+  return Object.keys(HS_CHAPTERS)
+    .sort()
+    .map(code => ({ code, label: `${code} - ${HS_CHAPTERS[code]}` }));
+}
+
+export function getSectionForChapter(chapter: string): HSSection | undefined {
+  return HS_SECTIONS.find(section => chapter >= section.chapters[0] && chapter <= section.chapters[1]);
+}
+
+export function lookupHSCode(hsCode: string): HSCodeLookup {
+  const digits = digitsOf(hsCode);
+  const lookup: HSCodeLookup = {};
+
+  const chapter = digits.slice(0, 2);
+  if (!HS_CHAPTERS[chapter]) return lookup;
+  lookup.section = getSectionForChapter(chapter);
+  lookup.chapter = { code: chapter, description: HS_CHAPTERS[chapter] };
+  lookup.officialDescription = HS_CHAPTERS[chapter];
+  lookup.verifiedLevel = 'chapter';
+
+  const heading = digits.slice(0, 4);
+  if (!HS_HEADINGS[heading]) return lookup;
+  lookup.heading = { code: heading, description: HS_HEADINGS[heading] };
+  lookup.officialDescription = HS_HEADINGS[heading];
+  lookup.verifiedLevel = 'heading';
+
+  const subheading = digits.slice(0, 6);
+  if (!HS_SUBHEADINGS[subheading]) return lookup;
+  lookup.subheading = { code: subheading, description: HS_SUBHEADINGS[subheading] };
+  lookup.officialDescription = HS_SUBHEADINGS[subheading];
+  lookup.verifiedLevel = 'subheading';
+
+  return lookup;
+}
+
+/**
+ * Checks a code against the bundled HS 2022 nomenclature. Formatting and chapter labels are
+ * repaired in place; codes whose chapter, heading or subheading does not exist are rejected.
+ * Codes the dataset cannot confirm down to the subheading are reported as unverifiable rather
+ * than valid, so callers can tell a checked code from one that merely was not disproved.
+ */
+export function validateHSCode(hsCode: string, chapterLabel?: string): HSValidationResult {
+  const issues: string[] = [];
+  const digits = digitsOf(hsCode || '');
+  const normalized = formatHSCode(digits);
+
+  const invalid = (issue: string): HSValidationResult => ({
+    status: 'invalid',
+    hsCode: normalized,
+    chapter: chapterLabel || '',
+    issues: [...issues, issue]
+  });
+
+  if (digits.length < 6) {
+    return invalid(`HS code "${hsCode}" must have at least 6 digits`);
+  }
+
+  if (normalized !== hsCode.trim()) {
+    issues.push(`Reformatted "${hsCode}" as ${normalized}`);
+  }
+
+  const chapter = digits.slice(0, 2);
+  const officialChapter = getChapterLabel(chapter);
+  if (!officialChapter) {
+    return invalid(`Chapter ${chapter} does not exist in HS 2022`);
+  }
+
+  const heading = digits.slice(0, 4);
+  if (chaptersWithHeadings.has(chapter) && !HS_HEADINGS[heading]) {
+    return invalid(`Heading ${heading.slice(0, 2)}.${heading.slice(2)} does not exist in HS 2022`);
+  }
+
+  const subheading = digits.slice(0, 6);
+  if (headingsWithSubheadings.has(heading) && !HS_SUBHEADINGS[subheading]) {
+    return invalid(`Subheading ${formatHSCode(subheading)} does not exist in HS 2022`);
+  }
+
+  // The code wins over the label: a label naming another chapter is replaced outright
+  const labelChapter = chapterLabel?.match(/^\D*(\d{1,2})/)?.[1]?.padStart(2, '0');
+  if (labelChapter !== chapter) {
+    issues.push(chapterLabel
+      ? `Chapter label "${chapterLabel}" does not match code; replaced with chapter ${chapter}`
+      : `Missing chapter label; set to chapter ${chapter}`);
+  }
+
+  const lookup = lookupHSCode(normalized);
+  if (lookup.verifiedLevel !== 'subheading') {
+    issues.push(chaptersWithHeadings.has(chapter)
+      ? `Subheading ${formatHSCode(subheading)} is not verifiable; the bundled HS 2022 data covers heading ${heading.slice(0, 2)}.${heading.slice(2)} only`
+      : `Heading and subheading are not verifiable; the bundled HS 2022 data covers chapter ${chapter} only`);
+  }
+
+  return {
+    status: lookup.verifiedLevel !== 'subheading' ? 'unverifiable' : issues.length > 0 ? 'repaired' : 'valid',
+    hsCode: normalized,
+    chapter: officialChapter,
+    officialDescription: lookup.officialDescription,
+    verifiedLevel: lookup.verifiedLevel,
+    issues
+  };
+}
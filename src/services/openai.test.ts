@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { classifyProduct } from './openai';
+import { createReplayProvider, createScriptedProvider, DEFAULT_SCRIPT, FixtureStore, RecordedExchange } from './llm';
+
+// The default script's catch-all answer, for tests that vary one field of it
+function scriptedAnswer(): Record<string, unknown> {
+  return JSON.parse(DEFAULT_SCRIPT[DEFAULT_SCRIPT.length - 1].response!);
+}
+
+function memoryStore(): FixtureStore & { exchanges: Map<string, RecordedExchange> } {
+  const exchanges = new Map<string, RecordedExchange>();
+  return {
+    location: 'memory',
+    exchanges,
+    async read(promptHash) {
+      return exchanges.get(promptHash) ?? null;
+    },
+    async write(exchange) {
+      exchanges.set(exchange.promptHash, exchange);
+    },
+  };
+}
+
+describe('classifyProduct', () => {
+  beforeEach(() => {
+    // classifyProduct logs provider errors before rethrowing them
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('completes the scripted subheading to the only national line', async () => {
+    const llm = createScriptedProvider(DEFAULT_SCRIPT);
+    const result = await classifyProduct('14-inch laptop', undefined, { llm, jurisdiction: 'US_HTS', precedents: [] });
+
+    expect(result.hsCode).toBe('8471.30.01.00');
+    expect(result.chapter).toMatch(/^84 - /);
+    expect(result.griTrace.map(step => step.rule)).toEqual(['1', '1', '1', '6']);
+  });
+
+  it('uses the step matching the prompt', async () => {
+    const llm = createScriptedProvider(DEFAULT_SCRIPT);
+    const result = await classifyProduct('14-inch laptop', undefined, { llm, jurisdiction: 'IN_ITC_HS', precedents: [] });
+
+    expect(result.hsCode).toBe('8471.30.20');
+  });
+
+  it('rejects a response that is not JSON', async () => {
+    const llm = createScriptedProvider([{ response: 'Sure! The code is 8471.30.' }]);
+
+    await expect(classifyProduct('laptop', undefined, { llm, precedents: [] })).rejects.toThrow(/^Classification failed: /);
+  });
+
+  it('rejects a response without any usable candidate', async () => {
+    const llm = createScriptedProvider([{ response: JSON.stringify({ candidates: [null, { hsCode: '8471.30' }] }) }]);
+
+    await expect(classifyProduct('laptop', undefined, { llm, precedents: [] })).rejects.toThrow(/^Classification failed: /);
+  });
+
+  it('surfaces a provider error and recovers once the step is used up', async () => {
+    const llm = createScriptedProvider([
+      { error: 'Rate limit reached', times: 1 },
+      { response: JSON.stringify(scriptedAnswer()) },
+    ]);
+
+    await expect(classifyProduct('laptop', undefined, { llm, precedents: [] }))
+      .rejects.toThrow('Classification failed: Rate limit reached');
+    await expect(classifyProduct('laptop', undefined, { llm, precedents: [] })).resolves.toMatchObject({ hsCode: '8471.30.01.00' });
+  });
+
+  it('keeps only GRI steps whose rule is exactly a known rule', async () => {
+    const answer = scriptedAnswer();
+    answer.griTrace = [
+      null,
+      'GRI 1',
+      { level: 'chapter', code: '84', rule: 'GRI 1 applies', decision: 'Machinery' },
+      { level: 'heading', code: '8471', rule: 'Rule 3 because it is composite', decision: 'ADP machine' },
+      { level: 'heading', code: '8471', rule: '3 b', decision: 'Essential character' },
+      { level: 'subheading', code: '8471.30', rule: 'GRI 6', decision: 'Portable' },
+    ];
+    const llm = createScriptedProvider([{ response: JSON.stringify(answer) }]);
+    const result = await classifyProduct('laptop', undefined, { llm, precedents: [] });
+
+    expect(result.griTrace.map(step => step.rule)).toEqual(['3(b)', '6']);
+  });
+
+  it('fails on a replay miss without calling any model', async () => {
+    const llm = createReplayProvider({ store: memoryStore() });
+
+    await expect(classifyProduct('laptop', undefined, { llm, precedents: [] }))
+      .rejects.toThrow(/No recorded response for prompt [0-9a-f]{12} in memory/);
+  });
+
+  it('records an exchange once and replays it offline', async () => {
+    const store = memoryStore();
+    const upstream = createScriptedProvider([{ response: JSON.stringify(scriptedAnswer()), times: 1 }]);
+    const recorded = await classifyProduct('laptop', undefined, {
+      llm: createReplayProvider({ store, upstream }),
+      precedents: [],
+    });
+
+    expect(store.exchanges.size).toBe(1);
+    expect([...store.exchanges.values()][0]).toMatchObject({ provider: 'fake', model: 'scripted' });
+
+    // The upstream script is used up, so this answer can only come from the fixture
+    const replayed = await classifyProduct('laptop', undefined, {
+      llm: createReplayProvider({ store, upstream }),
+      precedents: [],
+    });
+    expect(replayed.hsCode).toBe(recorded.hsCode);
+  });
+});
@@ -1,66 +1,193 @@
-import OpenAI from 'openai';
+import { getProvider, LLMProvider, ProviderId } from './llm';
+import { formatHSCode } from './nomenclature';
+import { DEFAULT_JURISDICTION, Jurisdiction, JURISDICTION_INFO, validateTariffLine } from './tariffs';
+import { ControlMatch, findControlEntries, hasDualUseEvidence } from './controls';
+import { assessDestination, SanctionsAssessment } from './sanctions';
+import { formatPrecedentsForPrompt, Precedent } from './precedents';
 
-const openai = new OpenAI({
-  apiKey: import.meta.env.VITE_OPENAI_API_KEY,
-  dangerouslyAllowBrowser: true
-});
+export interface LLMRequestOptions {
+  // Overrides the deployment default set by VITE_LLM_PROVIDER
+  provider?: ProviderId;
+  // A ready-made provider; the API server passes its own so browser VITE_ settings are never read
+  llm?: LLMProvider;
+}
+
+export interface ClassificationOptions extends LLMRequestOptions {
+  // Answers to clarifying questions from earlier rounds, folded into the prompt
+  clarifications?: ClarificationAnswer[];
+  // Import jurisdiction whose national tariff line the codes extend to; defaults to the US
+  jurisdiction?: Jurisdiction;
+  // ISO country the goods ship to; enables the sanctions and embargo check
+  destinationCountry?: string;
+  // Approved classifications of similar products, given to the model as guidance
+  precedents?: Precedent[];
+  // Sampling temperature; the evaluation runner varies it, the app keeps the default
+  temperature?: number;
+}
+
+// VITE_OPENAI_MAX_TOKENS only applies to direct calls in development; reading it behind DEV keeps
+// production builds from inlining the whole env object
+function getMaxTokens(fallback: number): number {
+  return (import.meta.env?.DEV && parseInt(import.meta.env.VITE_OPENAI_MAX_TOKENS)) || fallback;
+}
+
+export interface WTOLinks {
+  wto: string;
+  wcoomic: string;
+  chapter: string;
+  detailed: string;
+  search: string;
+}
+
+export interface HSCodeCandidate {
+  hsCode: string;
+  chapter: string;
+  description: string;
+  confidence: number;
+  reasoning: string;
+  distinguishingFact: string;
+}
+
+export type GRIRule = '1' | '2(a)' | '2(b)' | '3(a)' | '3(b)' | '3(c)' | '4' | '5(a)' | '5(b)' | '6';
+
+export type GRILevel = 'section' | 'chapter' | 'heading' | 'subheading';
+
+// One decision of the General Rules of Interpretation, from section down to subheading
+export interface GRITraceStep {
+  level: GRILevel;
+  code: string;
+  rule: GRIRule;
+  decision: string;
+  citedNotes: string[];
+  alternativesConsidered: string[];
+}
+
+// Asked when a fact that decides between headings is missing from the description
+export interface ClarifyingQuestion {
+  question: string;
+  attribute: string;
+  options: string[];
+}
 
+export interface ClarificationAnswer {
+  question: string;
+  answer: string;
+}
+
+// The top-level code fields always mirror the highest-ranked candidate
 export interface HSCodeClassification {
+  // hsCode and every candidate code are national tariff lines of this jurisdiction
+  jurisdiction: Jurisdiction;
   hsCode: string;
   chapter: string;
   description: string;
   confidence: number;
+  // Derived from controlEntries, never from the model's opinion
   isDualUse: boolean;
+  // EU Annex I and US CCL entries correlated with hsCode
+  controlEntries: ControlMatch[];
+  // Only set when a destination country was given
+  sanctions?: SanctionsAssessment;
   reasoning: string;
+  candidates: HSCodeCandidate[];
+  // Trace for the highest-ranked candidate
+  griTrace: GRITraceStep[];
+  // Empty when the description already settles the classification
+  clarifyingQuestions: ClarifyingQuestion[];
+  // The precedents the model was given
+  precedents: Precedent[];
 }
 
+const GRI_RULES: GRIRule[] = ['1', '2(a)', '2(b)', '3(a)', '3(b)', '3(c)', '4', '5(a)', '5(b)', '6'];
+const GRI_LEVELS: GRILevel[] = ['section', 'chapter', 'heading', 'subheading'];
+
 export interface CompanyProductAnalysis {
   products: Array<{
     name: string;
     category: string;
     hsCode: string;
     confidence: number;
+    // Derived from the export-control correlation of hsCode, like HSCodeClassification.isDualUse
     isDualUse: boolean;
   }>;
   industry: string;
-  riskLevel: 'Low' | 'Medium' | 'High';
 }
 
 export async function classifyProduct(
   productName: string, 
-  customerName?: string
+  customerName?: string,
+  options?: ClassificationOptions
 ): Promise<HSCodeClassification> {
+  const clarifications = options?.clarifications || [];
+  const precedents = options?.precedents || [];
+  const jurisdiction = options?.jurisdiction ?? DEFAULT_JURISDICTION;
+  const { label, nomenclature, digits, schedule } = JURISDICTION_INFO[jurisdiction];
   const prompt = `
 You are an expert in international trade and HS (Harmonized System) code classification. 
 Analyze the following product and provide accurate HS code classification.
 
 Product: ${productName}
+Import jurisdiction: ${label} (${nomenclature})
 ${customerName ? `Customer Company: ${customerName}` : ''}
-
+${clarifications.length > 0 ? `Clarifications from the user:
+${clarifications.map(c => `- Q: ${c.question}\n  A: ${c.answer}`).join('\n')}
+` : ''}${formatPrecedentsForPrompt(precedents)}
 Please provide a JSON response with the following structure:
 {
-  "hsCode": "XXXX.XX.XX",
-  "chapter": "XX - Chapter description",
-  "description": "Detailed product description matching HS nomenclature",
-  "confidence": 85,
-  "isDualUse": false,
-  "reasoning": "Explanation of classification logic and confidence level"
+  "candidates": [
+    {
+      "hsCode": "${formatHSCode('X'.repeat(digits))}",
+      "chapter": "XX - Chapter description",
+      "description": "Detailed product description matching HS nomenclature",
+      "confidence": 85,
+      "reasoning": "Why this heading applies to the product",
+      "distinguishingFact": "The product fact that would confirm this code over the other candidates"
+    }
+  ],
+  "reasoning": "Explanation of classification logic and confidence level",
+  "griTrace": [
+    {
+      "level": "section|chapter|heading|subheading",
+      "code": "XVI | 84 | 8471 | 8471.30",
+      "rule": "1|2(a)|2(b)|3(a)|3(b)|3(c)|4|5(a)|5(b)|6",
+      "decision": "What was decided at this level and why",
+      "citedNotes": ["Section XVI Note 2(b)", "Chapter 84 Note 5(A)"],
+      "alternativesConsidered": ["8473.30 - rejected because ..."]
+    }
+  ],
+  "clarifyingQuestions": [
+    {
+      "question": "Is the chassis primarily aluminium or plastic?",
+      "attribute": "Material composition",
+      "options": ["Aluminium", "Plastic", "Other"]
+    }
+  ]
 }
 
 Requirements:
 1. Use the most current HS 2022 nomenclature
-2. Provide 8-digit HS code (6-digit international + 2-digit national)
+2. Give every hsCode as a ${digits}-digit ${nomenclature} line (6-digit HS subheading + ${digits - 6} national digits)
+   from ${schedule.source}
 3. Confidence score should be realistic (70-99%)
-4. Mark as dual-use if product has both civilian and military applications
-5. Include clear reasoning for the classification
-6. Ensure the chapter description matches the HS code
+4. Include clear reasoning for the classification
+5. Ensure the chapter description matches the HS code
+6. Rank 1-4 candidate codes from most to least likely; include every competing heading a customs broker
+   should consider (e.g. parts vs. complete machines, function vs. material headings)
+7. Each candidate's confidence is its own likelihood of being correct, independent of the others
+8. Give a griTrace for the highest-ranked candidate with one step per level (section, chapter, heading,
+   subheading), naming the General Rule of Interpretation applied and citing the section and chapter notes relied on
+9. If a fact that would decide between candidate headings is missing (material composition, intended use,
+    place of use, function, technical details), ask up to 3 clarifyingQuestions; otherwise return an empty array.
+    Never repeat a question the user has already answered, and still give your best candidates
+10. Where an approved precedent describes the same product, follow its classification unless the facts differ;
+    when you depart from a close precedent, say in the reasoning which fact makes the difference
 
 Be precise and conservative with confidence scores. If uncertain, explain why in the reasoning.
 `;
 
   try {
-    const completion = await openai.chat.completions.create({
-      model: import.meta.env.VITE_OPENAI_MODEL || 'gpt-4',
+    const provider = options?.llm ?? getProvider(options?.provider);
+    const response = await provider.complete({
       messages: [
         {
           role: 'system',
@@ -71,36 +198,133 @@ Be precise and conservative with confidence scores. If uncertain, explain why in
           content: prompt
         }
       ],
-      max_tokens: parseInt(import.meta.env.VITE_OPENAI_MAX_TOKENS) || 1000,
-      temperature: 0.1, // Low temperature for consistent, factual responses
+      maxTokens: getMaxTokens(3000),
+      temperature: options?.temperature ?? 0.1, // Low temperature for consistent, factual responses
     });
 
-    const response = completion.choices[0]?.message?.content;
     if (!response) {
-      throw new Error('No response from OpenAI');
+      throw new Error(`No response from ${provider.label}`);
     }
 
     // Parse JSON response
     const jsonMatch = response.match(/\{[\s\S]*\}/);
     if (!jsonMatch) {
-      throw new Error('Invalid JSON response from OpenAI');
+      throw new Error(`Invalid JSON response from ${provider.label}`);
     }
 
-    const classification: HSCodeClassification = JSON.parse(jsonMatch[0]);
+    const parsed = JSON.parse(jsonMatch[0]);
+    const proposed = normalizeCandidates(parsed);
     
     // Validate required fields
-    if (!classification.hsCode || !classification.chapter || !classification.description) {
-      throw new Error('Incomplete classification data from OpenAI');
+    if (proposed.length === 0) {
+      throw new Error(`Incomplete classification data from ${provider.label}`);
+    }
+
+    // Drop codes that do not exist in HS 2022 or the national schedule and replace mismatched chapter labels
+    const rejected: string[] = [];
+    const candidates: HSCodeCandidate[] = [];
+    for (const candidate of proposed) {
+      const validation = validateTariffLine(candidate.hsCode, jurisdiction, candidate.chapter);
+      if (validation.status === 'invalid') {
+        rejected.push(...validation.issues);
+      } else if (!candidates.some(c => c.hsCode === validation.hsCode)) {
+        candidates.push({ ...candidate, hsCode: validation.hsCode, chapter: validation.chapter });
+      }
     }
 
-    return classification;
+    if (candidates.length === 0) {
+      throw new Error(`No valid ${nomenclature} line from ${provider.label}: ${rejected.join('; ')}`);
+    }
+
+    const [best] = candidates;
+    const controlEntries = findControlEntries(best.hsCode);
+    return {
+      jurisdiction,
+      hsCode: best.hsCode,
+      chapter: best.chapter,
+      description: best.description,
+      confidence: best.confidence,
+      isDualUse: hasDualUseEvidence(controlEntries),
+      controlEntries,
+      sanctions: options?.destinationCountry
+        ? assessDestination(best.hsCode, options.destinationCountry, controlEntries)
+        : undefined,
+      reasoning: parsed.reasoning || best.reasoning,
+      candidates,
+      griTrace: normalizeGRITrace(parsed.griTrace),
+      clarifyingQuestions: normalizeClarifyingQuestions(parsed.clarifyingQuestions, clarifications),
+      precedents
+    };
   } catch (error) {
-    console.error('OpenAI API Error:', error);
+    console.error('LLM provider error:', error);
     throw new Error(`Classification failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
-export async function analyzeCompanyProducts(companyName: string): Promise<CompanyProductAnalysis> {
+// Accepts both the ranked `candidates` shape and the older single-code shape
+function normalizeCandidates(parsed: Partial<HSCodeClassification>): HSCodeCandidate[] {
+  const raw: Partial<HSCodeCandidate>[] = Array.isArray(parsed.candidates) && parsed.candidates.length > 0
+    ? parsed.candidates
+    : [parsed];
+
+  return raw
+    .filter(candidate => candidate && candidate.hsCode && candidate.chapter && candidate.description)
+    .map(candidate => ({
+      hsCode: String(candidate.hsCode),
+      chapter: String(candidate.chapter),
+      description: String(candidate.description),
+      confidence: Number(candidate.confidence) || 0,
+      reasoning: candidate.reasoning || '',
+      distinguishingFact: candidate.distinguishingFact || ''
+    }))
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+// Models write rules as "GRI 3(b)", "3 b" or "Rule 1"; keep only steps we can map to a known rule.
+// The whole value must be the rule, so "GRI 1 applies" is dropped rather than read as 1(a)
+function normalizeGRITrace(raw: unknown): GRITraceStep[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .filter((step): step is Partial<Record<keyof GRITraceStep, unknown>> => Boolean(step) && typeof step === 'object')
+    .map(step => {
+      const ruleMatch = String(step.rule ?? '').trim().toLowerCase()
+        .match(/^(?:gri|rule)?\s*([1-6])(?:\s*\(\s*([abc])\s*\)|\s*([abc]))?$/);
+      const subRule = ruleMatch?.[2] ?? ruleMatch?.[3];
+      const rule = ruleMatch ? (subRule ? `${ruleMatch[1]}(${subRule})` : ruleMatch[1]) : '';
+      const level = String(step.level ?? '').toLowerCase();
+      return {
+        level: level as GRILevel,
+        code: String(step.code ?? ''),
+        rule: rule as GRIRule,
+        decision: String(step.decision ?? ''),
+        citedNotes: Array.isArray(step.citedNotes) ? step.citedNotes.map(String) : [],
+        alternativesConsidered: Array.isArray(step.alternativesConsidered) ? step.alternativesConsidered.map(String) : []
+      };
+    })
+    .filter(step => GRI_LEVELS.includes(step.level) && GRI_RULES.includes(step.rule) && step.decision);
+}
+
+function normalizeClarifyingQuestions(raw: unknown, answered: ClarificationAnswer[]): ClarifyingQuestion[] {
+  if (!Array.isArray(raw)) return [];
+
+  const answeredQuestions = new Set(answered.map(a => a.question.trim().toLowerCase()));
+  return raw
+    .filter((question): question is Partial<Record<keyof ClarifyingQuestion, unknown>> =>
+      Boolean(question) && typeof question === 'object')
+    .map(question => ({
+      question: String(question.question ?? '').trim(),
+      attribute: String(question.attribute ?? ''),
+      options: Array.isArray(question.options) ? question.options.map(String) : []
+    }))
+    .filter(question => question.question && !answeredQuestions.has(question.question.toLowerCase()))
+    .slice(0, 3);
+}
+
+export async function analyzeCompanyProducts(
+  companyName: string,
+  options?: LLMRequestOptions
+): Promise<CompanyProductAnalysis> {
   const prompt = `
 Analyze the company "${companyName}" and identify their main product categories for HS code classification.
 
@@ -111,27 +335,23 @@ Please provide a JSON response with the following structure:
       "name": "Product name",
       "category": "Product category",
       "hsCode": "XXXX.XX.XX",
-      "confidence": 85,
-      "isDualUse": false
+      "confidence": 85
     }
   ],
-  "industry": "Primary industry sector",
-  "riskLevel": "Low|Medium|High"
+  "industry": "Primary industry sector"
 }
 
 Requirements:
 1. Identify 3-6 main product categories for this company
 2. Provide accurate HS codes using HS 2022 nomenclature
-3. Assess dual-use potential for each product
-4. Determine overall risk level based on dual-use products and industry
-5. Use realistic confidence scores (70-99%)
+3. Use realistic confidence scores (70-99%)
 
 Focus on the company's primary commercial products and their trade classification implications.
 `;
 
   try {
-    const completion = await openai.chat.completions.create({
-      model: import.meta.env.VITE_OPENAI_MODEL || 'gpt-4',
+    const provider = options?.llm ?? getProvider(options?.provider);
+    const response = await provider.complete({
       messages: [
         {
           role: 'system',
@@ -142,34 +362,40 @@ Focus on the company's primary commercial products and their trade classificatio
           content: prompt
         }
       ],
-      max_tokens: parseInt(import.meta.env.VITE_OPENAI_MAX_TOKENS) || 1000,
+      maxTokens: getMaxTokens(1000),
       temperature: 0.2,
     });
 
-    const response = completion.choices[0]?.message?.content;
     if (!response) {
-      throw new Error('No response from OpenAI');
+      throw new Error(`No response from ${provider.label}`);
     }
 
     const jsonMatch = response.match(/\{[\s\S]*\}/);
     if (!jsonMatch) {
-      throw new Error('Invalid JSON response from OpenAI');
+      throw new Error(`Invalid JSON response from ${provider.label}`);
     }
 
     const analysis: CompanyProductAnalysis = JSON.parse(jsonMatch[0]);
     
     if (!analysis.products || !Array.isArray(analysis.products) || analysis.products.length === 0) {
-      throw new Error('Invalid company analysis data from OpenAI');
+      throw new Error(`Invalid company analysis data from ${provider.label}`);
     }
 
-    return analysis;
+    // The risk level is scored from the products by the risk engine, not asked of the model
+    return {
+      industry: analysis.industry,
+      products: analysis.products.map(product => ({
+        ...product,
+        isDualUse: hasDualUseEvidence(findControlEntries(String(product.hsCode ?? '')))
+      }))
+    };
   } catch (error) {
-    console.error('OpenAI API Error:', error);
+    console.error('LLM provider error:', error);
     throw new Error(`Company analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
-export function generateWTOLink(hsCode: string): string {
+export function generateWTOLink(hsCode: string): WTOLinks {
   // Generate multiple useful links for HS code research
   const baseCode = hsCode.substring(0, 6); // Use 6-digit international code
   const chapter = hsCode.substring(0, 2); // First 2 digits for chapter
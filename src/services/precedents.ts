@@ -0,0 +1,58 @@
+import { normalizeHSCode } from './nomenclature';
+
+// An approved classification from our own history, retrieved as guidance for a new one
+export interface Precedent {
+  classificationId: string;
+  productName: string;
+  hsCode: string;
+  description: string;
+  // Similarity of the product names, 0 to 1
+  similarity: number;
+  reviewedBy?: string;
+  reviewedAt?: string;
+}
+
+export interface PrecedentConflict {
+  precedent: Precedent;
+  // The 6-digit subheadings that differ
+  precedentSubheading: string;
+  classifiedSubheading: string;
+}
+
+export const MAX_PRECEDENTS = 5;
+// Less similar products are not retrieved as precedents
+export const MIN_PRECEDENT_SIMILARITY = 0.35;
+// From this similarity a precedent describes practically the same product
+export const CLOSE_PRECEDENT_SIMILARITY = 0.8;
+
+function subheadingOf(hsCode: string): string {
+  return normalizeHSCode(hsCode).slice(0, 7);
+}
+
+/**
+ * The closest precedent that places practically the same product in another HS subheading.
+ * National digits are not compared; schedules differ in how they split a subheading.
+ */
+export function findPrecedentConflict(hsCode: string, precedents: Precedent[]): PrecedentConflict | null {
+  const classifiedSubheading = subheadingOf(hsCode);
+  const conflicting = precedents
+    .filter(precedent => precedent.similarity >= CLOSE_PRECEDENT_SIMILARITY)
+    .filter(precedent => subheadingOf(precedent.hsCode) !== classifiedSubheading)
+    .sort((a, b) => b.similarity - a.similarity)[0];
+
+  return conflicting
+    ? { precedent: conflicting, precedentSubheading: subheadingOf(conflicting.hsCode), classifiedSubheading }
+    : null;
+}
+
+// The prompt section listing the precedents, most similar first
+export function formatPrecedentsForPrompt(precedents: Precedent[]): string {
+  if (precedents.length === 0) return '';
+  const lines = [...precedents]
+    .sort((a, b) => b.similarity - a.similarity)
+    .map(precedent => `- "${precedent.productName}" → ${precedent.hsCode} (${precedent.description}); name similarity ${Math.round(precedent.similarity * 100)}%`);
+
+  return `Approved precedents from our own classification history (reviewed by our compliance team):
+${lines.join('\n')}
+`;
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { assessCompanyRisk, DEFAULT_RISK_RULES, getRiskLevel, normalizeRiskRules } from './risk';
+
+const laptop = { name: 'Laptop', hsCode: '8471.30.01.00', isDualUse: true };
+const coffee = { name: 'Coffee', hsCode: '0901.11', isDualUse: false };
+
+describe('normalizeRiskRules', () => {
+  it('falls back to the defaults for anything that is not rules', () => {
+    expect(normalizeRiskRules(null)).toEqual(DEFAULT_RISK_RULES);
+    expect(normalizeRiskRules('high')).toEqual(DEFAULT_RISK_RULES);
+    expect(normalizeRiskRules({ weights: [] })).toEqual(DEFAULT_RISK_RULES);
+  });
+
+  it('keeps valid weights and defaults the missing or malformed ones', () => {
+    const rules = normalizeRiskRules({ weights: { dual_use_product: 4, controlled_chapter: -1, destination_prohibited: '9' } });
+
+    expect(rules.weights).toEqual({ ...DEFAULT_RISK_RULES.weights, dual_use_product: 4 });
+  });
+
+  it('never puts the high threshold below the medium one', () => {
+    expect(normalizeRiskRules({ mediumAt: 8, highAt: 5 })).toMatchObject({ mediumAt: 8, highAt: 8 });
+    expect(normalizeRiskRules({ mediumAt: 2, highAt: 4 })).toMatchObject({ mediumAt: 2, highAt: 4 });
+  });
+});
+
+describe('getRiskLevel', () => {
+  it('steps up at the thresholds themselves', () => {
+    expect(getRiskLevel(2, DEFAULT_RISK_RULES)).toBe('Low');
+    expect(getRiskLevel(3, DEFAULT_RISK_RULES)).toBe('Medium');
+    expect(getRiskLevel(6, DEFAULT_RISK_RULES)).toBe('High');
+  });
+});
+
+describe('assessCompanyRisk', () => {
+  it('scores a portfolio without any factor as low', () => {
+    expect(assessCompanyRisk({ products: [coffee], destinationCountry: 'FR', screeningStatus: 'clear' }))
+      .toEqual({ level: 'Low', score: 0, factors: [] });
+  });
+
+  it('adds up product, destination and screening factors, highest points first', () => {
+    const assessment = assessCompanyRisk({ products: [laptop, coffee], destinationCountry: 'RU', screeningStatus: 'potential_match' });
+
+    expect(assessment.score).toBe(11);
+    expect(assessment.level).toBe('High');
+    expect(assessment.factors).toEqual([
+      { id: 'destination_prohibited', weight: 5, occurrences: ['Laptop → Russia'], points: 5 },
+      { id: 'screening_potential_match', weight: 3, occurrences: ['Company screening'], points: 3 },
+      { id: 'dual_use_product', weight: 2, occurrences: ['Laptop'], points: 2 },
+      { id: 'controlled_chapter', weight: 1, occurrences: ['Laptop (ch. 84)'], points: 1 }
+    ]);
+  });
+
+  it('counts a factor once per product', () => {
+    const chips = [
+      { name: 'Processor', hsCode: '8542.31', isDualUse: false },
+      { name: 'Memory', hsCode: '8542.32', isDualUse: false }
+    ];
+
+    expect(assessCompanyRisk({ products: chips })).toMatchObject({ level: 'Low', score: 2 });
+  });
+
+  it('ignores a cleared screening', () => {
+    expect(assessCompanyRisk({ products: [], screeningStatus: 'cleared' }).score).toBe(0);
+    expect(assessCompanyRisk({ products: [], screeningStatus: 'confirmed_match' }).level).toBe('High');
+  });
+
+  it('scores with the organization rules', () => {
+    const rules = normalizeRiskRules({ weights: { controlled_chapter: 0, dual_use_product: 1 }, mediumAt: 1, highAt: 4 });
+
+    expect(assessCompanyRisk({ products: [laptop] }, rules)).toEqual({
+      level: 'Medium',
+      score: 1,
+      factors: [{ id: 'dual_use_product', weight: 1, occurrences: ['Laptop'], points: 1 }]
+    });
+  });
+});
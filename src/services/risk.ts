@@ -0,0 +1,158 @@
+import { findControlEntries } from './controls';
+import { assessDestination, getCountryName } from './sanctions';
+import { ScreeningStatus } from './screening';
+
+export type CompanyRiskLevel = 'Low' | 'Medium' | 'High';
+
+export type RiskFactorId =
+  | 'dual_use_product'
+  | 'controlled_chapter'
+  | 'destination_licence_required'
+  | 'destination_prohibited'
+  | 'screening_potential_match'
+  | 'screening_confirmed_match';
+
+// Points per occurrence of each factor, and the scores at which the level steps up
+export interface RiskRules {
+  weights: Record<RiskFactorId, number>;
+  mediumAt: number;
+  highAt: number;
+}
+
+export interface RiskFactor {
+  id: RiskFactorId;
+  weight: number;
+  // Products (or the one screening) the factor was found on
+  occurrences: string[];
+  points: number;
+}
+
+export interface RiskAssessment {
+  level: CompanyRiskLevel;
+  score: number;
+  // Only the factors that contributed, highest points first
+  factors: RiskFactor[];
+}
+
+export interface RiskInput {
+  products: Array<{ name: string; hsCode: string; isDualUse: boolean }>;
+  destinationCountry?: string;
+  screeningStatus?: ScreeningStatus;
+}
+
+export const RISK_FACTORS: RiskFactorId[] = [
+  'dual_use_product',
+  'controlled_chapter',
+  'destination_licence_required',
+  'destination_prohibited',
+  'screening_potential_match',
+  'screening_confirmed_match'
+];
+
+export const RISK_FACTOR_LABELS: Record<RiskFactorId, string> = {
+  dual_use_product: 'Dual-use product',
+  controlled_chapter: 'Product in a controlled HS chapter',
+  destination_licence_required: 'Licence required for the destination',
+  destination_prohibited: 'Prohibited for the destination',
+  screening_potential_match: 'Unreviewed denied-party match',
+  screening_confirmed_match: 'Confirmed denied-party match'
+};
+
+export const DEFAULT_RISK_RULES: RiskRules = {
+  weights: {
+    dual_use_product: 2,
+    controlled_chapter: 1,
+    destination_licence_required: 2,
+    destination_prohibited: 5,
+    screening_potential_match: 3,
+    screening_confirmed_match: 10
+  },
+  mediumAt: 3,
+  highAt: 6
+};
+
+// Chapters whose goods make up most of the EU and US control list entries
+export const CONTROLLED_CHAPTERS: Record<string, string> = {
+  '28': 'Inorganic chemicals',
+  '29': 'Organic chemicals',
+  '36': 'Explosives and pyrotechnics',
+  '84': 'Nuclear reactors and machinery',
+  '85': 'Electrical and electronic equipment',
+  '88': 'Aircraft and spacecraft',
+  '90': 'Optical and measuring instruments',
+  '93': 'Arms and ammunition'
+};
+
+function isWeight(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Rules as stored for the organization, with defaults for anything missing or malformed so a
+ * factor added later scores with its default weight until an admin changes it.
+ */
+export function normalizeRiskRules(value: unknown): RiskRules {
+  const stored = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof RiskRules, unknown>>;
+  const weights = (stored.weights && typeof stored.weights === 'object' ? stored.weights : {}) as Record<string, unknown>;
+
+  const mediumAt = isWeight(stored.mediumAt) ? stored.mediumAt : DEFAULT_RISK_RULES.mediumAt;
+  const highAt = isWeight(stored.highAt) && stored.highAt >= mediumAt ? stored.highAt : Math.max(mediumAt, DEFAULT_RISK_RULES.highAt);
+
+  return {
+    weights: Object.fromEntries(RISK_FACTORS.map(id => [
+      id,
+      isWeight(weights[id]) ? weights[id] : DEFAULT_RISK_RULES.weights[id]
+    ])) as Record<RiskFactorId, number>,
+    mediumAt,
+    highAt
+  };
+}
+
+export function getRiskLevel(score: number, rules: RiskRules): CompanyRiskLevel {
+  if (score >= rules.highAt) return 'High';
+  if (score >= rules.mediumAt) return 'Medium';
+  return 'Low';
+}
+
+/**
+ * Scores a company portfolio: every product carrying a factor adds that factor's weight, and so
+ * does an open or confirmed screening match. The level follows from the total and the thresholds.
+ */
+export function assessCompanyRisk(input: RiskInput, rules: RiskRules = DEFAULT_RISK_RULES): RiskAssessment {
+  const occurrences: Record<RiskFactorId, string[]> = Object.fromEntries(
+    RISK_FACTORS.map(id => [id, []])
+  ) as unknown as Record<RiskFactorId, string[]>;
+
+  for (const product of input.products) {
+    if (product.isDualUse) occurrences.dual_use_product.push(product.name);
+
+    const chapter = product.hsCode.replace(/\D/g, '').slice(0, 2);
+    if (CONTROLLED_CHAPTERS[chapter]) {
+      occurrences.controlled_chapter.push(`${product.name} (ch. ${chapter})`);
+    }
+
+    if (input.destinationCountry) {
+      const { verdict } = assessDestination(product.hsCode, input.destinationCountry, findControlEntries(product.hsCode));
+      const destination = `${product.name} → ${getCountryName(input.destinationCountry)}`;
+      if (verdict === 'prohibited') occurrences.destination_prohibited.push(destination);
+      if (verdict === 'licence_required') occurrences.destination_licence_required.push(destination);
+    }
+  }
+
+  // A cleared screening no longer counts; its matches were reviewed as false positives
+  if (input.screeningStatus === 'potential_match') occurrences.screening_potential_match.push('Company screening');
+  if (input.screeningStatus === 'confirmed_match') occurrences.screening_confirmed_match.push('Company screening');
+
+  const factors = RISK_FACTORS
+    .map(id => ({
+      id,
+      weight: rules.weights[id],
+      occurrences: occurrences[id],
+      points: rules.weights[id] * occurrences[id].length
+    }))
+    .filter(factor => factor.points > 0)
+    .sort((a, b) => b.points - a.points);
+
+  const score = factors.reduce((sum, factor) => sum + factor.points, 0);
+  return { level: getRiskLevel(score, rules), score, factors };
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { findControlEntries } from './controls';
+import { assessDestination, isCountryCode } from './sanctions';
+
+const assess = (hsCode: string, destination: string) => {
+  const assessment = assessDestination(hsCode, destination, findControlEntries(hsCode));
+  return { verdict: assessment.verdict, rules: assessment.rules.map(rule => rule.id) };
+};
+
+describe('assessDestination', () => {
+  it('allows destinations no measure names', () => {
+    expect(assess('8471.30.01.00', 'FR')).toEqual({ verdict: 'allowed', rules: [] });
+  });
+
+  it('applies embargoes to every product', () => {
+    expect(assess('0901.11', 'CU')).toEqual({ verdict: 'prohibited', rules: ['US-EMBARGO'] });
+  });
+
+  it('applies control-scoped rules only to correlated codes', () => {
+    expect(assess('0901.11', 'RU')).toEqual({ verdict: 'allowed', rules: [] });
+    expect(assess('8471.30.01.00', 'RU')).toEqual({
+      verdict: 'prohibited',
+      rules: ['EU-RU-DUAL-USE', 'US-RU-BY-CCL']
+    });
+  });
+
+  it('leaves dual-use rules out when only anti-terrorism entries correlate', () => {
+    const antiTerrorismOnly = findControlEntries('8471.30').filter(entry => !entry.dualUseListed);
+    const assessment = assessDestination('8471.30', 'RU', antiTerrorismOnly);
+
+    expect(assessment.verdict).toBe('licence_required');
+    expect(assessment.rules.map(rule => rule.id)).toEqual(['US-RU-BY-CCL']);
+  });
+
+  it('matches listed HS prefixes', () => {
+    expect(assess('8542.31', 'BY')).toEqual({
+      verdict: 'prohibited',
+      rules: ['EU-BY-DUAL-USE', 'EU-BY-CHP', 'US-RU-BY-CCL', 'US-RU-BY-HTS']
+    });
+    expect(assess('8703.23', 'KP')).toEqual({ verdict: 'prohibited', rules: ['EU-KP-MACHINERY', 'US-EMBARGO'] });
+  });
+
+  it('reports the most severe matching verdict', () => {
+    expect(assess('8471.30', 'IR')).toEqual({ verdict: 'prohibited', rules: ['EU-IR-DUAL-USE', 'US-EMBARGO'] });
+  });
+});
+
+describe('isCountryCode', () => {
+  it('accepts only bundled ISO codes', () => {
+    expect(isCountryCode('RU')).toBe(true);
+    expect(isCountryCode('ru')).toBe(false);
+    expect(isCountryCode('XX')).toBe(false);
+    expect(isCountryCode(undefined)).toBe(false);
+  });
+});
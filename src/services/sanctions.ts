@@ -0,0 +1,69 @@
+import { COUNTRY_CODES, EU_MEASURES, SanctionsRule, SanctionsVerdict, US_MEASURES } from '../data/sanctions';
+import { ControlMatch } from './controls';
+
+export type { SanctionsRule, SanctionsVerdict };
+
+export interface SanctionsAssessment {
+  destinationCountry: string;
+  // The most severe verdict among the matching rules; 'allowed' when none match
+  verdict: SanctionsVerdict;
+  rules: SanctionsRule[];
+}
+
+export const SANCTIONS_VERDICT_LABELS: Record<SanctionsVerdict, string> = {
+  allowed: 'Allowed',
+  licence_required: 'Licence Required',
+  prohibited: 'Prohibited'
+};
+
+const SEVERITY: SanctionsVerdict[] = ['allowed', 'licence_required', 'prohibited'];
+const MEASURES: SanctionsRule[] = [...EU_MEASURES, ...US_MEASURES];
+
+const countryNames = new Intl.DisplayNames(['en'], { type: 'region' });
+
+export function isCountryCode(value: unknown): value is string {
+  return typeof value === 'string' && COUNTRY_CODES.includes(value);
+}
+
+export function getCountryName(code: string): string {
+  return countryNames.of(code) ?? code;
+}
+
+// Destination picker options, sorted by display name
+export function getCountryOptions(): Array<{ code: string; name: string }> {
+  return COUNTRY_CODES
+    .map(code => ({ code, name: getCountryName(code) }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function ruleApplies(rule: SanctionsRule, digits: string, controlEntries: ControlMatch[]): boolean {
+  if (rule.hsPrefixes && !rule.hsPrefixes.some(prefix => digits.startsWith(prefix))) {
+    return false;
+  }
+  if (rule.controlScope === 'dual-use') {
+    return controlEntries.some(entry => entry.dualUseListed);
+  }
+  if (rule.controlScope === 'any') {
+    return controlEntries.length > 0;
+  }
+  return true;
+}
+
+/**
+ * Checks the code against the bundled EU and US destination measures. Rules match on HS prefix,
+ * on the code's export-control correlation, or on the destination alone for embargoes; the
+ * verdict is the most severe of the matching rules.
+ */
+export function assessDestination(hsCode: string, destinationCountry: string, controlEntries: ControlMatch[]): SanctionsAssessment {
+  const digits = hsCode.replace(/\D/g, '');
+  const rules = MEASURES.filter(rule =>
+    rule.countries.includes(destinationCountry) && ruleApplies(rule, digits, controlEntries)
+  );
+
+  const verdict = rules.reduce<SanctionsVerdict>(
+    (worst, rule) => (SEVERITY.indexOf(rule.verdict) > SEVERITY.indexOf(worst) ? rule.verdict : worst),
+    'allowed'
+  );
+
+  return { destinationCountry, verdict, rules };
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { getScreeningStatus, PartyMatch, screenParty } from './screening';
+
+describe('screenParty', () => {
+  it('matches a listed name regardless of legal form, order and script', () => {
+    for (const name of ['Sberbank PJSC', 'PAO Sberbank', 'Group Wagner', 'ЧВК Вагнер']) {
+      const result = screenParty(name);
+      expect(result.status, name).toBe('potential_match');
+      expect(result.matches[0].score, name).toBeGreaterThanOrEqual(0.85);
+    }
+  });
+
+  it('catches a misspelling', () => {
+    expect(screenParty('Mahan Airr').matches[0]).toMatchObject({ listedName: 'MAHAN AIR' });
+  });
+
+  it('clears an unrelated name', () => {
+    expect(screenParty('Acme Widgets Ltd')).toMatchObject({ status: 'clear', matches: [] });
+  });
+});
+
+describe('getScreeningStatus', () => {
+  const match = (decision?: PartyMatch['decision']) => ({ decision }) as PartyMatch;
+
+  it('is cleared only once every match is a false positive', () => {
+    expect(getScreeningStatus([match('false_positive'), match()])).toBe('potential_match');
+    expect(getScreeningStatus([match('false_positive'), match('false_positive')])).toBe('cleared');
+    expect(getScreeningStatus([match('false_positive'), match('confirmed')])).toBe('confirmed_match');
+  });
+});
@@ -0,0 +1,170 @@
+import {
+  DeniedParty,
+  DeniedPartyList,
+  DeniedPartyListId,
+  DeniedPartyType,
+  EU_CONSOLIDATED,
+  OFAC_SDN,
+  UK_SANCTIONS,
+  US_ENTITY_LIST
+} from '../data/denied-parties';
+
+export type { DeniedPartyListId };
+
+export type MatchDecision = 'confirmed' | 'false_positive';
+
+// clear: nothing scored above the threshold; cleared: every match was reviewed as a false positive
+export type ScreeningStatus = 'clear' | 'potential_match' | 'confirmed_match' | 'cleared';
+
+export interface PartyMatch {
+  list: DeniedPartyListId;
+  reference?: string;
+  // The listed primary name, and the name or alias that scored highest against the screened name
+  listedName: string;
+  matchedName: string;
+  // 0 to 1
+  score: number;
+  type: DeniedPartyType;
+  countries: string[];
+  programmes: string[];
+  decision?: MatchDecision;
+}
+
+export interface ScreeningResult {
+  screenedName: string;
+  threshold: number;
+  status: ScreeningStatus;
+  matches: PartyMatch[];
+}
+
+export const DENIED_PARTY_LISTS: Record<DeniedPartyListId, DeniedPartyList> = {
+  OFAC_SDN,
+  EU_CONSOLIDATED,
+  UK_SANCTIONS,
+  US_ENTITY_LIST
+};
+
+export const DENIED_PARTY_LIST_LABELS: Record<DeniedPartyListId, string> = {
+  OFAC_SDN: 'OFAC SDN',
+  EU_CONSOLIDATED: 'EU Consolidated List',
+  UK_SANCTIONS: 'UK Sanctions List',
+  US_ENTITY_LIST: 'BIS Entity List'
+};
+
+export const SCREENING_STATUS_LABELS: Record<ScreeningStatus, string> = {
+  clear: 'No Match',
+  potential_match: 'Potential Match',
+  confirmed_match: 'Confirmed Match',
+  cleared: 'Cleared'
+};
+
+export const DEFAULT_SCREENING_THRESHOLD = 0.85;
+export const MIN_SCREENING_THRESHOLD = 0.6;
+
+// BGN/PCGN romanisation, which is what the Latin spellings on the lists mostly follow
+const CYRILLIC_TO_LATIN: Record<string, string> = {
+  а: 'a', б: 'b', в: 'v', г: 'g', д: 'd', е: 'e', ё: 'e', ж: 'zh', з: 'z', и: 'i', й: 'y', к: 'k',
+  л: 'l', м: 'm', н: 'n', о: 'o', п: 'p', р: 'r', с: 's', т: 't', у: 'u', ф: 'f', х: 'kh', ц: 'ts',
+  ч: 'ch', ш: 'sh', щ: 'shch', ъ: '', ы: 'y', ь: '', э: 'e', ю: 'yu', я: 'ya', і: 'i', ї: 'yi', є: 'ye', ґ: 'g'
+};
+
+// Legal forms say nothing about who the party is, so "Sberbank PJSC" and "PAO Sberbank" compare equal
+const LEGAL_FORMS = new Set([
+  'ao', 'oao', 'ooo', 'zao', 'pao', 'jsc', 'ojsc', 'cjsc', 'pjsc', 'llc', 'ltd', 'limited', 'inc', 'incorporated',
+  'corp', 'corporation', 'co', 'company', 'gmbh', 'ag', 'sa', 'srl', 'spa', 'bv', 'nv', 'plc', 'fze', 'fzco', 'the'
+]);
+
+function nameTokens(name: string): string[] {
+  return name
+    .toLowerCase()
+    .replace(/[Ѐ-ӿ]/g, char => CYRILLIC_TO_LATIN[char] ?? char)
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .replace(/&/g, ' and ')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token && !LEGAL_FORMS.has(token));
+}
+
+function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j < Math.min(b.length, i + window + 1); j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/**
+ * Scores a screened name against one listed name. Whole-name similarity catches misspellings,
+ * sorted tokens catch reordered names, and containment catches the listed name embedded in a
+ * longer one ("Sberbank Leasing"); the best of the three is the score.
+ */
+function scoreName(screened: string[], listed: string[]): number {
+  if (screened.length === 0 || listed.length === 0) return 0;
+
+  const whole = jaroWinkler(screened.join(' '), listed.join(' '));
+  const sorted = jaroWinkler([...screened].sort().join(' '), [...listed].sort().join(' '));
+  const tokenScores = listed.map(token => Math.max(...screened.map(candidate => jaroWinkler(token, candidate))));
+  const contained = tokenScores.every(score => score >= 0.92) ? Math.min(...tokenScores) : 0;
+
+  return Math.max(whole, sorted, contained);
+}
+
+function matchParty(tokens: string[], list: DeniedPartyListId, party: DeniedParty): PartyMatch {
+  const best = [party.name, ...party.aliases]
+    .map(name => ({ name, score: scoreName(tokens, nameTokens(name)) }))
+    .reduce((top, candidate) => (candidate.score > top.score ? candidate : top));
+
+  return {
+    list,
+    reference: party.reference,
+    listedName: party.name,
+    matchedName: best.name,
+    score: Math.round(best.score * 100) / 100,
+    type: party.type,
+    countries: party.countries,
+    programmes: party.programmes
+  };
+}
+
+export function getScreeningStatus(matches: PartyMatch[]): ScreeningStatus {
+  if (matches.length === 0) return 'clear';
+  if (matches.some(match => match.decision === 'confirmed')) return 'confirmed_match';
+  if (matches.every(match => match.decision === 'false_positive')) return 'cleared';
+  return 'potential_match';
+}
+
+// Screens a customer or company name against every bundled list; matches are sorted best first
+export function screenParty(name: string, threshold = DEFAULT_SCREENING_THRESHOLD): ScreeningResult {
+  const tokens = nameTokens(name);
+  const matches = (Object.keys(DENIED_PARTY_LISTS) as DeniedPartyListId[])
+    .flatMap(list => DENIED_PARTY_LISTS[list].parties.map(party => matchParty(tokens, list, party)))
+    .filter(match => match.score >= threshold)
+    .sort((a, b) => b.score - a.score);
+
+  return { screenedName: name.trim(), threshold, status: getScreeningStatus(matches), matches };
+}
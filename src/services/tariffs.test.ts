@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { validateTariffLine } from './tariffs';
+
+const CHAPTER_84 = '84 - Nuclear reactors, boilers, machinery and mechanical appliances; parts thereof';
+
+describe('validateTariffLine', () => {
+  it('accepts a line of the bundled schedule', () => {
+    expect(validateTariffLine('8471.30.01.00', 'US_HTS', CHAPTER_84)).toMatchObject({
+      status: 'valid',
+      hsCode: '8471.30.01.00',
+      jurisdiction: 'US_HTS',
+      nationalDescription: expect.stringMatching(/^Portable automatic data processing machines/)
+    });
+  });
+
+  it('completes a subheading with a single national line', () => {
+    const result = validateTariffLine('8471.30', 'US_HTS');
+
+    expect(result).toMatchObject({ status: 'repaired', hsCode: '8471.30.01.00' });
+    expect(result.issues).toContain('Completed 8471.30 as 8471.30.01.00, the only HTSUS line of the subheading');
+  });
+
+  it('trims zero padding beyond the national length', () => {
+    const result = validateTariffLine('8471.30.00.00', 'EU_CN');
+
+    expect(result).toMatchObject({ status: 'repaired', hsCode: '8471.30.00' });
+    expect(result.issues).toContain('Trimmed 8471.30.00.00 to the 8-digit CN line');
+  });
+
+  it('rejects a subheading with several lines and a line the schedule does not have', () => {
+    expect(validateTariffLine('8542.31', 'EU_CN')).toMatchObject({
+      status: 'invalid',
+      issues: expect.arrayContaining(['CN lines have 8 digits; 8542.31 has 6'])
+    });
+    expect(validateTariffLine('8542.31.50', 'EU_CN')).toMatchObject({
+      status: 'invalid',
+      issues: expect.arrayContaining(['8542.31.50 is not in the CN schedule'])
+    });
+  });
+
+  it('checks only the length under subheadings the schedule does not cover', () => {
+    expect(validateTariffLine('8471.41.01.50', 'US_HTS', CHAPTER_84)).toMatchObject({
+      status: 'valid',
+      issues: [],
+      nationalDescription: undefined
+    });
+    expect(validateTariffLine('8471.41.01', 'US_HTS')).toMatchObject({ status: 'invalid' });
+  });
+
+  it('passes an HS 2022 rejection through', () => {
+    expect(validateTariffLine('8471.99.00', 'IN_ITC_HS')).toMatchObject({
+      status: 'invalid',
+      jurisdiction: 'IN_ITC_HS',
+      issues: expect.arrayContaining(['Subheading 8471.99 does not exist in HS 2022'])
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { EU_CN, EU_TARIC, IN_ITC_HS, TariffSchedule, US_HTS } from '../data/tariffs';
+import { formatHSCode, HSValidationResult, validateHSCode } from './nomenclature';
+
+export const JURISDICTIONS = ['US_HTS', 'EU_CN', 'EU_TARIC', 'IN_ITC_HS'] as const;
+
+// Destination (import) jurisdiction whose national tariff lines extend the 6-digit HS code
+export type Jurisdiction = typeof JURISDICTIONS[number];
+
+export interface JurisdictionInfo {
+  label: string;
+  // Name of the national nomenclature, as customs brokers write it
+  nomenclature: string;
+  digits: number;
+  schedule: TariffSchedule;
+}
+
+export const JURISDICTION_INFO: Record<Jurisdiction, JurisdictionInfo> = {
+  US_HTS: { label: 'United States', nomenclature: 'HTSUS', digits: 10, schedule: US_HTS },
+  EU_CN: { label: 'European Union (CN)', nomenclature: 'CN', digits: 8, schedule: EU_CN },
+  EU_TARIC: { label: 'European Union (TARIC)', nomenclature: 'TARIC', digits: 10, schedule: EU_TARIC },
+  IN_ITC_HS: { label: 'India', nomenclature: 'ITC-HS', digits: 8, schedule: IN_ITC_HS },
+};
+
+export const DEFAULT_JURISDICTION: Jurisdiction = 'US_HTS';
+
+export interface TariffLineValidationResult extends HSValidationResult {
+  jurisdiction: Jurisdiction;
+  // Set only when the national line was found in the bundled schedule
+  nationalDescription?: string;
+}
+
+export function isJurisdiction(value: unknown): value is Jurisdiction {
+  return typeof value === 'string' && (JURISDICTIONS as readonly string[]).includes(value);
+}
+
+export function getJurisdictionLabel(jurisdiction: Jurisdiction): string {
+  const info = JURISDICTION_INFO[jurisdiction];
+  return `${info.label} – ${info.digits}-digit ${info.nomenclature}`;
+}
+
+// Schedules only ship complete subheadings, so any line under a subheading marks it as covered
+function linesUnderSubheading(schedule: TariffSchedule, subheading: string): string[] {
+  return Object.keys(schedule.lines).filter(code => code.startsWith(subheading));
+}
+
+export function lookupTariffLine(code: string, jurisdiction: Jurisdiction): string | undefined {
+  return JURISDICTION_INFO[jurisdiction].schedule.lines[code.replace(/\D/g, '')];
+}
+
+/**
+ * Checks a national tariff line: the first six digits against HS 2022, the full line against the
+ * bundled schedule for the jurisdiction. Trailing zero padding is trimmed and a subheading with a
+ * single national line is completed; any other length or unknown line is rejected. Subheadings
+ * the schedule does not cover are accepted unchecked once the length is right.
+ */
+export function validateTariffLine(code: string, jurisdiction: Jurisdiction, chapterLabel?: string): TariffLineValidationResult {
+  const hs = validateHSCode(code, chapterLabel);
+  if (hs.status === 'invalid') {
+    return { ...hs, jurisdiction };
+  }
+
+  const { nomenclature, digits: length, schedule } = JURISDICTION_INFO[jurisdiction];
+  const issues = [...hs.issues];
+  let digits = hs.hsCode.replace(/\D/g, '');
+
+  const invalid = (issue: string): TariffLineValidationResult => ({
+    ...hs,
+    status: 'invalid',
+    hsCode: formatHSCode(digits),
+    jurisdiction,
+    issues: [...issues, issue]
+  });
+
+  if (digits.length > length && /^0*$/.test(digits.slice(length))) {
+    issues.push(`Trimmed ${formatHSCode(digits)} to the ${length}-digit ${nomenclature} line`);
+    digits = digits.slice(0, length);
+  }
+
+  const covered = linesUnderSubheading(schedule, digits.slice(0, 6));
+  if (digits.length !== length || (covered.length > 0 && !schedule.lines[digits])) {
+    if (covered.length !== 1) {
+      return invalid(digits.length !== length
+        ? `${nomenclature} lines have ${length} digits; ${formatHSCode(digits)} has ${digits.length}`
+        : `${formatHSCode(digits)} is not in the ${nomenclature} schedule`);
+    }
+    issues.push(`Completed ${formatHSCode(digits)} as ${formatHSCode(covered[0])}, the only ${nomenclature} line of the subheading`);
+    digits = covered[0];
+  }
+
+  return {
+    ...hs,
+    status: hs.status === 'unverifiable' ? 'unverifiable' : issues.length > 0 ? 'repaired' : 'valid',
+    hsCode: formatHSCode(digits),
+    jurisdiction,
+    nationalDescription: schedule.lines[digits],
+    issues
+  };
+}
@@ -0,0 +1,14 @@
+/*
+  # Store Ranked Candidate HS Codes
+
+  1. Changes
+    - Add `candidates` (jsonb, optional) to `classifications`
+      - Ranked list of candidate codes returned by the classifier, each with
+        `hsCode`, `chapter`, `description`, `confidence`, `reasoning` and
+        `distinguishingFact`
+      - `hs_code`, `chapter`, `description` and `confidence` hold the candidate
+        selected as final
+*/
+
+ALTER TABLE classifications
+  ADD COLUMN IF NOT EXISTS candidates jsonb;
@@ -0,0 +1,12 @@
+/*
+  # Store General Rules of Interpretation Trace
+
+  1. Changes
+    - Add `gri_trace` (jsonb, optional) to `classifications`
+      - Ordered steps from section down to subheading, each with `level`, `code`,
+        `rule` (GRI 1-6), `decision`, `citedNotes` and `alternativesConsidered`
+      - Kept alongside the free-text `reasoning` column for customs audits
+*/
+
+ALTER TABLE classifications
+  ADD COLUMN IF NOT EXISTS gri_trace jsonb;
@@ -0,0 +1,11 @@
+/*
+  # Keep Clarification Q&A With Classifications
+
+  1. Changes
+    - Add `clarifications` (jsonb, optional) to `classifications`
+      - Questions the classifier asked about missing decisive attributes and the
+        user's answers, as `{ question, answer }` objects in the order asked
+*/
+
+ALTER TABLE classifications
+  ADD COLUMN IF NOT EXISTS clarifications jsonb;
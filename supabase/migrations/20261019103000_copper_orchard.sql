@@ -0,0 +1,53 @@
+/*
+  # Batch Classification Runs
+
+  1. New Tables
+    - `classification_batches`
+      - `id` (uuid, primary key)
+      - `file_name` (text, required)
+      - `row_count` (integer, required) - rows submitted in the run
+      - `failed_count` (integer, default 0) - rows that could not be classified
+      - `created_at` (timestamp)
+
+  2. Changes
+    - Add to `classifications`
+      - `batch_id` (uuid, optional) - the run a row was saved from
+      - `sku` (text, optional)
+      - `known_hs_code` (text, optional) - code supplied in the catalog, kept for comparison
+
+  3. Security
+    - Enable RLS on `classification_batches` with the same access as `classifications`
+
+  4. Indexes
+    - Index `classifications.batch_id` for reviewing and exporting a run
+*/
+
+CREATE TABLE IF NOT EXISTS classification_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_name text NOT NULL,
+  row_count integer NOT NULL CHECK (row_count >= 0),
+  failed_count integer NOT NULL DEFAULT 0 CHECK (failed_count >= 0),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE classifications
+  ADD COLUMN IF NOT EXISTS batch_id uuid REFERENCES classification_batches(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS sku text,
+  ADD COLUMN IF NOT EXISTS known_hs_code text;
+
+ALTER TABLE classification_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read classification batches"
+  ON classification_batches
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Anyone can create classification batches"
+  ON classification_batches
+  FOR INSERT
+  TO public
+  WITH CHECK (true);
+
+CREATE INDEX IF NOT EXISTS idx_classifications_batch_id ON classifications (batch_id) WHERE batch_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_classification_batches_created_at ON classification_batches (created_at DESC);
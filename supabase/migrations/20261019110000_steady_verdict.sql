@@ -0,0 +1,43 @@
+/*
+  # Review and Approval Workflow
+
+  1. Changes
+    - Add to `classifications`
+      - `status` (text, default 'draft') - draft, pending_review, approved, rejected or overridden
+      - `ai_suggestion` (jsonb, optional) - the AI's code, chapter, description and confidence
+        as first saved, kept when a reviewer overrides the code
+      - `reviewed_by` (text, optional) - reviewer identity
+      - `reviewed_at` (timestamp, optional)
+      - `review_comment` (text, optional)
+
+  2. Data
+    - Existing rows were treated as final without any review, so they enter the queue as
+      pending_review with their current code recorded as the AI suggestion
+
+  3. Indexes
+    - Partial index on pending_review rows ordered the way the Review Queue reads them
+*/
+
+ALTER TABLE classifications
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'pending_review', 'approved', 'rejected', 'overridden')),
+  ADD COLUMN IF NOT EXISTS ai_suggestion jsonb,
+  ADD COLUMN IF NOT EXISTS reviewed_by text,
+  ADD COLUMN IF NOT EXISTS reviewed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS review_comment text;
+
+UPDATE classifications
+SET
+  status = 'pending_review',
+  ai_suggestion = jsonb_build_object(
+    'hs_code', hs_code,
+    'chapter', chapter,
+    'description', description,
+    'confidence', confidence
+  )
+WHERE ai_suggestion IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_classifications_review_queue
+  ON classifications (is_dual_use DESC, confidence ASC, created_at ASC)
+  WHERE status = 'pending_review';
+CREATE INDEX IF NOT EXISTS idx_classifications_status ON classifications (status);
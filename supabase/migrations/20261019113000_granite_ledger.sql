@@ -0,0 +1,139 @@
+/*
+  # Immutable Classification Audit Trail
+
+  1. New Tables
+    - `classification_history` (append-only)
+      - `id` (uuid, primary key)
+      - `classification_id` (uuid, required)
+      - `version` (integer, required) - 1 for the insert, then one per change
+      - `action` (text) - insert, update, delete or restore
+      - `changed_by` (text, optional) - who made the change
+      - `reason` (text, optional)
+      - `old_values` (jsonb, optional) - full row before the change, null on insert
+      - `new_values` (jsonb, required) - full row after the change
+      - `changed_at` (timestamp)
+
+  2. Changes
+    - Add to `classifications`
+      - `changed_by` (text, optional) - author of the latest change, copied into history
+      - `change_reason` (text, optional) - reason for the latest change, copied into history
+      - `deleted_at` (timestamp, optional) - soft delete marker
+      - `deleted_by` (text, optional)
+
+  3. Immutability
+    - History rows are written only by a trigger on `classifications`
+    - Updating or deleting history rows raises an error, as does hard-deleting a classification;
+      customs audits can reach back five years, so nothing is ever removed
+
+  4. Security
+    - Enable RLS on `classification_history` with read access only
+
+  5. Indexes
+    - Index history by classification and version for the version view
+    - Partial index on live (not deleted) classifications by date
+*/
+
+ALTER TABLE classifications
+  ADD COLUMN IF NOT EXISTS changed_by text,
+  ADD COLUMN IF NOT EXISTS change_reason text,
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz,
+  ADD COLUMN IF NOT EXISTS deleted_by text;
+
+CREATE TABLE IF NOT EXISTS classification_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  classification_id uuid NOT NULL REFERENCES classifications(id) ON DELETE RESTRICT,
+  version integer NOT NULL,
+  action text NOT NULL CHECK (action IN ('insert', 'update', 'delete', 'restore')),
+  changed_by text,
+  reason text,
+  old_values jsonb,
+  new_values jsonb NOT NULL,
+  changed_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (classification_id, version)
+);
+
+ALTER TABLE classification_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read classification history"
+  ON classification_history
+  FOR SELECT
+  TO public
+  USING (true);
+
+-- Writes history as the table owner so clients never need insert rights on the history table
+CREATE OR REPLACE FUNCTION record_classification_history()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  next_version integer;
+  change_action text;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    change_action := 'insert';
+  ELSIF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+    change_action := 'delete';
+  ELSIF OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN
+    change_action := 'restore';
+  ELSE
+    change_action := 'update';
+  END IF;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO next_version
+  FROM classification_history
+  WHERE classification_id = NEW.id;
+
+  INSERT INTO classification_history (classification_id, version, action, changed_by, reason, old_values, new_values)
+  VALUES (
+    NEW.id,
+    next_version,
+    change_action,
+    NEW.changed_by,
+    NEW.change_reason,
+    CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(OLD) END,
+    to_jsonb(NEW)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION prevent_audit_mutation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RAISE EXCEPTION '% on % is not allowed: records are kept for audit', TG_OP, TG_TABLE_NAME;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_classification_history ON classifications;
+
+CREATE TRIGGER record_classification_history
+  AFTER INSERT OR UPDATE ON classifications
+  FOR EACH ROW
+  EXECUTE FUNCTION record_classification_history();
+
+CREATE TRIGGER prevent_classification_delete
+  BEFORE DELETE ON classifications
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_audit_mutation();
+
+CREATE TRIGGER prevent_classification_history_mutation
+  BEFORE UPDATE OR DELETE ON classification_history
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_audit_mutation();
+
+-- Existing rows get a baseline version so every record's history starts somewhere
+INSERT INTO classification_history (classification_id, version, action, reason, new_values, changed_at)
+SELECT c.id, 1, 'insert', 'Baseline captured when the audit trail was enabled', to_jsonb(c), c.created_at
+FROM classifications c
+WHERE NOT EXISTS (
+  SELECT 1 FROM classification_history h WHERE h.classification_id = c.id
+);
+
+CREATE INDEX IF NOT EXISTS idx_classification_history_classification ON classification_history (classification_id, version DESC);
+CREATE INDEX IF NOT EXISTS idx_classifications_live_created_at ON classifications (created_at DESC) WHERE deleted_at IS NULL;
@@ -0,0 +1,411 @@
+/*
+  # Organizations, Roles and Tenant Row-Level Security
+
+  1. New Tables
+    - `organizations`
+      - `id` (uuid, primary key)
+      - `name` (text, required)
+      - `created_at` (timestamp)
+    - `organization_members`
+      - `org_id` (uuid, references organizations)
+      - `user_id` (uuid, references auth.users, unique) - a user belongs to one organization
+      - `email` (text) - copied from auth.users so admins can list their team
+      - `role` (text) - classifier, reviewer or admin
+      - `created_at` (timestamp)
+
+  2. Changes
+    - Add `owner_id` (defaults to auth.uid()) and `org_id` (defaults to the caller's organization)
+      to `classifications` and `classification_batches`
+    - Add `org_id` and `changed_by_user_id` to `classification_history`; the trigger fills both,
+      so the recorded identity comes from the session rather than the client
+
+  3. Roles
+    - classifier: create classifications and batches, edit and submit own drafts
+    - reviewer: read everything in the organization, record review decisions
+    - admin: everything, including soft delete/restore and managing members
+    - Review decisions and soft deletes are checked in a trigger because RLS cannot compare
+      old and new column values
+
+  4. Security
+    - Replace the open `public` policies with policies scoped to the caller's organization
+    - `create_organization`, `add_organization_member`, `set_organization_member_role` and
+      `remove_organization_member` are the only ways to change membership; they act on the
+      caller's own organization and only signed-in users can execute them
+    - `bootstrap_organization_admin` adds the first admin of an organization and is executable
+      by the service role only
+
+  5. Data
+    - Rows created before this migration are moved into a "Default organization"; add its first
+      admin with `bootstrap_organization_admin` from the SQL editor
+*/
+
+CREATE TABLE IF NOT EXISTS organizations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS organization_members (
+  org_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  role text NOT NULL DEFAULT 'classifier' CHECK (role IN ('classifier', 'reviewer', 'admin')),
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (org_id, user_id)
+);
+
+-- Helpers run as the owner so policies on organization_members do not recurse into themselves
+CREATE OR REPLACE FUNCTION current_org_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT org_id FROM organization_members WHERE user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION has_org_role(target_org uuid, roles text[])
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE user_id = auth.uid() AND org_id = target_org AND role = ANY (roles)
+  );
+$$;
+
+ALTER TABLE classifications
+  ADD COLUMN IF NOT EXISTS owner_id uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS org_id uuid DEFAULT current_org_id() REFERENCES organizations(id);
+
+ALTER TABLE classification_batches
+  ADD COLUMN IF NOT EXISTS owner_id uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS org_id uuid DEFAULT current_org_id() REFERENCES organizations(id);
+
+ALTER TABLE classification_history
+  ADD COLUMN IF NOT EXISTS org_id uuid REFERENCES organizations(id),
+  ADD COLUMN IF NOT EXISTS changed_by_user_id uuid;
+
+-- Existing data is kept together in one organization rather than becoming invisible
+DO $$
+DECLARE
+  default_org uuid;
+BEGIN
+  IF EXISTS (SELECT 1 FROM classifications WHERE org_id IS NULL)
+    OR EXISTS (SELECT 1 FROM classification_batches WHERE org_id IS NULL) THEN
+    INSERT INTO organizations (name) VALUES ('Default organization') RETURNING id INTO default_org;
+    UPDATE classifications SET org_id = default_org WHERE org_id IS NULL;
+    UPDATE classification_batches SET org_id = default_org WHERE org_id IS NULL;
+  END IF;
+END;
+$$;
+
+-- History rows are immutable, so the backfill briefly lifts the guard trigger
+ALTER TABLE classification_history DISABLE TRIGGER prevent_classification_history_mutation;
+UPDATE classification_history h
+SET org_id = c.org_id
+FROM classifications c
+WHERE h.classification_id = c.id AND h.org_id IS NULL;
+ALTER TABLE classification_history ENABLE TRIGGER prevent_classification_history_mutation;
+
+ALTER TABLE classifications ALTER COLUMN org_id SET NOT NULL;
+ALTER TABLE classification_batches ALTER COLUMN org_id SET NOT NULL;
+
+CREATE OR REPLACE FUNCTION record_classification_history()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  next_version integer;
+  change_action text;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    change_action := 'insert';
+  ELSIF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+    change_action := 'delete';
+  ELSIF OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN
+    change_action := 'restore';
+  ELSE
+    change_action := 'update';
+  END IF;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO next_version
+  FROM classification_history
+  WHERE classification_id = NEW.id;
+
+  INSERT INTO classification_history (
+    classification_id, org_id, version, action, changed_by, changed_by_user_id, reason, old_values, new_values
+  )
+  VALUES (
+    NEW.id,
+    NEW.org_id,
+    next_version,
+    change_action,
+    NEW.changed_by,
+    auth.uid(),
+    NEW.change_reason,
+    CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(OLD) END,
+    to_jsonb(NEW)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- Role checks that depend on what an update changes
+CREATE OR REPLACE FUNCTION enforce_classification_roles()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Service-role and SQL editor sessions have no auth.uid() and are trusted
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.org_id IS DISTINCT FROM OLD.org_id OR NEW.owner_id IS DISTINCT FROM OLD.owner_id THEN
+    RAISE EXCEPTION 'Classifications cannot be moved to another organization or owner';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND NEW.status IN ('approved', 'rejected', 'overridden')
+    AND NOT has_org_role(NEW.org_id, ARRAY['reviewer', 'admin']) THEN
+    RAISE EXCEPTION 'Only reviewers can approve, reject or override classifications';
+  END IF;
+
+  -- Once decided, a row is the reviewer's; its owner cannot rewrite the code under the approval
+  IF NOT has_org_role(NEW.org_id, ARRAY['reviewer', 'admin']) THEN
+    IF OLD.status NOT IN ('draft', 'pending_review') THEN
+      RAISE EXCEPTION 'Only reviewers can change a classification after it has been reviewed';
+    END IF;
+
+    IF NEW.reviewed_by IS DISTINCT FROM OLD.reviewed_by
+      OR NEW.reviewed_at IS DISTINCT FROM OLD.reviewed_at
+      OR NEW.review_comment IS DISTINCT FROM OLD.review_comment
+      OR NEW.ai_suggestion IS DISTINCT FROM OLD.ai_suggestion THEN
+      RAISE EXCEPTION 'Only reviewers can record review details';
+    END IF;
+  END IF;
+
+  IF NEW.deleted_at IS DISTINCT FROM OLD.deleted_at
+    AND NOT has_org_role(NEW.org_id, ARRAY['admin']) THEN
+    RAISE EXCEPTION 'Only admins can delete or restore classifications';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_classification_roles ON classifications;
+
+CREATE TRIGGER enforce_classification_roles
+  BEFORE UPDATE ON classifications
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_classification_roles();
+
+-- Replace the open policies
+DROP POLICY IF EXISTS "Anyone can read classifications" ON classifications;
+DROP POLICY IF EXISTS "Anyone can create classifications" ON classifications;
+DROP POLICY IF EXISTS "Users can update their own classifications" ON classifications;
+DROP POLICY IF EXISTS "Anyone can read classification batches" ON classification_batches;
+DROP POLICY IF EXISTS "Anyone can create classification batches" ON classification_batches;
+DROP POLICY IF EXISTS "Anyone can read classification history" ON classification_history;
+
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read their organization"
+  ON organizations
+  FOR SELECT
+  TO authenticated
+  USING (id = current_org_id());
+
+CREATE POLICY "Members can read their organization's members"
+  ON organization_members
+  FOR SELECT
+  TO authenticated
+  USING (org_id = current_org_id());
+
+CREATE POLICY "Members can read their organization's classifications"
+  ON classifications
+  FOR SELECT
+  TO authenticated
+  USING (org_id = current_org_id());
+
+CREATE POLICY "Classifiers can create classifications"
+  ON classifications
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    org_id = current_org_id()
+    AND owner_id = auth.uid()
+    AND has_org_role(org_id, ARRAY['classifier', 'admin'])
+  );
+
+CREATE POLICY "Owners, reviewers and admins can update classifications"
+  ON classifications
+  FOR UPDATE
+  TO authenticated
+  USING (
+    org_id = current_org_id()
+    AND (owner_id = auth.uid() OR has_org_role(org_id, ARRAY['reviewer', 'admin']))
+  )
+  WITH CHECK (org_id = current_org_id());
+
+CREATE POLICY "Members can read their organization's batches"
+  ON classification_batches
+  FOR SELECT
+  TO authenticated
+  USING (org_id = current_org_id());
+
+CREATE POLICY "Classifiers can create batches"
+  ON classification_batches
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    org_id = current_org_id()
+    AND owner_id = auth.uid()
+    AND has_org_role(org_id, ARRAY['classifier', 'admin'])
+  );
+
+CREATE POLICY "Members can read their organization's history"
+  ON classification_history
+  FOR SELECT
+  TO authenticated
+  USING (org_id = current_org_id());
+
+-- Membership management
+CREATE OR REPLACE FUNCTION create_organization(org_name text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_org uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to create an organization';
+  END IF;
+  IF current_org_id() IS NOT NULL THEN
+    RAISE EXCEPTION 'You already belong to an organization';
+  END IF;
+  IF trim(coalesce(org_name, '')) = '' THEN
+    RAISE EXCEPTION 'Organization name is required';
+  END IF;
+
+  INSERT INTO organizations (name) VALUES (trim(org_name)) RETURNING id INTO new_org;
+  INSERT INTO organization_members (org_id, user_id, email, role)
+  SELECT new_org, id, email, 'admin' FROM auth.users WHERE id = auth.uid();
+
+  RETURN new_org;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION add_organization_member(member_email text, member_role text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  member auth.users%ROWTYPE;
+BEGIN
+  IF NOT has_org_role(current_org_id(), ARRAY['admin']) THEN
+    RAISE EXCEPTION 'Only admins can add members';
+  END IF;
+
+  SELECT * INTO member FROM auth.users WHERE lower(email) = lower(trim(member_email));
+  IF member.id IS NULL THEN
+    RAISE EXCEPTION 'No account exists for %; ask them to sign up first', member_email;
+  END IF;
+
+  INSERT INTO organization_members (org_id, user_id, email, role)
+  VALUES (current_org_id(), member.id, member.email, member_role);
+END;
+$$;
+
+-- First admin of an organization, e.g. the Default organization above; run from the SQL editor
+CREATE OR REPLACE FUNCTION bootstrap_organization_admin(member_email text, target_org uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  member auth.users%ROWTYPE;
+BEGIN
+  SELECT * INTO member FROM auth.users WHERE lower(email) = lower(trim(member_email));
+  IF member.id IS NULL THEN
+    RAISE EXCEPTION 'No account exists for %; ask them to sign up first', member_email;
+  END IF;
+
+  INSERT INTO organization_members (org_id, user_id, email, role)
+  VALUES (target_org, member.id, member.email, 'admin');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_organization_member_role(member_id uuid, member_role text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_org_role(current_org_id(), ARRAY['admin']) THEN
+    RAISE EXCEPTION 'Only admins can change roles';
+  END IF;
+  IF member_id = auth.uid() AND member_role <> 'admin' THEN
+    RAISE EXCEPTION 'Admins cannot remove their own admin role';
+  END IF;
+
+  UPDATE organization_members
+  SET role = member_role
+  WHERE user_id = member_id AND org_id = current_org_id();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION remove_organization_member(member_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_org_role(current_org_id(), ARRAY['admin']) THEN
+    RAISE EXCEPTION 'Only admins can remove members';
+  END IF;
+  IF member_id = auth.uid() THEN
+    RAISE EXCEPTION 'Admins cannot remove themselves';
+  END IF;
+
+  DELETE FROM organization_members
+  WHERE user_id = member_id AND org_id = current_org_id();
+END;
+$$;
+
+-- Functions are executable by public by default; membership changes need a signed-in admin
+REVOKE EXECUTE ON FUNCTION create_organization(text) FROM public, anon;
+REVOKE EXECUTE ON FUNCTION add_organization_member(text, text) FROM public, anon;
+REVOKE EXECUTE ON FUNCTION set_organization_member_role(uuid, text) FROM public, anon;
+REVOKE EXECUTE ON FUNCTION remove_organization_member(uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION create_organization(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION add_organization_member(text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_organization_member_role(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION remove_organization_member(uuid) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION bootstrap_organization_admin(text, uuid) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION bootstrap_organization_admin(text, uuid) TO service_role;
+
+CREATE INDEX IF NOT EXISTS idx_classifications_org_id ON classifications (org_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_classification_batches_org_id ON classification_batches (org_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_classification_history_org_id ON classification_history (org_id);
+CREATE INDEX IF NOT EXISTS idx_organization_members_org_id ON organization_members (org_id);
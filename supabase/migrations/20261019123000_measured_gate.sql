@@ -0,0 +1,75 @@
+/*
+  # API Proxy Usage Quotas
+
+  1. New Tables
+    - `api_usage`
+      - `id` (bigint, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `endpoint` (text) - classify, analyze-company or embed
+      - `units` (integer) - what the call counts for; one per text for embed, otherwise 1
+      - `created_at` (timestamp)
+
+  2. Functions
+    - `consume_api_quota(user, endpoint, limit, window, units)` - records a call and reports whether
+      it was within the user's quota; serialised per user so concurrent batch requests cannot overshoot.
+      Returns the usage row, which the API server deletes again when the provider call fails.
+
+  3. Security
+    - RLS enabled with a read-own policy; only the API server's service role can record usage
+*/
+
+CREATE TABLE IF NOT EXISTS api_usage (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  endpoint text NOT NULL,
+  units integer NOT NULL DEFAULT 1 CHECK (units > 0),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE api_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own API usage"
+  ON api_usage
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION consume_api_quota(
+  p_user_id uuid,
+  p_endpoint text,
+  p_limit integer,
+  p_window interval DEFAULT interval '1 day',
+  p_units integer DEFAULT 1
+)
+RETURNS TABLE (allowed boolean, used integer, usage_id bigint)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_count integer;
+  new_usage_id bigint;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(p_user_id::text || ':' || p_endpoint));
+
+  SELECT COALESCE(sum(units), 0) INTO current_count
+  FROM api_usage
+  WHERE user_id = p_user_id
+    AND endpoint = p_endpoint
+    AND created_at > now() - p_window;
+
+  IF current_count + p_units > p_limit THEN
+    RETURN QUERY SELECT false, current_count, NULL::bigint;
+    RETURN;
+  END IF;
+
+  INSERT INTO api_usage (user_id, endpoint, units) VALUES (p_user_id, p_endpoint, p_units)
+  RETURNING id INTO new_usage_id;
+  RETURN QUERY SELECT true, current_count + p_units, new_usage_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION consume_api_quota(uuid, text, integer, interval, integer) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION consume_api_quota(uuid, text, integer, interval, integer) TO service_role;
+
+CREATE INDEX IF NOT EXISTS idx_api_usage_user_endpoint ON api_usage (user_id, endpoint, created_at DESC);
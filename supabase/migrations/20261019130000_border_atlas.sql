@@ -0,0 +1,17 @@
+/*
+  # National Tariff Lines per Import Jurisdiction
+
+  1. Changes
+    - Add to `classifications`
+      - `jurisdiction` (text, optional) - destination the code was classified for:
+        US_HTS (10-digit HTSUS), EU_CN (8-digit CN), EU_TARIC (10-digit TARIC)
+        or IN_ITC_HS (8-digit ITC-HS); `hs_code` holds the full national line
+
+  2. Data
+    - Existing rows stay NULL: their two national digits were never tied to a schedule, so
+      only the first six digits (the HS subheading) are meaningful
+*/
+
+ALTER TABLE classifications
+  ADD COLUMN IF NOT EXISTS jurisdiction text
+    CHECK (jurisdiction IN ('US_HTS', 'EU_CN', 'EU_TARIC', 'IN_ITC_HS'));
@@ -0,0 +1,15 @@
+/*
+  # Export Control Correlation
+
+  1. Changes
+    - Add to `classifications`
+      - `control_entries` (jsonb, default '[]') - EU Annex I and US CCL entries correlated with
+        `hs_code`, each with the parameters to check; `is_dual_use` is now derived from these
+        entries by the application instead of being the model's opinion
+
+  2. Data
+    - Existing rows keep their model-assigned `is_dual_use` until their code is next written
+*/
+
+ALTER TABLE classifications
+  ADD COLUMN IF NOT EXISTS control_entries jsonb NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,18 @@
+/*
+  # Destination Sanctions and Embargo Checks
+
+  1. Changes
+    - Add to `classifications`
+      - `destination_country` (text, optional) - ISO 3166-1 alpha-2 code of the country the goods ship to
+      - `sanctions_verdict` (text, optional) - allowed, licence_required or prohibited; NULL when no
+        destination was given
+      - `sanctions_rules` (jsonb, default '[]') - the EU and US measures that produced the verdict
+*/
+
+ALTER TABLE classifications
+  ADD COLUMN IF NOT EXISTS destination_country text
+    CHECK (destination_country ~ '^[A-Z]{2}$'),
+  ADD COLUMN IF NOT EXISTS sanctions_verdict text
+    CHECK (sanctions_verdict IN ('allowed', 'licence_required', 'prohibited')),
+  ADD COLUMN IF NOT EXISTS sanctions_rules jsonb NOT NULL DEFAULT '[]'::jsonb;
+
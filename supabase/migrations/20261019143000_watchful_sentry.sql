@@ -0,0 +1,125 @@
+/*
+  # Denied-Party Screening
+
+  1. New Tables
+    - `party_screenings`
+      - `id` (uuid, primary key)
+      - `org_id` (uuid, references organizations) and `owner_id` (uuid, references auth.users)
+      - `subject` (text) - customer (of a classification) or company (of a company analysis)
+      - `screened_name` (text) - the name as entered
+      - `threshold` (numeric) - the match threshold the screening ran with
+      - `status` (text) - clear, potential_match, confirmed_match or cleared
+      - `matches` (jsonb) - list entries scoring at or above the threshold, with the reviewer's decision on each
+      - `reviewed_by`, `reviewed_at`, `review_comment` - the compliance review of the matches
+      - `created_at` (timestamp)
+
+  2. Changes
+    - Add `screening_threshold` (numeric, default 0.85) to `organizations`
+    - Add `party_screening_id` (uuid, optional) to `classifications`, the screening of its customer
+
+  3. Functions
+    - `set_screening_threshold(threshold)` - admins change their organization's match threshold
+
+  4. Security
+    - Members read their organization's screenings; classifiers and admins create them; reviewers
+      and admins record the review
+    - Only signed-in users can execute `set_screening_threshold`
+    - Recreate the classification insert and update policies so `party_screening_id` can only point
+      at a screening of the caller's organization
+*/
+
+ALTER TABLE organizations
+  ADD COLUMN IF NOT EXISTS screening_threshold numeric NOT NULL DEFAULT 0.85
+    CHECK (screening_threshold BETWEEN 0.6 AND 1);
+
+CREATE TABLE IF NOT EXISTS party_screenings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL DEFAULT current_org_id() REFERENCES organizations(id),
+  owner_id uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  subject text NOT NULL CHECK (subject IN ('customer', 'company')),
+  screened_name text NOT NULL,
+  threshold numeric NOT NULL,
+  status text NOT NULL CHECK (status IN ('clear', 'potential_match', 'confirmed_match', 'cleared')),
+  matches jsonb NOT NULL DEFAULT '[]'::jsonb,
+  reviewed_by text,
+  reviewed_at timestamptz,
+  review_comment text,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE classifications
+  ADD COLUMN IF NOT EXISTS party_screening_id uuid REFERENCES party_screenings(id) ON DELETE SET NULL;
+
+ALTER TABLE party_screenings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read their organization's screenings"
+  ON party_screenings
+  FOR SELECT
+  TO authenticated
+  USING (org_id = current_org_id());
+
+CREATE POLICY "Classifiers can create screenings"
+  ON party_screenings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    org_id = current_org_id()
+    AND owner_id = auth.uid()
+    AND has_org_role(org_id, ARRAY['classifier', 'admin'])
+  );
+
+CREATE POLICY "Reviewers can review screenings"
+  ON party_screenings
+  FOR UPDATE
+  TO authenticated
+  USING (org_id = current_org_id() AND has_org_role(org_id, ARRAY['reviewer', 'admin']))
+  WITH CHECK (org_id = current_org_id());
+
+DROP POLICY IF EXISTS "Classifiers can create classifications" ON classifications;
+DROP POLICY IF EXISTS "Owners, reviewers and admins can update classifications" ON classifications;
+
+CREATE POLICY "Classifiers can create classifications"
+  ON classifications
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    org_id = current_org_id()
+    AND owner_id = auth.uid()
+    AND has_org_role(org_id, ARRAY['classifier', 'admin'])
+    AND (party_screening_id IS NULL
+      OR EXISTS (SELECT 1 FROM party_screenings s WHERE s.id = party_screening_id AND s.org_id = current_org_id()))
+  );
+
+CREATE POLICY "Owners, reviewers and admins can update classifications"
+  ON classifications
+  FOR UPDATE
+  TO authenticated
+  USING (
+    org_id = current_org_id()
+    AND (owner_id = auth.uid() OR has_org_role(org_id, ARRAY['reviewer', 'admin']))
+  )
+  WITH CHECK (
+    org_id = current_org_id()
+    AND (party_screening_id IS NULL
+      OR EXISTS (SELECT 1 FROM party_screenings s WHERE s.id = party_screening_id AND s.org_id = current_org_id()))
+  );
+
+CREATE OR REPLACE FUNCTION set_screening_threshold(threshold numeric)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_org_role(current_org_id(), ARRAY['admin']) THEN
+    RAISE EXCEPTION 'Only admins can change the screening threshold';
+  END IF;
+
+  UPDATE organizations
+  SET screening_threshold = threshold
+  WHERE id = current_org_id();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_screening_threshold(numeric) FROM public, anon;
+GRANT EXECUTE ON FUNCTION set_screening_threshold(numeric) TO authenticated;
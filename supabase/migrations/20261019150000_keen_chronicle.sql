@@ -0,0 +1,94 @@
+/*
+  # Company Analyses
+
+  1. New Tables
+    - `companies` - one row per analysis run; runs of the same company share its name
+      - `id` (uuid, primary key)
+      - `org_id` (uuid, references organizations) and `owner_id` (uuid, references auth.users)
+      - `name` (text) - the company name as entered
+      - `website` (text, optional)
+      - `industry` (text) - primary industry sector reported by the analysis
+      - `risk_level` (text) - Low, Medium or High
+      - `party_screening_id` (uuid, optional) - the denied-party screening run with the analysis
+      - `analyzed_by` (text) - who ran the analysis
+      - `created_at` (timestamp)
+    - `company_products`
+      - `id` (uuid, primary key)
+      - `company_id` (uuid, references companies)
+      - `org_id` (uuid, references organizations)
+      - `position` (integer) - order in the analysis
+      - `name`, `category`, `hs_code`, `confidence`, `is_dual_use` - as reported by the analysis
+
+  2. Indexes
+    - `companies (org_id, created_at)` for the recent analyses list
+    - `company_products (company_id)`
+
+  3. Security
+    - Runs are snapshots: members read them, classifiers and admins create them, nobody updates them
+    - A run's `party_screening_id` must be a screening of the caller's organization
+*/
+
+CREATE TABLE IF NOT EXISTS companies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL DEFAULT current_org_id() REFERENCES organizations(id),
+  owner_id uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  website text,
+  industry text NOT NULL,
+  risk_level text NOT NULL CHECK (risk_level IN ('Low', 'Medium', 'High')),
+  party_screening_id uuid REFERENCES party_screenings(id) ON DELETE SET NULL,
+  analyzed_by text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS company_products (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id uuid NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  org_id uuid NOT NULL DEFAULT current_org_id() REFERENCES organizations(id),
+  position integer NOT NULL DEFAULT 0,
+  name text NOT NULL,
+  category text,
+  hs_code text NOT NULL,
+  confidence integer NOT NULL CHECK (confidence >= 0 AND confidence <= 100),
+  is_dual_use boolean NOT NULL DEFAULT false
+);
+
+CREATE INDEX IF NOT EXISTS idx_companies_org_created_at ON companies (org_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_company_products_company_id ON company_products (company_id);
+
+ALTER TABLE companies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE company_products ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read their organization's companies"
+  ON companies
+  FOR SELECT
+  TO authenticated
+  USING (org_id = current_org_id());
+
+CREATE POLICY "Classifiers can create companies"
+  ON companies
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    org_id = current_org_id()
+    AND owner_id = auth.uid()
+    AND has_org_role(org_id, ARRAY['classifier', 'admin'])
+    AND (party_screening_id IS NULL
+      OR EXISTS (SELECT 1 FROM party_screenings s WHERE s.id = party_screening_id AND s.org_id = current_org_id()))
+  );
+
+CREATE POLICY "Members can read their organization's company products"
+  ON company_products
+  FOR SELECT
+  TO authenticated
+  USING (org_id = current_org_id());
+
+CREATE POLICY "Classifiers can create company products"
+  ON company_products
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    org_id = current_org_id()
+    AND has_org_role(org_id, ARRAY['classifier', 'admin'])
+    AND EXISTS (SELECT 1 FROM companies c WHERE c.id = company_id AND c.org_id = current_org_id())
+  );
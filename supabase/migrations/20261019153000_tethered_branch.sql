@@ -0,0 +1,52 @@
+/*
+  # Classifications from Company Analyses
+
+  1. Changes
+    - Add `company_id` (uuid, optional) to `classifications` - the company analysis run a product
+      was drilled into from; NULL for classifications entered directly
+
+  2. Indexes
+    - `classifications (company_id)` where set, for a run's classified products
+
+  3. Security
+    - Recreate the classification insert and update policies so `company_id` can only point at an
+      analysis run of the caller's organization
+*/
+
+ALTER TABLE classifications
+  ADD COLUMN IF NOT EXISTS company_id uuid REFERENCES companies(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_classifications_company_id ON classifications (company_id) WHERE company_id IS NOT NULL;
+
+DROP POLICY IF EXISTS "Classifiers can create classifications" ON classifications;
+DROP POLICY IF EXISTS "Owners, reviewers and admins can update classifications" ON classifications;
+
+CREATE POLICY "Classifiers can create classifications"
+  ON classifications
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    org_id = current_org_id()
+    AND owner_id = auth.uid()
+    AND has_org_role(org_id, ARRAY['classifier', 'admin'])
+    AND (party_screening_id IS NULL
+      OR EXISTS (SELECT 1 FROM party_screenings s WHERE s.id = party_screening_id AND s.org_id = current_org_id()))
+    AND (company_id IS NULL
+      OR EXISTS (SELECT 1 FROM companies c WHERE c.id = company_id AND c.org_id = current_org_id()))
+  );
+
+CREATE POLICY "Owners, reviewers and admins can update classifications"
+  ON classifications
+  FOR UPDATE
+  TO authenticated
+  USING (
+    org_id = current_org_id()
+    AND (owner_id = auth.uid() OR has_org_role(org_id, ARRAY['reviewer', 'admin']))
+  )
+  WITH CHECK (
+    org_id = current_org_id()
+    AND (party_screening_id IS NULL
+      OR EXISTS (SELECT 1 FROM party_screenings s WHERE s.id = party_screening_id AND s.org_id = current_org_id()))
+    AND (company_id IS NULL
+      OR EXISTS (SELECT 1 FROM companies c WHERE c.id = company_id AND c.org_id = current_org_id()))
+  );
@@ -0,0 +1,72 @@
+/*
+  # Rule-Based Company Risk Scoring
+
+  1. Changes
+    - Add `risk_rules` (jsonb, optional) to `organizations` - factor weights and the Medium and High
+      score thresholds; the application defaults apply while it is null
+    - Add `risk_score` (numeric, optional) and `risk_factors` (jsonb) to `companies` - the score and
+      contributing factors behind `risk_level`, as computed for the run
+    - Add `destination_country` (text, optional) to `companies` - the destination the run was scored for
+
+  2. Functions
+    - `set_risk_rules(rules)` - admins change their organization's scoring rules; weights must be
+      non-negative numbers and `highAt` must not be below `mediumAt`
+
+  3. Security
+    - Only signed-in users can execute `set_risk_rules`
+*/
+
+ALTER TABLE organizations
+  ADD COLUMN IF NOT EXISTS risk_rules jsonb
+    CHECK (risk_rules IS NULL OR jsonb_typeof(risk_rules) = 'object');
+
+ALTER TABLE companies
+  ADD COLUMN IF NOT EXISTS risk_score numeric,
+  ADD COLUMN IF NOT EXISTS risk_factors jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS destination_country text;
+
+CREATE OR REPLACE FUNCTION set_risk_rules(rules jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  factor text;
+  weight jsonb;
+BEGIN
+  IF NOT has_org_role(current_org_id(), ARRAY['admin']) THEN
+    RAISE EXCEPTION 'Only admins can change the risk scoring rules';
+  END IF;
+
+  -- Every reader of the stored rules relies on these, not only the client that saves them
+  IF jsonb_typeof(rules -> 'weights') IS DISTINCT FROM 'object' THEN
+    RAISE EXCEPTION 'Risk rules need a weights object';
+  END IF;
+  FOR factor, weight IN SELECT key, value FROM jsonb_each(rules -> 'weights') LOOP
+    IF jsonb_typeof(weight) <> 'number' THEN
+      RAISE EXCEPTION 'Weight of % must be a number', factor;
+    END IF;
+    IF weight::numeric < 0 THEN
+      RAISE EXCEPTION 'Weight of % must not be negative', factor;
+    END IF;
+  END LOOP;
+
+  IF jsonb_typeof(rules -> 'mediumAt') IS DISTINCT FROM 'number' OR jsonb_typeof(rules -> 'highAt') IS DISTINCT FROM 'number' THEN
+    RAISE EXCEPTION 'Risk rules need numeric mediumAt and highAt thresholds';
+  END IF;
+  IF (rules -> 'mediumAt')::numeric < 0 THEN
+    RAISE EXCEPTION 'The Medium threshold must not be negative';
+  END IF;
+  IF (rules -> 'highAt')::numeric < (rules -> 'mediumAt')::numeric THEN
+    RAISE EXCEPTION 'The High threshold must not be below the Medium threshold';
+  END IF;
+
+  UPDATE organizations
+  SET risk_rules = rules
+  WHERE id = current_org_id();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_risk_rules(jsonb) FROM public, anon;
+GRANT EXECUTE ON FUNCTION set_risk_rules(jsonb) TO authenticated;
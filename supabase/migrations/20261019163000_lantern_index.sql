@@ -0,0 +1,111 @@
+/*
+  # Classification Search
+
+  1. Changes
+    - Enable `pg_trgm`
+    - Add `search_vector` (tsvector, generated) to `classifications` - product name, description and
+      reasoning, weighted in that order
+
+  2. Indexes
+    - GIN on `search_vector` for ranked full-text search
+    - Trigram GIN on `product_name` and `customer_name` for fuzzy and substring matches
+    - `hs_code` with `text_pattern_ops` for chapter filters, which match the stored code's first digits
+    - Digits of `hs_code` with `text_pattern_ops` for HS code prefix searches; codes are stored
+      dotted (8471.30.01) but brokers often type digits only (847130), so both sides drop the dots
+
+  3. Functions
+    - `search_classifications(search_query, dual_use_only, result_limit, result_offset)` - live
+      classifications matching the query, best first, with highlighted product name and snippet
+      and the total match count. Runs as the caller, so row level security applies.
+
+  Matched terms in the highlights are wrapped in chr(2) and chr(3), which the client turns into
+  marks; the text itself is never rendered as HTML.
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE classifications
+  ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(product_name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(reasoning, '')), 'C')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_classifications_search_vector ON classifications USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_classifications_product_name_trgm ON classifications USING gin(product_name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_classifications_customer_name_trgm ON classifications USING gin(customer_name gin_trgm_ops)
+  WHERE customer_name IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_classifications_hs_code_prefix ON classifications (hs_code text_pattern_ops);
+CREATE INDEX IF NOT EXISTS idx_classifications_hs_code_digits_prefix
+  ON classifications ((regexp_replace(hs_code, '\D', '', 'g')) text_pattern_ops);
+
+CREATE OR REPLACE FUNCTION search_classifications(
+  search_query text,
+  dual_use_only boolean DEFAULT false,
+  result_limit integer DEFAULT 25,
+  result_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  rank real,
+  product_name_highlight text,
+  snippet text,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  term text := btrim(search_query);
+  ts_query tsquery := websearch_to_tsquery('english', term);
+  -- LIKE wildcards in the term match literally
+  pattern text := '%' || replace(replace(replace(term, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+  highlight text := 'StartSel=' || chr(2) || ', StopSel=' || chr(3);
+BEGIN
+  IF term = '' THEN
+    RETURN;
+  END IF;
+
+  -- Digits and dots only: an HS code or the start of one
+  IF term ~ '^[0-9][0-9.]*$' THEN
+    RETURN QUERY
+    SELECT
+      c.id,
+      1::real,
+      c.product_name,
+      left(c.description, 200),
+      count(*) OVER ()
+    FROM classifications c
+    WHERE c.deleted_at IS NULL
+      -- Uses idx_classifications_hs_code_digits_prefix
+      AND regexp_replace(c.hs_code, '\D', '', 'g') LIKE regexp_replace(term, '\D', '', 'g') || '%'
+      AND (NOT dual_use_only OR c.is_dual_use)
+    ORDER BY c.hs_code, c.created_at DESC
+    LIMIT result_limit OFFSET result_offset;
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    c.id,
+    (ts_rank_cd(c.search_vector, ts_query)
+      + greatest(similarity(c.product_name, term), similarity(coalesce(c.customer_name, ''), term)))::real,
+    ts_headline('english', c.product_name, ts_query, highlight || ', HighlightAll=true'),
+    ts_headline('english', c.description || ' ' || coalesce(c.reasoning, ''), ts_query,
+      highlight || ', MaxFragments=2, MaxWords=20, MinWords=8, FragmentDelimiter=" … "'),
+    count(*) OVER ()
+  FROM classifications c
+  WHERE c.deleted_at IS NULL
+    AND (NOT dual_use_only OR c.is_dual_use)
+    AND (
+      c.search_vector @@ ts_query
+      OR c.product_name % term
+      OR c.product_name ILIKE pattern
+      OR c.customer_name % term
+      OR c.customer_name ILIKE pattern
+    )
+  ORDER BY 2 DESC, c.created_at DESC
+  LIMIT result_limit OFFSET result_offset;
+END;
+$$;
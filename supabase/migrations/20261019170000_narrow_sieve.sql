@@ -0,0 +1,92 @@
+/*
+  # Classification History Filters
+
+  1. Functions
+    - Replace `search_classifications` with a version taking the history filters: created date
+      range, confidence range, HS chapter, customer, review status and jurisdiction. Unset
+      filters do not restrict. The signature changes, so the old function is dropped first.
+
+  2. Indexes
+    - `classifications (created_at DESC, id DESC)` on live rows, for keyset pagination of the
+      history by date
+*/
+
+DROP FUNCTION IF EXISTS search_classifications(text, boolean, integer, integer);
+
+CREATE OR REPLACE FUNCTION search_classifications(
+  search_query text,
+  dual_use_only boolean DEFAULT false,
+  created_from timestamptz DEFAULT NULL,
+  created_before timestamptz DEFAULT NULL,
+  min_confidence integer DEFAULT NULL,
+  max_confidence integer DEFAULT NULL,
+  chapter_filter text DEFAULT NULL,
+  customer_filter text DEFAULT NULL,
+  status_filter text DEFAULT NULL,
+  jurisdiction_filter text DEFAULT NULL,
+  result_limit integer DEFAULT 25,
+  result_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  rank real,
+  product_name_highlight text,
+  snippet text,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  term text := btrim(search_query);
+  ts_query tsquery := websearch_to_tsquery('english', term);
+  -- LIKE wildcards in the term and the customer filter match literally
+  pattern text := '%' || replace(replace(replace(term, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+  customer_pattern text := '%' || replace(replace(replace(btrim(customer_filter), '\', '\\'), '%', '\%'), '_', '\_') || '%';
+  highlight text := 'StartSel=' || chr(2) || ', StopSel=' || chr(3);
+BEGIN
+  IF term = '' THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    c.id,
+    CASE
+      WHEN term ~ '^[0-9][0-9.]*$' THEN 1::real
+      ELSE (ts_rank_cd(c.search_vector, ts_query)
+        + greatest(similarity(c.product_name, term), similarity(coalesce(c.customer_name, ''), term)))::real
+    END,
+    ts_headline('english', c.product_name, ts_query, highlight || ', HighlightAll=true'),
+    ts_headline('english', c.description || ' ' || coalesce(c.reasoning, ''), ts_query,
+      highlight || ', MaxFragments=2, MaxWords=20, MinWords=8, FragmentDelimiter=" … "'),
+    count(*) OVER ()
+  FROM classifications c
+  WHERE c.deleted_at IS NULL
+    AND (NOT dual_use_only OR c.is_dual_use)
+    AND (created_from IS NULL OR c.created_at >= created_from)
+    AND (created_before IS NULL OR c.created_at < created_before)
+    AND (min_confidence IS NULL OR c.confidence >= min_confidence)
+    AND (max_confidence IS NULL OR c.confidence <= max_confidence)
+    -- Uses idx_classifications_hs_code_prefix
+    AND (chapter_filter IS NULL OR c.hs_code LIKE regexp_replace(chapter_filter, '[^0-9]', '', 'g') || '%')
+    AND (customer_filter IS NULL OR c.customer_name ILIKE customer_pattern)
+    AND (status_filter IS NULL OR c.status = status_filter)
+    AND (jurisdiction_filter IS NULL OR c.jurisdiction = jurisdiction_filter)
+    AND CASE
+      -- Digits and dots only: an HS code or the start of one, dotted or not - uses idx_classifications_hs_code_digits_prefix
+      WHEN term ~ '^[0-9][0-9.]*$' THEN regexp_replace(c.hs_code, '\D', '', 'g') LIKE regexp_replace(term, '\D', '', 'g') || '%'
+      ELSE c.search_vector @@ ts_query
+        OR c.product_name % term
+        OR c.product_name ILIKE pattern
+        OR c.customer_name % term
+        OR c.customer_name ILIKE pattern
+    END
+  ORDER BY 2 DESC, c.created_at DESC
+  LIMIT result_limit OFFSET result_offset;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_classifications_live_created_at_id ON classifications (created_at DESC, id DESC)
+  WHERE deleted_at IS NULL;
@@ -0,0 +1,53 @@
+/*
+  # Classification Precedents
+
+  1. Changes
+    - Add `precedents` (jsonb) to `classifications` - the approved classifications of similar
+      products the model was given, with their similarity
+
+  2. Functions
+    - `match_precedents(product_query, jurisdiction_filter, match_count, min_similarity)` - approved
+      and overridden classifications whose product names are most similar to the query (pg_trgm),
+      optionally of one jurisdiction. Runs as the caller, so row level security applies.
+*/
+
+ALTER TABLE classifications
+  ADD COLUMN IF NOT EXISTS precedents jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE OR REPLACE FUNCTION match_precedents(
+  product_query text,
+  jurisdiction_filter text DEFAULT NULL,
+  match_count integer DEFAULT 5,
+  min_similarity real DEFAULT 0.35
+)
+RETURNS TABLE (
+  id uuid,
+  product_name text,
+  hs_code text,
+  description text,
+  similarity real,
+  reviewed_by text,
+  reviewed_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.product_name,
+    c.hs_code,
+    c.description,
+    similarity(c.product_name, product_query),
+    c.reviewed_by,
+    c.reviewed_at
+  FROM classifications c
+  WHERE c.deleted_at IS NULL
+    AND c.status IN ('approved', 'overridden')
+    AND (jurisdiction_filter IS NULL OR c.jurisdiction = jurisdiction_filter)
+    -- Uses idx_classifications_product_name_trgm
+    AND c.product_name % product_query
+    AND similarity(c.product_name, product_query) >= min_similarity
+  ORDER BY similarity(c.product_name, product_query) DESC, c.reviewed_at DESC NULLS LAST
+  LIMIT match_count;
+$$;
@@ -0,0 +1,135 @@
+/*
+  # Classification Embeddings
+
+  1. New Tables
+    - `classification_embeddings`
+      - `classification_id` (uuid, primary key, references classifications) - one embedding per
+        classification, from the current model; saving with a new model replaces the old vector
+      - `org_id` (uuid, references organizations) - defaults to the caller's organization
+      - `model` (text, required) - the embedding model; vectors of different models are never compared
+      - `embedding` (vector(768), required) - embedding of the product name
+      - `created_at` (timestamp)
+    - Kept out of `classifications` so the history trigger does not copy a vector into every
+      audit row, and so backfilling or re-embedding is not recorded as a change
+
+  2. Functions
+    - `match_classifications(query_embedding, embedding_model, match_count, min_similarity, exclude_id)` -
+      live classifications of the caller's organization whose product embeddings are closest to the
+      query by cosine similarity. Runs as the caller, so row level security applies; the organization
+      is also filtered inside the index scan, which keeps scanning until it finds enough of the
+      organization's rows instead of stopping at neighbours that belong to other tenants
+    - `classifications_missing_embeddings(embedding_model, batch_size)` - live classifications without
+      an embedding from the model, for the backfill; service role only
+
+  3. Security
+    - Members read their organization's embeddings; classifiers and admins add and replace
+      embeddings for their organization's classifications
+
+  4. Indexes
+    - HNSW index on `embedding` for cosine distance
+*/
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TABLE IF NOT EXISTS classification_embeddings (
+  classification_id uuid PRIMARY KEY REFERENCES classifications(id),
+  org_id uuid NOT NULL DEFAULT current_org_id() REFERENCES organizations(id),
+  model text NOT NULL,
+  embedding vector(768) NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE classification_embeddings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read their organization's embeddings"
+  ON classification_embeddings
+  FOR SELECT
+  TO authenticated
+  USING (org_id = current_org_id());
+
+CREATE POLICY "Classifiers can embed their organization's classifications"
+  ON classification_embeddings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    org_id = current_org_id()
+    AND has_org_role(org_id, ARRAY['classifier', 'admin'])
+    AND EXISTS (
+      SELECT 1 FROM classifications c
+      WHERE c.id = classification_id AND c.org_id = current_org_id()
+    )
+  );
+
+-- Upserts replace the vector when EMBEDDING_MODEL changes
+CREATE POLICY "Classifiers can re-embed their organization's classifications"
+  ON classification_embeddings
+  FOR UPDATE
+  TO authenticated
+  USING (org_id = current_org_id() AND has_org_role(org_id, ARRAY['classifier', 'admin']))
+  WITH CHECK (org_id = current_org_id());
+
+CREATE OR REPLACE FUNCTION match_classifications(
+  query_embedding vector(768),
+  embedding_model text,
+  match_count integer DEFAULT 10,
+  min_similarity real DEFAULT 0.5,
+  exclude_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  similarity real
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+-- The HNSW index spans every tenant; an iterative scan (pgvector 0.8+) keeps going past other organizations' rows
+SET hnsw.ef_search = 200
+SET hnsw.iterative_scan = relaxed_order
+AS $$
+  -- Uses idx_classification_embeddings_embedding; relaxed order means the outer query re-sorts
+  WITH nearest AS MATERIALIZED (
+    SELECT e.classification_id, e.embedding <=> query_embedding AS distance
+    FROM classification_embeddings e
+    JOIN classifications c ON c.id = e.classification_id
+    WHERE e.org_id = current_org_id()
+      AND c.deleted_at IS NULL
+      AND e.model = embedding_model
+      AND (exclude_id IS NULL OR e.classification_id <> exclude_id)
+    ORDER BY e.embedding <=> query_embedding
+    LIMIT match_count
+  )
+  SELECT classification_id, (1 - distance)::real
+  FROM nearest
+  WHERE 1 - distance >= min_similarity
+  ORDER BY distance;
+$$;
+
+CREATE OR REPLACE FUNCTION classifications_missing_embeddings(
+  embedding_model text,
+  batch_size integer DEFAULT 100
+)
+RETURNS TABLE (
+  id uuid,
+  org_id uuid,
+  product_name text
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT c.id, c.org_id, c.product_name
+  FROM classifications c
+  LEFT JOIN classification_embeddings e ON e.classification_id = c.id AND e.model = embedding_model
+  WHERE c.deleted_at IS NULL
+    AND c.org_id IS NOT NULL
+    AND e.classification_id IS NULL
+  ORDER BY c.created_at
+  LIMIT batch_size;
+$$;
+
+REVOKE EXECUTE ON FUNCTION classifications_missing_embeddings(text, integer) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION classifications_missing_embeddings(text, integer) TO service_role;
+
+CREATE INDEX IF NOT EXISTS idx_classification_embeddings_embedding ON classification_embeddings
+  USING hnsw (embedding vector_cosine_ops);
+CREATE INDEX IF NOT EXISTS idx_classification_embeddings_org_id ON classification_embeddings (org_id);
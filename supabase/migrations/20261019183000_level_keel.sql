@@ -0,0 +1,76 @@
+/*
+  # Classification Consistency Check
+
+  1. Functions
+    - `find_duplicate_classifications(min_name_similarity, min_semantic_similarity)` - pairs of live
+      classifications that describe the same product: the same SKU, near-identical product names
+      (pg_trgm) or product name embeddings of the same model that are almost the same. Each pair
+      is returned once per reason, first id lower. Runs as the caller, so row level security
+      applies.
+
+  2. Indexes
+    - Normalised SKU on live rows, for the SKU self-join
+*/
+
+CREATE OR REPLACE FUNCTION find_duplicate_classifications(
+  min_name_similarity real DEFAULT 0.8,
+  min_semantic_similarity real DEFAULT 0.93
+)
+RETURNS TABLE (
+  first_id uuid,
+  second_id uuid,
+  similarity real,
+  matched_on text
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+-- As in match_classifications: the neighbour scan must get past other organizations' rows
+SET hnsw.ef_search = 200
+SET hnsw.iterative_scan = relaxed_order
+AS $$
+  -- Uses idx_classifications_sku_normalized
+  SELECT a.id, b.id, 1::real, 'sku'
+  FROM classifications a
+  JOIN classifications b
+    ON lower(btrim(b.sku)) = lower(btrim(a.sku))
+    AND b.deleted_at IS NULL
+    AND a.id < b.id
+  WHERE a.deleted_at IS NULL
+    AND btrim(coalesce(a.sku, '')) <> ''
+
+  UNION ALL
+
+  -- Uses idx_classifications_product_name_trgm
+  SELECT a.id, b.id, similarity(a.product_name, b.product_name), 'name'
+  FROM classifications a
+  JOIN classifications b
+    ON b.product_name % a.product_name
+    AND b.deleted_at IS NULL
+    AND a.id < b.id
+  WHERE a.deleted_at IS NULL
+    AND similarity(a.product_name, b.product_name) >= min_name_similarity
+
+  UNION ALL
+
+  -- Uses idx_classification_embeddings_embedding, five nearest neighbours per row
+  SELECT e.classification_id, neighbour.classification_id, neighbour.similarity, 'meaning'
+  FROM classification_embeddings e
+  JOIN classifications a ON a.id = e.classification_id AND a.deleted_at IS NULL
+  CROSS JOIN LATERAL (
+    SELECT n.classification_id, (1 - (n.embedding <=> e.embedding))::real AS similarity
+    FROM classification_embeddings n
+    JOIN classifications b ON b.id = n.classification_id AND b.deleted_at IS NULL
+    WHERE n.org_id = e.org_id
+      AND n.model = e.model
+      AND n.classification_id <> e.classification_id
+    ORDER BY n.embedding <=> e.embedding
+    LIMIT 5
+  ) neighbour
+  WHERE e.org_id = current_org_id()
+    AND e.classification_id < neighbour.classification_id
+    AND neighbour.similarity >= min_semantic_similarity;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_classifications_sku_normalized ON classifications (lower(btrim(sku)))
+  WHERE deleted_at IS NULL AND sku IS NOT NULL;
@@ -0,0 +1,55 @@
+/*
+  # Atomic Company Analysis Saves
+
+  1. Functions
+    - `save_company_analysis(company, products)` - inserts an analysis run and its products in one
+      transaction and returns the run's id; a failed products insert no longer leaves a run with no
+      products behind, which nobody could delete
+
+  2. Security
+    - SECURITY INVOKER, so the insert policies on `companies` and `company_products` still apply
+*/
+
+CREATE OR REPLACE FUNCTION save_company_analysis(company jsonb, products jsonb DEFAULT '[]'::jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  new_company uuid;
+BEGIN
+  INSERT INTO companies (
+    name, website, industry, risk_level, risk_score, risk_factors, destination_country,
+    party_screening_id, analyzed_by
+  )
+  VALUES (
+    btrim(company->>'name'),
+    company->>'website',
+    company->>'industry',
+    company->>'risk_level',
+    (company->>'risk_score')::numeric,
+    COALESCE(company->'risk_factors', '[]'::jsonb),
+    company->>'destination_country',
+    (company->>'party_screening_id')::uuid,
+    company->>'analyzed_by'
+  )
+  RETURNING id INTO new_company;
+
+  INSERT INTO company_products (company_id, position, name, category, hs_code, confidence, is_dual_use)
+  SELECT
+    new_company,
+    (item.ordinality - 1)::integer,
+    item.value->>'name',
+    item.value->>'category',
+    item.value->>'hs_code',
+    (item.value->>'confidence')::integer,
+    COALESCE((item.value->>'is_dual_use')::boolean, false)
+  FROM jsonb_array_elements(COALESCE(products, '[]'::jsonb)) WITH ORDINALITY AS item(value, ordinality);
+
+  RETURN new_company;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION save_company_analysis(jsonb, jsonb) FROM public, anon;
+GRANT EXECUTE ON FUNCTION save_company_analysis(jsonb, jsonb) TO authenticated;
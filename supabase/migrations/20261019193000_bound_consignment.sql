@@ -0,0 +1,55 @@
+/*
+  # Atomic Batch Saves
+
+  1. Functions
+    - `save_classification_batch(batch_fields, classification_rows)` - inserts a batch run and its
+      classifications in one transaction and returns both; a failed insert no longer leaves an
+      empty batch in the run list
+      - Each classification inserts only the columns its JSON object names, so column defaults
+        apply exactly as they do for a direct insert
+
+  2. Security
+    - SECURITY INVOKER, so the insert policies and triggers on both tables still apply
+*/
+
+CREATE OR REPLACE FUNCTION save_classification_batch(batch_fields jsonb, classification_rows jsonb DEFAULT '[]'::jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  saved_batch classification_batches%ROWTYPE;
+  saved_row classifications%ROWTYPE;
+  saved_rows jsonb := '[]'::jsonb;
+  item jsonb;
+  column_list text;
+BEGIN
+  INSERT INTO classification_batches (file_name, row_count, failed_count)
+  VALUES (
+    batch_fields->>'file_name',
+    (batch_fields->>'row_count')::integer,
+    COALESCE((batch_fields->>'failed_count')::integer, 0)
+  )
+  RETURNING * INTO saved_batch;
+
+  FOR item IN
+    SELECT value || jsonb_build_object('batch_id', saved_batch.id)
+    FROM jsonb_array_elements(COALESCE(classification_rows, '[]'::jsonb))
+  LOOP
+    SELECT string_agg(quote_ident(key), ', ') INTO column_list FROM jsonb_object_keys(item) AS key;
+
+    EXECUTE format(
+      'INSERT INTO classifications (%1$s) SELECT %1$s FROM jsonb_populate_record(NULL::classifications, $1) RETURNING *',
+      column_list
+    ) INTO saved_row USING item;
+
+    saved_rows := saved_rows || jsonb_build_array(to_jsonb(saved_row));
+  END LOOP;
+
+  RETURN jsonb_build_object('batch', to_jsonb(saved_batch), 'classifications', saved_rows);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION save_classification_batch(jsonb, jsonb) FROM public, anon;
+GRANT EXECUTE ON FUNCTION save_classification_batch(jsonb, jsonb) TO authenticated;